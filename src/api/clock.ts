@@ -0,0 +1,254 @@
+/**
+ * Real-time game clock
+ *
+ * Simple Calendar's clock advances world time while it runs, which is what
+ * SmallTime's play button expects. Only the primary GM advances game.time; the
+ * running state is kept in a world setting so every client reports the same
+ * status and another GM can take over if the primary GM disconnects.
+ *
+ * Optionally the clock stops while the game is paused or combat is running,
+ * mirroring Simple Calendar's unifyGameAndClockPause option, and resumes afterward.
+ */
+
+import {
+  getClockSettings,
+  getStoredClockRunning,
+  isModuleSettingKey,
+  setStoredClockRunning,
+} from '../settings';
+
+const CLOCK_START_STOP_HOOK = 'simple-calendar-clock-start-stop';
+
+/**
+ * Why the clock was stopped automatically
+ */
+type AutoPauseReason = 'pause' | 'combat';
+
+/**
+ * Clock that advances world time on an interval while started
+ */
+export class GameClock {
+  private running: boolean;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private intervalFrequency = 0;
+  private lastTick = 0;
+  /** Fraction of a game second carried over between ticks */
+  private remainder = 0;
+  /** Reasons the clock is automatically stopped; it resumes once all are cleared */
+  private autoPaused = new Set<AutoPauseReason>();
+  /** Ids of started combats the clock has already stopped for */
+  private startedCombats = new Set<string>();
+  private hookIds: { hook: string; id: number }[] = [];
+
+  /**
+   * @param isPrimaryGM - Whether this client should advance world time
+   */
+  constructor(private isPrimaryGM: () => boolean) {
+    this.running = getStoredClockRunning();
+  }
+
+  /**
+   * Follow clock state changes from other clients and GM connections
+   */
+  registerHooks(): void {
+    if (this.hookIds.length > 0 || typeof Hooks === 'undefined') return;
+
+    const register = (hook: string, handler: (...args: any[]) => void): void => {
+      this.hookIds.push({ hook, id: Hooks.on(hook, handler) });
+    };
+
+    // The first write of a world setting creates its document; later writes update it
+    const onSetting = (setting: any): void => {
+      if (isModuleSettingKey(setting?.key)) this.sync();
+    };
+    register('createSetting', onSetting);
+    register('updateSetting', onSetting);
+
+    // Hand the interval over when the primary GM connects or disconnects
+    register('userConnected', () => this.refreshInterval());
+
+    register('pauseGame', (paused: boolean) => {
+      if (getClockSettings().unifyGameAndClockPause) this.setAutoPause('pause', paused);
+    });
+
+    // combatStart only fires on the client that starts combat; document hooks fire everywhere
+    const onCombat = (combat: any): void => {
+      if (!combat?.started || this.startedCombats.has(combat.id)) return;
+      this.startedCombats.add(combat.id);
+      if (getClockSettings().pauseClockDuringCombat) this.setAutoPause('combat', true);
+    };
+    register('createCombat', onCombat);
+    register('updateCombat', onCombat);
+    register('deleteCombat', (combat: any) => {
+      this.startedCombats.delete(combat?.id);
+      if (!hasStartedCombat()) this.setAutoPause('combat', false);
+    });
+
+    // A world can load already paused, with no pauseGame hook to follow
+    if (this.isHeldByPause()) this.setAutoPause('pause', true);
+
+    this.refreshInterval();
+  }
+
+  /**
+   * Whether the clock is running
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start the clock (GM only)
+   */
+  start(): void {
+    this.request(true);
+  }
+
+  /**
+   * Stop the clock (GM only)
+   */
+  stop(): void {
+    this.request(false);
+  }
+
+  /**
+   * Stop advancing world time and stop listening for changes
+   *
+   * The shared running state is left alone so another client can carry on.
+   */
+  destroy(): void {
+    this.clearInterval();
+    for (const { hook, id } of this.hookIds) {
+      Hooks.off(hook, id);
+    }
+    this.hookIds = [];
+  }
+
+  /**
+   * Start or stop the clock on request, re-announcing the state if it is unchanged
+   * so callers such as SmallTime can refresh their controls
+   */
+  private request(started: boolean): void {
+    if (started && this.isHeldByPause()) {
+      console.warn('🌉 Simple Calendar Bridge: The clock cannot start while the game is paused');
+      Hooks.callAll(CLOCK_START_STOP_HOOK, { started: this.running });
+      return;
+    }
+
+    this.autoPaused.clear();
+    if (game.user?.isGM && this.running === started) {
+      Hooks.callAll(CLOCK_START_STOP_HOOK, { started });
+      return;
+    }
+    this.setRunning(started);
+  }
+
+  private setRunning(started: boolean): void {
+    if (!game.user?.isGM) {
+      console.warn('🌉 Simple Calendar Bridge: Only a GM can start or stop the clock');
+      return;
+    }
+    if (this.running === started) return;
+
+    this.apply(started);
+    setStoredClockRunning(started).catch(error => {
+      console.error('🌉 Simple Calendar Bridge: Failed to save clock state:', error);
+    });
+  }
+
+  /**
+   * Stop the running clock for a pause or combat, or resume it once nothing
+   * holds it stopped any more
+   *
+   * Runs on GM clients only; players follow through the shared running state.
+   */
+  private setAutoPause(reason: AutoPauseReason, active: boolean): void {
+    if (!game.user?.isGM) return;
+
+    if (active) {
+      // Only remember reasons for a clock that was running when it was stopped
+      if (!this.running && this.autoPaused.size === 0) return;
+      this.autoPaused.add(reason);
+      this.setRunning(false);
+    } else if (this.autoPaused.delete(reason) && this.autoPaused.size === 0) {
+      this.setRunning(true);
+    }
+  }
+
+  /**
+   * Whether the game is paused and the clock follows the game pause
+   */
+  private isHeldByPause(): boolean {
+    return !!game.paused && getClockSettings().unifyGameAndClockPause;
+  }
+
+  /**
+   * Pick up the shared state and options after a setting change
+   */
+  private sync(): void {
+    const started = getStoredClockRunning();
+    if (started !== this.running) {
+      this.apply(started);
+    } else {
+      this.refreshInterval();
+    }
+  }
+
+  private apply(started: boolean): void {
+    this.running = started;
+    this.refreshInterval();
+    Hooks.callAll(CLOCK_START_STOP_HOOK, { started });
+  }
+
+  /**
+   * Run the interval only on the primary GM while the clock is started
+   */
+  private refreshInterval(): void {
+    if (!this.running || !this.isPrimaryGM()) {
+      this.clearInterval();
+      return;
+    }
+
+    const { updateFrequency } = getClockSettings();
+    if (this.intervalId !== null && this.intervalFrequency === updateFrequency) return;
+
+    this.clearInterval();
+    this.lastTick = Date.now();
+    this.intervalFrequency = updateFrequency;
+    this.intervalId = setInterval(() => this.tick(), updateFrequency * 1000);
+  }
+
+  private clearInterval(): void {
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.remainder = 0;
+  }
+
+  /**
+   * Advance world time by the real time elapsed since the last tick
+   */
+  private tick(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastTick) / 1000;
+    this.lastTick = now;
+
+    const gameSeconds = elapsed * getClockSettings().gameTimeRatio + this.remainder;
+    const whole = Math.floor(gameSeconds);
+    this.remainder = gameSeconds - whole;
+    if (whole <= 0) return;
+
+    game.time.advance(whole).catch(error => {
+      console.error('🌉 Simple Calendar Bridge: Failed to advance world time:', error);
+    });
+  }
+}
+
+/**
+ * Whether any combat encounter is still running
+ */
+function hasStartedCombat(): boolean {
+  const combats = (game as any).combats;
+  return !!combats?.some?.((combat: any) => combat.started);
+}
@@ -0,0 +1,150 @@
+/**
+ * Simple Calendar date format tokens
+ *
+ * Modules written for Simple Calendar pass format strings such as `MMMM DD, YYYY`
+ * or `hh:mm A`. Seasons & Stars uses a different template syntax, so the bridge
+ * renders Simple Calendar's documented tokens itself using the active calendar's
+ * month, weekday, year and time metadata.
+ */
+
+import { getTimeConfig } from '../utils/calendar-math';
+
+/**
+ * Date and time to format, in Simple Calendar's 0-based month/day convention
+ */
+export interface FormattableDate {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  seconds?: number;
+  /** 0-based index of the weekday, when known */
+  dayOfTheWeek?: number;
+}
+
+/**
+ * Month and weekday names resolved by the calendar provider, used in place of
+ * the calendar definition's names
+ */
+export interface FormatNames {
+  monthName?: string;
+  weekdayName?: string;
+}
+
+/**
+ * Matches bracket-escaped literals first, then tokens longest-first so `MMMM`
+ * is not read as four `M` tokens
+ */
+const TOKEN_PATTERN =
+  /\[([^\]]*)\]|YYYY|YY|YN|YA|YZ|MMMM|MMM|MM|M|DO|DD|D|dddd|ddd|dd|d|HH|H|hh|h|mm|ss|A|a/g;
+
+/**
+ * Get the English ordinal suffix for a day number (st, nd, rd or th)
+ */
+export function getOrdinalSuffix(day: number): string {
+  const lastTwoDigits = Math.abs(day) % 100;
+  if (lastTwoDigits >= 11 && lastTwoDigits <= 13) {
+    return 'th';
+  }
+
+  switch (Math.abs(day) % 10) {
+    case 1:
+      return 'st';
+    case 2:
+      return 'nd';
+    case 3:
+      return 'rd';
+    default:
+      return 'th';
+  }
+}
+
+/**
+ * Get the name of a year from the calendar's year names, if it defines any
+ *
+ * Names are assigned in order starting at `year.yearNamesStart` and repeat once
+ * the list runs out.
+ */
+export function getYearName(calendar: any, year: number): string {
+  const names = calendar?.year?.yearNames;
+  if (!Array.isArray(names) || names.length === 0) return '';
+
+  const start = calendar.year.yearNamesStart ?? 0;
+  const index = (((year - start) % names.length) + names.length) % names.length;
+  return names[index] || '';
+}
+
+/**
+ * Render a Simple Calendar format string for a date
+ *
+ * Supported tokens: YY, YYYY, YN, YA, YZ, M, MM, MMM, MMMM, D, DD, DO, d, dd, ddd,
+ * dddd, H, HH, h, hh, mm, ss, A and a. Text inside square brackets is output as-is.
+ *
+ * @param date - Date in Simple Calendar format (0-based month and day)
+ * @param format - Simple Calendar format string
+ * @param calendar - Active calendar definition (Seasons & Stars format)
+ * @param names - Optional provider-resolved month and weekday names
+ */
+export function formatSimpleCalendarDate(
+  date: FormattableDate,
+  format: string,
+  calendar: any,
+  names: FormatNames = {}
+): string {
+  const months: any[] = Array.isArray(calendar?.months) ? calendar.months : [];
+  const weekdays: any[] = Array.isArray(calendar?.weekdays) ? calendar.weekdays : [];
+  const { hoursInDay } = getTimeConfig(calendar);
+  const halfDay = Math.max(Math.floor(hoursInDay / 2), 1);
+
+  const month = months[date.month];
+  const monthName = names.monthName || month?.name || `Month ${date.month + 1}`;
+  const monthAbbreviation = month?.abbreviation || monthName.substring(0, 3);
+
+  const weekdayIndex = date.dayOfTheWeek ?? -1;
+  const weekday = weekdays[weekdayIndex];
+  const weekdayName =
+    names.weekdayName || weekday?.name || (weekdayIndex >= 0 ? `Day ${weekdayIndex + 1}` : '');
+  const weekdayAbbreviation = weekday?.abbreviation || weekdayName.substring(0, 3);
+
+  const day = date.day + 1;
+  const hour = date.hour || 0;
+  const hour12 = hour % halfDay === 0 ? halfDay : hour % halfDay;
+  const isPM = hour >= halfDay;
+
+  const pad = (value: number, length = 2): string => {
+    const sign = value < 0 ? '-' : '';
+    return sign + Math.abs(value).toString().padStart(length, '0');
+  };
+
+  const tokens: Record<string, () => string> = {
+    YYYY: () => date.year.toString(),
+    YY: () => pad(Math.abs(date.year) % 100),
+    YN: () => getYearName(calendar, date.year),
+    YA: () => calendar?.year?.prefix || '',
+    YZ: () => calendar?.year?.suffix || '',
+    MMMM: () => monthName,
+    MMM: () => monthAbbreviation,
+    MM: () => pad(date.month + 1),
+    M: () => (date.month + 1).toString(),
+    DO: () => `${day}${getOrdinalSuffix(day)}`,
+    DD: () => pad(day),
+    D: () => day.toString(),
+    dddd: () => weekdayName,
+    ddd: () => weekdayAbbreviation,
+    dd: () => weekdayAbbreviation.substring(0, 2),
+    d: () => (weekdayIndex >= 0 ? (weekdayIndex + 1).toString() : ''),
+    HH: () => pad(hour),
+    H: () => hour.toString(),
+    hh: () => pad(hour12),
+    h: () => hour12.toString(),
+    mm: () => pad(date.minute || 0),
+    ss: () => pad(date.seconds || 0),
+    A: () => (isPM ? 'PM' : 'AM'),
+    a: () => (isPM ? 'pm' : 'am'),
+  };
+
+  return format.replace(TOKEN_PATTERN, (match: string, literal?: string) =>
+    literal !== undefined ? literal : tokens[match]()
+  );
+}
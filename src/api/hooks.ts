@@ -2,7 +2,10 @@
  * Hook bridging system for Simple Calendar compatibility
  */
 
-import type { CalendarProvider } from '../types';
+import type { CalendarProvider, SimpleCalendarMoonData, SimpleCalendarSeasonData } from '../types';
+import { calculateMoons } from './moons';
+import { buildSeasons } from './seasons';
+import { GameClock } from './clock';
 
 /**
  * Foundry User interface for type safety
@@ -32,24 +35,6 @@ interface SimpleCalendarDate {
   };
 }
 
-/**
- * Simple Calendar moon data interface
- */
-interface SimpleCalendarMoon {
-  color: string;
-  currentPhase: {
-    icon: string;
-  };
-}
-
-/**
- * Simple Calendar season data interface
- */
-interface SimpleCalendarSeason {
-  name: string;
-  icon: string;
-}
-
 /**
  * Hooks system with internal structure access for debugging
  */
@@ -59,12 +44,23 @@ interface HooksSystemWithInternal {
   _hooks?: Record<string, Function[]>;
 }
 
+/**
+ * Registered hook listener, kept so it can be removed again
+ */
+interface HookListener {
+  hook: string;
+  id: number;
+}
+
 export class HookBridge {
   private provider: CalendarProvider;
-  private clockRunning = false;
+  private clock: GameClock;
   private readyEmitted = false;
   private readyTimeoutId?: ReturnType<typeof setTimeout>;
   private isActive = true;
+  private initialized = false;
+  private providerHooks: HookListener[] = [];
+  private foundryHooks: HookListener[] = [];
 
   // Simple Calendar hook names
   private readonly SIMPLE_CALENDAR_HOOKS = {
@@ -75,8 +71,13 @@ export class HookBridge {
     Ready: 'simple-calendar-ready',
   };
 
-  constructor(provider: CalendarProvider) {
+  /**
+   * @param provider - Calendar provider to bridge hooks from
+   * @param clock - Clock shared with the API bridge; its owner registers and destroys it
+   */
+  constructor(provider: CalendarProvider, clock?: GameClock) {
     this.provider = provider;
+    this.clock = clock ?? new GameClock(() => this.isPrimaryGM());
   }
 
   /**
@@ -85,6 +86,7 @@ export class HookBridge {
    */
   initialize(skipInitHook: boolean = false): void {
     console.log(`Simple Calendar Bridge: Setting up hook bridging for ${this.provider.name}`);
+    this.initialized = true;
 
     // Listen for provider-specific hooks and translate to Simple Calendar format
     this.setupProviderHooks();
@@ -129,14 +131,14 @@ export class HookBridge {
   private setupProviderHooks(): void {
     // Seasons & Stars specific hooks
     if (this.provider.name === 'Seasons & Stars') {
-      Hooks.on('seasons-stars:dateChanged', this.onDateChanged.bind(this));
-      Hooks.on('seasons-stars:calendarChanged', this.onCalendarChanged.bind(this));
+      this.listen(this.providerHooks, 'seasons-stars:dateChanged', this.onDateChanged);
+      this.listen(this.providerHooks, 'seasons-stars:calendarChanged', this.onCalendarChanged);
     }
 
-    // About Time specific hooks (future)
-    // if (this.provider.name === 'About Time') {
-    //   Hooks.on('about-time:timeChanged', this.onDateChanged.bind(this));
-    // }
+    // About Time specific hooks
+    if (this.provider.name === 'About Time') {
+      this.listen(this.providerHooks, 'about-time:timeChanged', this.onDateChanged);
+    }
   }
 
   /**
@@ -144,10 +146,49 @@ export class HookBridge {
    */
   private setupFoundryHooks(): void {
     // Listen to core world time updates
-    Hooks.on('updateWorldTime', this.onWorldTimeUpdate.bind(this));
+    this.listen(this.foundryHooks, 'updateWorldTime', this.onWorldTimeUpdate);
 
     // Listen for setting changes that might affect calendar
-    Hooks.on('clientSettingChanged', this.onSettingUpdate.bind(this));
+    this.listen(this.foundryHooks, 'clientSettingChanged', this.onSettingUpdate);
+  }
+
+  private listen(listeners: HookListener[], hook: string, handler: Function): void {
+    listeners.push({ hook, id: Hooks.on(hook, handler.bind(this)) });
+  }
+
+  private unlisten(listeners: HookListener[]): void {
+    for (const { hook, id } of listeners.splice(0)) {
+      Hooks.off(hook, id);
+    }
+  }
+
+  /**
+   * Bridge hooks from another provider, e.g. after a calendar module loaded late
+   */
+  setProvider(provider: CalendarProvider): void {
+    this.unlisten(this.providerHooks);
+    this.provider = provider;
+
+    if (this.initialized) {
+      this.setupProviderHooks();
+    }
+  }
+
+  /**
+   * Announce a provider switch so modules re-read calendar data
+   *
+   * Init is emitted again, Ready only if it was already emitted; a pending Ready
+   * still fires on its own schedule.
+   */
+  reannounce(): void {
+    console.log(`🌉 Simple Calendar Bridge: Re-announcing with ${this.provider.name}`);
+    Hooks.callAll(this.SIMPLE_CALENDAR_HOOKS.Init);
+
+    if (this.readyEmitted) {
+      Hooks.callAll(this.SIMPLE_CALENDAR_HOOKS.Ready);
+    }
+
+    this.onDateChanged();
   }
 
   /**
@@ -196,20 +237,18 @@ export class HookBridge {
   }
 
   /**
-   * Clock control methods
+   * Clock control methods, delegating to the shared clock
    */
   startClock(): void {
-    this.clockRunning = true;
-    Hooks.callAll(this.SIMPLE_CALENDAR_HOOKS.ClockStartStop, { started: true });
+    this.clock.start();
   }
 
   stopClock(): void {
-    this.clockRunning = false;
-    Hooks.callAll(this.SIMPLE_CALENDAR_HOOKS.ClockStartStop, { started: false });
+    this.clock.stop();
   }
 
   getClockStatus(): { started: boolean } {
-    return { started: this.clockRunning };
+    return { started: this.clock.isRunning() };
   }
 
   /**
@@ -256,27 +295,29 @@ export class HookBridge {
   }
 
   /**
-   * Get moon data for compatibility
+   * Get moon data for the current date from the provider's calendar
    */
-  private getAllMoons(): SimpleCalendarMoon[] {
-    return [
-      {
-        color: '#ffffff',
-        currentPhase: { icon: 'new' },
-      },
-    ];
+  private getAllMoons(): SimpleCalendarMoonData[] {
+    try {
+      return calculateMoons(this.provider.getActiveCalendar?.(), game.time?.worldTime || 0, date =>
+        this.provider.dateToWorldTime(date)
+      );
+    } catch (error) {
+      console.warn('Failed to calculate moon phases:', error);
+      return [];
+    }
   }
 
   /**
-   * Get season data for compatibility
+   * Get season data from the provider's calendar
    */
-  private getAllSeasons(): SimpleCalendarSeason[] {
-    return [
-      { name: 'Spring', icon: 'spring' },
-      { name: 'Summer', icon: 'summer' },
-      { name: 'Fall', icon: 'fall' },
-      { name: 'Winter', icon: 'winter' },
-    ];
+  private getAllSeasons(): SimpleCalendarSeasonData[] {
+    try {
+      return buildSeasons(this.provider.getActiveCalendar?.());
+    } catch (error) {
+      console.warn('Failed to build season data:', error);
+      return [];
+    }
   }
 
   /**
@@ -350,6 +391,8 @@ export class HookBridge {
    */
   destroy(): void {
     this.isActive = false;
+    this.unlisten(this.providerHooks);
+    this.unlisten(this.foundryHooks);
     if (this.readyTimeoutId !== undefined) {
       clearTimeout(this.readyTimeoutId);
       this.readyTimeoutId = undefined;
@@ -0,0 +1,181 @@
+/**
+ * Moon phase engine for Simple Calendar compatibility
+ *
+ * Converts the moon definitions of the active calendar into Simple Calendar's
+ * MoonData format and works out which phase each moon is in for a given world time.
+ */
+
+import type { CalendarDate, SimpleCalendarMoonData, SimpleCalendarMoonPhase } from '../types';
+import { getSecondsPerDay, positiveModulo } from '../utils/calendar-math';
+import { toEntryMonthIndex } from '../calendar/engine';
+
+/** Converts a 1-based calendar date into world time */
+export type DateToWorldTime = (date: CalendarDate) => number;
+
+/** Phase layout Simple Calendar uses when a moon does not define its own phases */
+const DEFAULT_PHASES: Array<{ name: string; icon: string; singleDay: boolean; share: number }> = [
+  { name: 'New Moon', icon: 'new', singleDay: true, share: 0 },
+  { name: 'Waxing Crescent', icon: 'waxing-crescent', singleDay: false, share: 0.25 },
+  { name: 'First Quarter', icon: 'first-quarter', singleDay: true, share: 0 },
+  { name: 'Waxing Gibbous', icon: 'waxing-gibbous', singleDay: false, share: 0.25 },
+  { name: 'Full Moon', icon: 'full', singleDay: true, share: 0 },
+  { name: 'Waning Gibbous', icon: 'waning-gibbous', singleDay: false, share: 0.25 },
+  { name: 'Last Quarter', icon: 'last-quarter', singleDay: true, share: 0 },
+  { name: 'Waning Crescent', icon: 'waning-crescent', singleDay: false, share: 0.25 },
+];
+
+/**
+ * Calculate Simple Calendar moon data for every moon of a calendar
+ *
+ * @param calendar - Active calendar definition (Seasons & Stars format)
+ * @param timestamp - World time to calculate the phases for
+ * @param dateToWorldTime - Provider conversion used to locate each moon's reference date
+ * @returns One MoonData entry per calendar moon, empty when the calendar has no moons
+ */
+export function calculateMoons(
+  calendar: any,
+  timestamp: number,
+  dateToWorldTime: DateToWorldTime
+): SimpleCalendarMoonData[] {
+  const moons = Array.isArray(calendar?.moons) ? calendar.moons : [];
+  if (moons.length === 0) {
+    return [];
+  }
+
+  const secondsPerDay = getSecondsPerDay(calendar);
+
+  return moons.map((moon: any, index: number) =>
+    calculateMoon(moon, index, timestamp, secondsPerDay, dateToWorldTime, month =>
+      toEntryMonthIndex(calendar, month)
+    )
+  );
+}
+
+/**
+ * Calculate the phase information for a single moon definition
+ */
+function calculateMoon(
+  moon: any,
+  index: number,
+  timestamp: number,
+  secondsPerDay: number,
+  dateToWorldTime: DateToWorldTime,
+  toMonthIndex: (month: number) => number
+): SimpleCalendarMoonData {
+  const cycleLength = moon?.cycleLength > 0 ? moon.cycleLength : 29.53059;
+  const cycleDayAdjust = typeof moon?.cycleDayAdjust === 'number' ? moon.cycleDayAdjust : 0;
+  const phases = normalizePhases(moon?.phases, cycleLength);
+
+  // Seasons & Stars stores the reference date 1-based, Simple Calendar reports it 0-based
+  const reference = moon?.firstNewMoon || moon?.referenceDate || {};
+  const referenceDate: CalendarDate = {
+    year: typeof reference.year === 'number' ? reference.year : 0,
+    month: typeof reference.month === 'number' ? reference.month : 1,
+    day: typeof reference.day === 'number' ? reference.day : 1,
+    weekday: 0,
+    time: { hour: 0, minute: 0, second: 0 },
+  };
+
+  const referenceTimestamp = dateToWorldTime(referenceDate);
+  const daysSinceReference = Math.floor((timestamp - referenceTimestamp) / secondsPerDay);
+  const dayStart = referenceTimestamp + daysSinceReference * secondsPerDay;
+
+  const phaseOnDay = (dayOffset: number): { index: number; dayInCycle: number } => {
+    const dayInCycle = getDayInCycle(daysSinceReference + dayOffset, cycleLength, cycleDayAdjust);
+    return { index: findPhaseIndex(phases, dayInCycle), dayInCycle };
+  };
+
+  const today = phaseOnDay(0);
+  const fullIndex = findPhaseByIcon(phases, 'full', /full/i);
+  const newIndex = findPhaseByIcon(phases, 'new', /new/i);
+
+  const findNext = (phaseIndex: number): number | null => {
+    if (phaseIndex === -1) return null;
+    const searchLimit = Math.ceil(cycleLength) + 1;
+    for (let offset = 1; offset <= searchLimit; offset++) {
+      if (phaseOnDay(offset).index === phaseIndex) {
+        return dayStart + offset * secondsPerDay;
+      }
+    }
+    return null;
+  };
+
+  return {
+    id: moon?.id || `moon-${index}`,
+    name: moon?.name || `Moon ${index + 1}`,
+    description: moon?.description || '',
+    color: moon?.color || '#ffffff',
+    cycleLength,
+    cycleDayAdjust,
+    firstNewMoon: {
+      yearReset: moon?.firstNewMoon?.yearReset || 'none',
+      yearX: moon?.firstNewMoon?.yearX || 0,
+      year: referenceDate.year,
+      // Simple Calendar counts intercalary periods as months
+      month: toMonthIndex(referenceDate.month),
+      day: referenceDate.day - 1,
+    },
+    phases,
+    currentPhase: phases[today.index],
+    phaseIndex: today.index,
+    dayInCycle: today.dayInCycle,
+    nextFullMoon: findNext(fullIndex),
+    nextNewMoon: findNext(newIndex),
+  };
+}
+
+/**
+ * Work out how far into its cycle a moon is, matching Simple Calendar's rounding
+ */
+function getDayInCycle(daysSinceReference: number, cycleLength: number, adjust: number): number {
+  const dayInCycle = Math.round(positiveModulo(daysSinceReference + adjust, cycleLength));
+  // Rounding can push the last fraction of a cycle onto the next new moon
+  return dayInCycle >= cycleLength ? 0 : dayInCycle;
+}
+
+/**
+ * Find the phase covering a given day of the cycle
+ */
+function findPhaseIndex(phases: SimpleCalendarMoonPhase[], dayInCycle: number): number {
+  let phaseStart = 0;
+  for (let i = 0; i < phases.length; i++) {
+    const phaseEnd = phaseStart + phases[i].length;
+    if (dayInCycle >= phaseStart && dayInCycle < phaseEnd) {
+      return i;
+    }
+    phaseStart = phaseEnd;
+  }
+  return 0;
+}
+
+/**
+ * Find a phase by its Simple Calendar icon, falling back to a name match
+ */
+function findPhaseByIcon(phases: SimpleCalendarMoonPhase[], icon: string, name: RegExp): number {
+  const byIcon = phases.findIndex(phase => phase.icon === icon);
+  return byIcon !== -1 ? byIcon : phases.findIndex(phase => name.test(phase.name));
+}
+
+/**
+ * Convert calendar phase definitions to Simple Calendar phases
+ */
+function normalizePhases(phases: unknown, cycleLength: number): SimpleCalendarMoonPhase[] {
+  if (Array.isArray(phases) && phases.length > 0) {
+    return phases.map((phase: any, index: number) => ({
+      name: phase?.name || `Phase ${index + 1}`,
+      length: typeof phase?.length === 'number' ? phase.length : 1,
+      icon: phase?.icon || 'new',
+      singleDay: !!phase?.singleDay,
+    }));
+  }
+
+  // Single-day phases take one day, the remaining days are shared between the others
+  const singleDays = DEFAULT_PHASES.filter(phase => phase.singleDay).length;
+  const sharedDays = Math.max(cycleLength - singleDays, 0);
+  return DEFAULT_PHASES.map(phase => ({
+    name: phase.name,
+    length: phase.singleDay ? 1 : sharedDays * phase.share,
+    icon: phase.icon,
+    singleDay: phase.singleDay,
+  }));
+}
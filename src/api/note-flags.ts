@@ -0,0 +1,94 @@
+/**
+ * Flag layout of bridge calendar notes
+ *
+ * Calendar notes carry Seasons & Stars note flags, so the calendar module lists
+ * them in its own storage, and bridge flags holding the Simple Calendar details
+ * Seasons & Stars does not store.
+ */
+
+import type { CalendarEngine } from '../calendar/engine';
+import { normalizeNoteRepeat } from './note-recurrence';
+
+/**
+ * Details of a calendar note, with dates in Simple Calendar format (0-based month/day)
+ */
+export interface CalendarNoteDetails {
+  startDate: any;
+  endDate?: any;
+  allDay: boolean;
+  repeats?: unknown;
+  /** Seasons & Stars note category (defaults to general) */
+  category?: string;
+  tags?: string[];
+}
+
+/**
+ * Build the journal flags of a calendar note
+ *
+ * @param engine - Engine of the note's calendar, whose month list matches the
+ *   Simple Calendar month indexes of the note dates
+ * @returns Flags keyed by scope, ready for JournalEntry creation or update
+ */
+export function buildCalendarNoteFlags(
+  details: CalendarNoteDetails,
+  engine: CalendarEngine
+): Record<string, Record<string, unknown>> {
+  const { startDate, endDate, allDay } = details;
+  const now = Date.now();
+  const ssStartDate = toSeasonsStarsDate(startDate, engine);
+
+  // Create storage key for date-based retrieval from the 1-based S&S date
+  const dateKey = `${ssStartDate.year}-${ssStartDate.month}-${ssStartDate.day}`;
+
+  return {
+    // Create S&S-compatible notes only - S&S storage will index these properly
+    'seasons-and-stars': {
+      calendarNote: true,
+      version: '1.0',
+      dateKey: dateKey,
+      startDate: ssStartDate,
+      endDate: endDate ? toSeasonsStarsDate(endDate, engine) : undefined,
+      allDay: allDay,
+      calendarId: 'seasons-and-stars', // Use default S&S calendar
+      category: details.category || 'general',
+      tags: details.tags ?? [],
+      created: now,
+      modified: now,
+    },
+    // Bridge tracking flags for internal use (separate from S&S)
+    'foundryvtt-simple-calendar-compat': {
+      bridgeCreated: true,
+      originalFormat: {
+        startDate: startDate,
+        endDate: endDate,
+      },
+      repeats: normalizeNoteRepeat(details.repeats),
+      created: now,
+    },
+  };
+}
+
+/**
+ * Convert a 0-based Simple Calendar date to the 1-based Seasons & Stars format
+ *
+ * Simple Calendar counts intercalary periods as months; Seasons & Stars dates
+ * them by the month they follow and the period's name.
+ */
+function toSeasonsStarsDate(date: any, engine: CalendarEngine): Record<string, any> {
+  const { year, month, day, intercalary } = engine.fromEntryDate({
+    year: date.year || 0,
+    month: (date.month || 0) + 1,
+    day: (date.day || 0) + 1,
+    weekday: 0,
+  });
+
+  return {
+    year,
+    month,
+    day,
+    ...(intercalary !== undefined ? { intercalary } : {}),
+    hour: date.hour || 0,
+    minute: date.minute || 0,
+    second: date.second || 0,
+  };
+}
@@ -0,0 +1,318 @@
+/**
+ * In-memory index of calendar notes
+ *
+ * Scanning every journal entry for each note lookup is too slow in large worlds,
+ * so calendar notes are indexed by id and by date. The index is built from
+ * game.journal on first use and kept current through the JournalEntry document hooks.
+ * Note dates depend on the calendar's month list, so the index is rebuilt when
+ * lookups pass the layout of another calendar.
+ */
+
+import type { SimpleCalendarDate } from '../types';
+import {
+  NoteRepeat,
+  getNoteEndDate,
+  getNoteKeyDate,
+  getNoteRepeat,
+  getNoteStartDate,
+  noteRecursBetween,
+  noteRecursOn,
+  noteSpansDate,
+} from './note-recurrence';
+import type { NoteCalendarLayout } from './note-recurrence';
+
+/**
+ * Where a note is filed in the index
+ */
+interface IndexedNote {
+  journal: any;
+  /** Position in journal order, used to keep lookup results stable */
+  order: number;
+  /** 0-based date keys the note was filed under (start date and legacy dateKey) */
+  dayKeys: string[];
+  /** Sortable start date, or null for notes without date information */
+  sortKey: number | null;
+  /** Whether the note spans several days or repeats and needs per-lookup checks */
+  expands: boolean;
+}
+
+/**
+ * Calendar notes indexed by id and by date
+ */
+export class NoteIndex {
+  private notes = new Map<string, IndexedNote>();
+  private byDay = new Map<string, Set<string>>();
+  private expanding = new Set<string>();
+  private undated = new Set<string>();
+  private sorted: { sortKey: number; id: string }[] = [];
+  private sortedDirty = false;
+  private source: any = null;
+  private layout: NoteCalendarLayout | null = null;
+  private nextOrder = 0;
+  private hookIds: { hook: string; id: number }[] = [];
+
+  /**
+   * Keep the index current as journal entries are created, updated and deleted
+   */
+  registerHooks(): void {
+    if (this.hookIds.length > 0 || typeof Hooks === 'undefined') return;
+
+    const register = (hook: string, handler: (journal: any) => void): void => {
+      this.hookIds.push({ hook, id: Hooks.on(hook, handler) });
+    };
+
+    // Before the first lookup there is nothing to update; the build reads game.journal
+    register('createJournalEntry', journal => {
+      if (this.isBuilt()) this.add(journal);
+    });
+    register('updateJournalEntry', journal => {
+      if (this.isBuilt()) this.add(journal);
+    });
+    register('deleteJournalEntry', journal => {
+      if (this.isBuilt()) this.remove(journal?.id);
+    });
+  }
+
+  /**
+   * Stop listening for journal changes
+   */
+  unregisterHooks(): void {
+    for (const { hook, id } of this.hookIds) {
+      Hooks.off(hook, id);
+    }
+    this.hookIds = [];
+  }
+
+  /**
+   * Drop all indexed notes so the next lookup rebuilds from game.journal
+   */
+  invalidate(): void {
+    this.source = null;
+  }
+
+  /**
+   * Get all calendar notes in journal order
+   */
+  getNotes(layout: NoteCalendarLayout): any[] {
+    this.ensureBuilt(layout);
+    return this.inJournalOrder(new Set(this.notes.keys()));
+  }
+
+  /**
+   * Get the calendar notes falling on a 0-based date
+   *
+   * Matches notes starting on the date, multi-day notes covering it and recurring
+   * notes with an occurrence on it.
+   */
+  getNotesForDay(date: SimpleCalendarDate, layout: NoteCalendarLayout): any[] {
+    this.ensureBuilt(layout);
+
+    const ids = new Set(this.byDay.get(dayKey(date)));
+    for (const id of this.expanding) {
+      const journal = this.notes.get(id)?.journal;
+      if (noteRecursOn(journal, date, layout) || noteSpansDate(journal, date, layout)) {
+        ids.add(id);
+      }
+    }
+
+    return this.inJournalOrder(ids);
+  }
+
+  /**
+   * Get the calendar notes with an occurrence between two 0-based dates (inclusive)
+   *
+   * Notes without date information are included, matching searchNotes() behavior.
+   */
+  getNotesBetween(
+    start: SimpleCalendarDate | null,
+    end: SimpleCalendarDate | null,
+    layout: NoteCalendarLayout
+  ): any[] {
+    this.ensureBuilt(layout);
+
+    const from = start ? sortKey(start) : -Infinity;
+    const to = end ? sortKey(end) : Infinity;
+    const ids = new Set<string>();
+
+    // Notes starting inside the range, found by binary search over start dates
+    const sorted = this.getSorted();
+    for (let i = lowerBound(sorted, from); i < sorted.length && sorted[i].sortKey <= to; i++) {
+      ids.add(sorted[i].id);
+    }
+
+    for (const id of this.expanding) {
+      const note = this.notes.get(id);
+      if (!note) continue;
+
+      if (getNoteRepeat(note.journal) !== NoteRepeat.Never) {
+        if (
+          noteRecursBetween(
+            note.journal,
+            start ?? { year: Number.MIN_SAFE_INTEGER, month: 0, day: 0 },
+            end ?? { year: Number.MAX_SAFE_INTEGER, month: 0, day: 0 },
+            layout
+          )
+        ) {
+          ids.add(id);
+        }
+      } else if (note.sortKey !== null && note.sortKey <= to) {
+        // Multi-day notes that started before the range but are still running
+        const noteEnd = getNoteEndDate(note.journal, layout);
+        if (noteEnd && sortKey(noteEnd) >= from) ids.add(id);
+      }
+    }
+
+    for (const id of this.undated) {
+      ids.add(id);
+    }
+
+    return this.inJournalOrder(ids);
+  }
+
+  private isBuilt(): boolean {
+    return this.source !== null && this.source === game.journal;
+  }
+
+  /**
+   * Build the index from game.journal, rebuilding when the collection is
+   * replaced or the calendar changes
+   */
+  private ensureBuilt(layout: NoteCalendarLayout): void {
+    if (this.isBuilt() && this.layout?.engine === layout.engine) return;
+
+    this.notes.clear();
+    this.byDay.clear();
+    this.expanding.clear();
+    this.undated.clear();
+    this.sorted = [];
+    this.sortedDirty = false;
+    this.source = game.journal ?? null;
+    this.layout = layout;
+
+    this.source?.forEach((journal: any) => this.add(journal));
+  }
+
+  /**
+   * Index a journal entry, replacing any previous entry for the same id
+   */
+  private add(journal: any): void {
+    const id = journal?.id;
+    const layout = this.layout;
+    if (!id || !layout) return;
+
+    const previous = this.notes.get(id);
+    this.remove(id);
+
+    const ssFlags = journal.flags?.['seasons-and-stars'];
+    const bridgeFlags = journal.flags?.['foundryvtt-simple-calendar-compat'];
+    if (!ssFlags?.calendarNote && !bridgeFlags?.bridgeCreated) return;
+
+    const start = getNoteStartDate(journal, layout);
+    const dayKeys = new Set<string>();
+
+    // Day lookups only consider notes carrying S&S calendar note flags
+    if (ssFlags?.calendarNote) {
+      if (start) dayKeys.add(dayKey(start));
+
+      // The dateKey cannot name an intercalary period, so it only files regular days
+      const keyDate = getNoteKeyDate(journal, layout);
+      if (keyDate && !ssFlags.startDate?.intercalary) dayKeys.add(dayKey(keyDate));
+    }
+
+    const note: IndexedNote = {
+      journal,
+      order: previous?.order ?? this.nextOrder++,
+      dayKeys: Array.from(dayKeys),
+      sortKey: start ? sortKey(start) : null,
+      expands:
+        !!ssFlags?.calendarNote &&
+        (getNoteRepeat(journal) !== NoteRepeat.Never || getNoteEndDate(journal, layout) !== null),
+    };
+
+    this.notes.set(id, note);
+    for (const key of note.dayKeys) {
+      let ids = this.byDay.get(key);
+      if (!ids) {
+        ids = new Set();
+        this.byDay.set(key, ids);
+      }
+      ids.add(id);
+    }
+    if (note.expands) this.expanding.add(id);
+    if (note.sortKey === null) {
+      this.undated.add(id);
+    } else {
+      this.sorted.push({ sortKey: note.sortKey, id });
+      this.sortedDirty = true;
+    }
+  }
+
+  /**
+   * Remove a journal entry from the index
+   */
+  private remove(id: string | undefined): void {
+    const note = id ? this.notes.get(id) : undefined;
+    if (!id || !note) return;
+
+    this.notes.delete(id);
+    this.expanding.delete(id);
+    this.undated.delete(id);
+    for (const key of note.dayKeys) {
+      const ids = this.byDay.get(key);
+      ids?.delete(id);
+      if (ids?.size === 0) this.byDay.delete(key);
+    }
+    if (note.sortKey !== null) {
+      this.sorted = this.sorted.filter(entry => entry.id !== id);
+    }
+  }
+
+  private getSorted(): { sortKey: number; id: string }[] {
+    if (this.sortedDirty) {
+      this.sorted.sort((a, b) => a.sortKey - b.sortKey);
+      this.sortedDirty = false;
+    }
+    return this.sorted;
+  }
+
+  /**
+   * Return journal entries for a set of ids in the order they were indexed
+   */
+  private inJournalOrder(ids: Set<string>): any[] {
+    const notes: IndexedNote[] = [];
+    for (const id of ids) {
+      const note = this.notes.get(id);
+      if (note) notes.push(note);
+    }
+
+    return notes.sort((a, b) => a.order - b.order).map(note => note.journal);
+  }
+}
+
+/**
+ * Map key for a 0-based date
+ */
+function dayKey(date: SimpleCalendarDate): string {
+  return `${date.year}-${date.month}-${date.day}`;
+}
+
+/**
+ * Numeric key that sorts 0-based dates by year, month and day
+ */
+function sortKey(date: SimpleCalendarDate): number {
+  return date.year * 1_000_000 + date.month * 1_000 + date.day;
+}
+
+/**
+ * Index of the first entry with a sort key at or above `value`
+ */
+function lowerBound(entries: { sortKey: number }[], value: number): number {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (entries[mid].sortKey < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
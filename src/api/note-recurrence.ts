@@ -0,0 +1,360 @@
+/**
+ * Recurring and multi-day note support for Simple Calendar compatibility
+ *
+ * Simple Calendar notes can repeat weekly, monthly or yearly and can span several
+ * days. The repeat rule is stored in the bridge's note flags and expanded onto
+ * matching days using the active calendar's week length and its calendar engine,
+ * whose month list matches Simple Calendar's month indexes and leap year lengths.
+ */
+
+import { CalendarEngine } from '../calendar/engine';
+import type { SimpleCalendarDate } from '../types';
+
+// Simple Calendar NoteRepeat Enum - Required by Item Piles and other modules
+// Matches Simple Calendar's NoteRepeat enum values
+export const NoteRepeat = {
+  /** The note will never repeat */
+  Never: 0,
+  /** The note will repeat every week */
+  Weekly: 1,
+  /** The note will repeat every month on the same days */
+  Monthly: 2,
+  /** The note will repeat every year on the same days */
+  Yearly: 3,
+} as const;
+
+export type NoteRepeatValue = (typeof NoteRepeat)[keyof typeof NoteRepeat];
+
+/**
+ * Week length and calendar engine used to expand recurring notes
+ */
+export interface NoteCalendarLayout {
+  daysInWeek: number;
+  /** Engine for the calendar, with intercalary periods counted as months like note dates */
+  engine: CalendarEngine;
+}
+
+/**
+ * Build the layout of a calendar definition, or of an engine already built for one
+ *
+ * Calendars without months fall back to the built-in Gregorian calendar.
+ */
+export function getNoteCalendarLayout(calendar: any): NoteCalendarLayout {
+  let engine: CalendarEngine;
+  if (calendar instanceof CalendarEngine) {
+    engine = calendar;
+  } else {
+    const hasMonths = Array.isArray(calendar?.months) && calendar.months.length > 0;
+    engine = hasMonths ? new CalendarEngine(calendar) : new CalendarEngine();
+  }
+
+  const weekdays = engine.calendar?.weekdays;
+  return {
+    daysInWeek: Array.isArray(weekdays) && weekdays.length > 0 ? weekdays.length : 7,
+    engine,
+  };
+}
+
+/**
+ * Normalize a repeat value to one of the NoteRepeat values
+ */
+export function normalizeNoteRepeat(repeats: unknown): NoteRepeatValue {
+  const value = Number(repeats);
+  return value === NoteRepeat.Weekly || value === NoteRepeat.Monthly || value === NoteRepeat.Yearly
+    ? value
+    : NoteRepeat.Never;
+}
+
+/**
+ * Get the repeat rule stored on a calendar note
+ */
+export function getNoteRepeat(journal: any): NoteRepeatValue {
+  return normalizeNoteRepeat(journal?.flags?.['foundryvtt-simple-calendar-compat']?.repeats);
+}
+
+/**
+ * Get the start date of a calendar note in 0-based Simple Calendar format
+ *
+ * Reads the S&S startDate flag, falling back to the 1-based dateKey and then to
+ * the bridge's copy of the date as it was given to addNote(). S&S dates are
+ * mapped onto the layout's month list, which counts intercalary periods as months.
+ */
+export function getNoteStartDate(
+  journal: any,
+  layout: NoteCalendarLayout
+): SimpleCalendarDate | null {
+  const ssFlags = journal?.flags?.['seasons-and-stars'];
+
+  const startDate = ssFlags?.startDate;
+  if (startDate && typeof startDate.year === 'number') {
+    return fromSeasonsStarsDate(startDate, layout);
+  }
+
+  const keyDate = getNoteKeyDate(journal, layout);
+  if (keyDate) return keyDate;
+
+  const original = journal?.flags?.['foundryvtt-simple-calendar-compat']?.originalFormat?.startDate;
+  if (original && typeof original.year === 'number') {
+    return { year: original.year, month: original.month || 0, day: original.day || 0 };
+  }
+
+  return null;
+}
+
+/**
+ * Get the date of a calendar note's 1-based S&S dateKey flag in 0-based Simple Calendar format
+ */
+export function getNoteKeyDate(
+  journal: any,
+  layout: NoteCalendarLayout
+): SimpleCalendarDate | null {
+  const dateKey = journal?.flags?.['seasons-and-stars']?.dateKey;
+  const match = typeof dateKey === 'string' && dateKey.match(/^(-?\d+)-(\d+)-(\d+)$/);
+  if (!match) return null;
+
+  return fromSeasonsStarsDate(
+    { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) },
+    layout
+  );
+}
+
+/**
+ * Get the end date of a calendar note in 0-based Simple Calendar format
+ *
+ * @returns The end date, or null for single-day notes
+ */
+export function getNoteEndDate(
+  journal: any,
+  layout: NoteCalendarLayout
+): SimpleCalendarDate | null {
+  const endDate = journal?.flags?.['seasons-and-stars']?.endDate;
+  if (!endDate || typeof endDate.year !== 'number') return null;
+
+  return fromSeasonsStarsDate(endDate, layout);
+}
+
+/**
+ * Check whether a note's start-end range covers a 0-based date
+ *
+ * Dates are compared by year, month index and day, so ranges crossing month and
+ * year boundaries (including intercalary months in the month list) are covered.
+ */
+export function noteSpansDate(
+  journal: any,
+  date: SimpleCalendarDate,
+  layout: NoteCalendarLayout
+): boolean {
+  const start = getNoteStartDate(journal, layout);
+  const end = getNoteEndDate(journal, layout);
+  if (!start || !end) return false;
+
+  return compareDates(start, date) <= 0 && compareDates(date, end) <= 0;
+}
+
+/**
+ * Check whether a recurring note has an occurrence on a 0-based date
+ *
+ * Multi-day recurring notes match every day of each occurrence. Notes that never
+ * repeat are not matched here; exact date matching is left to the caller.
+ */
+export function noteRecursOn(
+  journal: any,
+  date: SimpleCalendarDate,
+  layout: NoteCalendarLayout
+): boolean {
+  const repeats = getNoteRepeat(journal);
+  const start = getNoteStartDate(journal, layout);
+  if (repeats === NoteRepeat.Never || !start) return false;
+
+  const dayNumber = toDayNumber(date, layout);
+  for (let offset = 0; offset <= getSpanDays(journal, start, layout); offset++) {
+    if (occursOn(start, repeats, fromDayNumber(dayNumber - offset, layout), layout)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check whether a recurring note has an occurrence between two 0-based dates (inclusive)
+ */
+export function noteRecursBetween(
+  journal: any,
+  from: SimpleCalendarDate,
+  to: SimpleCalendarDate,
+  layout: NoteCalendarLayout
+): boolean {
+  const repeats = getNoteRepeat(journal);
+  const start = getNoteStartDate(journal, layout);
+  if (repeats === NoteRepeat.Never || !start) return false;
+
+  const next = nextOccurrence(start, repeats, from, layout);
+  return next !== null && toDayNumber(next, layout) <= toDayNumber(to, layout);
+}
+
+/**
+ * Check whether a repeat rule starting on `start` lands on `date`
+ */
+function occursOn(
+  start: SimpleCalendarDate,
+  repeats: NoteRepeatValue,
+  date: SimpleCalendarDate,
+  layout: NoteCalendarLayout
+): boolean {
+  const elapsed = toDayNumber(date, layout) - toDayNumber(start, layout);
+  if (elapsed < 0) return false;
+
+  switch (repeats) {
+    case NoteRepeat.Weekly:
+      return elapsed % layout.daysInWeek === 0;
+    case NoteRepeat.Monthly:
+      return (
+        isRepeatMonth(start, date.year, date.month, layout) &&
+        date.day === clampDay(start.day, date.year, date.month, layout)
+      );
+    case NoteRepeat.Yearly:
+      return (
+        date.month === start.month &&
+        isRepeatMonth(start, date.year, date.month, layout) &&
+        date.day === clampDay(start.day, date.year, date.month, layout)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Find the first occurrence of a repeat rule on or after `from`
+ */
+function nextOccurrence(
+  start: SimpleCalendarDate,
+  repeats: NoteRepeatValue,
+  from: SimpleCalendarDate,
+  layout: NoteCalendarLayout
+): SimpleCalendarDate | null {
+  const startDay = toDayNumber(start, layout);
+  const fromDay = Math.max(toDayNumber(from, layout), startDay);
+  const monthsInYear = layout.engine.getMonthEntries().length;
+  const searchYears = getSearchYears(layout);
+  const origin = fromDayNumber(fromDay, layout);
+
+  switch (repeats) {
+    case NoteRepeat.Weekly: {
+      const offset = (fromDay - startDay) % layout.daysInWeek;
+      return fromDayNumber(offset === 0 ? fromDay : fromDay + layout.daysInWeek - offset, layout);
+    }
+    case NoteRepeat.Monthly: {
+      for (let i = 0; i < searchYears * monthsInYear; i++) {
+        const monthIndex = origin.month + i;
+        const year = origin.year + Math.floor(monthIndex / monthsInYear);
+        const month = monthIndex % monthsInYear;
+        if (!isRepeatMonth(start, year, month, layout)) continue;
+
+        const candidate = { year, month, day: clampDay(start.day, year, month, layout) };
+        if (toDayNumber(candidate, layout) >= fromDay) return candidate;
+      }
+      return null;
+    }
+    case NoteRepeat.Yearly: {
+      for (let i = 0; i < searchYears; i++) {
+        const year = origin.year + i;
+        if (!isRepeatMonth(start, year, start.month, layout)) continue;
+
+        const candidate = {
+          year,
+          month: start.month,
+          day: clampDay(start.day, year, start.month, layout),
+        };
+        if (toDayNumber(candidate, layout) >= fromDay) return candidate;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the number of extra days a note lasts after its start day (0 for single-day notes)
+ *
+ * Capped at one year so a malformed end date cannot stall day lookups.
+ */
+function getSpanDays(journal: any, start: SimpleCalendarDate, layout: NoteCalendarLayout): number {
+  const end = getNoteEndDate(journal, layout);
+  if (!end) return 0;
+
+  const span = toDayNumber(end, layout) - toDayNumber(start, layout);
+  return Math.min(Math.max(span, 0), layout.engine.getYearLength(start.year));
+}
+
+/**
+ * Convert a 1-based Seasons & Stars date, which dates intercalary days by the
+ * month they follow and the period's name, to a 0-based Simple Calendar date
+ */
+function fromSeasonsStarsDate(date: any, layout: NoteCalendarLayout): SimpleCalendarDate {
+  const { year, month, day } = layout.engine.toEntryDate({
+    year: date.year,
+    month: date.month || 1,
+    day: date.day || 1,
+    weekday: 0,
+    intercalary: date.intercalary,
+  });
+  return { year, month: month - 1, day: day - 1 };
+}
+
+/**
+ * Compare two 0-based dates by year, month and day
+ */
+function compareDates(a: SimpleCalendarDate, b: SimpleCalendarDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+/**
+ * Check whether a monthly or yearly note can recur in a month of a year
+ *
+ * Months without days that year (leap-year-only periods) are skipped, and notes
+ * in regular months do not recur on intercalary festivals or the other way round.
+ */
+function isRepeatMonth(
+  start: SimpleCalendarDate,
+  year: number,
+  month: number,
+  layout: NoteCalendarLayout
+): boolean {
+  const entries = layout.engine.getMonthEntries();
+  return (
+    layout.engine.getMonthLength(year, month + 1) > 0 &&
+    !!entries[month]?.intercalary === !!entries[start.month]?.intercalary
+  );
+}
+
+/**
+ * Clamp a day to the length of a month, so day 31 repeats on the last day of shorter months
+ */
+function clampDay(day: number, year: number, month: number, layout: NoteCalendarLayout): number {
+  return Math.min(day, layout.engine.getMonthLength(year, month + 1) - 1);
+}
+
+/**
+ * Years to search for the next monthly or yearly occurrence, enough to reach the
+ * next leap year for notes on leap-year-only days
+ */
+function getSearchYears(layout: NoteCalendarLayout): number {
+  return Math.max(8, Number(layout.engine.calendar?.leapYear?.interval) || 0) + 1;
+}
+
+/**
+ * Convert a 0-based date to a day count from the calendar's epoch
+ */
+function toDayNumber(date: SimpleCalendarDate, layout: NoteCalendarLayout): number {
+  return layout.engine.dateToDays(date.year, date.month + 1, date.day + 1);
+}
+
+/**
+ * Convert a day count from the calendar's epoch back to a 0-based date
+ */
+function fromDayNumber(dayNumber: number, layout: NoteCalendarLayout): SimpleCalendarDate {
+  const date = layout.engine.daysToDate(dayNumber);
+  return { year: date.year, month: date.month - 1, day: date.day - 1 };
+}
@@ -0,0 +1,195 @@
+/**
+ * Season data for Simple Calendar compatibility
+ *
+ * Converts the season definitions of the active calendar into Simple Calendar's
+ * SeasonData format and finds the season a given date falls in.
+ */
+
+import type { CalendarDate, SimpleCalendarSeasonData } from '../types';
+import { getTimeConfig } from '../utils/calendar-math';
+import { toEntryMonthIndex } from '../calendar/engine';
+
+/** Simple Calendar's season icon values (the exported Icons constant plus 'none') */
+const SEASON_ICONS = {
+  Fall: 'fall',
+  Winter: 'winter',
+  Spring: 'spring',
+  Summer: 'summer',
+  None: 'none',
+};
+
+/** Simple Calendar's default colors for each season icon */
+const SEASON_COLORS: Record<string, string> = {
+  spring: '#46b946',
+  summer: '#e0c40b',
+  fall: '#ff8e47',
+  winter: '#479dff',
+};
+
+/**
+ * Map a calendar season icon or name to one of Simple Calendar's season icons
+ *
+ * Calendars with non-temperate seasons (wet/dry, etc.) report 'none' unless
+ * their icon or name clearly matches one of the four Simple Calendar icons.
+ */
+export function mapSeasonIcon(icon?: string, name?: string): string {
+  for (const candidate of [icon, name]) {
+    const value = typeof candidate === 'string' ? candidate.toLowerCase() : '';
+    if (!value) continue;
+
+    if (value.includes('spring')) return SEASON_ICONS.Spring;
+    if (value.includes('summer')) return SEASON_ICONS.Summer;
+    if (value.includes('fall') || value.includes('autumn')) return SEASON_ICONS.Fall;
+    if (value.includes('winter')) return SEASON_ICONS.Winter;
+  }
+
+  return SEASON_ICONS.None;
+}
+
+/**
+ * Build Simple Calendar season data for every season of a calendar
+ *
+ * @param calendar - Active calendar definition (Seasons & Stars format, 1-based months)
+ * @returns Seasons in Simple Calendar format with 0-based starting month/day,
+ *   intercalary periods counting as months
+ */
+export function buildSeasons(calendar: any): SimpleCalendarSeasonData[] {
+  const seasons = Array.isArray(calendar?.seasons) ? calendar.seasons : [];
+  const { hoursInDay, minutesInHour, secondsInMinute } = getTimeConfig(calendar);
+  const secondsInHour = minutesInHour * secondsInMinute;
+
+  // Default to sunrise a quarter of the way through the day and sunset at three quarters
+  const defaultSunrise = Math.floor(hoursInDay * 0.25) * secondsInHour;
+  const defaultSunset = Math.floor(hoursInDay * 0.75) * secondsInHour;
+
+  return seasons.map((season: any, index: number) => {
+    const icon = mapSeasonIcon(season?.icon, season?.name);
+    const name = season?.name || `Season ${index + 1}`;
+
+    return {
+      id: season?.id || `season-${name.toLowerCase().replace(/\s+/g, '-')}`,
+      name,
+      description: season?.description || '',
+      startingMonth: getStartingMonth(season, calendar),
+      startingDay: getStartingDay(season),
+      // Simple Calendar stores seconds since midnight, S&S stores hours
+      sunriseTime:
+        parseTimeOfDay(season?.sunriseTime, 1, secondsInHour, secondsInMinute) ??
+        parseTimeOfDay(season?.sunrise, secondsInHour, secondsInHour, secondsInMinute) ??
+        defaultSunrise,
+      sunsetTime:
+        parseTimeOfDay(season?.sunsetTime, 1, secondsInHour, secondsInMinute) ??
+        parseTimeOfDay(season?.sunset, secondsInHour, secondsInHour, secondsInMinute) ??
+        defaultSunset,
+      color: season?.color || SEASON_COLORS[icon] || '#ffffff',
+      icon,
+    };
+  });
+}
+
+/**
+ * Find the season a 0-based Simple Calendar date falls in
+ *
+ * A season lasts until the next season starts. Dates before the first season
+ * of the year belong to the last season, which wraps around from the previous year.
+ *
+ * @returns The matching season, or null when the calendar defines no seasons
+ */
+export function findSeasonForDate(
+  seasons: SimpleCalendarSeasonData[],
+  month: number,
+  day: number
+): SimpleCalendarSeasonData | null {
+  if (seasons.length === 0) {
+    return null;
+  }
+
+  const ordered = [...seasons].sort(
+    (a, b) => a.startingMonth - b.startingMonth || a.startingDay - b.startingDay
+  );
+
+  let current = ordered[ordered.length - 1];
+  for (const season of ordered) {
+    if (
+      season.startingMonth < month ||
+      (season.startingMonth === month && season.startingDay <= day)
+    ) {
+      current = season;
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Find the season a calendar module date (1-based, intercalary days marked by
+ * the period's name) falls in
+ */
+export function findSeasonForCalendarDate(
+  calendar: any,
+  date: CalendarDate
+): SimpleCalendarSeasonData | null {
+  return findSeasonForDate(
+    buildSeasons(calendar),
+    toEntryMonthIndex(calendar, date.month, date.intercalary),
+    date.day - 1
+  );
+}
+
+/**
+ * Get a season's 0-based starting month from either S&S or Simple Calendar fields
+ *
+ * S&S fields number the calendar's own months, Simple Calendar fields already
+ * count intercalary months.
+ */
+function getStartingMonth(season: any, calendar: any): number {
+  if (typeof season?.startMonth === 'number') {
+    return Math.max(toEntryMonthIndex(calendar, season.startMonth), 0);
+  }
+  if (typeof season?.startingMonth === 'number') {
+    return season.startingMonth;
+  }
+  return 0;
+}
+
+/**
+ * Get a season's 0-based starting day from either S&S or Simple Calendar fields
+ */
+function getStartingDay(season: any): number {
+  if (typeof season?.startDay === 'number') {
+    return Math.max(season.startDay - 1, 0);
+  }
+  if (typeof season?.startingDay === 'number') {
+    return season.startingDay;
+  }
+  return 0;
+}
+
+/**
+ * Parse a sunrise/sunset value into seconds since midnight
+ *
+ * Numbers are counted in the source field's unit; "HH:MM" strings are accepted
+ * from either source.
+ *
+ * @param unitSeconds - Seconds in one unit of a numeric value
+ * @returns Seconds since midnight, or undefined when the value is missing or unreadable
+ */
+function parseTimeOfDay(
+  value: unknown,
+  unitSeconds: number,
+  secondsInHour: number,
+  secondsInMinute: number
+): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Math.round(value * unitSeconds);
+  }
+
+  if (typeof value === 'string') {
+    const match = value.match(/^(\d{1,2}):(\d{2})$/);
+    if (match) {
+      return Number(match[1]) * secondsInHour + Number(match[2]) * secondsInMinute;
+    }
+  }
+
+  return undefined;
+}
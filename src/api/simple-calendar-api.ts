@@ -1,5 +1,5 @@
 /**
- * Simple Calendar API implementation that bridges to Seasons & Stars Integration Interface
+ * Simple Calendar API implementation that bridges to the selected calendar provider
  */
 
 import type {
@@ -12,11 +12,37 @@ import type {
   SimpleCalendarCurrentDate,
   SimpleCalendarNoteCategory,
   SimpleCalendarGeneralSettings,
-  CalendarDate as BridgeCalendarDate,
-  DateChangeEvent,
-  CalendarChangeEvent,
+  CalendarDate,
+  CalendarProvider,
+  DateDifferenceUnit,
+  NoteMigrationOptions,
+  NoteMigrationResult,
+  SecondsToIntervalOptions,
   SimpleCalendarAPI,
+  SimpleCalendarDateTimeParts,
+  SimpleCalendarMoonData,
+  TimeAdvanceMethod,
 } from '../types';
+import { calculateMoons } from './moons';
+import { buildSeasons, findSeasonForDate, mapSeasonIcon } from './seasons';
+import { NoteRepeat, getNoteCalendarLayout } from './note-recurrence';
+import { buildCalendarNoteFlags } from './note-flags';
+import type { NoteRepeatValue } from './note-recurrence';
+import { NoteIndex } from './note-index';
+import { GameClock } from './clock';
+import { formatSimpleCalendarDate, getOrdinalSuffix, getYearName } from './date-format';
+import { getGeneralSettings } from '../settings';
+import {
+  findSimpleCalendarNotes,
+  migrateSimpleCalendarNotes,
+  rollbackNoteMigration,
+} from '../migration/note-migration';
+import { CalendarEngine, type CalendarDuration } from '../calendar/engine';
+import {
+  SeasonsStarsIntegrationProvider,
+  type BridgeCalendarWidget,
+  type SeasonsStarsIntegration,
+} from '../providers/seasons-stars-integration';
 
 // Simple Calendar Icon Constants - Required by Simple Weather and other modules
 export const Icons = {
@@ -27,110 +53,7 @@ export const Icons = {
 };
 
 // Simple Calendar NoteRepeat Enum - Required by Item Piles and other modules
-// Matches Simple Calendar's NoteRepeat enum values
-export const NoteRepeat = {
-  /** The note will never repeat */
-  Never: 0,
-  /** The note will repeat every week */
-  Weekly: 1,
-  /** The note will repeat every month on the same days */
-  Monthly: 2,
-  /** The note will repeat every year on the same days */
-  Yearly: 3,
-} as const;
-
-// Import S&S Integration interface types (matching bridge-integration.ts)
-interface SeasonsStarsIntegration {
-  readonly isAvailable: boolean;
-  readonly version: string;
-  readonly api: SeasonsStarsAPI;
-  readonly widgets: SeasonsStarsWidgets;
-  readonly hooks: SeasonsStarsHooks;
-
-  hasFeature(feature: string): boolean;
-  getFeatureVersion(feature: string): string | null;
-
-  // Sidebar button management (v0.19.0+)
-  addSidebarButton(config: {
-    name: string;
-    icon: string;
-    tooltip: string;
-    callback: () => void;
-    only?: ('main' | 'mini' | 'grid')[];
-    except?: ('main' | 'mini' | 'grid')[];
-  }): void;
-  removeSidebarButton(name: string): void;
-  hasSidebarButton(name: string): boolean;
-}
-
-interface SeasonsStarsAPI {
-  getCurrentDate(calendarId?: string): CalendarDate;
-  worldTimeToDate(timestamp: number, calendarId?: string): CalendarDate;
-  dateToWorldTime(date: CalendarDate, calendarId?: string): number;
-  formatDate(date: CalendarDate, options?: any): string;
-  getActiveCalendar(): any;
-  setActiveCalendar(calendarId: string): Promise<void>;
-  getAvailableCalendars(): string[];
-  getMonthNames(calendarId?: string): string[];
-  getWeekdayNames(calendarId?: string): string[];
-  advanceDays?(days: number, calendarId?: string): Promise<void>;
-  advanceHours?(hours: number, calendarId?: string): Promise<void>;
-  advanceMinutes?(minutes: number, calendarId?: string): Promise<void>;
-  getSunriseSunset?(date: CalendarDate, calendarId?: string): { sunrise: number; sunset: number };
-  getSeasonInfo?(date: CalendarDate, calendarId?: string): { name: string; icon: string };
-}
-
-interface SeasonsStarsWidgets {
-  readonly main: BridgeCalendarWidget | null;
-  readonly mini: BridgeCalendarWidget | null;
-  readonly grid: BridgeCalendarWidget | null;
-
-  getPreferredWidget(preference?: WidgetPreference): BridgeCalendarWidget | null;
-  onWidgetChange(callback: (widgets: SeasonsStarsWidgets) => void): void;
-  offWidgetChange(callback: (widgets: SeasonsStarsWidgets) => void): void;
-}
-
-interface BridgeCalendarWidget {
-  readonly id: string;
-  readonly isVisible: boolean;
-
-  addSidebarButton(name: string, icon: string, tooltip: string, callback: Function): void;
-  removeSidebarButton(name: string): void;
-  hasSidebarButton(name: string): boolean;
-  getInstance(): any;
-}
-
-interface SeasonsStarsHooks {
-  onDateChanged(callback: (event: DateChangeEvent) => void): void;
-  onCalendarChanged(callback: (event: CalendarChangeEvent) => void): void;
-  onReady(callback: (event: ReadyEvent) => void): void;
-  off(hookName: string, callback: Function): void;
-}
-
-interface CalendarDate {
-  year: number;
-  month: number; // 1-based
-  day: number; // 1-based
-  weekday: number;
-  time?: {
-    hour: number;
-    minute: number;
-    second: number;
-  };
-}
-
-interface ReadyEvent {
-  api: SeasonsStarsAPI;
-  widgets: SeasonsStarsWidgets;
-  version: string;
-}
-
-enum WidgetPreference {
-  MAIN = 'main',
-  MINI = 'mini',
-  GRID = 'grid',
-  ANY = 'any',
-}
+export { NoteRepeat };
 
 /**
  * Simple Calendar API Bridge implementation
@@ -151,11 +74,20 @@ enum WidgetPreference {
  * ```
  */
 export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
-  /** Seasons & Stars integration interface */
-  private seasonsStars: SeasonsStarsIntegration | null = null;
+  /** Calendar provider the API is bridged to, or null in fallback mode */
+  private provider: CalendarProvider | null = null;
+
+  /** Real-time clock for SmallTime integration, shared with the hook bridge */
+  private clock: GameClock;
+
+  /** Built-in Gregorian calendar used when no calendar module is available */
+  private standalone = new CalendarEngine();
 
-  /** Clock running state for SmallTime integration */
-  private clockRunning = false;
+  /** Engine for the provider's active calendar, rebuilt when the calendar changes */
+  private calendarEngine: { calendar: any; engine: CalendarEngine } | null = null;
+
+  /** Calendar notes indexed by id and date */
+  private noteIndex = new NoteIndex();
 
   /** Registry of sidebar buttons added by other modules */
   public sidebarButtons: Array<{
@@ -169,56 +101,98 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
   /**
    * Initialize the Simple Calendar API bridge
    *
-   * @param seasonsStarsIntegration - Optional S&S integration instance, auto-detected if not provided
+   * @param provider - Calendar provider selected by the module, or a bare S&S integration
+   *   instance; the S&S integration is auto-detected if not provided
+   * @param clock - Optional clock shared with the hook bridge; the API bridge keeps it running until destroy()
    */
-  constructor(seasonsStarsIntegration?: SeasonsStarsIntegration) {
-    this.seasonsStars = seasonsStarsIntegration || this.detectSeasonsStars();
+  constructor(provider?: CalendarProvider | SeasonsStarsIntegration | null, clock?: GameClock) {
+    this.provider = provider ? this.toProvider(provider) : this.detectSeasonsStars();
+    this.clock = clock ?? new GameClock(() => this.isPrimaryGM());
+    this.noteIndex.registerHooks();
+    this.clock.registerHooks();
 
-    if (this.seasonsStars) {
+    if (this.provider) {
       console.log(
-        `Simple Calendar API bridging to Seasons & Stars v${this.seasonsStars.version} via Integration Interface`
+        `Simple Calendar API bridging to ${this.provider.name} v${this.provider.version}`
       );
-      this.setupHookBridging();
 
-      // Register any buttons that were added before S&S was ready
+      // Register any buttons that were added before the provider was ready
       this.registerPendingButtons();
     } else {
       console.warn(
-        'Simple Calendar API Bridge: No Seasons & Stars integration available, using fallback mode'
+        'Simple Calendar API Bridge: No calendar provider available, using fallback mode'
       );
     }
   }
 
   /**
-   * Register any sidebar buttons that were added before S&S was available
+   * Register any sidebar buttons that were added before the provider was available
    */
   private registerPendingButtons(): void {
     if (this.sidebarButtons.length > 0) {
       console.log(
-        `🌉 Registering ${this.sidebarButtons.length} pending sidebar button(s) with S&S`
+        `🌉 Registering ${this.sidebarButtons.length} pending sidebar button(s) with ${this.provider?.name}`
       );
       this.sidebarButtons.forEach(btn => {
-        this.addButtonToWidgets(btn.name, btn.icon, btn.tooltip || '', btn.callback);
+        try {
+          this.addButtonToWidgets(btn.name, btn.icon, btn.tooltip || '', btn.callback);
+        } catch (error) {
+          console.warn(`🌉 Failed to register sidebar button "${btn.name}":`, error);
+        }
       });
     }
   }
 
   /**
-   * Detect Seasons & Stars integration
+   * Switch to another calendar provider without a reload, moving the sidebar
+   * buttons other modules added over to the new provider's widgets
    */
-  private detectSeasonsStars(): SeasonsStarsIntegration | null {
+  setProvider(provider: CalendarProvider | null): void {
+    if (provider === this.provider) return;
+
+    for (const btn of this.sidebarButtons) {
+      try {
+        this.provider?.removeSidebarButton?.(btn.name);
+      } catch (error) {
+        console.warn(`🌉 Failed to remove sidebar button "${btn.name}" from old provider:`, error);
+      }
+    }
+
+    this.provider = provider;
+    console.log(`Simple Calendar API now bridging to ${provider?.name ?? 'fallback mode'}`);
+
+    if (this.provider) {
+      this.registerPendingButtons();
+    }
+  }
+
+  /**
+   * Wrap bare S&S integration instances in the integration provider
+   */
+  private toProvider(candidate: CalendarProvider | SeasonsStarsIntegration): CalendarProvider {
+    if (typeof (candidate as CalendarProvider).worldTimeToDate === 'function') {
+      return candidate as CalendarProvider;
+    }
+
+    return new SeasonsStarsIntegrationProvider(candidate as SeasonsStarsIntegration);
+  }
+
+  /**
+   * Detect the Seasons & Stars integration when no provider was passed in
+   */
+  private detectSeasonsStars(): CalendarProvider | null {
     try {
       // Try S&S integration interface first (v2.0+)
       const integration = (game as any).seasonsStars?.integration;
       if (integration && integration.isAvailable) {
-        return integration;
+        return new SeasonsStarsIntegrationProvider(integration);
       }
 
       // Try static detection method
       if (game.seasonsStars?.integration?.detect) {
         const detected = game.seasonsStars.integration.detect();
         if (detected && detected.isAvailable) {
-          return detected;
+          return new SeasonsStarsIntegrationProvider(detected);
         }
       }
 
@@ -229,26 +203,6 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
     }
   }
 
-  /**
-   * Setup hook bridging to translate S&S events to Simple Calendar format
-   */
-  private setupHookBridging(): void {
-    if (!this.seasonsStars) return;
-
-    this.seasonsStars.hooks.onDateChanged((event: DateChangeEvent) => {
-      const scDate = this.convertSSToSCFormat(event.newDate);
-      Hooks.callAll('simple-calendar-date-time-change', {
-        date: scDate,
-        moons: this.getAllMoons(),
-        seasons: this.getAllSeasons(),
-      });
-    });
-
-    this.seasonsStars.hooks.onCalendarChanged((event: CalendarChangeEvent) => {
-      console.log('Bridge: Calendar changed from', event.oldCalendarId, 'to', event.newCalendarId);
-    });
-  }
-
   // Core time functions
 
   /**
@@ -278,12 +232,12 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   timestampToDate(timestamp: number): SimpleCalendarDateTime | null {
     try {
-      if (!this.seasonsStars?.api) {
+      if (!this.provider) {
         return this.createFallbackDateTime(timestamp);
       }
 
-      // Use S&S API to convert timestamp to date
-      const ssDate = this.seasonsStars.api.worldTimeToDate(timestamp);
+      // Use the calendar provider to convert timestamp to date
+      const ssDate = this.provider.worldTimeToDate(timestamp);
 
       // Convert S&S date format to Simple Calendar DateTime format
       return this.convertSSToSCDateTime(ssDate);
@@ -294,69 +248,52 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
   }
 
   /**
-   * Convert S&S CalendarDate format to Simple Calendar format
+   * Convert a provider date (1-based) to Simple Calendar format
    */
-  private convertSSToSCFormat(ssDate: BridgeCalendarDate): SimpleCalendarDateTime {
-    const secondValue = ssDate.time?.second || 0;
+  private convertSSToSCFormat(ssDate: CalendarDate): SimpleCalendarDateTime {
+    const date = this.getCalendarEngine().toEntryDate(ssDate);
+    const secondValue = date.time?.second || 0;
     return {
-      year: ssDate.year,
-      month: ssDate.month - 1, // Convert 1-based to 0-based for SC compatibility
-      day: ssDate.day - 1, // Convert 1-based to 0-based for SC compatibility
-      hour: ssDate.time?.hour || 0,
-      minute: ssDate.time?.minute || 0,
+      year: date.year,
+      month: date.month - 1, // Convert 1-based to 0-based for SC compatibility
+      day: date.day - 1, // Convert 1-based to 0-based for SC compatibility
+      hour: date.time?.hour || 0,
+      minute: date.time?.minute || 0,
       seconds: secondValue, // Simple Calendar expects 'seconds'
       second: secondValue, // Simple Weather expects 'second' - provide both for compatibility
     };
   }
 
+  /**
+   * Add an interval to a timestamp
+   *
+   * Years and months move the calendar date, clamping the day to the target
+   * month's length; weeks and smaller units use the calendar's day length.
+   */
   timestampPlusInterval(timestamp: number, interval: any): number {
     if (!interval) return timestamp;
 
     try {
-      if (!this.seasonsStars?.api) {
-        // Fallback to simple arithmetic when S&S not available
-        let newTimestamp = timestamp;
-
-        if (interval.year) newTimestamp += interval.year * 365 * 86400;
-        if (interval.month) newTimestamp += interval.month * 30 * 86400;
-        if (interval.day) newTimestamp += interval.day * 86400;
-        if (interval.hour) newTimestamp += interval.hour * 3600;
-        if (interval.minute) newTimestamp += interval.minute * 60;
-        if (interval.second) newTimestamp += interval.second;
-
-        return newTimestamp;
+      if (!this.provider) {
+        // Use the built-in calendar when no provider is available
+        return this.standalone.addInterval(timestamp, interval);
       }
 
-      // Use S&S API for proper calendar-aware interval calculation
-      const currentDate = this.seasonsStars.api.worldTimeToDate(timestamp);
+      // Move the date through the provider so its own calendar rules apply, using
+      // the active calendar's structure for month overflow and day clamping
+      const engine = this.getCalendarEngine();
+      const currentDate = engine.toEntryDate(this.provider.worldTimeToDate(timestamp));
       let newTimestamp = timestamp;
 
-      // For complex intervals, convert to date, modify, and convert back
       if (interval.year || interval.month) {
-        const modifiedDate = { ...currentDate };
-        if (interval.year) modifiedDate.year += interval.year;
-        if (interval.month) {
-          modifiedDate.month += interval.month;
-          // Handle month overflow
-          while (modifiedDate.month > 12) {
-            modifiedDate.month -= 12;
-            modifiedDate.year += 1;
-          }
-          while (modifiedDate.month < 1) {
-            modifiedDate.month += 12;
-            modifiedDate.year -= 1;
-          }
-        }
-        newTimestamp = this.seasonsStars.api.dateToWorldTime(modifiedDate);
+        newTimestamp = this.provider.dateToWorldTime(
+          engine.fromEntryDate(
+            engine.addMonths(currentDate, interval.year || 0, interval.month || 0)
+          )
+        );
       }
 
-      // Apply time-based intervals directly to timestamp
-      if (interval.day) newTimestamp += interval.day * 86400;
-      if (interval.hour) newTimestamp += interval.hour * 3600;
-      if (interval.minute) newTimestamp += interval.minute * 60;
-      if (interval.second) newTimestamp += interval.second;
-
-      return newTimestamp;
+      return newTimestamp + engine.getIntervalSeconds(interval);
     } catch (error) {
       console.warn('Failed to add interval to timestamp:', error);
       return timestamp;
@@ -365,13 +302,13 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
 
   getCurrentDate(): SimpleCalendarDateTime | null {
     try {
-      if (!this.seasonsStars?.api) {
+      if (!this.provider) {
         const currentTimestamp = this.timestamp();
         return this.createFallbackDateTime(currentTimestamp);
       }
 
-      // Use S&S API to get current date
-      const ssDate = this.seasonsStars.api.getCurrentDate();
+      // Use the calendar provider to get current date
+      const ssDate = this.provider.getCurrentDate();
       return this.convertSSToSCDateTime(ssDate);
     } catch (error) {
       console.error('Failed to get current date:', error);
@@ -394,6 +331,9 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
 
   /**
    * Change the current date by adding an interval
+   *
+   * Uses the provider's time advancement when it covers every part of the
+   * interval, and otherwise advances world time by the interval.
    */
   changeDate(interval: any): boolean {
     try {
@@ -402,29 +342,42 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
         return false;
       }
 
-      if (!this.seasonsStars?.api) {
-        console.warn('Cannot change date: Seasons & Stars not available');
+      if (!this.provider) {
+        console.warn('Cannot change date: no calendar provider available');
         return false;
       }
 
-      // Use S&S time advancement methods for proper calendar handling
-      if (interval.year && (this.seasonsStars.api as any).advanceYears) {
-        (this.seasonsStars.api as any).advanceYears(interval.year);
-      }
-      if (interval.month && (this.seasonsStars.api as any).advanceMonths) {
-        (this.seasonsStars.api as any).advanceMonths(interval.month);
-      }
-      if (interval.week && (this.seasonsStars.api as any).advanceWeeks) {
-        (this.seasonsStars.api as any).advanceWeeks(interval.week);
-      }
-      if (interval.day && this.seasonsStars.api.advanceDays) {
-        this.seasonsStars.api.advanceDays(interval.day);
-      }
-      if (interval.hour && this.seasonsStars.api.advanceHours) {
-        this.seasonsStars.api.advanceHours(interval.hour);
-      }
-      if (interval.minute && this.seasonsStars.api.advanceMinutes) {
-        this.seasonsStars.api.advanceMinutes(interval.minute);
+      // Use the provider's time advancement methods for proper calendar handling
+      const provider = this.provider;
+      const parts: Array<[number | undefined, TimeAdvanceMethod | undefined]> = [
+        [interval.year, 'advanceYears'],
+        [interval.month, 'advanceMonths'],
+        [interval.week, 'advanceWeeks'],
+        [interval.day, 'advanceDays'],
+        [interval.hour, 'advanceHours'],
+        [interval.minute, 'advanceMinutes'],
+        [interval.second ?? interval.seconds, undefined],
+      ];
+      const canAdvance = (method: TimeAdvanceMethod | undefined): method is TimeAdvanceMethod =>
+        !!method &&
+        typeof provider[method] === 'function' &&
+        (provider.canAdvance?.(method) ?? true);
+
+      // Parts the provider cannot advance, seconds included, can only move
+      // world time. That is decided before anything moves, so the whole
+      // interval is then added to world time rather than part of it
+      if (parts.some(([amount, method]) => amount && !canAdvance(method))) {
+        const now = this.timestamp();
+        game.time?.advance(this.timestampPlusInterval(now, interval) - now);
+        return true;
+      }
+
+      for (const [amount, method] of parts) {
+        if (amount && canAdvance(method)) {
+          Promise.resolve(provider[method]!(amount)).catch(error => {
+            console.error('Failed to change date:', error);
+          });
+        }
       }
 
       return true;
@@ -444,14 +397,14 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
         return false;
       }
 
-      if (!this.seasonsStars?.api) {
-        console.warn('Cannot set date: Seasons & Stars not available');
+      if (!this.provider) {
+        console.warn('Cannot set date: no calendar provider available');
         return false;
       }
 
       // Convert Simple Calendar format to S&S format and set via world time
       const ssDate = this.convertSCToSSFormat(date);
-      const targetTimestamp = this.seasonsStars.api.dateToWorldTime(ssDate);
+      const targetTimestamp = this.provider.dateToWorldTime(ssDate);
       const currentTimestamp = this.timestamp();
       const timeDiff = targetTimestamp - currentTimestamp;
 
@@ -479,12 +432,12 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
         return false;
       }
 
-      if (!this.seasonsStars?.api) {
-        console.warn('Cannot advance time: Seasons & Stars not available');
+      if (!this.provider) {
+        console.warn('Cannot advance time: no calendar provider available');
         return false;
       }
 
-      const calendar = this.seasonsStars.api.getActiveCalendar();
+      const calendar = this.provider.getActiveCalendar();
       const currentDate = this.getCurrentDate();
       let targetHour = 0;
 
@@ -546,40 +499,20 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   chooseRandomDate(startDate?: any, endDate?: any): any {
     try {
-      if (!this.seasonsStars?.api) {
-        console.warn('Cannot choose random date: Seasons & Stars not available');
+      if (!this.provider) {
+        console.warn('Cannot choose random date: no calendar provider available');
         return this.getCurrentDate();
       }
 
-      const calendar = this.seasonsStars.api.getActiveCalendar();
       const currentDate = this.getCurrentDate();
 
-      // Default to current year range if no dates provided
-      let start = startDate;
-      let end = endDate;
-
-      if (!start) {
-        start = {
-          ...currentDate,
-          month: 0, // First month (0-based for SC compatibility)
-          day: 0, // First day (0-based for SC compatibility)
-        };
-      }
-
-      if (!end) {
-        const monthCount = calendar?.months?.length || 12;
-        const lastMonth = calendar?.months?.[monthCount - 1];
-        const lastDayOfYear = lastMonth?.length || 30;
-
-        end = {
-          ...currentDate,
-          month: monthCount - 1, // Last month (0-based)
-          day: lastDayOfYear - 1, // Last day (0-based)
-        };
-      }
-
-      const startTimestamp = this.dateToTimestamp(start);
-      const endTimestamp = this.dateToTimestamp(end);
+      // Default to the whole current year, intercalary and leap days included
+      const startTimestamp = this.dateToTimestamp(
+        startDate || { year: currentDate.year, month: 0, day: 0 }
+      );
+      const endTimestamp = endDate
+        ? this.dateToTimestamp(endDate)
+        : this.dateToTimestamp({ year: currentDate.year + 1, month: 0, day: 0 }) - 1;
 
       const randomTimestamp = startTimestamp + Math.random() * (endTimestamp - startTimestamp);
 
@@ -592,20 +525,21 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
 
   formatDateTime(date: any, format?: string): string | { date: string; time: string } {
     try {
-      if (!this.seasonsStars?.api) {
-        return format ? '' : { date: '', time: '' };
-      }
-
-      // Convert Simple Calendar format back to S&S CalendarDate format
-      const ssDate = this.convertSCToSSFormat(date);
-
       if (format) {
-        // When format is provided, return formatted string
-        return this.seasonsStars.api.formatDate(ssDate, { format });
+        // Render Simple Calendar format tokens against the active calendar
+        return this.formatWithTokens(date, format);
+      } else if (!this.provider) {
+        // Without a provider, use the configured formats on the built-in calendar
+        const { dateFormat } = getGeneralSettings();
+        return {
+          date: this.formatWithTokens(date, dateFormat.date),
+          time: this.formatWithTokens(date, dateFormat.time),
+        };
       } else {
         // When no format provided, return object with separate date and time
-        const dateString = this.seasonsStars.api.formatDate(ssDate, { includeTime: false });
-        const timeString = this.seasonsStars.api.formatDate(ssDate, { timeOnly: true });
+        const ssDate = this.convertSCToSSFormat(date);
+        const dateString = this.provider.formatDate(ssDate, { includeTime: false });
+        const timeString = this.provider.formatDate(ssDate, { timeOnly: true });
 
         return {
           date: dateString,
@@ -620,15 +554,15 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
 
   dateToTimestamp(date: any): number {
     try {
-      if (!this.seasonsStars?.api) {
-        return 0;
-      }
-
       // Convert Simple Calendar format to S&S CalendarDate format
       const ssDate = this.convertSCToSSFormat(date);
 
-      // Use S&S API to convert date to timestamp
-      return this.seasonsStars.api.dateToWorldTime(ssDate);
+      if (!this.provider) {
+        return this.standalone.dateToWorldTime(ssDate);
+      }
+
+      // Use the calendar provider to convert date to timestamp
+      return this.provider.dateToWorldTime(ssDate);
     } catch (error) {
       console.warn('Failed to convert date to timestamp:', error);
       return 0;
@@ -639,8 +573,10 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    * Convert Simple Calendar format to S&S CalendarDate format
    * CRITICAL: Simple Calendar uses 0-based months/days, S&S uses 1-based
    */
-  private convertSCToSSFormat(scDate: any): BridgeCalendarDate {
-    return {
+  private convertSCToSSFormat(scDate: any): CalendarDate {
+    // Simple Calendar's month list includes intercalary periods, which the
+    // provider may number after the month they follow
+    return this.getCalendarEngine().fromEntryDate({
       year: scDate.year,
       month: (scDate.month || 0) + 1, // Convert 0-based to 1-based
       day: (scDate.day || 0) + 1, // Convert 0-based to 1-based
@@ -650,32 +586,38 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
         minute: scDate.minute || 0,
         second: scDate.second || scDate.seconds || 0,
       },
-    };
+    });
   }
 
   // Time advancement methods
   async advanceDays(days: number): Promise<void> {
-    if (!this.seasonsStars?.api?.advanceDays) {
-      throw new Error('Time advancement not supported by Seasons & Stars');
+    if (!this.provider?.advanceDays) {
+      throw new Error(
+        `Time advancement not supported by ${this.provider?.name ?? 'the calendar provider'}`
+      );
     }
 
-    await this.seasonsStars.api.advanceDays(days);
+    await this.provider.advanceDays(days);
   }
 
   async advanceHours(hours: number): Promise<void> {
-    if (!this.seasonsStars?.api?.advanceHours) {
-      throw new Error('Hour advancement not supported by Seasons & Stars');
+    if (!this.provider?.advanceHours) {
+      throw new Error(
+        `Hour advancement not supported by ${this.provider?.name ?? 'the calendar provider'}`
+      );
     }
 
-    await this.seasonsStars.api.advanceHours(hours);
+    await this.provider.advanceHours(hours);
   }
 
   async advanceMinutes(minutes: number): Promise<void> {
-    if (!this.seasonsStars?.api?.advanceMinutes) {
-      throw new Error('Minute advancement not supported by Seasons & Stars');
+    if (!this.provider?.advanceMinutes) {
+      throw new Error(
+        `Minute advancement not supported by ${this.provider?.name ?? 'the calendar provider'}`
+      );
     }
 
-    await this.seasonsStars.api.advanceMinutes(minutes);
+    await this.provider.advanceMinutes(minutes);
   }
 
   // Calendar metadata functions
@@ -685,12 +627,14 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   getAllCalendars(): any[] {
     try {
-      if (!this.seasonsStars?.api) {
+      if (!this.provider) {
         return [];
       }
 
-      const activeCalendar = this.seasonsStars.api.getActiveCalendar();
-      const availableIds = this.seasonsStars.api.getAvailableCalendars();
+      const activeCalendar = this.provider.getActiveCalendar();
+      // Providers without calendar switching only offer their active calendar
+      const availableIds =
+        this.provider.getAvailableCalendars?.() ?? (activeCalendar?.id ? [activeCalendar.id] : []);
 
       // Convert to Simple Calendar format
       return availableIds.map(id => ({
@@ -710,11 +654,7 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   getCurrentCalendar(): any {
     try {
-      if (!this.seasonsStars?.api) {
-        return null;
-      }
-
-      const calendar = this.seasonsStars.api.getActiveCalendar();
+      const calendar = this.getActiveCalendar();
       if (!calendar) {
         return null;
       }
@@ -729,10 +669,10 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
       const minutesPerHour = timeConfig.minutesInHour || 60;
       const secondsPerHour = secondsPerMinute * minutesPerHour;
 
-      // Get current date from S&S
+      // Get current date from the provider
       let currentDate: SimpleCalendarCurrentDate | undefined = undefined;
       try {
-        const ssCurrentDate = this.seasonsStars.api.getCurrentDate();
+        const ssCurrentDate = this.getProviderDate();
         if (ssCurrentDate) {
           // Convert from S&S format (1-based) to Simple Calendar format (0-based)
           // Calculate seconds from time using calendar-specific time units
@@ -742,10 +682,12 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
               ssCurrentDate.time.second
             : 0;
 
+          // Count intercalary periods as months, like getCurrentDate()
+          const date = this.toEntryDate(ssCurrentDate);
           currentDate = {
-            year: ssCurrentDate.year,
-            month: ssCurrentDate.month - 1, // Convert 1-based to 0-based
-            day: ssCurrentDate.day - 1, // Convert 1-based to 0-based
+            year: date.year,
+            month: date.month - 1, // Convert 1-based to 0-based
+            day: date.day - 1, // Convert 1-based to 0-based
             seconds: seconds,
           };
         }
@@ -753,60 +695,28 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
         console.warn('🌉 Simple Calendar Bridge: Failed to get current date:', err);
       }
 
-      // Get note categories from Seasons & Stars
+      // Get note categories from the provider
       // Note categories are organizational labels for notes (e.g., "Holiday", "Event", "Reminder")
       // Used by modules like Item Piles to determine which categories represent closed days
       let noteCategories: SimpleCalendarNoteCategory[] = [];
       try {
-        // NOTE: Direct access to game.seasonsStars is intentional here
-        // The noteCategories manager is not yet part of the Integration Interface,
-        // but is a stable public API that we can safely access
-        const categoriesManager = (game as any).seasonsStars?.noteCategories;
-        if (categoriesManager && typeof categoriesManager.getCategories === 'function') {
-          // Get S&S categories and convert to Simple Calendar format
-          // S&S NoteCategory: { id, name, icon, color, description?, isDefault? }
-          // SC NoteCategory: { id, name, color, textColor }
-          const ssCategories = categoriesManager.getCategories();
-          noteCategories = ssCategories.map(
-            (cat: any): SimpleCalendarNoteCategory => ({
-              id: cat.id,
-              name: cat.name,
-              color: cat.color || '#4a90e2',
-              textColor: cat.textColor || '#ffffff',
-            })
-          );
-        }
+        noteCategories = this.provider?.getNoteCategories?.() ?? [];
       } catch (err) {
         console.warn('🌉 Simple Calendar Bridge: Failed to get note categories:', err);
       }
 
-      // Build general settings - Simple Calendar has many settings, we'll provide sensible defaults
-      // Most modules don't use these settings from getCurrentCalendar()
-      const general: SimpleCalendarGeneralSettings = {
-        gameWorldTimeIntegration: 'mixed', // Default to mixed mode
-        showClock: true,
-        noteDefaultVisibility: false,
-        postNoteRemindersOnFoundryLoad: false,
-        pf2eSync: false,
-        dateFormat: {
-          date: 'MMMM DD, YYYY',
-          time: 'HH:mm:ss',
-          monthYear: 'MMMM YAYYYYYZ',
-          chatTime: 'MMMM DD, YYYY HH:mm:ss',
-        },
-        compactViewOptions: {
-          controlLayout: 'full',
-        },
-      };
+      // General settings (date formats, clock visibility, ...) come from the world settings
+      const general: SimpleCalendarGeneralSettings = getGeneralSettings();
 
       // Convert to Simple Calendar format
       return {
         id: calendar.id,
-        name: calendar.name || calendar.id,
-        description: calendar.description || '',
+        name: calendar.name || calendar.translations?.en?.label || calendar.id,
+        description: calendar.description || calendar.translations?.en?.description || '',
         currentDate: currentDate,
         general: general,
         months: calendar.months || [],
+        intercalary: calendar.intercalary || [],
         weekdays: calendar.weekdays || [],
         year: calendar.year || { prefix: '', suffix: '', epoch: 0 },
         time: timeConfig,
@@ -826,30 +736,14 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   getAllMonths(): SimpleCalendarMonthData[] {
     try {
-      if (!this.seasonsStars?.api) {
+      const calendar = this.getActiveCalendar();
+      if (!Array.isArray(calendar?.months) || calendar.months.length === 0) {
         return [];
       }
 
-      const calendar = this.seasonsStars.api.getActiveCalendar();
-      const monthNames = this.seasonsStars.api.getMonthNames();
-
-      // Convert to Simple Calendar format
-      return (calendar?.months || []).map((month: any, index: number) => {
-        const monthName = monthNames?.[index] || month.name || `Month ${index + 1}`;
-        return {
-          id: `month-${index}`,
-          abbreviation: month.abbreviation || monthName.substring(0, 3),
-          name: monthName,
-          description: month.description || '',
-          numericRepresentation: index + 1, // 1-based for Simple Calendar
-          numericRepresentationOffset: 0,
-          numberOfDays: month.length || 30,
-          numberOfLeapYearDays: month.leapLength || month.length || 30,
-          intercalary: month.intercalary || false,
-          intercalaryInclude: month.intercalaryInclude ?? true,
-          startingWeekday: month.startingWeekday || null,
-        };
-      });
+      // Convert to Simple Calendar format, intercalary periods included
+      const engine = this.getCalendarEngine();
+      return engine.getMonthEntries().map((_entry, index) => this.buildMonthData(engine, index));
     } catch (error) {
       console.error('Failed to get all months:', error);
       return [];
@@ -861,12 +755,8 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   getAllWeekdays(): SimpleCalendarWeekdayData[] {
     try {
-      if (!this.seasonsStars?.api) {
-        return [];
-      }
-
-      const calendar = this.seasonsStars.api.getActiveCalendar();
-      const weekdayNames = this.seasonsStars.api.getWeekdayNames();
+      const calendar = this.getActiveCalendar();
+      const weekdayNames = this.getWeekdayNames();
 
       // Convert to Simple Calendar format
       return (calendar?.weekdays || []).map((weekday: any, index: number) => {
@@ -891,11 +781,7 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   getLeapYearConfiguration(): any {
     try {
-      if (!this.seasonsStars?.api) {
-        return null;
-      }
-
-      const calendar = this.seasonsStars.api.getActiveCalendar();
+      const calendar = this.getActiveCalendar();
       return calendar?.leapYear || { rule: 'none' };
     } catch (error) {
       console.error('Failed to get leap year configuration:', error);
@@ -908,11 +794,7 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   getTimeConfiguration(): any {
     try {
-      if (!this.seasonsStars?.api) {
-        return null;
-      }
-
-      const calendar = this.seasonsStars.api.getActiveCalendar();
+      const calendar = this.getActiveCalendar();
       return calendar?.time || { hoursInDay: 24, minutesInHour: 60, secondsInMinute: 60 };
     } catch (error) {
       console.error('Failed to get time configuration:', error);
@@ -927,10 +809,6 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   getCurrentDay(): SimpleCalendarDayData | null {
     try {
-      if (!this.seasonsStars?.api) {
-        return null;
-      }
-
       const currentDate = this.getCurrentDate();
       if (!currentDate) return null;
 
@@ -953,34 +831,11 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   getCurrentMonth(): SimpleCalendarMonthData | null {
     try {
-      if (!this.seasonsStars?.api) {
-        return null;
-      }
-
       const currentDate = this.getCurrentDate();
       if (!currentDate) return null;
 
-      const calendar = this.seasonsStars.api.getActiveCalendar();
-      const monthNames = this.seasonsStars.api.getMonthNames();
-
-      // Get month data using 0-based index for calendar.months but 1-based month from currentDate
-      const monthIndex = currentDate.month; // currentDate.month is 0-based from Simple Calendar format
-      const monthData = calendar?.months?.[monthIndex] || {};
-      const monthName = monthNames?.[monthIndex] || monthData.name || `Month ${monthIndex + 1}`;
-
-      return {
-        id: `month-${monthIndex}`,
-        abbreviation: monthData.abbreviation || monthName.substring(0, 3),
-        name: monthName,
-        description: monthData.description || '',
-        numericRepresentation: monthIndex + 1, // 1-based for Simple Calendar
-        numericRepresentationOffset: 0,
-        numberOfDays: monthData.length || 30,
-        numberOfLeapYearDays: monthData.leapLength || monthData.length || 30,
-        intercalary: monthData.intercalary || false,
-        intercalaryInclude: monthData.intercalaryInclude ?? true,
-        startingWeekday: monthData.startingWeekday || null,
-      };
+      // currentDate.month is 0-based in Simple Calendar's month list
+      return this.buildMonthData(this.getCalendarEngine(), currentDate.month);
     } catch (error) {
       console.error('Failed to get current month:', error);
       return null;
@@ -992,27 +847,30 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   getCurrentSeason(): SimpleCalendarSeasonData | null {
     try {
-      if (!this.seasonsStars?.api) {
-        return null;
-      }
-
-      const ssDate = this.seasonsStars.api.getCurrentDate();
+      const ssDate = this.getProviderDate();
       if (!ssDate) return null;
 
-      const seasonInfo = this.seasonsStars.api.getSeasonInfo?.(ssDate);
+      // Prefer the calendar's own season definitions, which count intercalary months
+      const seasons = buildSeasons(this.getActiveCalendar());
+      if (seasons.length > 0) {
+        const date = this.getCalendarEngine().toEntryDate(ssDate);
+        return findSeasonForDate(seasons, date.month - 1, date.day - 1);
+      }
+
+      const seasonInfo = this.provider?.getSeasonInfo?.(ssDate);
       if (!seasonInfo) return null;
 
-      // Create Simple Calendar season data structure
+      // Calendar has no season definitions - describe the provider's season info
       return {
         id: `season-${seasonInfo.name?.toLowerCase().replace(/\s+/g, '-') || 'unknown'}`,
         name: seasonInfo.name || 'Unknown',
         description: (seasonInfo as any).description || '',
-        startingMonth: 0, // S&S doesn't expose this detail yet
-        startingDay: 0, // S&S doesn't expose this detail yet
+        startingMonth: 0,
+        startingDay: 0,
         sunriseTime: (seasonInfo as any).sunriseTime || 21600, // 6 AM default
         sunsetTime: (seasonInfo as any).sunsetTime || 64800, // 6 PM default
         color: (seasonInfo as any).color || '#ffffff',
-        icon: seasonInfo.icon || 'none',
+        icon: mapSeasonIcon(seasonInfo.icon, seasonInfo.name),
       };
     } catch (error) {
       console.error('Failed to get current season:', error);
@@ -1025,19 +883,15 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   getCurrentWeekday(): SimpleCalendarWeekdayData | null {
     try {
-      if (!this.seasonsStars?.api) {
-        return null;
-      }
-
       // Get the current date from S&S directly (which includes weekday)
-      const ssDate = this.seasonsStars.api.getCurrentDate();
+      const ssDate = this.getProviderDate();
       if (!ssDate) return null;
 
-      const calendar = this.seasonsStars.api.getActiveCalendar();
-      const weekdayNames = this.seasonsStars.api.getWeekdayNames();
+      const calendar = this.getActiveCalendar();
+      const weekdayNames = this.getWeekdayNames();
 
       // ssDate.weekday is 0-based in S&S
-      const weekdayIndex = ssDate.weekday;
+      const weekdayIndex = this.toEntryDate(ssDate).weekday;
       const weekdayData = calendar?.weekdays?.[weekdayIndex] || {};
       const weekdayName =
         weekdayNames?.[weekdayIndex] || weekdayData.name || `Day ${weekdayIndex + 1}`;
@@ -1061,14 +915,10 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   getCurrentYear(): any {
     try {
-      if (!this.seasonsStars?.api) {
-        return null;
-      }
-
       const currentDate = this.getCurrentDate();
       if (!currentDate) return null;
 
-      const calendar = this.seasonsStars.api.getActiveCalendar();
+      const calendar = this.getActiveCalendar();
       const yearConfig = calendar?.year || {};
 
       return {
@@ -1093,33 +943,13 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   formatTimestamp(timestamp: number, format: string = ''): string | { date: string; time: string } {
     try {
-      if (!this.seasonsStars?.api) {
-        const date = new Date(timestamp * 1000);
-        return {
-          date: date.toLocaleDateString(),
-          time: date.toLocaleTimeString(),
-        };
-      }
-
       const dateObj = this.timestampToDate(timestamp);
       if (!dateObj) {
         return { date: 'Unknown', time: 'Unknown' };
       }
 
-      const ssDate = this.convertSCToSSFormat(dateObj);
-      const formattedDate = this.seasonsStars.api.formatDate(ssDate, { includeTime: false });
-      const formattedTime = this.seasonsStars.api.formatDate(ssDate, { timeOnly: true });
-
-      if (!format) {
-        // Return both date and time components
-        return {
-          date: formattedDate,
-          time: formattedTime,
-        };
-      }
-
-      // Use S&S formatting if format string provided
-      return this.seasonsStars.api.formatDate(ssDate);
+      // Render the format tokens, or return both date and time components
+      return this.formatDateTime(dateObj, format);
     } catch (error) {
       console.error('Failed to format timestamp:', error);
       return { date: 'Unknown', time: 'Unknown' };
@@ -1131,37 +961,42 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    */
   currentDateTimeDisplay(): SimpleCalendarDateDisplayData | null {
     try {
-      if (!this.seasonsStars?.api) {
-        return {
-          date: 'Unknown',
-          day: '1',
-          daySuffix: 'st',
-          weekday: 'Unknown',
-          monthName: 'Unknown',
-          month: '1',
-          year: '2023',
-          yearName: '',
-          yearPrefix: '',
-          yearPostfix: '',
-          time: '00:00:00',
-        };
-      }
-
-      const ssDate = this.seasonsStars.api.getCurrentDate();
-      if (!ssDate) return null;
+      const currentDate = this.getProviderDate();
+      if (!currentDate) return null;
+      const ssDate = this.toEntryDate(currentDate);
 
       // Get calendar metadata
-      const activeCalendar = this.seasonsStars.api.getActiveCalendar();
-      const monthNames = this.seasonsStars.api.getMonthNames();
-      const weekdayNames = this.seasonsStars.api.getWeekdayNames();
+      const activeCalendar = this.getActiveCalendar();
+      const weekdayNames = this.getWeekdayNames();
 
-      const safeMonthName = (monthNames && monthNames[ssDate.month - 1]) || `Month ${ssDate.month}`;
+      const safeMonthName = this.getMonthName(ssDate.month);
       const safeWeekdayName =
         (weekdayNames && weekdayNames[ssDate.weekday]) || `Day ${ssDate.weekday + 1}`;
 
-      // Format date and time using S&S
-      const formattedDate = this.seasonsStars.api.formatDate(ssDate, { includeTime: false });
-      const formattedTime = this.seasonsStars.api.formatDate(ssDate, { timeOnly: true });
+      // Format date and time with the configured Simple Calendar formats
+      const { dateFormat } = getGeneralSettings();
+      const scDate = {
+        year: ssDate.year,
+        month: ssDate.month - 1,
+        day: ssDate.day - 1,
+        hour: ssDate.time?.hour || 0,
+        minute: ssDate.time?.minute || 0,
+        seconds: ssDate.time?.second || 0,
+        dayOfTheWeek: ssDate.weekday,
+      };
+      const names = { monthName: safeMonthName, weekdayName: safeWeekdayName };
+      const formattedDate = formatSimpleCalendarDate(
+        scDate,
+        dateFormat.date,
+        activeCalendar,
+        names
+      );
+      const formattedTime = formatSimpleCalendarDate(
+        scDate,
+        dateFormat.time,
+        activeCalendar,
+        names
+      );
 
       // Get year formatting
       const yearPrefix = activeCalendar?.year?.prefix || '';
@@ -1170,12 +1005,12 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
       return {
         date: formattedDate,
         day: ssDate.day.toString(),
-        daySuffix: this.getOrdinalSuffix(ssDate.day),
+        daySuffix: getOrdinalSuffix(ssDate.day),
         weekday: safeWeekdayName,
         monthName: safeMonthName,
         month: ssDate.month.toString(),
         year: ssDate.year.toString(),
-        yearName: '', // S&S doesn't expose year names yet
+        yearName: getYearName(activeCalendar, ssDate.year),
         yearPrefix: yearPrefix,
         yearPostfix: yearSuffix,
         time: formattedTime,
@@ -1199,52 +1034,198 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
   }
 
   /**
-   * Convert seconds to interval object
+   * Convert seconds to an interval of years, months, days and time
+   *
+   * Years and months are counted on the calendar from a reference date (the
+   * current world time unless `from` is given), so a span covers the real month
+   * lengths it crosses; with `exact: false` they use average lengths instead.
+   * Negative spans end at the reference date and yield negative parts.
    */
-  secondsToInterval(seconds: number): any {
+  secondsToInterval(
+    seconds: number,
+    options: SecondsToIntervalOptions = {}
+  ): SimpleCalendarDateTimeParts {
     try {
-      if (!this.seasonsStars?.api) {
-        // Fallback calculation using standard units
-        const days = Math.floor(seconds / 86400);
-        const hours = Math.floor((seconds % 86400) / 3600);
-        const minutes = Math.floor((seconds % 3600) / 60);
-        const remainingSeconds = seconds % 60;
-
-        return { day: days, hour: hours, minute: minutes, second: remainingSeconds };
+      const engine = this.getCalendarEngine();
+      const span = Math.abs(seconds);
+      let duration: CalendarDuration;
+
+      if (options.exact === false) {
+        duration = engine.approximateDuration(span);
+      } else {
+        const from = options.from ?? this.timestamp();
+        const start = seconds < 0 ? from - span : from;
+        duration = this.measureDuration(engine, start, start + span);
       }
 
-      const calendar = this.seasonsStars.api.getActiveCalendar();
-      const timeConfig = calendar?.time || {
-        hoursInDay: 24,
-        minutesInHour: 60,
-        secondsInMinute: 60,
+      const signed = (value: number) => (seconds < 0 && value !== 0 ? -value : value);
+      return {
+        year: signed(duration.year),
+        month: signed(duration.month),
+        day: signed(duration.day),
+        hour: signed(duration.hour),
+        minute: signed(duration.minute),
+        seconds: signed(duration.second),
+        second: signed(duration.second),
       };
+    } catch (error) {
+      console.error('Failed to convert seconds to interval:', error);
+      return { year: 0, month: 0, day: 0, hour: 0, minute: 0, seconds, second: seconds };
+    }
+  }
 
-      // Use calendar-specific time units
-      const secondsInMinute = timeConfig.secondsInMinute;
-      const minutesInHour = timeConfig.minutesInHour;
-      const hoursInDay = timeConfig.hoursInDay;
+  /**
+   * Whole calendar months from `start` to `end`, then the remaining days and time
+   */
+  private measureDuration(engine: CalendarEngine, start: number, end: number): CalendarDuration {
+    const startDate = engine.toEntryDate(this.toCalendarDate(start));
+    const endDate = engine.toEntryDate(this.toCalendarDate(end));
+    const monthCount = engine.getMonthCount();
+    const anchorAfter = (months: number) =>
+      this.toWorldTime(engine.fromEntryDate(engine.addMonths(startDate, 0, months)));
+
+    // Start from the month difference and step back while it overshoots, which
+    // happens when the end falls earlier in its month than the start
+    let months = Math.max(0, engine.monthsBetween(startDate, endDate));
+    let anchor = anchorAfter(months);
+    while (months > 0 && anchor > end) {
+      months--;
+      anchor = anchorAfter(months);
+    }
 
-      const secondsInHour = secondsInMinute * minutesInHour;
-      const secondsInDay = secondsInHour * hoursInDay;
+    return {
+      ...engine.splitSeconds(end - anchor),
+      year: Math.floor(months / monthCount),
+      month: months % monthCount,
+    };
+  }
 
-      const days = Math.floor(seconds / secondsInDay);
-      const hours = Math.floor((seconds % secondsInDay) / secondsInHour);
-      const minutes = Math.floor((seconds % secondsInHour) / secondsInMinute);
-      const remainingSeconds = seconds % secondsInMinute;
+  /**
+   * Whole units from date `a` to date `b` (0-based Simple Calendar date parts),
+   * negative when `b` is earlier
+   *
+   * Years and months are counted on the calendar; weeks and smaller units are
+   * whole units of elapsed time using the calendar's week and day lengths.
+   */
+  dateDifference(
+    a: SimpleCalendarDateTimeParts,
+    b: SimpleCalendarDateTimeParts,
+    unit: DateDifferenceUnit = 'day'
+  ): number {
+    try {
+      const engine = this.getCalendarEngine();
+      const start = this.toWorldTime(this.convertSCToSSFormat(a));
+      const end = this.toWorldTime(this.convertSCToSSFormat(b));
 
-      return {
-        day: days,
-        hour: hours,
-        minute: minutes,
-        second: remainingSeconds,
-      };
+      if (unit === 'year' || unit === 'month') {
+        const duration =
+          end >= start
+            ? this.measureDuration(engine, start, end)
+            : this.measureDuration(engine, end, start);
+        const count =
+          unit === 'year' ? duration.year : duration.year * engine.getMonthCount() + duration.month;
+        return end >= start || count === 0 ? count : -count;
+      }
+
+      const unitSeconds = engine.getIntervalSeconds({ [unit]: 1 });
+      if (!unitSeconds) {
+        throw new Error(`Unknown date difference unit: ${unit}`);
+      }
+
+      // Math.trunc keeps the sign, so avoid returning -0
+      const count = Math.trunc((end - start) / unitSeconds);
+      return count === 0 ? 0 : count;
     } catch (error) {
-      console.error('Failed to convert seconds to interval:', error);
-      return { day: 0, hour: 0, minute: 0, second: seconds };
+      console.warn('Failed to calculate date difference:', error);
+      return 0;
     }
   }
 
+  /**
+   * Order two dates: -1 when `a` is earlier, 1 when it is later, 0 when equal
+   */
+  compareDates(a: SimpleCalendarDateTimeParts, b: SimpleCalendarDateTimeParts): -1 | 0 | 1 {
+    try {
+      const difference =
+        this.toWorldTime(this.convertSCToSSFormat(a)) -
+        this.toWorldTime(this.convertSCToSSFormat(b));
+      return difference < 0 ? -1 : difference > 0 ? 1 : 0;
+    } catch (error) {
+      console.warn('Failed to compare dates:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Whether two dates fall on the same calendar day, whatever their times
+   */
+  isSameDay(a: SimpleCalendarDateTimeParts, b: SimpleCalendarDateTimeParts): boolean {
+    try {
+      // Round-trip through the calendar so overflowing parts are normalized
+      const engine = this.getCalendarEngine();
+      const [first, second] = [a, b].map(date =>
+        engine.toEntryDate(this.toCalendarDate(this.toWorldTime(this.convertSCToSSFormat(date))))
+      );
+      return first.year === second.year && first.month === second.month && first.day === second.day;
+    } catch (error) {
+      console.warn('Failed to compare days:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Number of days in a month (0-based) of a year, leap days included
+   */
+  daysInMonth(year: number, month: number): number {
+    try {
+      return this.getCalendarEngine().getMonthLength(year, month + 1);
+    } catch (error) {
+      console.warn('Failed to get month length:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Provider date for a timestamp, on the built-in calendar without a provider
+   */
+  private toCalendarDate(timestamp: number): CalendarDate {
+    return this.provider
+      ? this.provider.worldTimeToDate(timestamp)
+      : this.standalone.worldTimeToDate(timestamp);
+  }
+
+  /**
+   * Timestamp for a provider date, on the built-in calendar without a provider
+   */
+  private toWorldTime(date: CalendarDate): number {
+    return this.provider
+      ? this.provider.dateToWorldTime(date)
+      : this.standalone.dateToWorldTime(date);
+  }
+
+  /**
+   * Provider date for the current world time, on the built-in calendar without a provider
+   */
+  private getProviderDate(): CalendarDate {
+    return this.provider ? this.provider.getCurrentDate() : this.toCalendarDate(this.timestamp());
+  }
+
+  /**
+   * Active calendar definition, the built-in calendar without a provider
+   */
+  private getActiveCalendar(): any {
+    return this.provider ? this.provider.getActiveCalendar() : this.standalone.calendar;
+  }
+
+  /**
+   * Weekday names of the active calendar, the built-in calendar's without a provider
+   */
+  private getWeekdayNames(): string[] {
+    return this.provider
+      ? this.provider.getWeekdayNames()
+      : this.standalone.calendar.weekdays.map((weekday: any) => weekday.name);
+  }
+
   // Theme system functions
 
   /**
@@ -1331,7 +1312,7 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
       `Simple Calendar Bridge: Sidebar button "${name}" registered (tooltip: ${tooltip}, toggle: ${isToggle})`
     );
 
-    // Add the button to existing Seasons & Stars widgets using S&S API
+    // Add the button to the provider's calendar widgets
     this.addButtonToWidgets(name, icon, tooltip, callback);
   }
 
@@ -1354,13 +1335,13 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
       this.sidebarButtons.splice(index, 1);
     }
 
-    // Remove from S&S widgets if available
-    if (!this.seasonsStars) {
-      console.warn('🌉 Cannot remove sidebar button: Seasons & Stars integration not available');
+    // Remove from the provider's widgets if available
+    if (!this.provider?.removeSidebarButton) {
+      console.warn('🌉 Cannot remove sidebar button: calendar provider has no widget support');
       return;
     }
 
-    this.seasonsStars.removeSidebarButton(name);
+    this.provider.removeSidebarButton(name);
   }
 
   /**
@@ -1377,16 +1358,16 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    * ```
    */
   hasSidebarButton(name: string): boolean {
-    if (!this.seasonsStars) {
-      // Fallback to internal registry when S&S not available
+    if (!this.provider?.hasSidebarButton) {
+      // Fallback to internal registry when the provider has no widgets
       return this.sidebarButtons.some(btn => btn.name === name);
     }
 
-    return this.seasonsStars.hasSidebarButton(name);
+    return this.provider.hasSidebarButton(name);
   }
 
   /**
-   * Add a button to existing Seasons & Stars widgets using S&S Integration API
+   * Add a button to the calendar widgets of the provider
    */
   private addButtonToWidgets(
     name: string,
@@ -1394,8 +1375,8 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
     tooltip: string,
     callback: Function
   ): void {
-    if (!this.seasonsStars) {
-      console.warn('🌉 Cannot add sidebar button: Seasons & Stars integration not available');
+    if (!this.provider?.addSidebarButton) {
+      console.warn('🌉 Cannot add sidebar button: calendar provider has no widget support');
       return;
     }
 
@@ -1414,13 +1395,7 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
       callback: callback.toString().substring(0, 100),
     });
 
-    // Use S&S v0.19.0+ Integration Interface sidebar button management
-    this.seasonsStars.addSidebarButton({
-      name,
-      icon: normalizedIcon,
-      tooltip,
-      callback: callback as () => void,
-    });
+    this.provider.addSidebarButton(name, normalizedIcon, tooltip, callback);
   }
 
   /**
@@ -1677,46 +1652,13 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
     if (!game.journal) return [];
 
     try {
-      // Convert 0-based Simple Calendar format to 1-based for storage key
-      const storageKey = `${year}-${month + 1}-${day + 1}`;
-
-      console.log(
-        `🌉 Simple Calendar Bridge: getNotesForDay(${year}, ${month}, ${day}) -> storage key: ${storageKey}`
-      );
-
-      // Find all journal entries with S&S calendar note flags for this date
-      const calendarNotes = game.journal.filter((journal: any) => {
-        const noteFlags = journal.flags?.['seasons-and-stars'];
-        if (!noteFlags?.calendarNote) return false;
+      const layout = getNoteCalendarLayout(this.getCalendarEngine());
 
-        // Check if this note is for the requested date
-        if (noteFlags.dateKey === storageKey) {
-          console.log(`🌉 Simple Calendar Bridge: Found note for ${storageKey}:`, journal.name);
-          return true;
-        }
-
-        // Legacy compatibility: check old startDate format (for bridge-created notes)
-        if (noteFlags.startDate) {
-          const startDate = noteFlags.startDate;
-          // Note: S&S uses 1-based dates, but we're comparing with 0-based month/day from Simple Calendar API
-          if (
-            startDate.year === year &&
-            startDate.month - 1 === month &&
-            startDate.day - 1 === day
-          ) {
-            console.log(
-              `🌉 Simple Calendar Bridge: Found S&S note for ${storageKey}:`,
-              journal.name
-            );
-            return true;
-          }
-        }
-
-        return false;
-      });
+      // Indexed by start date (dateKey or legacy startDate), plus multi-day and recurring notes
+      const calendarNotes = this.noteIndex.getNotesForDay({ year, month, day }, layout);
 
       console.log(
-        `🌉 Simple Calendar Bridge: Found ${calendarNotes.length} note(s) for date ${storageKey}`
+        `🌉 Simple Calendar Bridge: Found ${calendarNotes.length} note(s) for date ${year}-${month + 1}-${day + 1}`
       );
       return calendarNotes;
     } catch (error) {
@@ -1736,6 +1678,7 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
    * @param startDate - Start date (Simple Calendar format with 0-based month/day)
    * @param endDate - End date (Simple Calendar format)
    * @param allDay - Whether note is all-day
+   * @param repeats - How often the note repeats (NoteRepeat value, defaults to Never)
    * @returns Promise<JournalEntry> that supports flag operations
    */
   async addNote(
@@ -1743,7 +1686,8 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
     content: string,
     startDate: any,
     endDate: any,
-    allDay: boolean
+    allDay: boolean,
+    repeats: NoteRepeatValue = NoteRepeat.Never
   ): Promise<any> {
     if (!game.user?.isGM) {
       console.warn('🌉 Simple Calendar Bridge: Only GMs can create calendar notes');
@@ -1757,10 +1701,14 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
         startDate,
         endDate,
         allDay,
+        repeats,
       });
 
-      // Create storage key for date-based retrieval (convert 0-based to 1-based)
-      const dateKey = `${startDate.year}-${(startDate.month || 0) + 1}-${(startDate.day || 0) + 1}`;
+      const flags = buildCalendarNoteFlags(
+        { startDate, endDate, allDay, repeats },
+        this.getCalendarEngine()
+      );
+      const dateKey = flags['seasons-and-stars'].dateKey;
 
       // Get or create the calendar notes folder
       const noteFolder = await this.getOrCreateNotesFolder();
@@ -1768,47 +1716,7 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
       const journal = await JournalEntry.create({
         name: title,
         folder: noteFolder.id,
-        flags: {
-          // Create S&S-compatible notes only - S&S storage will index these properly
-          'seasons-and-stars': {
-            calendarNote: true,
-            version: '1.0',
-            dateKey: dateKey,
-            startDate: {
-              year: startDate.year || 0,
-              month: (startDate.month || 0) + 1, // Convert back to 1-based for S&S
-              day: (startDate.day || 0) + 1, // Convert back to 1-based for S&S
-              hour: startDate.hour || 0,
-              minute: startDate.minute || 0,
-              second: startDate.second || 0,
-            },
-            endDate: endDate
-              ? {
-                  year: endDate.year || 0,
-                  month: (endDate.month || 0) + 1, // Convert back to 1-based for S&S
-                  day: (endDate.day || 0) + 1, // Convert back to 1-based for S&S
-                  hour: endDate.hour || 0,
-                  minute: endDate.minute || 0,
-                  second: endDate.second || 0,
-                }
-              : undefined,
-            allDay: allDay,
-            calendarId: 'seasons-and-stars', // Use default S&S calendar
-            category: 'general', // Default category
-            tags: [],
-            created: Date.now(),
-            modified: Date.now(),
-          },
-          // Optional: Bridge tracking flags for internal use (separate from S&S)
-          'foundryvtt-simple-calendar-compat': {
-            bridgeCreated: true,
-            originalFormat: {
-              startDate: startDate,
-              endDate: endDate,
-            },
-            created: Date.now(),
-          },
-        },
+        flags,
       });
 
       if (!journal) {
@@ -1834,12 +1742,8 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
         dateKey
       );
 
-      // Force S&S storage system to rebuild its index to include new notes
-      // This uses S&S's existing public API without making S&S aware of the bridge
-      if ((game.seasonsStars as any)?.notes?.storage) {
-        (game.seasonsStars as any).notes.storage.rebuildIndex();
-        console.log('🌉 Simple Calendar Bridge: Triggered S&S storage reindex');
-      }
+      // Let the calendar module pick up the new note in its own storage
+      this.provider?.refreshNotes?.();
 
       return journal;
     } catch (error) {
@@ -1874,19 +1778,24 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
   }
 
   /**
-   * Get all calendar notes
+   * Get all calendar notes, or those occurring within an optional date range
+   *
+   * Each note is returned once. With a range, recurring notes are expanded and
+   * included when one of their occurrences falls inside it.
    */
-  getNotes(): any[] {
+  getNotes(startDate?: any, endDate?: any): any[] {
     if (!game.journal) return [];
 
     try {
-      // Find all journal entries with calendar note flags
-      const calendarNotes = game.journal.filter((journal: any) => {
-        const ssFlags = journal.flags?.['seasons-and-stars'];
-        const bridgeFlags = journal.flags?.['foundryvtt-simple-calendar-compat'];
-
-        return ssFlags?.calendarNote || bridgeFlags?.bridgeCreated;
-      });
+      const layout = getNoteCalendarLayout(this.getCalendarEngine());
+      const calendarNotes =
+        startDate || endDate
+          ? this.noteIndex.getNotesBetween(
+              startDate ? this.toNoteDate(startDate) : null,
+              endDate ? this.toNoteDate(endDate) : null,
+              layout
+            )
+          : this.noteIndex.getNotes(layout);
 
       console.log(`🌉 Simple Calendar Bridge: Found ${calendarNotes.length} total calendar notes`);
       return calendarNotes;
@@ -1903,41 +1812,17 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
     if (!game.journal) return [];
 
     try {
-      const allNotes = this.getNotes();
+      // Narrow to the date range through the note index before matching text
+      const candidates = this.getNotes(startDate, endDate);
 
-      // Filter by search text
-      let filteredNotes = allNotes.filter((note: any) => {
+      const searchLower = searchText.toLowerCase();
+      const filteredNotes = candidates.filter((note: any) => {
         const title = note.name?.toLowerCase() || '';
         const content = note.pages?.contents?.[0]?.text?.content?.toLowerCase() || '';
-        const searchLower = searchText.toLowerCase();
 
         return title.includes(searchLower) || content.includes(searchLower);
       });
 
-      // Filter by date range if provided
-      if (startDate || endDate) {
-        const startTimestamp = startDate ? this.dateToTimestamp(startDate) : 0;
-        const endTimestamp = endDate ? this.dateToTimestamp(endDate) : Number.MAX_SAFE_INTEGER;
-
-        filteredNotes = filteredNotes.filter((note: any) => {
-          const ssFlags = note.flags?.['seasons-and-stars'];
-          const bridgeFlags = note.flags?.['foundryvtt-simple-calendar-compat'];
-
-          // Get date from flags
-          let noteDate = null;
-          if (ssFlags?.startDate) {
-            noteDate = ssFlags.startDate;
-          } else if (bridgeFlags?.originalFormat?.startDate) {
-            noteDate = bridgeFlags.originalFormat.startDate;
-          }
-
-          if (!noteDate) return true; // Include if no date info
-
-          const noteTimestamp = this.dateToTimestamp(noteDate);
-          return noteTimestamp >= startTimestamp && noteTimestamp <= endTimestamp;
-        });
-      }
-
       console.log(
         `🌉 Simple Calendar Bridge: Search "${searchText}" found ${filteredNotes.length} notes`
       );
@@ -1950,17 +1835,18 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
 
   // Clock control APIs for SmallTime integration
   clockStatus(): { started: boolean } {
-    return { started: this.clockRunning };
+    return { started: this.clock.isRunning() };
   }
 
+  /**
+   * Start the real-time clock, advancing world time on the primary GM's client
+   */
   startClock(): void {
-    this.clockRunning = true;
-    Hooks.callAll('simple-calendar-clock-start-stop', { started: true });
+    this.clock.start();
   }
 
   stopClock(): void {
-    this.clockRunning = false;
-    Hooks.callAll('simple-calendar-clock-start-stop', { started: false });
+    this.clock.stop();
   }
 
   /**
@@ -1999,8 +1885,8 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
         return false;
       }
 
-      // Find the GM with the lowest ID (primary GM)
-      const gms = game.users?.filter((u: any) => u.isGM) || [];
+      // Find the connected GM with the lowest ID (primary GM)
+      const gms = game.users?.filter((u: any) => u.isGM && u.active) || [];
       if (gms.length === 0) {
         return false;
       }
@@ -2030,79 +1916,223 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
   // Migration function
 
   /**
-   * Run migration (no-op as specified)
+   * Migrate notes left by Simple Calendar to bridge calendar notes
+   *
+   * Safe to run repeatedly: notes already migrated are skipped. Pass
+   * `{ dryRun: true }` to preview the migration without changing any journal.
+   *
+   * @returns What happened to each note, or null for non-GM users
    */
-  runMigration(): void {
-    console.log('Simple Calendar Bridge: runMigration called - no migration needed');
-    // No-op - bridge doesn't manage data migrations
+  async runMigration(options: NoteMigrationOptions = {}): Promise<NoteMigrationResult | null> {
+    if (!game.user?.isGM) {
+      console.warn('🌉 Simple Calendar Bridge: Only GMs can migrate Simple Calendar notes');
+      return null;
+    }
+
+    try {
+      // Notes of a calendar Simple Calendar no longer has are dated on the active one
+      const engine = this.getCalendarEngine();
+      if (options.dryRun || findSimpleCalendarNotes().length === 0) {
+        return await migrateSimpleCalendarNotes({ ...options, engine });
+      }
+
+      const noteFolder = await this.getOrCreateNotesFolder();
+      const result = await migrateSimpleCalendarNotes({
+        ...options,
+        folderId: noteFolder.id,
+        engine,
+      });
+      console.log(
+        `🌉 Simple Calendar Bridge: Migrated ${result.migrated} of ${result.total} Simple Calendar notes`
+      );
+
+      if (result.migrated > 0) {
+        this.provider?.refreshNotes?.();
+      }
+      return result;
+    } catch (error) {
+      console.error('🌉 Simple Calendar Bridge: Failed to migrate Simple Calendar notes:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Undo the Simple Calendar note migration on every migrated journal
+   *
+   * @returns The number of notes restored
+   */
+  async rollbackMigration(): Promise<number> {
+    if (!game.user?.isGM) {
+      console.warn('🌉 Simple Calendar Bridge: Only GMs can roll back the note migration');
+      return 0;
+    }
+
+    const restored = await rollbackNoteMigration();
+    if (restored > 0) {
+      this.provider?.refreshNotes?.();
+    }
+    return restored;
   }
 
   // Additional APIs for module compatibility
-  getAllMoons(): any[] {
-    return [
-      {
-        color: '#ffffff',
-        currentPhase: { icon: 'new' },
-      },
-    ];
+  /**
+   * Get all moons of the active calendar with their phase for the current date
+   */
+  getAllMoons(): SimpleCalendarMoonData[] {
+    try {
+      if (!this.provider) {
+        return [];
+      }
+
+      const api = this.provider;
+      return calculateMoons(api.getActiveCalendar(), this.timestamp(), date =>
+        api.dateToWorldTime(date)
+      );
+    } catch (error) {
+      console.error('Failed to get all moons:', error);
+      return [];
+    }
   }
 
-  getAllSeasons(): any[] {
-    return [
-      { name: 'Spring', icon: 'spring' },
-      { name: 'Summer', icon: 'summer' },
-      { name: 'Fall', icon: 'fall' },
-      { name: 'Winter', icon: 'winter' },
-    ];
+  /**
+   * Get all seasons of the active calendar in Simple Calendar format
+   */
+  getAllSeasons(): SimpleCalendarSeasonData[] {
+    try {
+      return buildSeasons(this.getActiveCalendar());
+    } catch (error) {
+      console.error('Failed to get all seasons:', error);
+      return [];
+    }
   }
 
   // Utility methods
-  private getOrdinalSuffix(day: number): string {
-    if (day >= 11 && day <= 13) {
-      return 'th';
+
+  /**
+   * Engine for the active calendar's structure, or the built-in calendar when
+   * the provider has no calendar definition
+   */
+  private getCalendarEngine(): CalendarEngine {
+    const calendar = this.provider?.getActiveCalendar();
+    if (!Array.isArray(calendar?.months) || calendar.months.length === 0) {
+      return this.standalone;
     }
 
-    const lastDigit = day % 10;
-    switch (lastDigit) {
-      case 1:
-        return 'st';
-      case 2:
-        return 'nd';
-      case 3:
-        return 'rd';
-      default:
-        return 'th';
+    if (this.calendarEngine?.calendar !== calendar) {
+      this.calendarEngine = { calendar, engine: new CalendarEngine(calendar) };
     }
+    return this.calendarEngine.engine;
   }
 
   /**
-   * Create a Simple Calendar DateTime object from timestamp (Simple Calendar format)
+   * Create a Simple Calendar DateTime object from the built-in calendar when no
+   * calendar module is available
    * @source Returns exact format expected by Simple Calendar modules
    */
   private createFallbackDateTime(timestamp: number): SimpleCalendarDateTime {
-    const days = Math.floor(timestamp / 86400);
-    const secondsInDay = timestamp % 86400;
-    const hour = Math.floor(secondsInDay / 3600);
-    const minute = Math.floor((secondsInDay % 3600) / 60);
-    const seconds = secondsInDay % 60;
+    const date = this.standalone.worldTimeToDate(timestamp);
+    const calendar = this.standalone.calendar;
+
+    return this.buildSCDateTime(
+      date,
+      calendar,
+      calendar.months[date.month - 1]?.name || `Month ${date.month}`,
+      calendar.weekdays.map((weekday: any) => weekday.name)
+    );
+  }
+
+  /**
+   * Convert a provider date (1-based) to Simple Calendar DateTime format
+   * @source Returns exact format expected by Simple Calendar modules
+   */
+  private convertSSToSCDateTime(ssDate: CalendarDate): SimpleCalendarDateTime {
+    const date = this.toEntryDate(ssDate);
+
+    // Some modules (like SmallTime and Simple Weather) expect getCurrentDate to include display data
+    const monthName = this.getMonthName(date.month);
+
+    // Get weekday names for Simple Weather compatibility
+    const weekdayNames = this.provider?.getWeekdayNames?.() || [];
+
+    return this.buildSCDateTime(
+      date,
+      this.provider?.getActiveCalendar?.(),
+      monthName,
+      weekdayNames
+    );
+  }
+
+  /**
+   * Provider date in Simple Calendar's month numbering, where intercalary
+   * periods are months of their own
+   *
+   * The weekday is counted on the calendar when some intercalary days do not
+   * advance it, since providers may count every day.
+   */
+  private toEntryDate(ssDate: CalendarDate): CalendarDate {
+    const engine = this.getCalendarEngine();
+    const date = engine.toEntryDate(ssDate);
+
+    return engine.hasUncountedDays()
+      ? { ...date, weekday: engine.getWeekdayForDate(date.year, date.month, date.day) }
+      : date;
+  }
+
+  /**
+   * Simple Calendar month data for a month (0-based) of the engine's month list
+   */
+  private buildMonthData(engine: CalendarEngine, index: number): SimpleCalendarMonthData {
+    const entry = engine.getMonthEntries()[index];
+    const month = entry?.definition || {};
+    const monthName =
+      entry?.intercalaryName ??
+      (this.provider?.getMonthNames?.()?.[(entry?.month ?? index + 1) - 1] ||
+        month.name ||
+        `Month ${index + 1}`);
+    // Leap-year-only intercalary periods have no days in common years
+    const numberOfDays = engine.getMonthDays(index + 1, false) || (entry?.intercalary ? 0 : 30);
 
     return {
-      year: 2023,
-      month: 0, // 0-based January (Simple Calendar format)
-      day: days, // 0-based day (Simple Calendar format)
-      hour,
-      minute,
-      seconds, // Note: 'seconds' not 'second' (Simple Calendar format)
-      weekdays: [], // Empty array when no calendar available
-      dayOfTheWeek: 0, // Default to first day of week
+      id: `month-${index}`,
+      abbreviation: month.abbreviation || monthName.substring(0, 3),
+      name: monthName,
+      description: month.description || '',
+      numericRepresentation: index + 1, // 1-based for Simple Calendar
+      numericRepresentationOffset: month.numericRepresentationOffset || 0,
+      numberOfDays,
+      numberOfLeapYearDays:
+        month.leapLength || engine.getMonthDays(index + 1, true) || numberOfDays,
+      intercalary: entry?.intercalary ?? false,
+      intercalaryInclude: entry?.countsForWeekdays ?? true,
+      startingWeekday: month.startingWeekday ?? null,
     };
   }
 
   /**
-   * Convert Seasons & Stars date to Simple Calendar DateTime format
-   * @source Returns exact format expected by Simple Calendar modules
+   * Name of a month (1-based, in Simple Calendar's month list)
    */
-  private convertSSToSCDateTime(ssDate: CalendarDate): SimpleCalendarDateTime {
+  private getMonthName(month: number): string {
+    const entry = this.getCalendarEngine().getMonthEntries()[month - 1];
+    if (entry?.intercalaryName !== undefined) {
+      return entry.intercalaryName;
+    }
+
+    return (
+      this.provider?.getMonthNames?.()?.[(entry?.month ?? month) - 1] ||
+      entry?.definition?.name ||
+      `Month ${month}`
+    );
+  }
+
+  /**
+   * Build a Simple Calendar DateTime, including display data, from a 1-based date
+   */
+  private buildSCDateTime(
+    ssDate: CalendarDate,
+    calendar: any,
+    monthName: string,
+    weekdayNames: string[]
+  ): SimpleCalendarDateTime {
     const secondValue = ssDate.time?.second || 0;
 
     const baseDate = {
@@ -2115,27 +2145,19 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
       second: secondValue, // Simple Weather expects 'second' - provide both for compatibility
     };
 
-    // Some modules (like SmallTime and Simple Weather) expect getCurrentDate to include display data
-    // Use S&S formatDate API for robust formatting
-    const monthName =
-      this.seasonsStars?.api?.formatDate?.(ssDate, { format: '{{month.name}}' }) ||
-      `Month ${ssDate.month}`;
-
-    // Get weekday names and calculate day of week for Simple Weather compatibility
-    const weekdayNames = this.seasonsStars?.api?.getWeekdayNames?.() || [];
     const dayOfTheWeek = ssDate.weekday !== undefined ? ssDate.weekday : 0;
 
-    // Format date string for Simple Weather (e.g., "June 15, 2024")
-    const formattedDate = `${monthName} ${ssDate.day}, ${ssDate.year}`;
-
-    // Format time string for Simple Weather (e.g., "12:30")
-    const hour = baseDate.hour;
-    const minute = baseDate.minute.toString().padStart(2, '0');
-    const formattedTime = `${hour}:${minute}`;
-
     // Get weekday name from the weekday names array
     const weekdayName = weekdayNames[dayOfTheWeek] || 'Day';
 
+    // Format date and time strings for Simple Weather with the configured formats
+    // (e.g., "June 15, 2024" and "12:30:45" by default)
+    const { dateFormat } = getGeneralSettings();
+    const formatDate = { ...baseDate, dayOfTheWeek };
+    const names = { monthName, weekdayName: weekdayNames[dayOfTheWeek] };
+    const formattedDate = formatSimpleCalendarDate(formatDate, dateFormat.date, calendar, names);
+    const formattedTime = formatSimpleCalendarDate(formatDate, dateFormat.time, calendar, names);
+
     return {
       ...baseDate,
       weekdays: weekdayNames,
@@ -2151,6 +2173,57 @@ export class SimpleCalendarAPIBridge implements SimpleCalendarAPI {
     };
   }
 
+  /**
+   * Format a Simple Calendar date with Simple Calendar format tokens
+   *
+   * The weekday is looked up through the provider, or the built-in calendar
+   * without one, when the date does not carry one.
+   */
+  private formatWithTokens(date: any, format: string): string {
+    const api = this.provider;
+    const calendar = api ? api.getActiveCalendar() : this.standalone.calendar;
+    let dayOfTheWeek = date.dayOfTheWeek;
+
+    if (dayOfTheWeek === undefined) {
+      const ssDate = this.convertSCToSSFormat(date);
+      if (api) {
+        const normalized = api.worldTimeToDate(api.dateToWorldTime(ssDate));
+        dayOfTheWeek = normalized ? this.toEntryDate(normalized).weekday : undefined;
+      } else {
+        dayOfTheWeek = this.standalone.getWeekdayForDate(ssDate.year, ssDate.month, ssDate.day);
+      }
+    }
+
+    return formatSimpleCalendarDate(
+      {
+        year: date.year || 0,
+        month: date.month || 0,
+        day: date.day || 0,
+        hour: date.hour || 0,
+        minute: date.minute || 0,
+        seconds: date.seconds ?? date.second ?? 0,
+        dayOfTheWeek,
+      },
+      format,
+      calendar
+    );
+  }
+
+  /**
+   * Normalize a Simple Calendar date argument for note lookups (0-based month/day)
+   */
+  private toNoteDate(date: any): { year: number; month: number; day: number } {
+    return { year: date.year || 0, month: date.month || 0, day: date.day || 0 };
+  }
+
+  /**
+   * Stop the clock interval and stop listening for journal changes
+   */
+  destroy(): void {
+    this.clock.destroy();
+    this.noteIndex.unregisterHooks();
+  }
+
   /**
    * Convert Simple Calendar format to Seasons & Stars format
    */
@@ -0,0 +1,536 @@
+/**
+ * Standalone calendar engine
+ *
+ * Converts between Foundry world time and dates on a calendar definition in
+ * Seasons & Stars format (1-based months and days) without any calendar module.
+ * The bridge uses it when no provider is available so Simple Calendar consumers
+ * keep getting real dates. World time 0 is the first day of `year.epoch`, which
+ * falls on the weekday `year.startDay`.
+ *
+ * Intercalary periods from the calendar's `intercalary` list are counted as
+ * months of their own, placed after the month they follow, so engine dates use
+ * the same month numbering as Simple Calendar's month list.
+ */
+
+import type { CalendarDate } from '../types';
+import { GREGORIAN_CALENDAR } from './gregorian';
+import { formatSimpleCalendarDate, type FormatNames } from '../api/date-format';
+import { getTimeConfig, isGregorianLeapYear, positiveModulo } from '../utils/calendar-math';
+
+/**
+ * Amount of time to add to a date; `seconds` is accepted as Simple Calendar's spelling
+ */
+export interface CalendarInterval {
+  year?: number;
+  month?: number;
+  week?: number;
+  day?: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  seconds?: number;
+}
+
+/**
+ * A span of time split into calendar units
+ */
+export interface CalendarDuration {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * An entry in the engine's month list: one of the calendar's months, or an
+ * intercalary period placed after the month it follows
+ */
+export interface CalendarMonthEntry {
+  /** Month or intercalary period definition from the calendar */
+  definition: any;
+  /** 1-based month in the calendar's own month list that this entry is or follows */
+  month: number;
+  /** Name of the intercalary period, for entries from the `intercalary` list */
+  intercalaryName?: string;
+  /** Whether this is an intercalary month or period rather than a regular month */
+  intercalary: boolean;
+  /** Whether its days advance the weekday (Simple Calendar's `intercalaryInclude`) */
+  countsForWeekdays: boolean;
+}
+
+export class CalendarEngine {
+  private readonly entries: CalendarMonthEntry[];
+  private readonly monthLengths: number[];
+  private readonly leapMonthExtras: number[];
+  private readonly leapExtraDays: number;
+  /** 1-based entries of the regular months, which month arithmetic steps through */
+  private readonly regularMonths: number[];
+  /** Whether the calendar has an `intercalary` list, so its month numbering differs */
+  private readonly hasPeriods: boolean;
+  private readonly uncountedDays: number;
+  private readonly uncountedLeapDays: number;
+  private readonly epoch: number;
+
+  constructor(readonly calendar: any = GREGORIAN_CALENDAR) {
+    this.entries = buildMonthEntries(calendar);
+    if (this.entries.length === 0) {
+      throw new Error('Calendar definition has no months');
+    }
+
+    this.hasPeriods = this.entries.some(entry => entry.intercalaryName !== undefined);
+    this.monthLengths = this.entries.map(({ definition, intercalaryName }) => {
+      if (intercalaryName === undefined) return readDays(definition, 0);
+      return definition.leapYearOnly ? 0 : readDays(definition, 1);
+    });
+    // Leap days come from the leap year rule's month, leap-year-only intercalary
+    // periods or, in the Foundry core format, each month's own leap year length
+    this.leapMonthExtras = this.entries.map(({ definition, intercalaryName }, index) => {
+      if (intercalaryName !== undefined) {
+        return definition.leapYearOnly ? readDays(definition, 1) : 0;
+      }
+      if (definition?.name === calendar.leapYear?.month) return calendar.leapYear?.extraDays ?? 1;
+      return definition?.leapDays != null
+        ? Math.max(0, Number(definition.leapDays) || 0) - this.monthLengths[index]
+        : 0;
+    });
+    this.leapExtraDays = sum(this.leapMonthExtras);
+
+    const regularMonths = this.entries.flatMap((entry, index) =>
+      entry.intercalary ? [] : [index + 1]
+    );
+    this.regularMonths =
+      regularMonths.length > 0 ? regularMonths : this.entries.map((_entry, index) => index + 1);
+
+    const uncounted = (lengths: number[]) =>
+      sum(lengths.filter((_days, index) => !this.entries[index].countsForWeekdays));
+    this.uncountedDays = uncounted(this.monthLengths);
+    this.uncountedLeapDays = uncounted(this.leapMonthExtras);
+    this.epoch = calendar.year?.epoch ?? 0;
+  }
+
+  /**
+   * The engine's month list, intercalary periods included
+   */
+  getMonthEntries(): readonly CalendarMonthEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Whether some days (intercalary ones) do not advance the weekday
+   */
+  hasUncountedDays(): boolean {
+    return this.uncountedDays > 0 || this.uncountedLeapDays > 0;
+  }
+
+  /**
+   * Convert a calendar module date, which marks intercalary days with the
+   * period's name and the month it follows, to the engine's month numbering
+   */
+  toEntryDate(date: CalendarDate): CalendarDate {
+    if (!this.hasPeriods) return date;
+
+    const { intercalary, ...rest } = date;
+    const index = this.entries.findIndex(
+      entry => entry.month === date.month && entry.intercalaryName === intercalary
+    );
+    return index < 0 ? date : { ...rest, month: index + 1 };
+  }
+
+  /**
+   * Convert an engine date back to the calendar's own month numbering
+   */
+  fromEntryDate(date: CalendarDate): CalendarDate {
+    const entry = this.entries[date.month - 1];
+    if (!this.hasPeriods || !entry) return date;
+
+    return entry.intercalaryName === undefined
+      ? { ...date, month: entry.month }
+      : { ...date, month: entry.month, intercalary: entry.intercalaryName };
+  }
+
+  isLeapYear(year: number): boolean {
+    const leapYear = this.calendar.leapYear;
+    switch (leapYear?.rule) {
+      case 'gregorian':
+        return isGregorianLeapYear(year);
+      case 'custom':
+        return (
+          leapYear.interval > 0 &&
+          positiveModulo(year - (leapYear.offset || 0), leapYear.interval) === 0
+        );
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Number of days in a month (1-based) of the given year
+   */
+  getMonthLength(year: number, month: number): number {
+    return this.getMonthDays(month, this.isLeapYear(year));
+  }
+
+  /**
+   * Number of days in a month (1-based) in common or leap years
+   */
+  getMonthDays(month: number, leapYear: boolean): number {
+    const index = month - 1;
+    const days = this.monthLengths[index] ?? 0;
+    return leapYear ? days + (this.leapMonthExtras[index] ?? 0) : days;
+  }
+
+  /**
+   * Number of regular (non-intercalary) months in a year
+   */
+  getMonthCount(): number {
+    return this.regularMonths.length;
+  }
+
+  getYearLength(year: number): number {
+    return this.baseYearLength() + (this.isLeapYear(year) ? this.leapExtraDays : 0);
+  }
+
+  /**
+   * Mean number of days in a year over a full leap year cycle
+   */
+  getAverageYearLength(): number {
+    const span = 400 * (this.calendar.leapYear?.interval || 4);
+    return (
+      this.baseYearLength() +
+      (this.leapExtraDays * (this.leapYearsBefore(span) - this.leapYearsBefore(0))) / span
+    );
+  }
+
+  getSecondsPerDay(): number {
+    const { hoursInDay, minutesInHour, secondsInMinute } = getTimeConfig(this.calendar);
+    return hoursInDay * minutesInHour * secondsInMinute;
+  }
+
+  /**
+   * Days from the epoch to a date (1-based month and day); days past the end of
+   * a month carry into the following months
+   */
+  dateToDays(year: number, month: number, day: number): number {
+    const monthCount = this.monthLengths.length;
+    const normalizedYear = year + Math.floor((month - 1) / monthCount);
+    const normalizedMonth = positiveModulo(month - 1, monthCount) + 1;
+
+    let days = this.daysBeforeYear(normalizedYear) + day - 1;
+    for (let m = 1; m < normalizedMonth; m++) {
+      days += this.getMonthLength(normalizedYear, m);
+    }
+    return days;
+  }
+
+  /**
+   * Date (1-based month and day) for a day count from the epoch
+   */
+  daysToDate(days: number): { year: number; month: number; day: number } {
+    // Estimate the year from the average year length, then correct it
+    let year = this.epoch + Math.floor(days / this.getAverageYearLength());
+
+    while (this.daysBeforeYear(year) > days) year--;
+    while (this.daysBeforeYear(year + 1) <= days) year++;
+
+    let remaining = days - this.daysBeforeYear(year);
+    let month = 1;
+    while (month < this.monthLengths.length && remaining >= this.getMonthLength(year, month)) {
+      remaining -= this.getMonthLength(year, month);
+      month++;
+    }
+
+    return { year, month, day: remaining + 1 };
+  }
+
+  /**
+   * 0-based weekday for a day count from the epoch
+   */
+  getWeekday(days: number): number {
+    if (!this.hasUncountedDays()) {
+      return this.weekdayFromCount(days);
+    }
+
+    const date = this.daysToDate(days);
+    return this.getWeekdayForDate(date.year, date.month, date.day);
+  }
+
+  /**
+   * 0-based weekday for a date (1-based month and day)
+   *
+   * Intercalary days that do not count for weekdays share the weekday of the
+   * next counted day.
+   */
+  getWeekdayForDate(year: number, month: number, day: number): number {
+    const days = this.dateToDays(year, month, day);
+    if (!this.hasUncountedDays()) {
+      return this.weekdayFromCount(days);
+    }
+
+    const date = this.daysToDate(days);
+    let counted =
+      this.daysBeforeYear(date.year) -
+      (date.year - this.epoch) * this.uncountedDays -
+      this.uncountedLeapDays * (this.leapYearsBefore(date.year) - this.leapYearsBefore(this.epoch));
+    for (let m = 1; m < date.month; m++) {
+      if (this.entries[m - 1].countsForWeekdays) counted += this.getMonthLength(date.year, m);
+    }
+    if (this.entries[date.month - 1].countsForWeekdays) counted += date.day - 1;
+
+    return this.weekdayFromCount(counted);
+  }
+
+  worldTimeToDate(timestamp: number): CalendarDate {
+    const { minutesInHour, secondsInMinute } = getTimeConfig(this.calendar);
+    const secondsPerDay = this.getSecondsPerDay();
+    const secondsPerHour = minutesInHour * secondsInMinute;
+    const days = Math.floor(timestamp / secondsPerDay);
+    const secondsInDay = positiveModulo(Math.floor(timestamp), secondsPerDay);
+    const date = this.daysToDate(days);
+
+    return {
+      ...date,
+      weekday: this.hasUncountedDays()
+        ? this.getWeekdayForDate(date.year, date.month, date.day)
+        : this.weekdayFromCount(days),
+      time: {
+        hour: Math.floor(secondsInDay / secondsPerHour),
+        minute: Math.floor((secondsInDay % secondsPerHour) / secondsInMinute),
+        second: secondsInDay % secondsInMinute,
+      },
+    };
+  }
+
+  dateToWorldTime(date: CalendarDate): number {
+    const { minutesInHour, secondsInMinute } = getTimeConfig(this.calendar);
+    return (
+      this.dateToDays(date.year, date.month, date.day) * this.getSecondsPerDay() +
+      (date.time?.hour || 0) * minutesInHour * secondsInMinute +
+      (date.time?.minute || 0) * secondsInMinute +
+      (date.time?.second || 0)
+    );
+  }
+
+  /**
+   * Add an interval to a timestamp
+   *
+   * Years and months move the calendar date, clamping the day to the length of
+   * the target month; smaller units are added as elapsed time.
+   */
+  addInterval(timestamp: number, interval: CalendarInterval): number {
+    let result = timestamp;
+
+    if (interval.year || interval.month) {
+      result = this.dateToWorldTime(
+        this.addMonths(this.worldTimeToDate(timestamp), interval.year || 0, interval.month || 0)
+      );
+    }
+
+    return result + this.getIntervalSeconds(interval);
+  }
+
+  /**
+   * Move a date (1-based month and day) by whole years and months, clamping the
+   * day to the length of the target month
+   *
+   * Months are counted in regular months, so intercalary months are stepped
+   * over; a date on an intercalary day moves from the regular month before it
+   * when going forward and from the one after it when going back.
+   */
+  addMonths(date: CalendarDate, years: number, months: number): CalendarDate {
+    let year = date.year + years;
+    let month = date.month;
+
+    if (months !== 0) {
+      const count = this.regularMonths.length;
+      const { index, regular } = this.findRegularMonth(month);
+      const target = index + months + (regular || months > 0 ? 0 : 1);
+      year += Math.floor(target / count);
+      month = this.regularMonths[positiveModulo(target, count)];
+    }
+
+    const day = Math.min(date.day, Math.max(this.getMonthLength(year, month), 1));
+    return { ...date, year, month, day };
+  }
+
+  /**
+   * Regular months from one date's month to another's, counting an intercalary
+   * month as part of the regular month before it
+   */
+  monthsBetween(start: CalendarDate, end: CalendarDate): number {
+    const position = (date: CalendarDate) =>
+      date.year * this.regularMonths.length + this.findRegularMonth(date.month).index;
+    return position(end) - position(start);
+  }
+
+  /**
+   * Elapsed seconds in an interval's weeks, days, hours, minutes and seconds
+   */
+  getIntervalSeconds(interval: CalendarInterval): number {
+    const { minutesInHour, secondsInMinute } = getTimeConfig(this.calendar);
+    const weekLength = this.calendar.weekdays?.length || 7;
+    return (
+      ((interval.week || 0) * weekLength + (interval.day || 0)) * this.getSecondsPerDay() +
+      (interval.hour || 0) * minutesInHour * secondsInMinute +
+      (interval.minute || 0) * secondsInMinute +
+      (interval.second ?? interval.seconds ?? 0)
+    );
+  }
+
+  /**
+   * Split elapsed seconds into days, hours, minutes and seconds
+   */
+  splitSeconds(seconds: number): CalendarDuration {
+    const { minutesInHour, secondsInMinute } = getTimeConfig(this.calendar);
+    const secondsPerHour = minutesInHour * secondsInMinute;
+    const secondsPerDay = this.getSecondsPerDay();
+
+    return {
+      year: 0,
+      month: 0,
+      day: Math.floor(seconds / secondsPerDay),
+      hour: Math.floor((seconds % secondsPerDay) / secondsPerHour),
+      minute: Math.floor((seconds % secondsPerHour) / secondsInMinute),
+      second: seconds % secondsInMinute,
+    };
+  }
+
+  /**
+   * Split elapsed seconds into years and months of average length, then days
+   * and time
+   */
+  approximateDuration(seconds: number): CalendarDuration {
+    const secondsPerYear = this.getAverageYearLength() * this.getSecondsPerDay();
+    const secondsPerMonth = secondsPerYear / this.getMonthCount();
+    const year = Math.floor(seconds / secondsPerYear);
+    const month = Math.floor((seconds - year * secondsPerYear) / secondsPerMonth);
+    const rest = Math.round(seconds - year * secondsPerYear - month * secondsPerMonth);
+
+    return { ...this.splitSeconds(rest), year, month };
+  }
+
+  /**
+   * Format a date with Simple Calendar format tokens
+   */
+  formatDate(date: CalendarDate, format: string, names: FormatNames = {}): string {
+    return formatSimpleCalendarDate(
+      {
+        year: date.year,
+        month: date.month - 1,
+        day: date.day - 1,
+        hour: date.time?.hour,
+        minute: date.time?.minute,
+        seconds: date.time?.second,
+        dayOfTheWeek: date.weekday,
+      },
+      format,
+      this.calendar,
+      names
+    );
+  }
+
+  private baseYearLength(): number {
+    return sum(this.monthLengths);
+  }
+
+  private weekdayFromCount(days: number): number {
+    const weekdayCount = this.calendar.weekdays?.length || 7;
+    return positiveModulo(days + (this.calendar.year?.startDay || 0), weekdayCount);
+  }
+
+  /**
+   * Position in the regular month list of a month, or of the regular month
+   * before it (-1 before the first) when it is intercalary
+   */
+  private findRegularMonth(month: number): { index: number; regular: boolean } {
+    let index = -1;
+    while (index + 1 < this.regularMonths.length && this.regularMonths[index + 1] <= month) {
+      index++;
+    }
+    return { index, regular: this.regularMonths[index] === month };
+  }
+
+  /**
+   * Days from the epoch to the first day of a year
+   */
+  private daysBeforeYear(year: number): number {
+    return (
+      (year - this.epoch) * this.baseYearLength() +
+      this.leapExtraDays * (this.leapYearsBefore(year) - this.leapYearsBefore(this.epoch))
+    );
+  }
+
+  /**
+   * Signed count of leap years before a year, so differences count the leap
+   * years in a range
+   */
+  private leapYearsBefore(year: number): number {
+    const leapYear = this.calendar.leapYear;
+    const ceilDiv = (value: number, divisor: number) => Math.ceil(value / divisor);
+
+    switch (leapYear?.rule) {
+      case 'gregorian':
+        return ceilDiv(year, 4) - ceilDiv(year, 100) + ceilDiv(year, 400);
+      case 'custom':
+        return leapYear.interval > 0
+          ? ceilDiv(year - (leapYear.offset || 0), leapYear.interval)
+          : 0;
+      default:
+        return 0;
+    }
+  }
+}
+
+/**
+ * 0-based position in a calendar's month entries of one of its own 1-based
+ * months, or of the intercalary period named after it
+ *
+ * Seasons and moons date their start by the calendar's own months; Simple
+ * Calendar counts intercalary periods as months, like the engine.
+ */
+export function toEntryMonthIndex(calendar: any, month: number, intercalary?: string): number {
+  const index = buildMonthEntries(calendar).findIndex(
+    entry => entry.month === month && entry.intercalaryName === intercalary
+  );
+  return index < 0 ? month - 1 : index;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function readDays(definition: any, fallback: number): number {
+  return Math.max(0, Number(definition?.days ?? definition?.length ?? fallback) || 0);
+}
+
+/**
+ * Build the month list of a calendar, with intercalary periods after the month
+ * they follow
+ */
+function buildMonthEntries(calendar: any): CalendarMonthEntry[] {
+  const months: any[] = Array.isArray(calendar?.months) ? calendar.months : [];
+  const periods: any[] = Array.isArray(calendar?.intercalary) ? calendar.intercalary : [];
+
+  return months.flatMap((month, index) => {
+    const intercalary = month?.intercalary === true;
+    const entry: CalendarMonthEntry = {
+      definition: month,
+      month: index + 1,
+      intercalary,
+      // Simple Calendar leaves intercalary months out of weekday counting by default
+      countsForWeekdays: !intercalary || month.intercalaryInclude === true,
+    };
+    const following = periods
+      .filter(period => period?.after === month?.name)
+      .map(period => ({
+        definition: period,
+        month: index + 1,
+        intercalaryName: String(period.name),
+        intercalary: true,
+        countsForWeekdays: period.countsForWeekdays !== false,
+      }));
+
+    return [entry, ...following];
+  });
+}
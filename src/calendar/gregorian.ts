@@ -0,0 +1,56 @@
+/**
+ * Gregorian calendar definition in Seasons & Stars format
+ *
+ * Used by providers whose calendar module does not expose a calendar definition
+ * of its own, so month, weekday and season metadata look the same as they do
+ * through Seasons & Stars.
+ */
+
+/**
+ * Weekday index (Sunday = 0) of 1 January 1970
+ */
+export const GREGORIAN_EPOCH_WEEKDAY = 4;
+
+export const GREGORIAN_CALENDAR = {
+  id: 'gregorian',
+  name: 'Gregorian Calendar',
+  description: 'The standard Earth calendar',
+  months: [
+    { name: 'January', abbreviation: 'Jan', days: 31 },
+    { name: 'February', abbreviation: 'Feb', days: 28 },
+    { name: 'March', abbreviation: 'Mar', days: 31 },
+    { name: 'April', abbreviation: 'Apr', days: 30 },
+    { name: 'May', abbreviation: 'May', days: 31 },
+    { name: 'June', abbreviation: 'Jun', days: 30 },
+    { name: 'July', abbreviation: 'Jul', days: 31 },
+    { name: 'August', abbreviation: 'Aug', days: 31 },
+    { name: 'September', abbreviation: 'Sep', days: 30 },
+    { name: 'October', abbreviation: 'Oct', days: 31 },
+    { name: 'November', abbreviation: 'Nov', days: 30 },
+    { name: 'December', abbreviation: 'Dec', days: 31 },
+  ],
+  weekdays: [
+    { name: 'Sunday', abbreviation: 'Sun' },
+    { name: 'Monday', abbreviation: 'Mon' },
+    { name: 'Tuesday', abbreviation: 'Tue' },
+    { name: 'Wednesday', abbreviation: 'Wed' },
+    { name: 'Thursday', abbreviation: 'Thu' },
+    { name: 'Friday', abbreviation: 'Fri' },
+    { name: 'Saturday', abbreviation: 'Sat' },
+  ],
+  year: {
+    epoch: 1970,
+    currentYear: 1970,
+    prefix: '',
+    suffix: '',
+    startDay: GREGORIAN_EPOCH_WEEKDAY,
+  },
+  leapYear: { rule: 'gregorian', month: 'February', extraDays: 1 },
+  time: { hoursInDay: 24, minutesInHour: 60, secondsInMinute: 60 },
+  seasons: [
+    { name: 'Spring', icon: 'spring', startMonth: 3, startDay: 20 },
+    { name: 'Summer', icon: 'summer', startMonth: 6, startDay: 21 },
+    { name: 'Autumn', icon: 'fall', startMonth: 9, startDay: 22 },
+    { name: 'Winter', icon: 'winter', startMonth: 12, startDay: 21 },
+  ],
+};
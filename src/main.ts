@@ -3,11 +3,22 @@
  * Provides Simple Calendar API compatibility for modern calendar modules
  */
 
-import { SeasonsStarsProvider } from './providers/seasons-stars';
-import { SeasonsStarsIntegrationProvider } from './providers/seasons-stars-integration';
+import { BaseCalendarProvider } from './providers/base-provider';
+import { ProviderRegistry, registerBuiltInProviders } from './providers/registry';
+import { FoundryCoreProvider } from './providers/foundry-core';
+import { StandaloneProvider } from './providers/standalone';
+import type { SelectedProvider } from './providers/registry';
 import { SimpleCalendarAPIBridge, Icons, NoteRepeat } from './api/simple-calendar-api';
 import { HookBridge } from './api/hooks';
-import type { CalendarProvider } from './types';
+import { GameClock } from './api/clock';
+import { getPreferredProviderId, isProviderSettingKey, registerSettings } from './settings';
+import { convertSimpleCalendarCalendar } from './migration/calendar-converter';
+import { readSimpleCalendarSettings } from './migration/simple-calendar-settings';
+import { offerSimpleCalendarSettingsImport } from './migration/settings-import';
+import { registerExportMenu } from './migration/calendar-exporter';
+import { registerMigrationAssistantMenu } from './migration/migration-assistant';
+import type { CalendarConversionReport } from './migration/calendar-converter';
+import type { CalendarProvider, ProviderRegistration } from './types';
 
 /**
  * Version number that Simple Weather expects to see
@@ -15,6 +26,11 @@ import type { CalendarProvider } from './types';
  */
 const FAKE_SIMPLE_CALENDAR_VERSION = '2.4.18.5';
 
+/**
+ * Provider id of the built-in calendar the bridge falls back to
+ */
+const FALLBACK_PROVIDER_ID = 'standalone';
+
 /**
  * CRITICAL: Expose SimpleCalendar immediately at module parse time
  *
@@ -31,6 +47,9 @@ const FAKE_SIMPLE_CALENDAR_VERSION = '2.4.18.5';
  */
 console.log('🌉 Simple Calendar Compatibility Bridge | Initializing (parse-time)');
 
+// Game systems configure their core calendar during init, after this runs
+FoundryCoreProvider.recordDefaultCalendar();
+
 // Create a minimal SimpleCalendar object that Simple Weather can detect
 // CRITICAL: Include all methods Simple Weather checks during initialization
 // NOTE: These stub methods return minimal data until the real API is initialized
@@ -385,212 +404,114 @@ console.log(
   '🌉 Simple Calendar Compatibility Bridge | Minimal CSS classes added for attached mode'
 );
 
-const SIMPLE_CALENDAR_CALENDARS_KEY = 'foundryvtt-simple-calendar.calendars';
-const SIMPLE_CALENDAR_CURRENT_CALENDAR_KEY = 'foundryvtt-simple-calendar.current-calendar';
-
 type RegisterExternalCalendarsContext = {
   registerCalendar?: (calendar: Record<string, unknown>, source: Record<string, unknown>) => void;
 };
 
-type SimpleCalendarCalendarConfig = Record<string, any>;
-
-function getSimpleCalendarWorldSettings(): Record<string, unknown> | null {
-  try {
-    const storage = game.settings?.storage;
-    if (storage && typeof storage.get === 'function') {
-      const worldSettings = storage.get('world');
-      if (worldSettings && typeof worldSettings === 'object') {
-        return worldSettings as Record<string, unknown>;
-      }
-    }
-  } catch (error) {
-    console.warn('Simple Calendar Bridge: Failed to read world settings for registration', error);
-  }
-
-  return null;
-}
-
-function getSimpleCalendarSettings() {
-  const worldSettings = getSimpleCalendarWorldSettings() ?? {};
-  const calendarsRaw =
-    worldSettings[SIMPLE_CALENDAR_CALENDARS_KEY] ??
-    (typeof game.settings?.get === 'function'
-      ? game.settings.get('foundryvtt-simple-calendar', 'calendars')
-      : undefined);
-  const currentCalendarRaw =
-    worldSettings[SIMPLE_CALENDAR_CURRENT_CALENDAR_KEY] ??
-    (typeof game.settings?.get === 'function'
-      ? game.settings.get('foundryvtt-simple-calendar', 'current-calendar')
-      : undefined);
-
-  let calendars: Record<string, SimpleCalendarCalendarConfig> | null = null;
-  let parseError = false;
-
-  if (calendarsRaw) {
-    try {
-      if (typeof calendarsRaw === 'string') {
-        calendars = JSON.parse(calendarsRaw) as Record<string, SimpleCalendarCalendarConfig>;
-      } else if (typeof calendarsRaw === 'object') {
-        calendars = calendarsRaw as Record<string, SimpleCalendarCalendarConfig>;
-      }
-    } catch (error) {
-      console.error('Error parsing calendars data', error);
-      parseError = true;
-    }
-  }
-
-  const currentCalendarId = typeof currentCalendarRaw === 'string' ? currentCalendarRaw : null;
-
-  return { calendars, currentCalendarId, parseError };
-}
-
-function ensureMonths(months: unknown): Array<Record<string, unknown>> {
-  if (!Array.isArray(months)) {
-    return [];
-  }
-
-  return months.map((month, index) => {
-    const name =
-      typeof (month as any)?.name === 'string' ? (month as any).name : `Month ${index + 1}`;
-    const abbreviation = (month as any)?.abbreviation;
-    const days = typeof (month as any)?.days === 'number' ? (month as any).days : 30;
-
-    const result: Record<string, unknown> = {
-      name,
-      days,
-    };
-
-    if (typeof abbreviation === 'string' && abbreviation.length > 0) {
-      result.abbreviation = abbreviation;
-    }
-
-    return result;
-  });
-}
-
-function ensureWeekdays(weekdays: unknown): Array<Record<string, unknown>> {
-  if (!Array.isArray(weekdays)) {
-    return [];
-  }
-
-  return weekdays.map((weekday, index) => {
-    const name =
-      typeof (weekday as any)?.name === 'string' ? (weekday as any).name : `Day ${index + 1}`;
-    const abbreviation = (weekday as any)?.abbreviation;
-
-    const result: Record<string, unknown> = {
-      name,
-    };
-
-    if (typeof abbreviation === 'string' && abbreviation.length > 0) {
-      result.abbreviation = abbreviation;
-    }
-
-    return result;
-  });
-}
-
-function convertSimpleCalendarCalendar(
-  calendarId: string,
-  calendarConfig: SimpleCalendarCalendarConfig
-): Record<string, unknown> | null {
-  if (!calendarConfig || typeof calendarConfig !== 'object') {
-    return null;
-  }
-
-  const translations: Record<string, Record<string, string>> = {
-    en: {
-      label:
-        typeof calendarConfig.name === 'string' && calendarConfig.name.length > 0
-          ? calendarConfig.name
-          : 'Simple Calendar Calendar',
-    },
-  };
-
-  if (typeof calendarConfig.description === 'string' && calendarConfig.description.length > 0) {
-    translations.en.description = calendarConfig.description;
-  }
-
-  const timeConfig = calendarConfig.time ?? {};
-
-  const result: Record<string, unknown> = {
-    id: `simple-calendar-${calendarId}`,
-    translations,
-    year: typeof calendarConfig.year === 'object' && calendarConfig.year ? calendarConfig.year : {},
-    months: ensureMonths(calendarConfig.months),
-    weekdays: ensureWeekdays(calendarConfig.weekdays),
-    intercalary: Array.isArray(calendarConfig.intercalary) ? calendarConfig.intercalary : [],
-    time: {
-      hoursInDay:
-        typeof (timeConfig as any)?.hoursInDay === 'number' ? (timeConfig as any).hoursInDay : 24,
-      minutesInHour:
-        typeof (timeConfig as any)?.minutesInHour === 'number'
-          ? (timeConfig as any).minutesInHour
-          : 60,
-      secondsInMinute:
-        typeof (timeConfig as any)?.secondsInMinute === 'number'
-          ? (timeConfig as any).secondsInMinute
-          : 60,
-    },
-  };
-
-  if (calendarConfig.leapYear) {
-    result.leapYear = calendarConfig.leapYear;
-  }
-
-  return result;
-}
-
-function registerSimpleCalendarCalendars(context: RegisterExternalCalendarsContext = {}): void {
+/**
+ * Register Simple Calendar's stored calendars with Seasons & Stars
+ *
+ * @returns A conversion report for each registered calendar
+ */
+function registerSimpleCalendarCalendars(
+  context: RegisterExternalCalendarsContext = {}
+): CalendarConversionReport[] {
   const registerCalendar = context?.registerCalendar;
 
   if (typeof registerCalendar !== 'function') {
     console.warn(
       'Simple Calendar Compatibility Bridge | registerExternalCalendars hook missing registerCalendar function'
     );
-    return;
+    return [];
   }
 
-  const { calendars, currentCalendarId, parseError } = getSimpleCalendarSettings();
+  const { calendars, currentCalendarId, parseError } = readSimpleCalendarSettings();
 
   if (parseError) {
-    return;
+    return [];
   }
 
   if (!calendars || Object.keys(calendars).length === 0) {
     console.log('No Simple Calendar data found in world settings - skipping calendar registration');
-    return;
+    return [];
   }
 
-  let registeredCount = 0;
+  const reports: CalendarConversionReport[] = [];
 
   for (const [calendarId, calendarConfig] of Object.entries(calendars)) {
-    const converted = convertSimpleCalendarCalendar(calendarId, calendarConfig);
-    if (!converted) {
+    const conversion = convertSimpleCalendarCalendar(calendarId, calendarConfig);
+    if (!conversion) {
       continue;
     }
 
-    registerCalendar(converted, {
+    const { calendar, report } = conversion;
+    if (report.unmapped.length > 0) {
+      console.warn(
+        `Simple Calendar Compatibility Bridge | ${report.unmapped.length} settings of "${report.name}" could not be converted`,
+        report.unmapped
+      );
+    }
+
+    registerCalendar(calendar, {
       type: 'module',
       sourceName: 'Simple Calendar',
       moduleId: 'simple-calendar',
       isDefault: calendarId === currentCalendarId,
     });
 
-    registeredCount += 1;
+    reports.push(report);
   }
 
-  if (registeredCount > 0) {
-    ui.notifications?.info(`Registered ${registeredCount} calendars from Simple Calendar data`);
+  if (reports.length > 0) {
+    ui.notifications?.info(`Registered ${reports.length} calendars from Simple Calendar data`);
   }
+
+  return reports;
 }
 
 Hooks.on('seasons-stars:registerExternalCalendars', registerSimpleCalendarCalendars);
 
 class SimpleCalendarCompatibilityBridge {
   private provider: CalendarProvider | null = null;
+  private providerId: string | null = null;
   private api: SimpleCalendarAPIBridge | null = null;
   private hookBridge: HookBridge | null = null;
+  private registry = new ProviderRegistry();
+  /** Whether providers have been detected at least once */
+  private detected = false;
+  /** Whether simple-calendar-init has been emitted */
+  private initEmitted = false;
+
+  constructor() {
+    registerBuiltInProviders(this.registry);
+  }
+
+  /**
+   * Register a calendar provider offered by another module
+   */
+  registerProvider(registration: ProviderRegistration): boolean {
+    const registered = this.registry.register(registration);
+
+    // Providers registered after detection may outrank the current one
+    if (registered && this.detected) {
+      this.refreshProvider();
+    }
+
+    return registered;
+  }
+
+  /**
+   * Expose provider registration before any provider is detected, so calendar
+   * modules can register during init or setup
+   */
+  exposeRegistrationAPI(): void {
+    (game as any).simpleCalendarCompat = {
+      ...(game as any).simpleCalendarCompat,
+      registerProvider: (registration: ProviderRegistration) => this.registerProvider(registration),
+      refreshProvider: () => this.refreshProvider(),
+      BaseCalendarProvider,
+    };
+  }
 
   /**
    * Initialize the compatibility bridge synchronously for immediate API availability
@@ -626,11 +547,14 @@ class SimpleCalendarCompatibilityBridge {
       `🌉 Simple Calendar Compatibility Bridge | Using provider: ${this.provider.name} v${this.provider.version}`
     );
 
-    // Create API bridge - detects integration interface internally
-    this.api = new SimpleCalendarAPIBridge();
+    // One clock shared by both bridges so clockStatus() and getClockStatus() agree
+    const clock = new GameClock(() => this.api?.isPrimaryGM() ?? false);
+
+    // Create API bridge on top of the selected provider
+    this.api = new SimpleCalendarAPIBridge(this.provider, clock);
 
     // Create hook bridge using provider for compatibility
-    this.hookBridge = new HookBridge(this.provider);
+    this.hookBridge = new HookBridge(this.provider, clock);
 
     // Expose Simple Calendar API synchronously
     this.exposeSimpleCalendarAPI();
@@ -678,11 +602,14 @@ class SimpleCalendarCompatibilityBridge {
       `🌉 Simple Calendar Compatibility Bridge | Using provider: ${this.provider.name} v${this.provider.version}`
     );
 
-    // Create API bridge - detects integration interface internally
-    this.api = new SimpleCalendarAPIBridge();
+    // One clock shared by both bridges so clockStatus() and getClockStatus() agree
+    const clock = new GameClock(() => this.api?.isPrimaryGM() ?? false);
+
+    // Create API bridge on top of the selected provider
+    this.api = new SimpleCalendarAPIBridge(this.provider, clock);
 
     // Create hook bridge using provider for compatibility
-    this.hookBridge = new HookBridge(this.provider);
+    this.hookBridge = new HookBridge(this.provider, clock);
 
     // Expose Simple Calendar API
     this.exposeSimpleCalendarAPI();
@@ -698,36 +625,115 @@ class SimpleCalendarCompatibilityBridge {
   }
 
   /**
-   * Detect available calendar providers in priority order
+   * Re-detect the calendar provider and switch to it without a reload
+   *
+   * Covers calendar modules that finish loading or register late and changes to
+   * the calendar provider setting. The API object stays the same, so modules
+   * holding on to SimpleCalendar.api keep working.
+   *
+   * @returns Whether the bridge now uses a different provider
+   */
+  refreshProvider(): boolean {
+    if (!this.api || !this.hookBridge) {
+      // Nothing was available before: initialize now, emitting Init right away
+      // if the ready hook already announced the bridge
+      this.initializeSync(!this.initEmitted);
+      return !!this.provider;
+    }
+
+    const preferredId = getPreferredProviderId();
+    if (this.registry.getCandidates(preferredId)[0]?.id === this.providerId) {
+      return false;
+    }
+
+    try {
+      const selected = this.registry.select(preferredId) ?? this.selectFallbackProvider();
+      if (!selected) {
+        return false;
+      }
+
+      const previous = this.provider;
+      this.provider = selected.provider;
+      this.providerId = selected.id;
+      previous?.cleanup?.();
+
+      this.api.setProvider(selected.provider);
+      this.hookBridge.setProvider(selected.provider);
+      (game as any).simpleCalendarCompat = {
+        ...(game as any).simpleCalendarCompat,
+        provider: this.provider,
+      };
+
+      console.log(
+        `🌉 Simple Calendar Compatibility Bridge | Switched provider to ${selected.provider.name} v${selected.provider.version}`
+      );
+
+      // Modules that set up before the switch re-read calendar data on Init
+      if (this.initEmitted) {
+        this.hookBridge.reannounce();
+      }
+
+      return true;
+    } catch (error) {
+      console.error(
+        '🌉 Simple Calendar Compatibility Bridge | Failed to switch calendar provider:',
+        error
+      );
+      return false;
+    }
+  }
+
+  /**
+   * The built-in calendar, for a running bridge whose calendar module is no
+   * longer available
+   *
+   * @returns The fallback, or null when the bridge already uses it
+   */
+  private selectFallbackProvider(): SelectedProvider | null {
+    if (this.providerId === FALLBACK_PROVIDER_ID) {
+      return null;
+    }
+
+    console.warn(
+      `🌉 Simple Calendar Compatibility Bridge | ${this.provider?.name} is no longer available, falling back to the built-in calendar`
+    );
+    return {
+      id: FALLBACK_PROVIDER_ID,
+      name: 'Built-in Calendar',
+      provider: new StandaloneProvider(),
+    };
+  }
+
+  /**
+   * Emit simple-calendar-init; provider switches after this emit it again
+   */
+  emitInitHook(): void {
+    this.initEmitted = true;
+    Hooks.callAll('simple-calendar-init');
+  }
+
+  /**
+   * Select the calendar provider: the GM's choice when it is available,
+   * otherwise the highest-priority available provider
    */
   private detectCalendarProvider(): CalendarProvider | null {
     console.log('🌉 Detecting calendar providers...');
     console.log('🌉 Available modules:', Array.from(game.modules?.keys() || []));
     console.log('🌉 game.seasonsStars available:', !!(game as any).seasonsStars);
 
-    // Priority 1: Seasons & Stars Integration Interface (v2.0+)
-    if (SeasonsStarsIntegrationProvider.isAvailable()) {
-      console.log('🌉 Seasons & Stars integration provider is available');
-      return new SeasonsStarsIntegrationProvider();
-    }
+    // Let other modules register their providers, then pick one
+    this.registry.collectRegistrations();
+    this.detected = true;
+    const selected = this.registry.select(getPreferredProviderId());
 
-    // Priority 2: Seasons & Stars Legacy Provider (v1.x)
-    if (SeasonsStarsProvider.isAvailable()) {
-      console.log('🌉 Seasons & Stars legacy provider is available');
-      return new SeasonsStarsProvider();
-    } else {
-      console.log('🌉 No Seasons & Stars providers available');
+    if (!selected) {
+      console.log('🌉 No calendar providers found');
+      return null;
     }
 
-    // Priority 2: About Time (future implementation)
-    // if (AboutTimeProvider.isAvailable()) {
-    //   return new AboutTimeProvider();
-    // }
-
-    // Priority 3: Other calendar modules (future)
-
-    console.log('🌉 No calendar providers found');
-    return null;
+    console.log(`🌉 ${selected.name} provider selected (${selected.id})`);
+    this.providerId = selected.id;
+    return selected.provider;
   }
 
   /**
@@ -774,6 +780,7 @@ class SimpleCalendarCompatibilityBridge {
 
     // Also add to game object for easier access
     (game as any).simpleCalendarCompat = {
+      ...(game as any).simpleCalendarCompat,
       provider: this.provider,
       api: this.api,
       version: game.modules.get('foundryvtt-simple-calendar-compat')?.version || '0.1.0',
@@ -1188,6 +1195,11 @@ class SimpleCalendarCompatibilityBridge {
       delete (game as any).simpleCalendarCompat;
     }
 
+    // Stop the clock, stop keeping the note index current and stop bridging hooks
+    this.api?.destroy();
+    this.hookBridge?.destroy();
+    this.provider?.cleanup?.();
+
     // Clean up DOM observer
     if ((this as any).domObserver) {
       (this as any).domObserver.disconnect();
@@ -1224,7 +1236,11 @@ let compatBridge: SimpleCalendarCompatibilityBridge;
  */
 Hooks.once('init', () => {
   console.log('🌉 Simple Calendar Compatibility Bridge | Module initializing');
+  registerSettings();
+  registerExportMenu();
+  registerMigrationAssistantMenu();
   compatBridge = new SimpleCalendarCompatibilityBridge();
+  compatBridge.exposeRegistrationAPI();
 
   // Register fake Simple Calendar module entry in game.modules Collection
   // This makes game.modules.get('foundryvtt-simple-calendar') return a valid module
@@ -1327,8 +1343,9 @@ Hooks.once('seasons-stars:ready', () => {
   );
   try {
     // Use synchronous initialization since S&S API is now synchronously available
-    // Pass true to skip Init hook - we'll fire it using setImmediate in ready hook
-    compatBridge.initializeSync(true);
+    // Init is skipped until the ready hook fires it; if another provider was picked
+    // before S&S finished loading, the bridge switches over to S&S instead
+    compatBridge.refreshProvider();
     console.log('🌉 Simple Calendar Compatibility Bridge | Bridge initialized synchronously');
   } catch (error) {
     console.error(
@@ -1376,13 +1393,29 @@ Hooks.once('ready', () => {
     }
   }
 
+  // Calendar modules other than S&S don't fire seasons-stars:ready, so make sure
+  // a provider has been picked before announcing the bridge
+  if (compatBridge) {
+    try {
+      compatBridge.refreshProvider();
+    } catch (error) {
+      console.error(
+        '🌉 Simple Calendar Compatibility Bridge | Failed to initialize during ready:',
+        error
+      );
+    }
+  }
+
   // Now fire the Init hook after all ready hooks have completed
   // Use setImmediate (or queueMicrotask) to defer until after current call stack
   if (compatBridge) {
     queueMicrotask(() => {
       console.log('🌉 Simple Calendar Compatibility Bridge | Emitting simple-calendar-init hook');
-      Hooks.callAll('simple-calendar-init');
+      compatBridge.emitInitHook();
       console.log('🌉 Simple Calendar Compatibility Bridge | simple-calendar-init hook emitted');
+
+      // Offer Simple Calendar's last date and settings once the API is exposed
+      void offerSimpleCalendarSettingsImport((globalThis as any).SimpleCalendar?.api);
     });
   }
 
@@ -1390,6 +1423,17 @@ Hooks.once('ready', () => {
   // 5 seconds after HookBridge.initialize() completes (matches Simple Calendar behavior)
 });
 
+/**
+ * Switch providers when the GM changes the calendar provider setting
+ */
+const onProviderSettingChanged = (setting: any): void => {
+  if (isProviderSettingKey(setting?.key)) {
+    compatBridge?.refreshProvider();
+  }
+};
+Hooks.on('createSetting', onProviderSettingChanged);
+Hooks.on('updateSetting', onProviderSettingChanged);
+
 // No longer needed - bridge initializes immediately during ready hook
 // since S&S now exposes its API during setup hook
 
@@ -0,0 +1,494 @@
+/**
+ * Simple Calendar calendar conversion
+ *
+ * Converts calendars stored by Simple Calendar into the Seasons & Stars calendar
+ * format. Simple Calendar lists intercalary days as months of their own and
+ * numbers months and days from 0; Seasons & Stars lists intercalary days apart,
+ * after the month they follow, and numbers from 1. Each conversion comes with a
+ * report of the data that could not be carried over exactly.
+ */
+
+/** A calendar as stored by Simple Calendar */
+export type SimpleCalendarCalendarConfig = Record<string, any>;
+
+/**
+ * A field of a Simple Calendar calendar that did not convert exactly
+ */
+export interface ConversionIssue {
+  /** Path of the field in the Simple Calendar calendar, e.g. `months[2].startingWeekday` */
+  field: string;
+  /** What happened to the value */
+  message: string;
+}
+
+/**
+ * What a calendar conversion carried over and what it could not
+ */
+export interface CalendarConversionReport {
+  /** Simple Calendar's id for the calendar */
+  calendarId: string;
+  /** Id of the converted calendar */
+  convertedId: string;
+  name: string;
+  /** Data dropped because Seasons & Stars has no equivalent */
+  unmapped: ConversionIssue[];
+  /** Data kept in a form Seasons & Stars does not fully apply */
+  approximated: ConversionIssue[];
+}
+
+export interface CalendarConversion {
+  /** Calendar definition in the Seasons & Stars format */
+  calendar: Record<string, unknown>;
+  report: CalendarConversionReport;
+}
+
+/**
+ * Where a Simple Calendar month (0-based, intercalary months included) lands in
+ * the converted calendar: a regular month (1-based), or an intercalary period
+ * after one
+ */
+interface MonthPosition {
+  month: number;
+  intercalary?: string;
+}
+
+/**
+ * Convert a Simple Calendar calendar to the Seasons & Stars format
+ *
+ * Accepts Simple Calendar's stored schema (`numberOfDays`, `yearZero`,
+ * `customMod`, 0-based seasons and moons) as well as calendars already using
+ * Seasons & Stars field names.
+ *
+ * @returns The converted calendar and its report, or null for invalid data
+ */
+export function convertSimpleCalendarCalendar(
+  calendarId: string,
+  calendarConfig: SimpleCalendarCalendarConfig
+): CalendarConversion | null {
+  if (!calendarConfig || typeof calendarConfig !== 'object') {
+    return null;
+  }
+
+  const name =
+    typeof calendarConfig.name === 'string' && calendarConfig.name.length > 0
+      ? calendarConfig.name
+      : 'Simple Calendar Calendar';
+  const report: CalendarConversionReport = {
+    calendarId,
+    convertedId: `simple-calendar-${calendarId}`,
+    name,
+    unmapped: [],
+    approximated: [],
+  };
+
+  const translations: Record<string, Record<string, string>> = { en: { label: name } };
+  if (typeof calendarConfig.description === 'string' && calendarConfig.description.length > 0) {
+    translations.en.description = calendarConfig.description;
+  }
+
+  const timeConfig = calendarConfig.time ?? {};
+  const months = convertMonths(calendarConfig.months, report);
+
+  const calendar: Record<string, unknown> = {
+    id: report.convertedId,
+    translations,
+    year: convertYear(calendarConfig.year, report),
+    months: months.months,
+    weekdays: convertWeekdays(calendarConfig.weekdays, report),
+    intercalary: [
+      ...(Array.isArray(calendarConfig.intercalary) ? calendarConfig.intercalary : []),
+      ...months.intercalary,
+    ],
+    time: {
+      hoursInDay: typeof timeConfig.hoursInDay === 'number' ? timeConfig.hoursInDay : 24,
+      minutesInHour: typeof timeConfig.minutesInHour === 'number' ? timeConfig.minutesInHour : 60,
+      secondsInMinute:
+        typeof timeConfig.secondsInMinute === 'number' ? timeConfig.secondsInMinute : 60,
+    },
+  };
+
+  if (calendarConfig.leapYear) {
+    calendar.leapYear = convertLeapYear(calendarConfig.leapYear, months.leapMonths, report);
+  }
+  if (Array.isArray(calendarConfig.seasons) && calendarConfig.seasons.length > 0) {
+    calendar.seasons = convertSeasons(calendarConfig.seasons, months.positions, report);
+  }
+  if (Array.isArray(calendarConfig.moons) && calendarConfig.moons.length > 0) {
+    calendar.moons = convertMoons(calendarConfig.moons, months.positions, report);
+  }
+  if (Array.isArray(calendarConfig.noteCategories) && calendarConfig.noteCategories.length > 0) {
+    calendar.noteCategories = calendarConfig.noteCategories.map((category: any) => ({
+      id: category?.id,
+      name: category?.name,
+      color: category?.color,
+      textColor: category?.textColor,
+    }));
+    report.approximated.push({
+      field: 'noteCategories',
+      message:
+        'Seasons & Stars manages note categories separately; they are kept on the calendar for note migration',
+    });
+  }
+
+  return { calendar, report };
+}
+
+function convertYear(year: any, report: CalendarConversionReport): Record<string, unknown> {
+  if (!year || typeof year !== 'object') {
+    return {};
+  }
+
+  const result: Record<string, unknown> = {};
+  const copy = (key: string, value: unknown) => {
+    if (value !== undefined) result[key] = value;
+  };
+
+  // Simple Calendar counts world time from the start of `yearZero`, whose first
+  // day falls on `firstWeekday`
+  copy('epoch', year.epoch ?? year.yearZero);
+  copy('currentYear', year.currentYear ?? year.numericRepresentation);
+  copy('prefix', year.prefix);
+  copy('suffix', year.suffix ?? year.postfix);
+  copy('startDay', year.startDay ?? year.firstWeekday);
+
+  if (Array.isArray(year.yearNames) && year.yearNames.length > 0) {
+    result.yearNames = year.yearNames;
+    result.yearNamesStart = year.yearNamesStart ?? 0;
+
+    if (year.yearNamingRule === 'random') {
+      report.unmapped.push({
+        field: 'year.yearNamingRule',
+        message: 'Random year names are not supported; names are used in order',
+      });
+    } else if (year.yearNamingRule === 'default') {
+      report.approximated.push({
+        field: 'year.yearNamingRule',
+        message: 'Years after the last name repeat the list instead of keeping the last name',
+      });
+    }
+  }
+
+  if (year.showWeekdayHeadings === false) {
+    report.unmapped.push({
+      field: 'year.showWeekdayHeadings',
+      message: 'Seasons & Stars always shows weekday headings',
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Split Simple Calendar's month list into regular months and intercalary periods
+ */
+function convertMonths(months: unknown, report: CalendarConversionReport) {
+  const result = {
+    months: [] as Array<Record<string, unknown>>,
+    intercalary: [] as Array<Record<string, unknown>>,
+    positions: [] as MonthPosition[],
+    /** Regular months that gain days in leap years */
+    leapMonths: [] as Array<{ name: string; extraDays: number; field: string }>,
+  };
+  if (!Array.isArray(months)) {
+    return result;
+  }
+
+  let previous: string | null = null;
+  months.forEach((month: any, index) => {
+    const field = `months[${index}]`;
+    const name = typeof month?.name === 'string' ? month.name : `Month ${index + 1}`;
+    const days = readCount(month?.days ?? month?.numberOfDays, 30);
+    const leapDays = readCount(month?.numberOfLeapYearDays, days);
+
+    if (month?.intercalary === true && previous !== null) {
+      const period: Record<string, unknown> = { name, after: previous, days };
+      if (days === 0 && leapDays > 0) {
+        period.days = leapDays;
+        period.leapYearOnly = true;
+      } else if (leapDays !== days) {
+        report.unmapped.push({
+          field: `${field}.numberOfLeapYearDays`,
+          message: 'Intercalary days cannot change length in leap years',
+        });
+      }
+      // Simple Calendar leaves intercalary days out of the week unless told otherwise
+      period.countsForWeekdays = month.intercalaryInclude === true;
+      copyText(period, 'abbreviation', month.abbreviation);
+      copyText(period, 'description', month.description);
+      reportMonthDisplay(month, field, report, 'unmapped');
+
+      result.intercalary.push(period);
+      result.positions.push({ month: result.months.length, intercalary: name });
+      return;
+    }
+
+    if (month?.intercalary === true) {
+      report.approximated.push({
+        field: `${field}.intercalary`,
+        message: 'An intercalary month before the first regular month is kept as a regular month',
+      });
+    }
+
+    const converted: Record<string, unknown> = { name, days };
+    copyText(converted, 'abbreviation', month?.abbreviation);
+    copyText(converted, 'description', month?.description);
+    if (leapDays !== days) {
+      result.leapMonths.push({ name, extraDays: leapDays - days, field });
+    }
+    reportMonthDisplay(month, field, report, 'approximated');
+    if (
+      typeof month?.numericRepresentationOffset === 'number' &&
+      month.numericRepresentationOffset
+    ) {
+      converted.numericRepresentationOffset = month.numericRepresentationOffset;
+    }
+    if (typeof month?.startingWeekday === 'number') {
+      converted.startingWeekday = month.startingWeekday;
+    }
+
+    previous = name;
+    result.months.push(converted);
+    result.positions.push({ month: result.months.length });
+  });
+
+  return result;
+}
+
+/**
+ * Report a month's day numbering offset and forced starting weekday, which
+ * Seasons & Stars does not apply
+ */
+function reportMonthDisplay(
+  month: any,
+  field: string,
+  report: CalendarConversionReport,
+  list: 'unmapped' | 'approximated'
+): void {
+  const suffix = list === 'approximated' ? '; kept for Simple Calendar modules' : '';
+
+  if (typeof month?.numericRepresentationOffset === 'number' && month.numericRepresentationOffset) {
+    report[list].push({
+      field: `${field}.numericRepresentationOffset`,
+      message: `Seasons & Stars numbers days from 1${suffix}`,
+    });
+  }
+  if (typeof month?.startingWeekday === 'number') {
+    report[list].push({
+      field: `${field}.startingWeekday`,
+      message: `Seasons & Stars continues the week from the previous month${suffix}`,
+    });
+  }
+}
+
+function convertWeekdays(
+  weekdays: unknown,
+  report: CalendarConversionReport
+): Array<Record<string, unknown>> {
+  if (!Array.isArray(weekdays)) {
+    return [];
+  }
+
+  return weekdays.map((weekday: any, index) => {
+    const result: Record<string, unknown> = {
+      name: typeof weekday?.name === 'string' ? weekday.name : `Day ${index + 1}`,
+    };
+    copyText(result, 'abbreviation', weekday?.abbreviation);
+    copyText(result, 'description', weekday?.description);
+
+    if (weekday?.restday === true) {
+      result.restday = true;
+      report.approximated.push({
+        field: `weekdays[${index}].restday`,
+        message: 'Seasons & Stars has no rest days; kept for Simple Calendar modules',
+      });
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Convert the leap year rule, moving leap days onto the month that gains them
+ *
+ * Seasons & Stars lengthens a single month in leap years, so further months
+ * with a leap year length are reported.
+ */
+function convertLeapYear(
+  leapYear: any,
+  leapMonths: Array<{ name: string; extraDays: number; field: string }>,
+  report: CalendarConversionReport
+): Record<string, unknown> {
+  // Simple Calendar's custom rule makes every `customMod`th year a leap year
+  const result: Record<string, any> = { ...leapYear };
+  delete result.customMod;
+  delete result.id;
+
+  if (result.rule === 'custom' && result.interval === undefined) {
+    result.interval = typeof leapYear.customMod === 'number' ? leapYear.customMod : 0;
+    result.offset = result.offset ?? 0;
+  }
+  if (result.rule === 'none' || !result.rule) {
+    return result;
+  }
+
+  const [leapMonth, ...others] = leapMonths.filter(month => month.extraDays > 0);
+  if (leapMonth && result.month === undefined) {
+    result.month = leapMonth.name;
+    result.extraDays = leapMonth.extraDays;
+  }
+  for (const month of [...others, ...leapMonths.filter(month => month.extraDays < 0)]) {
+    report.unmapped.push({
+      field: `${month.field}.numberOfLeapYearDays`,
+      message: 'Only one month can change length in leap years',
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Convert seasons, moving 0-based Simple Calendar start dates onto the
+ * converted month list
+ */
+function convertSeasons(
+  seasons: any[],
+  positions: MonthPosition[],
+  report: CalendarConversionReport
+): Array<Record<string, unknown>> {
+  const converted = seasons.map((season: any, index) => {
+    // Seasons already in the Seasons & Stars format keep their 1-based start
+    if (typeof season?.startMonth === 'number') {
+      return { ...season };
+    }
+
+    const start = toConvertedDate(
+      positions,
+      season?.startingMonth,
+      season?.startingDay,
+      `seasons[${index}].startingMonth`,
+      report
+    );
+    const result: Record<string, unknown> = {
+      name: typeof season?.name === 'string' ? season.name : `Season ${index + 1}`,
+      startMonth: start.month,
+      startDay: start.day,
+    };
+    copyText(result, 'description', season?.description);
+    copyText(result, 'icon', season?.icon);
+    copyText(result, 'color', season?.color);
+    if (typeof season?.sunriseTime === 'number') result.sunriseTime = season.sunriseTime;
+    if (typeof season?.sunsetTime === 'number') result.sunsetTime = season.sunsetTime;
+    return result;
+  });
+
+  // A season lasts until the month before the next one starts
+  const monthCount = Math.max(...positions.map(position => position.month), 1);
+  const ordered = [...converted].sort(
+    (a: any, b: any) => a.startMonth - b.startMonth || (a.startDay ?? 1) - (b.startDay ?? 1)
+  );
+  ordered.forEach((season: any, index) => {
+    if (season.endMonth !== undefined) return;
+    const next: any = ordered[(index + 1) % ordered.length];
+    const endMonth = (next.startDay ?? 1) > 1 ? next.startMonth : next.startMonth - 1;
+    season.endMonth = endMonth < 1 ? monthCount : endMonth;
+  });
+
+  return converted;
+}
+
+/**
+ * Convert moons, moving the 0-based first new moon onto the converted month list
+ */
+function convertMoons(
+  moons: any[],
+  positions: MonthPosition[],
+  report: CalendarConversionReport
+): Array<Record<string, unknown>> {
+  return moons.map((moon: any, index) => {
+    const field = `moons[${index}]`;
+    const reference = moon?.firstNewMoon ?? {};
+    const start = toConvertedDate(
+      positions,
+      reference.month,
+      reference.day,
+      `${field}.firstNewMoon`,
+      report
+    );
+    const firstNewMoon: Record<string, unknown> = {
+      year: typeof reference.year === 'number' ? reference.year : 0,
+      month: start.month,
+      day: start.day,
+    };
+
+    if (reference.yearReset && reference.yearReset !== 'none') {
+      firstNewMoon.yearReset = reference.yearReset;
+      firstNewMoon.yearX = reference.yearX ?? 0;
+      report.approximated.push({
+        field: `${field}.firstNewMoon.yearReset`,
+        message:
+          'Seasons & Stars does not restart moon cycles each year; kept for Simple Calendar modules',
+      });
+    }
+
+    const result: Record<string, unknown> = {
+      name: typeof moon?.name === 'string' ? moon.name : `Moon ${index + 1}`,
+      cycleLength: typeof moon?.cycleLength === 'number' ? moon.cycleLength : 29.53059,
+      firstNewMoon,
+      phases: (Array.isArray(moon?.phases) ? moon.phases : []).map((phase: any) => ({
+        name: phase?.name,
+        length: phase?.length,
+        singleDay: phase?.singleDay === true,
+        icon: phase?.icon,
+      })),
+    };
+    copyText(result, 'color', moon?.color);
+
+    if (typeof moon?.cycleDayAdjust === 'number' && moon.cycleDayAdjust !== 0) {
+      result.cycleDayAdjust = moon.cycleDayAdjust;
+      report.approximated.push({
+        field: `${field}.cycleDayAdjust`,
+        message: 'Seasons & Stars does not shift moon cycles; kept for Simple Calendar modules',
+      });
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Move a 0-based Simple Calendar month and day onto the converted month list
+ *
+ * Dates on intercalary days, which Seasons & Stars seasons and moons cannot
+ * refer to, move to the first day of the following month.
+ */
+function toConvertedDate(
+  positions: MonthPosition[],
+  month: unknown,
+  day: unknown,
+  field: string,
+  report: CalendarConversionReport
+): { month: number; day: number } {
+  const index = typeof month === 'number' ? month : 0;
+  const position = positions[index] ?? { month: index + 1 };
+
+  if (position.intercalary === undefined) {
+    return { month: position.month, day: (typeof day === 'number' ? day : 0) + 1 };
+  }
+
+  report.approximated.push({
+    field,
+    message: `Falls on ${position.intercalary}; moved to the first day of the following month`,
+  });
+  const following = positions.slice(index + 1).find(next => next.intercalary === undefined);
+  return { month: following?.month ?? 1, day: 1 };
+}
+
+function readCount(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, value) : fallback;
+}
+
+function copyText(target: Record<string, unknown>, key: string, value: unknown): void {
+  if (typeof value === 'string' && value.length > 0) {
+    target[key] = value;
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * Simple Calendar export
+ *
+ * Serializes the active calendar and the bridge's calendar notes into Simple
+ * Calendar's import/export JSON, so groups can move back to Simple Calendar or
+ * share their setup with a table that uses it. Months, days and dates are
+ * written the way Simple Calendar stores them: 0-based, with intercalary
+ * periods as months of their own.
+ */
+
+import {
+  getNoteCalendarLayout,
+  getNoteEndDate,
+  getNoteRepeat,
+  getNoteStartDate,
+} from '../api/note-recurrence';
+import type { NoteCalendarLayout } from '../api/note-recurrence';
+import { MODULE_ID, getClockSettings } from '../settings';
+import { createInlineFormApplication } from '../utils/form-application';
+import type { ConversionIssue } from './calendar-converter';
+import type {
+  SimpleCalendarAPI,
+  SimpleCalendarDate,
+  SimpleCalendarMonthData,
+  SimpleCalendarNoteCategory,
+} from '../types';
+
+/** Version of Simple Calendar's import/export format that is written */
+const EXPORT_VERSION = 2;
+
+/**
+ * Simple Calendar import/export data and what it could not represent
+ */
+export interface SimpleCalendarExport {
+  data: Record<string, any>;
+  /** Calendar and note data Simple Calendar has no equivalent for */
+  issues: ConversionIssue[];
+}
+
+/**
+ * Export the active calendar and the bridge's calendar notes in Simple
+ * Calendar's import/export format
+ *
+ * Global settings and permissions belong to the importing world and are left out.
+ *
+ * @returns The export, or null when no calendar is active
+ */
+export function exportSimpleCalendarData(api: SimpleCalendarAPI): SimpleCalendarExport | null {
+  // The bridge reports the calendar module's own month, weekday and year definitions
+  const current: any = api.getCurrentCalendar();
+  if (!current) {
+    return null;
+  }
+
+  const issues: ConversionIssue[] = [];
+  // Calendars converted from Simple Calendar get their Simple Calendar id back
+  const calendarId = String(current.id || 'default').replace(/^simple-calendar-(?=.)/, '');
+  const monthData = api.getAllMonths();
+  const noteCategories: SimpleCalendarNoteCategory[] = current.noteCategories ?? [];
+  const clock = getClockSettings();
+
+  const calendar = {
+    id: calendarId,
+    name: current.name,
+    description: current.description || '',
+    currentDate: current.currentDate ?? { year: 0, month: 0, day: 0, seconds: 0 },
+    general: { id: '', ...current.general },
+    leapYear: exportLeapYear(current.leapYear, issues),
+    months: exportMonths(monthData, current),
+    moons: api.getAllMoons().map(moon => ({
+      id: moon.id,
+      name: moon.name,
+      color: moon.color,
+      cycleLength: moon.cycleLength,
+      cycleDayAdjust: moon.cycleDayAdjust,
+      firstNewMoon: moon.firstNewMoon,
+      phases: moon.phases,
+    })),
+    noteCategories,
+    seasons: api.getAllSeasons(),
+    time: {
+      id: '',
+      hoursInDay: current.time?.hoursInDay ?? 24,
+      minutesInHour: current.time?.minutesInHour ?? 60,
+      secondsInMinute: current.time?.secondsInMinute ?? 60,
+      gameTimeRatio: clock.gameTimeRatio,
+      unifyGameAndClockPause: clock.unifyGameAndClockPause,
+      updateFrequency: clock.updateFrequency,
+    },
+    weekdays: api.getAllWeekdays().map((weekday, index) => ({
+      id: weekday.id,
+      name: weekday.name,
+      // Abbreviations Simple Calendar would derive itself are not written
+      abbreviation: current.weekdays?.[index]?.abbreviation ?? '',
+      description: weekday.description,
+      numericRepresentation: index + 1,
+      restday: weekday.restday,
+    })),
+    year: exportYear(current.year, current.currentDate?.year),
+  };
+
+  return {
+    data: {
+      exportVersion: EXPORT_VERSION,
+      calendars: [calendar],
+      notes: {
+        [calendarId]: exportNotes(
+          api.getNotes(),
+          calendarId,
+          noteCategories,
+          getNoteCalendarLayout(current),
+          issues
+        ),
+      },
+    },
+    issues,
+  };
+}
+
+/**
+ * Export the active calendar and notes and save them as a JSON file
+ *
+ * @returns Whether a file was offered for download
+ */
+export function downloadSimpleCalendarExport(api: SimpleCalendarAPI | undefined): boolean {
+  try {
+    const result = api ? exportSimpleCalendarData(api) : null;
+    if (!result) {
+      ui.notifications?.warn('No active calendar to export');
+      return false;
+    }
+
+    if (result.issues.length > 0) {
+      console.warn(
+        `Simple Calendar Bridge: ${result.issues.length} details could not be exported`,
+        result.issues
+      );
+    }
+
+    const saveDataToFile =
+      (globalThis as any).foundry?.utils?.saveDataToFile ?? (globalThis as any).saveDataToFile;
+    const calendarId = result.data.calendars[0].id;
+    saveDataToFile(
+      JSON.stringify(result.data, null, 2),
+      'application/json',
+      `simple-calendar-export-${calendarId}.json`
+    );
+    return true;
+  } catch (error) {
+    console.error('Simple Calendar Bridge: Failed to export calendar data', error);
+    ui.notifications?.error('Failed to export calendar data');
+    return false;
+  }
+}
+
+/**
+ * Register the settings menu that downloads the export
+ *
+ * Called from the init hook, after the bridge's own settings.
+ */
+export function registerExportMenu(): void {
+  game.settings.registerMenu(MODULE_ID, 'exportMenu', {
+    name: 'SIMPLE_CALENDAR_COMPAT.SETTINGS.exportMenu.name',
+    label: 'SIMPLE_CALENDAR_COMPAT.SETTINGS.exportMenu.label',
+    hint: 'SIMPLE_CALENDAR_COMPAT.SETTINGS.exportMenu.hint',
+    icon: 'fas fa-file-export',
+    type: createExportForm(),
+    restricted: true,
+  });
+}
+
+/**
+ * Build the export menu form
+ */
+function createExportForm(): any {
+  const localize = (key: string) =>
+    game.i18n.localize(`SIMPLE_CALENDAR_COMPAT.SETTINGS.exportMenu.${key}`);
+
+  return class ExportForm extends createInlineFormApplication() {
+    static get defaultOptions() {
+      return {
+        ...super.defaultOptions,
+        id: 'simple-calendar-compat-export',
+        title: localize('name'),
+        classes: ['sheet'],
+        width: 400,
+        height: 'auto',
+        closeOnSubmit: true,
+      };
+    }
+
+    async renderForm(): Promise<string> {
+      return `
+        <form autocomplete="off">
+          <p>${localize('description')}</p>
+          <footer class="sheet-footer flexrow">
+            <button type="submit"><i class="fas fa-download"></i> ${localize('download')}</button>
+          </footer>
+        </form>`;
+    }
+
+    async _updateObject(): Promise<void> {
+      downloadSimpleCalendarExport((globalThis as any).SimpleCalendar?.api);
+    }
+  };
+}
+
+/**
+ * Write months with the abbreviations of the calendar's own month and
+ * intercalary definitions, so exports do not gain derived abbreviations
+ */
+function exportMonths(monthData: SimpleCalendarMonthData[], current: any) {
+  const intercalary: any[] = Array.isArray(current.intercalary) ? current.intercalary : [];
+  let regular = 0;
+  let festivals = 0;
+
+  return monthData.map(month => {
+    const definition = month.intercalary
+      ? intercalary.find(period => period?.name === month.name)
+      : current.months?.[regular];
+
+    return {
+      id: month.id,
+      name: month.name,
+      abbreviation: definition?.abbreviation ?? '',
+      description: month.description,
+      // Simple Calendar numbers intercalary months below zero
+      numericRepresentation: month.intercalary ? -++festivals : ++regular,
+      numericRepresentationOffset: month.numericRepresentationOffset,
+      numberOfDays: month.numberOfDays,
+      numberOfLeapYearDays: month.numberOfLeapYearDays,
+      intercalary: month.intercalary,
+      intercalaryInclude: month.intercalary && month.intercalaryInclude,
+      startingWeekday: month.startingWeekday,
+    };
+  });
+}
+
+function exportLeapYear(leapYear: any, issues: ConversionIssue[]): Record<string, unknown> {
+  const rule = leapYear?.rule ?? 'none';
+
+  if (rule === 'custom') {
+    if (leapYear.offset) {
+      issues.push({
+        field: 'leapYear.offset',
+        message: 'Simple Calendar counts leap years from year 0; the offset is dropped',
+      });
+    }
+    return { id: '', rule, customMod: leapYear.interval ?? 0 };
+  }
+  if (rule !== 'none' && rule !== 'gregorian') {
+    issues.push({
+      field: 'leapYear.rule',
+      message: `Simple Calendar has no "${rule}" leap year rule; leap years are dropped`,
+    });
+    return { id: '', rule: 'none', customMod: 0 };
+  }
+
+  return { id: '', rule, customMod: 0 };
+}
+
+function exportYear(year: any, currentYear: number | undefined): Record<string, unknown> {
+  return {
+    id: '',
+    numericRepresentation: year?.currentYear ?? currentYear ?? 0,
+    prefix: year?.prefix ?? '',
+    postfix: year?.suffix ?? '',
+    showWeekdayHeadings: true,
+    firstWeekday: year?.startDay ?? 0,
+    yearZero: year?.epoch ?? 0,
+    yearNames: Array.isArray(year?.yearNames) ? year.yearNames : [],
+    yearNamingRule: year?.yearNamingRule ?? 'default',
+    yearNamesStart: year?.yearNamesStart ?? 0,
+  };
+}
+
+/**
+ * Write bridge-created notes as Simple Calendar note journal entries
+ */
+function exportNotes(
+  journals: any[],
+  calendarId: string,
+  categories: SimpleCalendarNoteCategory[],
+  layout: NoteCalendarLayout,
+  issues: ConversionIssue[]
+): Array<Record<string, unknown>> {
+  const notes = journals.filter(journal => journal?.flags?.[MODULE_ID]?.bridgeCreated);
+
+  return notes.flatMap((journal, order) => {
+    const field = `notes.${journal.id}`;
+    const start = getNoteStartDate(journal, layout);
+    if (!start) {
+      issues.push({ field, message: `"${journal.name}" has no date and is left out` });
+      return [];
+    }
+
+    const ssFlags = journal.flags['seasons-and-stars'] ?? {};
+    const bridgeFlags = journal.flags[MODULE_ID];
+    const categoryIds = (Array.isArray(ssFlags.tags) ? ssFlags.tags : []).flatMap(
+      (name: string) => {
+        const category = categories.find(candidate => candidate.name === name);
+        if (!category) {
+          issues.push({
+            field: `${field}.tags`,
+            message: `"${name}" is not a note category of the calendar and is dropped`,
+          });
+        }
+        return category ? [category.id] : [];
+      }
+    );
+
+    return [
+      {
+        name: journal.name,
+        ownership: { ...journal.ownership },
+        pages: (journal.pages?.contents ?? []).map((page: any) => ({
+          name: page.name,
+          type: page.type ?? 'text',
+          text: { content: page.text?.content ?? '', format: page.text?.format ?? 1 },
+        })),
+        flags: {
+          'foundryvtt-simple-calendar': {
+            noteData: {
+              calendarId,
+              startDate: toNoteDateTime(start, ssFlags.startDate),
+              // Simple Calendar gives single-day notes an end date on the same day
+              endDate: ssFlags.endDate
+                ? toNoteDateTime(getNoteEndDate(journal, layout) ?? start, ssFlags.endDate)
+                : toNoteDateTime(start, ssFlags.startDate),
+              allDay: ssFlags.allDay !== false,
+              repeats: getNoteRepeat(journal),
+              order,
+              categories: categoryIds,
+              remindUsers: Array.isArray(bridgeFlags.remindUsers) ? bridgeFlags.remindUsers : [],
+              macro: bridgeFlags.macro || 'none',
+            },
+          },
+        },
+      },
+    ];
+  });
+}
+
+/**
+ * Simple Calendar note date: a 0-based date with the time of the note's flag date
+ */
+function toNoteDateTime(date: SimpleCalendarDate, flagDate: any): Record<string, number> {
+  return {
+    year: date.year,
+    month: date.month,
+    day: date.day,
+    hour: flagDate?.hour ?? 0,
+    minute: flagDate?.minute ?? 0,
+    seconds: flagDate?.second ?? 0,
+  };
+}
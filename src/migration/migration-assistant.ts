@@ -0,0 +1,589 @@
+/**
+ * Migration Assistant
+ *
+ * GM-only application that scans the world for what Simple Calendar left
+ * behind (calendars, notes, settings and modules built on its API), shows
+ * what converts cleanly and what is lossy, runs the migration steps in order
+ * and produces a report that can be attached to a migration issue.
+ */
+
+import { convertSimpleCalendarCalendar } from './calendar-converter';
+import { downloadSimpleCalendarExport } from './calendar-exporter';
+import { importSimpleCalendarSettings, readSimpleCalendarLegacySettings } from './settings-import';
+import { readSimpleCalendarSettings } from './simple-calendar-settings';
+import { MODULE_ID, setSettingsImportOffered } from '../settings';
+import { createInlineFormApplication } from '../utils/form-application';
+import type { CalendarConversionReport, SimpleCalendarCalendarConfig } from './calendar-converter';
+import type { SimpleCalendarLegacySettings } from './settings-import';
+import type { NoteMigrationEntry, NoteMigrationResult, SimpleCalendarAPI } from '../types';
+
+const SIMPLE_CALENDAR_ID = 'foundryvtt-simple-calendar';
+
+/**
+ * Modules tested with the bridge that use Simple Calendar without declaring it
+ */
+const KNOWN_DEPENDENT_MODULES = ['simple-weather', 'smalltime'];
+
+/**
+ * How well a piece of Simple Calendar data converts
+ *
+ * Approximated data is kept, but Seasons & Stars does not fully apply it.
+ */
+export type ConversionQuality = 'clean' | 'approximated' | 'lossy';
+
+/**
+ * A module that uses the Simple Calendar API
+ */
+export interface DependentModule {
+  id: string;
+  title: string;
+  active: boolean;
+  version?: string;
+  /** How the module depends on Simple Calendar */
+  relationship: 'requires' | 'recommends' | 'known';
+}
+
+/**
+ * Simple Calendar data found in the world
+ */
+export interface MigrationScan {
+  scannedAt: string;
+  simpleCalendar: {
+    /** Whether the real Simple Calendar module is installed */
+    installed: boolean;
+    active: boolean;
+    version?: string;
+  };
+  /** Whether Simple Calendar's stored calendars could not be read or parsed */
+  parseError: boolean;
+  calendars: CalendarConversionReport[];
+  /** Id of the active calendar */
+  activeCalendarId: string | null;
+  /** Note migration dry run, or null when it could not run */
+  notes: NoteMigrationResult | null;
+  settings: SimpleCalendarLegacySettings | null;
+  modules: DependentModule[];
+}
+
+/**
+ * Optional migration steps the GM chose to run
+ */
+export interface MigrationStepChoices {
+  notes: boolean;
+  setDate: boolean;
+  copySettings: boolean;
+  export: boolean;
+}
+
+export type MigrationStepId = 'calendars' | 'notes' | 'settings' | 'export';
+
+export interface MigrationStepResult {
+  step: MigrationStepId;
+  status: 'done' | 'skipped' | 'failed';
+  message: string;
+}
+
+/**
+ * Scan the world for Simple Calendar data
+ *
+ * Notes are previewed with a dry run, which only GMs can do.
+ */
+export async function scanWorldForMigration(
+  api: SimpleCalendarAPI | undefined
+): Promise<MigrationScan> {
+  let calendars: Record<string, SimpleCalendarCalendarConfig> | null = null;
+  let parseError = false;
+  let settings: SimpleCalendarLegacySettings | null = null;
+  try {
+    ({ calendars, parseError } = readSimpleCalendarSettings());
+    settings = readSimpleCalendarLegacySettings();
+  } catch (error) {
+    console.error('Simple Calendar Bridge: Failed to read Simple Calendar settings', error);
+    parseError = true;
+  }
+
+  const reports = Object.entries(calendars ?? {}).flatMap(([calendarId, config]) => {
+    const conversion = convertSimpleCalendarCalendar(calendarId, config);
+    return conversion ? [conversion.report] : [];
+  });
+
+  let notes: NoteMigrationResult | null = null;
+  try {
+    notes = (await api?.runMigration({ dryRun: true })) ?? null;
+  } catch (error) {
+    console.error('Simple Calendar Bridge: Failed to preview note migration', error);
+  }
+
+  return {
+    scannedAt: new Date().toISOString(),
+    simpleCalendar: getSimpleCalendarModule(),
+    parseError,
+    calendars: reports,
+    activeCalendarId: api?.getCurrentCalendar()?.id ?? null,
+    notes,
+    settings,
+    modules: findDependentModules(),
+  };
+}
+
+/**
+ * How well a converted calendar matches its Simple Calendar original
+ */
+export function getCalendarQuality(report: CalendarConversionReport): ConversionQuality {
+  if (report.unmapped.length > 0) return 'lossy';
+  return report.approximated.length > 0 ? 'approximated' : 'clean';
+}
+
+/**
+ * How well a note migrates, or null for notes that are skipped or fail
+ */
+export function getNoteQuality(note: NoteMigrationEntry): ConversionQuality | null {
+  if (note.status !== 'ready') return null;
+  return note.issues.length > 0 ? 'lossy' : 'clean';
+}
+
+/**
+ * Run the migration steps in order: calendars, notes, settings, export (GM only)
+ *
+ * Calendars are converted whenever Seasons & Stars loads, so their step only
+ * checks the result. A failed step does not stop the ones after it.
+ */
+export async function runMigrationSteps(
+  api: SimpleCalendarAPI,
+  scan: MigrationScan,
+  choices: MigrationStepChoices
+): Promise<MigrationStepResult[]> {
+  if (!game.user?.isGM) {
+    console.warn('Only GMs can run the Simple Calendar migration');
+    return [];
+  }
+
+  const steps: MigrationStepResult[] = [checkCalendars(scan)];
+
+  if (!choices.notes) {
+    steps.push({ step: 'notes', status: 'skipped', message: 'Not selected' });
+  } else if (!scan.notes || scan.notes.total === 0) {
+    steps.push({ step: 'notes', status: 'skipped', message: 'No Simple Calendar notes found' });
+  } else {
+    const result = await api.runMigration();
+    steps.push(
+      result
+        ? {
+            step: 'notes',
+            status: result.failed > 0 ? 'failed' : 'done',
+            message: `${result.migrated} migrated, ${result.skipped} skipped, ${result.failed} failed`,
+          }
+        : { step: 'notes', status: 'failed', message: 'Notes could not be migrated' }
+    );
+  }
+
+  if (!choices.setDate && !choices.copySettings) {
+    steps.push({ step: 'settings', status: 'skipped', message: 'Not selected' });
+  } else if (!scan.settings) {
+    steps.push({
+      step: 'settings',
+      status: 'skipped',
+      message: 'No Simple Calendar settings found',
+    });
+  } else {
+    const imported = await importSimpleCalendarSettings(api, scan.settings, {
+      setDate: choices.setDate,
+      copySettings: choices.copySettings,
+    });
+    if (imported) {
+      // The first-run offer would repeat what was just imported
+      await setSettingsImportOffered(true);
+    }
+    steps.push({
+      step: 'settings',
+      status: imported ? 'done' : 'failed',
+      message: imported
+        ? [choices.setDate && 'World time set', choices.copySettings && 'Settings copied']
+            .filter(Boolean)
+            .join(', ')
+        : 'Settings could not be imported',
+    });
+  }
+
+  if (!choices.export) {
+    steps.push({ step: 'export', status: 'skipped', message: 'Not selected' });
+  } else {
+    const exported = downloadSimpleCalendarExport(api);
+    steps.push({
+      step: 'export',
+      status: exported ? 'done' : 'failed',
+      message: exported ? 'Simple Calendar export downloaded' : 'Export failed',
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Build a Markdown report of the scan and the steps that ran, for attaching
+ * to a migration issue
+ */
+export function buildMigrationReport(
+  scan: MigrationScan,
+  steps: MigrationStepResult[] = []
+): string {
+  const { simpleCalendar, notes, settings } = scan;
+  const anyGame = game as any;
+  const lines = [
+    '# Simple Calendar Migration Report',
+    '',
+    `Generated ${scan.scannedAt}`,
+    '',
+    '## Environment',
+    '',
+    `- Foundry VTT: ${anyGame.version ?? 'unknown'}`,
+    `- Game system: ${anyGame.system?.id ?? 'unknown'} ${anyGame.system?.version ?? ''}`.trimEnd(),
+    `- Bridge: ${game.modules.get(MODULE_ID)?.version ?? 'unknown'}`,
+    `- Calendar provider: ${anyGame.simpleCalendarCompat?.provider?.name ?? 'none'}`,
+    `- Active calendar: ${scan.activeCalendarId ?? 'none'}`,
+    `- Simple Calendar: ${
+      simpleCalendar.installed
+        ? `${simpleCalendar.version ?? 'unknown version'}, ${simpleCalendar.active ? 'active' : 'inactive'}`
+        : 'not installed'
+    }`,
+    '',
+    '## Calendars',
+    '',
+  ];
+
+  if (scan.parseError) {
+    lines.push('Simple Calendar calendar data could not be parsed.', '');
+  } else if (scan.calendars.length === 0) {
+    lines.push('No Simple Calendar calendars found.', '');
+  }
+  for (const report of scan.calendars) {
+    lines.push(`### ${report.name} (${report.calendarId}): ${getCalendarQuality(report)}`, '');
+    for (const issue of report.unmapped) {
+      lines.push(`- Dropped \`${issue.field}\`: ${issue.message}`);
+    }
+    for (const issue of report.approximated) {
+      lines.push(`- Approximated \`${issue.field}\`: ${issue.message}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Notes', '');
+  if (!notes) {
+    lines.push('Notes could not be previewed.', '');
+  } else {
+    const counts = countNotes(notes.notes);
+    lines.push(
+      `${notes.total} notes: ${counts.clean} clean, ${counts.lossy} lossy, ${notes.skipped} skipped, ${notes.failed} failed`,
+      ''
+    );
+    for (const note of notes.notes) {
+      const details = [...note.issues, ...(note.error ? [note.error] : [])];
+      if (details.length > 0) {
+        lines.push(`- ${note.name} (${note.journalId}, ${note.status}): ${details.join('; ')}`);
+      }
+    }
+    lines.push('');
+  }
+
+  lines.push('## Settings', '');
+  if (!settings) {
+    lines.push('No Simple Calendar settings found.', '');
+  } else {
+    const date = settings.currentDate;
+    lines.push(
+      `- Calendar: ${settings.calendarName} (${settings.calendarId})`,
+      `- Current date: ${date ? `${date.year}-${date.month}-${date.day} ${date.hour}:${date.minute}:${date.seconds} (0-based)` : 'none'}`,
+      `- Clock: ${JSON.stringify(settings.clock)}`,
+      `- General: ${JSON.stringify(settings.general)}`,
+      ''
+    );
+  }
+
+  lines.push('## Modules Using Simple Calendar', '');
+  if (scan.modules.length === 0) {
+    lines.push('None found.');
+  }
+  for (const module of scan.modules) {
+    const id = [module.id, module.version].filter(Boolean).join(' ');
+    lines.push(
+      `- ${module.title} (${id}): ${module.active ? 'active' : 'inactive'}, ${module.relationship}`
+    );
+  }
+  lines.push('');
+
+  if (steps.length > 0) {
+    lines.push('## Migration Steps', '');
+    for (const step of steps) {
+      lines.push(`- ${step.step}: ${step.status} (${step.message})`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Save the migration report as a Markdown file
+ *
+ * @returns Whether a file was offered for download
+ */
+export function downloadMigrationReport(
+  scan: MigrationScan,
+  steps: MigrationStepResult[] = []
+): boolean {
+  try {
+    const saveDataToFile =
+      (globalThis as any).foundry?.utils?.saveDataToFile ?? (globalThis as any).saveDataToFile;
+    saveDataToFile(
+      buildMigrationReport(scan, steps),
+      'text/markdown',
+      'simple-calendar-migration-report.md'
+    );
+    return true;
+  } catch (error) {
+    console.error('Simple Calendar Bridge: Failed to save the migration report', error);
+    ui.notifications?.error('Failed to save the migration report');
+    return false;
+  }
+}
+
+/**
+ * Register the settings menu that opens the Migration Assistant
+ *
+ * Called from the init hook, after the bridge's own settings.
+ */
+export function registerMigrationAssistantMenu(): void {
+  game.settings.registerMenu(MODULE_ID, 'migrationAssistant', {
+    name: 'SIMPLE_CALENDAR_COMPAT.SETTINGS.migrationAssistant.name',
+    label: 'SIMPLE_CALENDAR_COMPAT.SETTINGS.migrationAssistant.label',
+    hint: 'SIMPLE_CALENDAR_COMPAT.SETTINGS.migrationAssistant.hint',
+    icon: 'fas fa-route',
+    type: createMigrationAssistant(),
+    restricted: true,
+  });
+}
+
+/**
+ * The real Simple Calendar module, ignoring the stand-in entry the bridge
+ * registers for dependency checks
+ */
+function getSimpleCalendarModule(): MigrationScan['simpleCalendar'] {
+  const module = game.modules?.get(SIMPLE_CALENDAR_ID);
+  if (!module || module.title?.includes('(Compatibility Bridge)')) {
+    return { installed: false, active: false };
+  }
+
+  return { installed: true, active: !!module.active, version: module.version };
+}
+
+/**
+ * Modules that require or recommend Simple Calendar, plus known consumers of
+ * its API that do not declare it
+ */
+function findDependentModules(): DependentModule[] {
+  const modules: DependentModule[] = [];
+
+  for (const module of game.modules?.values() ?? []) {
+    if (module.id === SIMPLE_CALENDAR_ID || module.id === MODULE_ID) continue;
+
+    const relationships = (module as any).relationships ?? {};
+    const declares = (kind: string) =>
+      Array.from((relationships[kind] ?? []) as Iterable<any>).some(
+        related => related?.id === SIMPLE_CALENDAR_ID
+      );
+    const relationship = declares('requires')
+      ? 'requires'
+      : declares('recommends')
+        ? 'recommends'
+        : KNOWN_DEPENDENT_MODULES.includes(module.id)
+          ? 'known'
+          : null;
+
+    if (relationship) {
+      modules.push({
+        id: module.id,
+        title: module.title,
+        active: !!module.active,
+        version: module.version,
+        relationship,
+      });
+    }
+  }
+
+  return modules;
+}
+
+/**
+ * Check that Simple Calendar's calendars were converted and one of them is active
+ */
+function checkCalendars(scan: MigrationScan): MigrationStepResult {
+  if (scan.parseError) {
+    return {
+      step: 'calendars',
+      status: 'failed',
+      message: 'Simple Calendar calendar data could not be parsed',
+    };
+  }
+  if (scan.calendars.length === 0) {
+    return { step: 'calendars', status: 'skipped', message: 'No Simple Calendar calendars found' };
+  }
+
+  const lossy = scan.calendars.filter(report => getCalendarQuality(report) === 'lossy').length;
+  const active = scan.calendars.some(report => report.convertedId === scan.activeCalendarId);
+  return {
+    step: 'calendars',
+    status: 'done',
+    message:
+      `${scan.calendars.length} converted, ${lossy} with dropped data` +
+      (active ? '' : '; the active calendar was not converted from Simple Calendar'),
+  };
+}
+
+function countNotes(notes: NoteMigrationEntry[]): Record<ConversionQuality, number> {
+  const counts = { clean: 0, approximated: 0, lossy: 0 };
+  for (const note of notes) {
+    const quality = getNoteQuality(note);
+    if (quality) counts[quality]++;
+  }
+  return counts;
+}
+
+/**
+ * Build the Migration Assistant application
+ */
+function createMigrationAssistant(): any {
+  const localize = (key: string) =>
+    game.i18n.localize(`SIMPLE_CALENDAR_COMPAT.SETTINGS.migrationAssistant.${key}`);
+
+  return class MigrationAssistant extends createInlineFormApplication() {
+    scan: MigrationScan | null = null;
+    steps: MigrationStepResult[] = [];
+
+    static get defaultOptions() {
+      return {
+        ...super.defaultOptions,
+        id: 'simple-calendar-compat-migration-assistant',
+        title: localize('name'),
+        classes: ['sheet'],
+        width: 560,
+        height: 'auto',
+        closeOnSubmit: false,
+      };
+    }
+
+    // Scan again on every render so the results reflect completed steps
+    async renderForm(): Promise<string> {
+      this.scan = await scanWorldForMigration((globalThis as any).SimpleCalendar?.api);
+      return renderMigrationAssistant(this.scan, this.steps, localize);
+    }
+
+    activateListeners(html: JQuery): void {
+      super.activateListeners(html);
+      this.form?.querySelector('[data-action="report"]')?.addEventListener('click', () => {
+        if (this.scan) downloadMigrationReport(this.scan, this.steps);
+      });
+    }
+
+    async _updateObject(_event: Event, formData: Record<string, any>): Promise<void> {
+      const api = (globalThis as any).SimpleCalendar?.api;
+      if (!api || !this.scan) {
+        ui.notifications?.warn(localize('apiNotReady'));
+        return;
+      }
+
+      this.steps = await runMigrationSteps(api, this.scan, {
+        notes: !!formData.notes,
+        setDate: !!formData.setDate,
+        copySettings: !!formData.copySettings,
+        export: !!formData.export,
+      });
+      this.render();
+    }
+  };
+}
+
+/**
+ * Render the Migration Assistant HTML
+ */
+function renderMigrationAssistant(
+  scan: MigrationScan,
+  steps: MigrationStepResult[],
+  localize: (key: string) => string
+): string {
+  const escape = (value: unknown) =>
+    String(value).replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  const list = (items: string[]) =>
+    items.length > 0 ? `<ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>` : '';
+  const quality = (value: ConversionQuality) => `<strong>${localize(value)}</strong>`;
+  const checkbox = (name: string, checked: boolean) => `
+    <div class="form-group">
+      <label><input type="checkbox" name="${name}"${checked ? ' checked' : ''}> ${localize(name)}</label>
+    </div>`;
+
+  const calendars = scan.parseError
+    ? `<p>${localize('parseError')}</p>`
+    : list(
+        scan.calendars.map(
+          report =>
+            `${escape(report.name)}: ${quality(getCalendarQuality(report))}` +
+            list([
+              ...report.unmapped.map(issue => `${escape(issue.field)}: ${escape(issue.message)}`),
+              ...report.approximated.map(
+                issue => `${escape(issue.field)}: ${escape(issue.message)}`
+              ),
+            ])
+        )
+      ) || `<p>${localize('none')}</p>`;
+
+  const noteEntries = scan.notes?.notes ?? [];
+  const notes = list(
+    noteEntries.map(note => {
+      const noteQuality = getNoteQuality(note);
+      const details = [...note.issues, ...(note.error ? [note.error] : [])];
+      return (
+        `${escape(note.name)}: ${noteQuality ? quality(noteQuality) : `<strong>${localize(note.status)}</strong>`}` +
+        list(details.map(escape))
+      );
+    })
+  );
+
+  const modules = list(
+    scan.modules.map(
+      module =>
+        `${escape(module.title)} ${escape(module.version ?? '')} (${localize(module.active ? 'active' : 'inactive')})`
+    )
+  );
+
+  const results = list(
+    steps.map(
+      step => `${localize(`step.${step.step}`)}: ${localize(step.status)} (${escape(step.message)})`
+    )
+  );
+
+  return `
+    <form autocomplete="off">
+      <p>${localize('description')}</p>
+      ${scan.simpleCalendar.active ? `<p class="notification warning">${localize('simpleCalendarActive')}</p>` : ''}
+      <h3>${localize('step.calendars')}</h3>
+      ${calendars}
+      <h3>${localize('step.notes')}</h3>
+      ${notes || `<p>${localize('none')}</p>`}
+      <h3>${localize('step.settings')}</h3>
+      ${scan.settings ? `<p>${escape(scan.settings.calendarName)}</p>` : `<p>${localize('none')}</p>`}
+      <h3>${localize('modules')}</h3>
+      ${modules || `<p>${localize('none')}</p>`}
+      <h3>${localize('steps')}</h3>
+      ${checkbox(
+        'notes',
+        noteEntries.some(note => note.status === 'ready')
+      )}
+      ${checkbox('setDate', !!scan.settings?.currentDate)}
+      ${checkbox('copySettings', !!scan.settings)}
+      ${checkbox('export', false)}
+      ${results}
+      <footer class="sheet-footer flexrow">
+        <button type="submit"><i class="fas fa-play"></i> ${localize('run')}</button>
+        <button type="button" data-action="report"><i class="fas fa-download"></i> ${localize('report')}</button>
+      </footer>
+    </form>`;
+}
@@ -0,0 +1,369 @@
+/**
+ * Simple Calendar note migration
+ *
+ * Simple Calendar stores notes as journal entries flagged with
+ * `foundryvtt-simple-calendar.noteData`. The migration adds the flag layout of
+ * bridge notes (see addNote) to those journals in place, so their pages,
+ * ownership and links are kept, and moves them into the calendar notes folder.
+ * Each migrated journal records its previous folder and flags, so the
+ * migration can be rolled back.
+ */
+
+import { normalizeNoteRepeat } from '../api/note-recurrence';
+import { buildCalendarNoteFlags } from '../api/note-flags';
+import { CalendarEngine } from '../calendar/engine';
+import { convertSimpleCalendarCalendar } from './calendar-converter';
+import type { SimpleCalendarCalendarConfig } from './calendar-converter';
+import { readSimpleCalendarSettings } from './simple-calendar-settings';
+import type {
+  NoteMigrationEntry,
+  NoteMigrationOptions,
+  NoteMigrationResult,
+  SimpleCalendarDateTimeParts,
+} from '../types';
+
+const SIMPLE_CALENDAR_SCOPE = 'foundryvtt-simple-calendar';
+const BRIDGE_SCOPE = 'foundryvtt-simple-calendar-compat';
+const MIGRATION_VERSION = 1;
+const OBSERVER = 2; // CONST.DOCUMENT_OWNERSHIP_LEVELS.OBSERVER
+
+/**
+ * Previous state of a migrated journal, stored in its bridge flags
+ */
+interface MigrationRecord {
+  source: 'simple-calendar';
+  version: number;
+  migratedAt: number;
+  previousFolder: string | null;
+  /** Flags of the scopes the migration wrote, or null where the scope was absent */
+  previousFlags: Record<string, unknown>;
+}
+
+/**
+ * A Simple Calendar note read for migration
+ */
+interface PlannedNote {
+  entry: NoteMigrationEntry;
+  journal: any;
+  /** Seasons & Stars note category */
+  category: string;
+  macro: string | null;
+  /** Engine of the note's calendar, mapping its month indexes to Seasons & Stars dates */
+  engine: CalendarEngine;
+}
+
+/**
+ * Find the journal entries Simple Calendar stored notes in
+ */
+export function findSimpleCalendarNotes(): any[] {
+  const journals = game.journal ? Array.from(game.journal as Iterable<any>) : [];
+  return journals.filter(journal => journal?.flags?.[SIMPLE_CALENDAR_SCOPE]?.noteData);
+}
+
+/**
+ * Migrate Simple Calendar notes to bridge calendar notes
+ *
+ * Notes already migrated, or already carrying calendar note flags, are skipped,
+ * so the migration can be run again safely.
+ *
+ * @param options.folderId - Folder migrated notes are moved to
+ * @param options.engine - Engine of the active calendar, used for notes whose
+ *   Simple Calendar calendar cannot be read
+ */
+export async function migrateSimpleCalendarNotes(
+  options: NoteMigrationOptions & { folderId?: string; engine?: CalendarEngine } = {}
+): Promise<NoteMigrationResult> {
+  const dryRun = options.dryRun === true;
+  const planned = planNoteMigration(
+    findSimpleCalendarNotes(),
+    options.engine ?? new CalendarEngine()
+  );
+  const total = planned.length;
+  const result: NoteMigrationResult = {
+    dryRun,
+    total,
+    migrated: 0,
+    skipped: 0,
+    failed: 0,
+    notes: planned.map(note => note.entry),
+  };
+
+  const progress =
+    !dryRun && total > 0
+      ? ui.notifications?.info(`Migrating ${total} Simple Calendar notes`, { progress: true })
+      : undefined;
+
+  for (const [index, note] of planned.entries()) {
+    if (note.entry.status === 'ready' && !dryRun) {
+      try {
+        await note.journal.update(
+          { folder: options.folderId ?? null, flags: buildMigratedFlags(note) },
+          { recursive: false }
+        );
+        note.entry.status = 'migrated';
+      } catch (error) {
+        console.error(`Simple Calendar Bridge: Failed to migrate note "${note.entry.name}"`, error);
+        note.entry.status = 'failed';
+        note.entry.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    if (note.entry.status === 'skipped') {
+      result.skipped++;
+    } else if (note.entry.status === 'failed') {
+      result.failed++;
+    } else {
+      result.migrated++;
+    }
+
+    if (!dryRun) {
+      progress?.update?.({
+        pct: (index + 1) / total,
+        message: `Migrating Simple Calendar notes (${index + 1}/${total})`,
+      });
+      options.onProgress?.(index + 1, total);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Restore every migrated journal to its flags and folder before the migration
+ *
+ * @returns The number of journals restored
+ */
+export async function rollbackNoteMigration(): Promise<number> {
+  let restored = 0;
+
+  for (const journal of findSimpleCalendarNotes()) {
+    const record: MigrationRecord | undefined = journal.flags?.[BRIDGE_SCOPE]?.migration;
+    if (!record || record.source !== 'simple-calendar') continue;
+
+    try {
+      const flags: Record<string, unknown> = { ...journal.flags };
+      for (const [scope, previous] of Object.entries(record.previousFlags ?? {})) {
+        if (previous) {
+          flags[scope] = previous;
+        } else {
+          delete flags[scope];
+        }
+      }
+
+      await journal.update({ folder: record.previousFolder, flags }, { recursive: false });
+      restored++;
+    } catch (error) {
+      console.error(`Simple Calendar Bridge: Failed to roll back note "${journal.name}"`, error);
+    }
+  }
+
+  return restored;
+}
+
+/**
+ * Read each Simple Calendar note and decide what to do with it
+ */
+function planNoteMigration(journals: any[], fallbackEngine: CalendarEngine): PlannedNote[] {
+  const { calendars, currentCalendarId } = readSimpleCalendarSettings();
+  const engines = new Map<string, CalendarEngine>();
+
+  return journals.map(journal => {
+    const noteData = journal.flags[SIMPLE_CALENDAR_SCOPE].noteData;
+    const calendar = calendars?.[noteData.calendarId];
+    const categories = resolveCategories(noteData.categories, calendar);
+    const startDate = toBridgeDate(noteData.startDate);
+    const endDate = toBridgeDate(noteData.endDate);
+    const remindUsers = Array.isArray(noteData.remindUsers)
+      ? noteData.remindUsers.filter((id: unknown) => typeof id === 'string')
+      : [];
+    const macro =
+      typeof noteData.macro === 'string' && noteData.macro && noteData.macro !== 'none'
+        ? noteData.macro
+        : null;
+
+    const entry: NoteMigrationEntry = {
+      journalId: journal.id,
+      name: journal.name,
+      status: 'ready',
+      startDate,
+      endDate: endDate && !sameDateTime(startDate, endDate) ? endDate : null,
+      allDay: noteData.allDay !== false,
+      repeats: normalizeNoteRepeat(noteData.repeats),
+      categories: categories.names,
+      playerVisible: (journal.ownership?.default ?? 0) >= OBSERVER,
+      remindUsers,
+      issues: categories.unknown.map(id => `Unknown category "${id}" is dropped`),
+    };
+
+    if (remindUsers.length > 0) {
+      const users = remindUsers.length === 1 ? '1 user' : `${remindUsers.length} users`;
+      entry.issues.push(`Reminders for ${users} are kept but not posted to chat`);
+    }
+    if (macro) {
+      entry.issues.push(`Macro ${macro} is kept but will not run on the note's date`);
+    }
+    if (currentCalendarId && noteData.calendarId && noteData.calendarId !== currentCalendarId) {
+      entry.issues.push(
+        `Belongs to the Simple Calendar calendar "${calendar?.name ?? noteData.calendarId}", not the active one`
+      );
+    }
+
+    const bridgeFlags = journal.flags[BRIDGE_SCOPE];
+    if (bridgeFlags?.migration) {
+      entry.status = 'skipped';
+      entry.error = 'Already migrated';
+    } else if (journal.flags['seasons-and-stars']?.calendarNote || bridgeFlags?.bridgeCreated) {
+      entry.status = 'skipped';
+      entry.error = 'Already a calendar note';
+    } else if (!startDate) {
+      entry.status = 'failed';
+      entry.error = 'Note has no start date';
+    }
+
+    return {
+      entry,
+      journal,
+      category: toCategoryId(categories.names[0] ?? '') || 'general',
+      macro,
+      engine: getCalendarEngine(noteData.calendarId, calendar, engines) ?? fallbackEngine,
+    };
+  });
+}
+
+/**
+ * Build the full flag set of a migrated journal: its existing flags, the
+ * calendar note flags and the rollback record
+ */
+function buildMigratedFlags(note: PlannedNote): Record<string, unknown> {
+  const { entry, journal } = note;
+  const noteFlags = buildCalendarNoteFlags(
+    {
+      startDate: toFlagDate(entry.startDate),
+      endDate: entry.endDate ? toFlagDate(entry.endDate) : undefined,
+      allDay: entry.allDay,
+      repeats: entry.repeats,
+      category: note.category,
+      tags: entry.categories,
+    },
+    note.engine
+  );
+
+  const previousFlags: Record<string, unknown> = {};
+  for (const scope of Object.keys(noteFlags)) {
+    previousFlags[scope] = journal.flags[scope] ?? null;
+  }
+  const migration: MigrationRecord = {
+    source: 'simple-calendar',
+    version: MIGRATION_VERSION,
+    migratedAt: Date.now(),
+    previousFolder: getFolderId(journal),
+    previousFlags,
+  };
+
+  return {
+    ...journal.flags,
+    ...noteFlags,
+    [BRIDGE_SCOPE]: {
+      ...noteFlags[BRIDGE_SCOPE],
+      remindUsers: entry.remindUsers,
+      macro: note.macro,
+      migration,
+    },
+  };
+}
+
+/**
+ * Build the engine of a note's Simple Calendar calendar, whose month list counts
+ * intercalary months like the note's dates
+ *
+ * @returns The engine, or null when the calendar is missing or has no months
+ */
+function getCalendarEngine(
+  calendarId: string,
+  calendar: SimpleCalendarCalendarConfig | undefined,
+  engines: Map<string, CalendarEngine>
+): CalendarEngine | null {
+  const cached = engines.get(calendarId);
+  if (cached || !calendar) return cached ?? null;
+
+  const converted = convertSimpleCalendarCalendar(calendarId, calendar)?.calendar;
+  if (!Array.isArray(converted?.months) || converted.months.length === 0) return null;
+
+  const engine = new CalendarEngine(converted);
+  engines.set(calendarId, engine);
+  return engine;
+}
+
+/**
+ * Resolve Simple Calendar category ids to names using the note's calendar
+ */
+function resolveCategories(
+  ids: unknown,
+  calendar: Record<string, any> | undefined
+): { names: string[]; unknown: string[] } {
+  const result = { names: [] as string[], unknown: [] as string[] };
+  const known = Array.isArray(calendar?.noteCategories) ? calendar.noteCategories : [];
+
+  for (const id of Array.isArray(ids) ? ids : []) {
+    const category = known.find((candidate: any) => candidate?.id === id);
+    if (typeof category?.name === 'string') {
+      result.names.push(category.name);
+    } else {
+      result.unknown.push(String(id));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read a Simple Calendar note date, which keeps its time in `seconds`
+ */
+function toBridgeDate(date: any): SimpleCalendarDateTimeParts | null {
+  if (!date || typeof date.year !== 'number') return null;
+
+  return {
+    year: date.year,
+    month: date.month || 0,
+    day: date.day || 0,
+    hour: date.hour || 0,
+    minute: date.minute || 0,
+    seconds: date.seconds ?? date.second ?? 0,
+  };
+}
+
+function toFlagDate(date: SimpleCalendarDateTimeParts | null): Record<string, number> {
+  return {
+    year: date?.year ?? 0,
+    month: date?.month ?? 0,
+    day: date?.day ?? 0,
+    hour: date?.hour ?? 0,
+    minute: date?.minute ?? 0,
+    second: date?.seconds ?? 0,
+  };
+}
+
+function sameDateTime(a: SimpleCalendarDateTimeParts | null, b: SimpleCalendarDateTimeParts) {
+  return (
+    !!a &&
+    a.year === b.year &&
+    a.month === b.month &&
+    a.day === b.day &&
+    a.hour === b.hour &&
+    a.minute === b.minute &&
+    a.seconds === b.seconds
+  );
+}
+
+function toCategoryId(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+function getFolderId(journal: any): string | null {
+  const folder = journal.folder;
+  if (typeof folder === 'string') return folder;
+  return folder?.id ?? null;
+}
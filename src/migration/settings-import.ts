@@ -0,0 +1,282 @@
+/**
+ * Simple Calendar settings import
+ *
+ * Simple Calendar keeps the current date, the clock options and the date
+ * formats on each of its calendars rather than in world time and the bridge's
+ * settings. On first activation the GM is offered to carry them over, so the
+ * world continues on the date it was left at.
+ */
+
+import {
+  getSettingsImportOffered,
+  setClockSettings,
+  setGeneralSettings,
+  setSettingsImportOffered,
+} from '../settings';
+import { readSimpleCalendarSettings } from './simple-calendar-settings';
+import type { ClockSettings } from '../settings';
+import type {
+  SimpleCalendarAPI,
+  SimpleCalendarDateTimeParts,
+  SimpleCalendarGeneralSettings,
+} from '../types';
+
+/**
+ * Date and settings stored on Simple Calendar's current calendar
+ */
+export interface SimpleCalendarLegacySettings {
+  /** Simple Calendar id of the calendar the values were read from */
+  calendarId: string;
+  calendarName: string;
+  /** Last known date, 0-based, or null when none is stored */
+  currentDate: SimpleCalendarDateTimeParts | null;
+  clock: Partial<ClockSettings>;
+  general: Partial<SimpleCalendarGeneralSettings>;
+}
+
+/**
+ * Which parts of the legacy settings to import
+ */
+export interface SettingsImportChoices {
+  setDate: boolean;
+  copySettings: boolean;
+}
+
+/**
+ * Read the date, clock and format settings of Simple Calendar's current
+ * calendar, or of its first calendar when no current calendar is stored
+ *
+ * @returns The settings, or null when the world has no Simple Calendar data
+ */
+export function readSimpleCalendarLegacySettings(): SimpleCalendarLegacySettings | null {
+  const { calendars, currentCalendarId } = readSimpleCalendarSettings();
+  if (!calendars) {
+    return null;
+  }
+
+  const calendarId =
+    currentCalendarId && calendars[currentCalendarId]
+      ? currentCalendarId
+      : Object.keys(calendars)[0];
+  const calendar = calendarId ? calendars[calendarId] : undefined;
+  if (!calendar || typeof calendar !== 'object') {
+    return null;
+  }
+
+  const time = calendar.time ?? {};
+  const general = calendar.general ?? {};
+  const clock: Partial<ClockSettings> = {};
+  if (typeof time.gameTimeRatio === 'number' && time.gameTimeRatio > 0) {
+    clock.gameTimeRatio = time.gameTimeRatio;
+  }
+  if (typeof time.updateFrequency === 'number' && time.updateFrequency > 0) {
+    clock.updateFrequency = time.updateFrequency;
+  }
+  if (typeof time.unifyGameAndClockPause === 'boolean') {
+    clock.unifyGameAndClockPause = time.unifyGameAndClockPause;
+  }
+
+  const dateFormat = general.dateFormat ?? {};
+  const readFormat = (key: string): string | undefined =>
+    typeof dateFormat[key] === 'string' && dateFormat[key].trim() !== ''
+      ? dateFormat[key]
+      : undefined;
+  const formats = {
+    date: readFormat('date'),
+    time: readFormat('time'),
+    monthYear: readFormat('monthYear'),
+    chatTime: readFormat('chatTime'),
+  };
+
+  return {
+    calendarId,
+    calendarName: calendar.name || calendarId,
+    currentDate: readCurrentDate(calendar.currentDate, time),
+    clock,
+    general: {
+      ...(typeof general.showClock === 'boolean' && { showClock: general.showClock }),
+      ...(Object.values(formats).some(Boolean) && {
+        dateFormat: formats as SimpleCalendarGeneralSettings['dateFormat'],
+      }),
+    },
+  };
+}
+
+/**
+ * Set world time to Simple Calendar's last known date and copy its clock and
+ * format settings into the bridge's settings (GM only)
+ *
+ * The date is converted with the active calendar.
+ *
+ * @returns Whether everything chosen was imported
+ */
+export async function importSimpleCalendarSettings(
+  api: SimpleCalendarAPI,
+  legacy: SimpleCalendarLegacySettings,
+  choices: SettingsImportChoices
+): Promise<boolean> {
+  if (!game.user?.isGM) {
+    console.warn('Only GMs can import Simple Calendar settings');
+    return false;
+  }
+
+  try {
+    if (choices.copySettings) {
+      await setClockSettings(legacy.clock);
+      await setGeneralSettings(legacy.general);
+    }
+
+    if (choices.setDate && legacy.currentDate) {
+      const target = api.dateToTimestamp(legacy.currentDate);
+      const difference = target - (game.time?.worldTime ?? 0);
+      if (Math.abs(difference) >= 1) {
+        await game.time?.advance(difference);
+      }
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Simple Calendar Bridge: Failed to import Simple Calendar settings', error);
+    ui.notifications?.error('Failed to import Simple Calendar settings');
+    return false;
+  }
+}
+
+/**
+ * Offer the GM to import Simple Calendar's date and settings
+ *
+ * Called once the API is exposed. The offer is made once per world, whatever
+ * the GM answers, and only when Simple Calendar left data behind.
+ *
+ * @returns Whether anything was imported
+ */
+export async function offerSimpleCalendarSettingsImport(
+  api: SimpleCalendarAPI | undefined
+): Promise<boolean> {
+  if (!api || !game.user?.isGM || getSettingsImportOffered()) {
+    return false;
+  }
+
+  let legacy: SimpleCalendarLegacySettings | null = null;
+  try {
+    legacy = readSimpleCalendarLegacySettings();
+  } catch (error) {
+    console.error('Simple Calendar Bridge: Failed to read Simple Calendar settings', error);
+    return false;
+  }
+  if (!legacy) {
+    return false;
+  }
+
+  const DialogV2 = (globalThis as any).foundry?.applications?.api?.DialogV2;
+  if (!DialogV2) {
+    console.warn('Simple Calendar Bridge: Cannot offer the Simple Calendar settings import');
+    return false;
+  }
+
+  const localize = (key: string) => game.i18n.localize(`SIMPLE_CALENDAR_COMPAT.${key}`);
+  let choices: SettingsImportChoices | null = null;
+  try {
+    choices = await DialogV2.confirm({
+      window: { title: localize('SETTINGS_IMPORT.title') },
+      content: renderImportDialog(api, legacy),
+      rejectClose: false,
+      modal: true,
+      yes: {
+        label: localize('SETTINGS_IMPORT.import'),
+        callback: (_event: Event, button: HTMLButtonElement) => {
+          const checked = (name: string) =>
+            !!(button.form?.elements.namedItem(name) as HTMLInputElement | null)?.checked;
+          return { setDate: checked('setDate'), copySettings: checked('copySettings') };
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Simple Calendar Bridge: Failed to show the settings import dialog', error);
+    return false;
+  }
+
+  await setSettingsImportOffered(true);
+
+  if (!choices || (!choices.setDate && !choices.copySettings)) {
+    return false;
+  }
+
+  const imported = await importSimpleCalendarSettings(api, legacy, choices);
+  if (imported) {
+    ui.notifications?.info(
+      `Imported settings from Simple Calendar calendar "${legacy.calendarName}"`
+    );
+  }
+  return imported;
+}
+
+/**
+ * Simple Calendar date with the time split out of its seconds into the day
+ */
+function readCurrentDate(currentDate: any, time: any): SimpleCalendarDateTimeParts | null {
+  if (
+    !currentDate ||
+    typeof currentDate.year !== 'number' ||
+    typeof currentDate.month !== 'number' ||
+    typeof currentDate.day !== 'number'
+  ) {
+    return null;
+  }
+
+  const secondsInMinute = time.secondsInMinute || 60;
+  const secondsInHour = (time.minutesInHour || 60) * secondsInMinute;
+  const seconds = Math.max(0, Math.floor(currentDate.seconds ?? 0));
+
+  return {
+    year: currentDate.year,
+    month: currentDate.month,
+    day: currentDate.day,
+    hour: Math.floor(seconds / secondsInHour),
+    minute: Math.floor((seconds % secondsInHour) / secondsInMinute),
+    seconds: seconds % secondsInMinute,
+  };
+}
+
+/**
+ * Render the dialog content listing the values that would be imported
+ */
+function renderImportDialog(api: SimpleCalendarAPI, legacy: SimpleCalendarLegacySettings): string {
+  const localize = (key: string) => game.i18n.localize(`SIMPLE_CALENDAR_COMPAT.${key}`);
+  const escape = (value: unknown) =>
+    String(value).replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  const row = (key: string, value: unknown) =>
+    value === undefined ? '' : `<li><strong>${localize(key)}:</strong> ${escape(value)}</li>`;
+  const checkbox = (name: string, label: string, items: string) => `
+    <div class="form-group">
+      <label><input type="checkbox" name="${name}" checked> ${localize(label)}</label>
+    </div>
+    <ul>${items}</ul>`;
+
+  const { clock, general, currentDate } = legacy;
+  const formats = general.dateFormat;
+  const date = currentDate
+    ? api.formatDateTime(
+        currentDate,
+        `${formats?.date ?? 'MMMM DD, YYYY'} ${formats?.time ?? 'HH:mm:ss'}`
+      )
+    : undefined;
+
+  return `
+    <p>${escape(game.i18n.format('SIMPLE_CALENDAR_COMPAT.SETTINGS_IMPORT.description', { calendar: legacy.calendarName }))}</p>
+    ${date === undefined ? '' : checkbox('setDate', 'SETTINGS_IMPORT.setDate', row('SETTINGS_IMPORT.date', date))}
+    ${checkbox(
+      'copySettings',
+      'SETTINGS_IMPORT.copySettings',
+      [
+        row('SETTINGS.gameTimeRatio.name', clock.gameTimeRatio),
+        row('SETTINGS.updateFrequency.name', clock.updateFrequency),
+        row('SETTINGS.unifyGameAndClockPause.name', clock.unifyGameAndClockPause),
+        row('SETTINGS.showClock.name', general.showClock),
+        row('SETTINGS.dateFormatDate.name', formats?.date),
+        row('SETTINGS.dateFormatTime.name', formats?.time),
+        row('SETTINGS.dateFormatMonthYear.name', formats?.monthYear),
+        row('SETTINGS.dateFormatChatTime.name', formats?.chatTime),
+      ].join('')
+    )}`;
+}
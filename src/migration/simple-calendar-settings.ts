@@ -0,0 +1,113 @@
+/**
+ * Simple Calendar world settings
+ *
+ * Reads the data Simple Calendar left in the world, whether or not Simple
+ * Calendar itself is still installed. Without the module its settings are not
+ * registered, so they are read from the raw world settings storage.
+ */
+
+import type { SimpleCalendarCalendarConfig } from './calendar-converter';
+
+/**
+ * Simple Calendar's stored calendars
+ */
+export interface SimpleCalendarSettings {
+  /** Calendars keyed by Simple Calendar id, or null when none are stored */
+  calendars: Record<string, SimpleCalendarCalendarConfig> | null;
+  currentCalendarId: string | null;
+  /** Whether stored calendar data could not be parsed */
+  parseError: boolean;
+}
+
+/**
+ * Read a raw world setting from the settings storage
+ *
+ * The world storage is a WorldSettings collection of Setting documents whose
+ * value is the stored JSON. Plain objects keyed by "module.key" are accepted too.
+ */
+function getStoredWorldSetting(key: string): unknown {
+  try {
+    const storage = game.settings?.storage;
+    const worldSettings: any = typeof storage?.get === 'function' ? storage.get('world') : null;
+    if (!worldSettings || typeof worldSettings !== 'object') {
+      return undefined;
+    }
+
+    if (typeof worldSettings.getSetting === 'function') {
+      return parseStoredValue(worldSettings.getSetting(key)?.value);
+    }
+    if (typeof worldSettings.find === 'function') {
+      return parseStoredValue(worldSettings.find((entry: any) => entry?.key === key)?.value);
+    }
+
+    return worldSettings[key];
+  } catch (error) {
+    console.warn('Simple Calendar Bridge: Failed to read world settings for registration', error);
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a stored setting value, keeping it as is when it is not JSON
+ */
+function parseStoredValue(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Read one of Simple Calendar's settings, from storage or from the registered setting
+ *
+ * Registered settings are only there while Simple Calendar is active; reading
+ * an unregistered setting throws, so it is checked first.
+ */
+function readSimpleCalendarSetting(key: string): unknown {
+  const stored = getStoredWorldSetting(`foundryvtt-simple-calendar.${key}`);
+  if (stored !== undefined && stored !== null) {
+    return stored;
+  }
+
+  if (!game.settings?.settings?.has(`foundryvtt-simple-calendar.${key}`)) {
+    return undefined;
+  }
+  return game.settings.get('foundryvtt-simple-calendar', key);
+}
+
+/**
+ * Read Simple Calendar's calendars and current calendar from the world settings
+ */
+export function readSimpleCalendarSettings(): SimpleCalendarSettings {
+  const calendarsRaw = readSimpleCalendarSetting('calendars');
+  const currentCalendarRaw = readSimpleCalendarSetting('current-calendar');
+
+  let calendars: Record<string, SimpleCalendarCalendarConfig> | null = null;
+  let parseError = false;
+
+  if (calendarsRaw) {
+    try {
+      const parsed = typeof calendarsRaw === 'string' ? JSON.parse(calendarsRaw) : calendarsRaw;
+      if (Array.isArray(parsed)) {
+        // Simple Calendar 2.x stores a list of calendars, each carrying its id
+        calendars = Object.fromEntries(
+          parsed.map((calendar, index) => [calendar?.id ?? `calendar-${index}`, calendar])
+        );
+      } else if (parsed && typeof parsed === 'object') {
+        calendars = parsed as Record<string, SimpleCalendarCalendarConfig>;
+      }
+    } catch (error) {
+      console.error('Error parsing calendars data', error);
+      parseError = true;
+    }
+  }
+
+  const currentCalendarId = typeof currentCalendarRaw === 'string' ? currentCalendarRaw : null;
+
+  return { calendars, currentCalendarId, parseError };
+}
@@ -0,0 +1,131 @@
+/**
+ * About Time calendar provider
+ *
+ * About Time keeps game time as Foundry world time in seconds and schedules
+ * events against it. It does not expose a calendar definition, so dates are
+ * read on the Gregorian calendar with world time 0 at midnight, 1 January 1970.
+ */
+
+import { BaseCalendarProvider } from './base-provider';
+import type { CalendarDate } from '../types';
+import { GREGORIAN_CALENDAR, GREGORIAN_EPOCH_WEEKDAY } from '../calendar/gregorian';
+import { buildSeasons, findSeasonForDate } from '../api/seasons';
+import {
+  getSecondsPerDay,
+  gregorianDateFromDays,
+  gregorianDaysFromEpoch,
+  positiveModulo,
+} from '../utils/calendar-math';
+
+export class AboutTimeProvider extends BaseCalendarProvider {
+  readonly name = 'About Time';
+  readonly version: string;
+
+  constructor() {
+    super();
+    this.version = game.modules.get('about-time')?.version || '0.1.0';
+  }
+
+  static isAvailable(): boolean {
+    return !!(game.modules.get('about-time')?.active && getAboutTimeApi());
+  }
+
+  getCurrentDate(): CalendarDate | null {
+    try {
+      return this.worldTimeToDate(this.getCurrentTimestamp());
+    } catch (error) {
+      console.warn('Failed to get current date from About Time:', error);
+      return null;
+    }
+  }
+
+  worldTimeToDate(timestamp: number): CalendarDate {
+    const secondsPerDay = getSecondsPerDay(GREGORIAN_CALENDAR);
+    const days = Math.floor(timestamp / secondsPerDay);
+    const secondsInDay = positiveModulo(Math.floor(timestamp), secondsPerDay);
+
+    return {
+      ...gregorianDateFromDays(days),
+      weekday: positiveModulo(days + GREGORIAN_EPOCH_WEEKDAY, 7),
+      time: {
+        hour: Math.floor(secondsInDay / 3600),
+        minute: Math.floor((secondsInDay % 3600) / 60),
+        second: secondsInDay % 60,
+      },
+    };
+  }
+
+  dateToWorldTime(date: CalendarDate): number {
+    const days = gregorianDaysFromEpoch(date.year, date.month, date.day);
+    return (
+      days * getSecondsPerDay(GREGORIAN_CALENDAR) +
+      (date.time?.hour || 0) * 3600 +
+      (date.time?.minute || 0) * 60 +
+      (date.time?.second || 0)
+    );
+  }
+
+  /**
+   * Format a date; `options.format` accepts Simple Calendar format tokens
+   */
+  formatDate(date: CalendarDate, options?: any): string {
+    try {
+      return this.formatWithCalendar(date, options, GREGORIAN_CALENDAR);
+    } catch (error) {
+      console.warn('Failed to format date:', error);
+      return `${date.day}/${date.month}/${date.year}`;
+    }
+  }
+
+  getActiveCalendar(): any {
+    return GREGORIAN_CALENDAR;
+  }
+
+  getMonthNames(): string[] {
+    return GREGORIAN_CALENDAR.months.map(month => month.name);
+  }
+
+  getWeekdayNames(): string[] {
+    return GREGORIAN_CALENDAR.weekdays.map(weekday => weekday.name);
+  }
+
+  getSeasonInfo(date: CalendarDate): { icon: string; name: string } {
+    const season = findSeasonForDate(
+      buildSeasons(GREGORIAN_CALENDAR),
+      date.month - 1,
+      date.day - 1
+    );
+    return season ? { icon: season.icon, name: season.name } : super.getSeasonInfo(date);
+  }
+
+  async advanceDays(days: number): Promise<void> {
+    await this.advance(days * getSecondsPerDay(GREGORIAN_CALENDAR));
+  }
+
+  async advanceHours(hours: number): Promise<void> {
+    await this.advance(hours * 3600);
+  }
+
+  async advanceMinutes(minutes: number): Promise<void> {
+    await this.advance(minutes * 60);
+  }
+
+  /**
+   * Advance time through About Time so its scheduled events fire
+   */
+  private async advance(seconds: number): Promise<void> {
+    const aboutTime = getAboutTimeApi();
+    if (typeof aboutTime?.advanceClock === 'function') {
+      await aboutTime.advanceClock(seconds);
+    } else {
+      await game.time.advance(seconds);
+    }
+  }
+}
+
+/**
+ * About Time's API object (`game.abouttime`, or `game.Gametime` in older releases)
+ */
+function getAboutTimeApi(): any {
+  return (game as any).abouttime ?? (game as any).Gametime ?? null;
+}
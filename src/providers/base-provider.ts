@@ -3,6 +3,7 @@
  */
 
 import type { CalendarProvider, CalendarDate } from '../types';
+import { formatSimpleCalendarDate } from '../api/date-format';
 
 export abstract class BaseCalendarProvider implements CalendarProvider {
   abstract readonly name: string;
@@ -82,6 +83,35 @@ export abstract class BaseCalendarProvider implements CalendarProvider {
     }
   }
 
+  /**
+   * Format a date on a Seasons & Stars format calendar;
+   * `options.format` accepts Simple Calendar format tokens
+   */
+  protected formatWithCalendar(date: CalendarDate, options: any, calendar: any): string {
+    let format = 'MMMM D, YYYY HH:mm';
+    if (typeof options?.format === 'string') {
+      format = options.format;
+    } else if (options?.timeOnly) {
+      format = 'HH:mm';
+    } else if (options?.includeTime === false) {
+      format = 'MMMM D, YYYY';
+    }
+
+    return formatSimpleCalendarDate(
+      {
+        year: date.year,
+        month: date.month - 1,
+        day: date.day - 1,
+        hour: date.time?.hour,
+        minute: date.time?.minute,
+        seconds: date.time?.second,
+        dayOfTheWeek: date.weekday,
+      },
+      format,
+      calendar
+    );
+  }
+
   protected validateMonth(month: number, monthNames: string[]): boolean {
     return month >= 1 && month <= monthNames.length;
   }
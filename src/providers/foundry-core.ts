@@ -0,0 +1,247 @@
+/**
+ * Foundry core calendar provider
+ *
+ * Foundry v13 ships a `CalendarData` model on `game.time.calendar` that game
+ * systems such as dnd5e configure. The core model does the timestamp arithmetic;
+ * this provider translates its components and metadata to Seasons & Stars format
+ * (1-based months and days) so the rest of the bridge treats it like any other module.
+ *
+ * Foundry's own default calendar is not offered: only worlds whose game system
+ * or modules configure a calendar use this provider.
+ */
+
+import { BaseCalendarProvider } from './base-provider';
+import type { CalendarDate } from '../types';
+import { buildSeasons, findSeasonForDate } from '../api/seasons';
+import { getSecondsPerDay } from '../utils/calendar-math';
+
+type CoreCalendar = NonNullable<typeof game.time.calendar>;
+
+/**
+ * Calendar configuration Foundry starts with, recorded before game systems and
+ * modules configure their own during init
+ */
+let defaultCalendarConfig: unknown;
+
+export class FoundryCoreProvider extends BaseCalendarProvider {
+  readonly name = 'Foundry Core Calendar';
+  readonly version: string;
+
+  constructor() {
+    super();
+    this.version = (game as any).version || '13.0.0';
+  }
+
+  /**
+   * Record Foundry's default calendar configuration; called while module scripts
+   * load, before the init hook
+   */
+  static recordDefaultCalendar(): void {
+    defaultCalendarConfig = getCalendarConfig();
+  }
+
+  /**
+   * Whether the world has a core calendar configured, rather than Foundry's default
+   */
+  static isAvailable(): boolean {
+    const calendar = game.time?.calendar;
+    const config = getCalendarConfig();
+    return (
+      typeof calendar?.timeToComponents === 'function' &&
+      typeof calendar?.componentsToTime === 'function' &&
+      config !== undefined &&
+      config !== defaultCalendarConfig
+    );
+  }
+
+  getCurrentDate(): CalendarDate | null {
+    try {
+      return this.worldTimeToDate(this.getCurrentTimestamp());
+    } catch (error) {
+      console.warn('Failed to get current date from the core calendar:', error);
+      return null;
+    }
+  }
+
+  worldTimeToDate(timestamp: number): CalendarDate {
+    const components = getCoreCalendar().timeToComponents(timestamp);
+
+    return {
+      year: components.year,
+      month: components.month + 1,
+      day: components.dayOfMonth + 1,
+      weekday: components.dayOfWeek,
+      time: {
+        hour: components.hour,
+        minute: components.minute,
+        second: components.second,
+      },
+    };
+  }
+
+  dateToWorldTime(date: CalendarDate): number {
+    const calendar = getCoreCalendar();
+    const leapYear = isLeapYear(calendar, date.year);
+    const months = calendar.months?.values ?? [];
+
+    let dayOfYear = date.day - 1;
+    for (let i = 0; i < date.month - 1 && i < months.length; i++) {
+      dayOfYear += getMonthLength(months[i], leapYear);
+    }
+
+    return calendar.componentsToTime({
+      year: date.year,
+      day: dayOfYear,
+      hour: date.time?.hour || 0,
+      minute: date.time?.minute || 0,
+      second: date.time?.second || 0,
+    });
+  }
+
+  formatDate(date: CalendarDate, options?: any): string {
+    try {
+      return this.formatWithCalendar(date, options, this.getActiveCalendar());
+    } catch (error) {
+      console.warn('Failed to format date:', error);
+      return `${date.day}/${date.month}/${date.year}`;
+    }
+  }
+
+  /**
+   * The core calendar converted to Seasons & Stars format
+   */
+  getActiveCalendar(): any {
+    const calendar = getCoreCalendar();
+    const months = calendar.months?.values.length
+      ? calendar.months.values
+      : [{ name: calendar.name || 'Year', days: calendar.days.daysPerYear }];
+    const leapYear = calendar.years?.leapYear;
+    const yearZero = calendar.years?.yearZero ?? 0;
+
+    return {
+      id: calendar.name ? slugify(localize(calendar.name)) : 'foundry-core',
+      name: calendar.name ? localize(calendar.name) : 'Foundry Core Calendar',
+      description: calendar.description ? localize(calendar.description) : '',
+      months: months.map(month => ({
+        name: localize(month.name),
+        abbreviation: month.abbreviation ? localize(month.abbreviation) : undefined,
+        days: month.days,
+        ...(month.leapDays != null ? { leapDays: month.leapDays } : {}),
+        ...(month.intercalary ? { intercalary: true } : {}),
+      })),
+      weekdays: calendar.days.values.map(weekday => ({
+        name: localize(weekday.name),
+        abbreviation: weekday.abbreviation ? localize(weekday.abbreviation) : undefined,
+      })),
+      year: { epoch: yearZero, currentYear: yearZero, prefix: '', suffix: '' },
+      leapYear: leapYear
+        ? { rule: 'custom', interval: leapYear.leapInterval, offset: leapYear.leapStart }
+        : { rule: 'none' },
+      time: {
+        hoursInDay: calendar.days.hoursPerDay,
+        minutesInHour: calendar.days.minutesPerHour,
+        secondsInMinute: calendar.days.secondsPerMinute,
+      },
+      seasons: (calendar.seasons?.values ?? []).map(season => ({
+        name: localize(season.name),
+        ...getSeasonStart(calendar, season),
+      })),
+    };
+  }
+
+  getMonthNames(): string[] {
+    return this.getActiveCalendar().months.map((month: any) => month.name);
+  }
+
+  getWeekdayNames(): string[] {
+    return this.getActiveCalendar().weekdays.map((weekday: any) => weekday.name);
+  }
+
+  getSeasonInfo(date: CalendarDate): { icon: string; name: string } {
+    const season = findSeasonForDate(
+      buildSeasons(this.getActiveCalendar()),
+      date.month - 1,
+      date.day - 1
+    );
+    return season ? { icon: season.icon, name: season.name } : super.getSeasonInfo(date);
+  }
+
+  async advanceDays(days: number): Promise<void> {
+    await game.time.advance(days * getSecondsPerDay(this.getActiveCalendar()));
+  }
+
+  async advanceHours(hours: number): Promise<void> {
+    const { minutesPerHour, secondsPerMinute } = getCoreCalendar().days;
+    await game.time.advance(hours * minutesPerHour * secondsPerMinute);
+  }
+
+  async advanceMinutes(minutes: number): Promise<void> {
+    await game.time.advance(minutes * getCoreCalendar().days.secondsPerMinute);
+  }
+}
+
+/**
+ * The world calendar configuration, `CONFIG.time.worldCalendarConfig`
+ */
+function getCalendarConfig(): unknown {
+  return typeof CONFIG === 'undefined' ? undefined : CONFIG.time?.worldCalendarConfig;
+}
+
+function getCoreCalendar(): CoreCalendar {
+  const calendar = game.time?.calendar;
+  if (!calendar) {
+    throw new Error('Foundry core calendar is not available');
+  }
+  return calendar;
+}
+
+function localize(key: string): string {
+  return game.i18n?.localize(key) ?? key;
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+function isLeapYear(calendar: CoreCalendar, year: number): boolean {
+  if (typeof calendar.isLeapYear === 'function') {
+    return calendar.isLeapYear(year);
+  }
+  const leapYear = calendar.years?.leapYear;
+  if (!leapYear?.leapInterval) {
+    return false;
+  }
+  return (year - leapYear.leapStart) % leapYear.leapInterval === 0;
+}
+
+function getMonthLength(
+  month: { days: number; leapDays?: number | null },
+  leapYear: boolean
+): number {
+  return leapYear && month.leapDays != null ? month.leapDays : month.days;
+}
+
+/**
+ * 1-based starting month and day of a core season
+ *
+ * Core seasons start either on an ordinal month or, for calendars without
+ * months, on an ordinal day of the year.
+ */
+function getSeasonStart(
+  calendar: CoreCalendar,
+  season: { monthStart?: number | null; dayStart?: number | null }
+): { startMonth: number; startDay: number } {
+  if (season.monthStart != null) {
+    return { startMonth: season.monthStart, startDay: 1 };
+  }
+
+  let remaining = Math.max((season.dayStart ?? 1) - 1, 0);
+  const months = calendar.months?.values ?? [];
+  for (let i = 0; i < months.length; i++) {
+    if (remaining < months[i].days) {
+      return { startMonth: i + 1, startDay: remaining + 1 };
+    }
+    remaining -= months[i].days;
+  }
+  return { startMonth: 1, startDay: remaining + 1 };
+}
@@ -0,0 +1,181 @@
+/**
+ * Calendar provider registry
+ *
+ * Calendar modules offer providers to the bridge instead of being hard-wired into
+ * provider detection. Registrations come from the built-in providers, from
+ * `game.simpleCalendarCompat.registerProvider()` and from listeners of the
+ * `simple-calendar-compat:registerProviders` hook, which receive the registry.
+ */
+
+import type { CalendarProvider, ProviderRegistration } from '../types';
+import { AUTO_PROVIDER, addProviderChoice } from '../settings';
+import { SeasonsStarsIntegrationProvider } from './seasons-stars-integration';
+import { SeasonsStarsProvider } from './seasons-stars';
+import { AboutTimeProvider } from './about-time';
+import { FoundryCoreProvider } from './foundry-core';
+
+/**
+ * Hook fired with the registry before the bridge first picks a provider
+ */
+export const REGISTER_PROVIDERS_HOOK = 'simple-calendar-compat:registerProviders';
+
+/**
+ * Provider picked by the registry
+ */
+export interface SelectedProvider {
+  id: string;
+  name: string;
+  provider: CalendarProvider;
+}
+
+export class ProviderRegistry {
+  private registrations = new Map<string, ProviderRegistration>();
+  private hookFired = false;
+
+  /**
+   * Register a provider, replacing any earlier registration with the same id
+   *
+   * @returns Whether the registration was accepted
+   */
+  register(registration: ProviderRegistration): boolean {
+    if (
+      typeof registration?.id !== 'string' ||
+      registration.id.trim() === '' ||
+      registration.id === AUTO_PROVIDER
+    ) {
+      console.error('🌉 Provider registration needs a unique string id:', registration);
+      return false;
+    }
+
+    if (
+      !Number.isFinite(registration.priority) ||
+      typeof registration.isAvailable !== 'function' ||
+      (typeof registration.provider !== 'object' && typeof registration.provider !== 'function') ||
+      registration.provider === null
+    ) {
+      console.error(
+        `🌉 Provider registration "${registration.id}" needs a priority, an isAvailable() check and a provider`
+      );
+      return false;
+    }
+
+    if (this.registrations.has(registration.id)) {
+      console.warn(`🌉 Replacing calendar provider registration "${registration.id}"`);
+    }
+
+    this.registrations.set(registration.id, registration);
+    addProviderChoice(registration.id, registration.name || registration.id);
+    return true;
+  }
+
+  unregister(id: string): boolean {
+    return this.registrations.delete(id);
+  }
+
+  /**
+   * Registrations from the highest priority down
+   */
+  getRegistrations(): ProviderRegistration[] {
+    return [...this.registrations.values()].sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Registrations whose providers can be used right now, highest priority first
+   */
+  getAvailable(): ProviderRegistration[] {
+    return this.getRegistrations().filter(registration => {
+      try {
+        return registration.isAvailable();
+      } catch (error) {
+        console.warn(`🌉 Availability check for provider "${registration.id}" failed:`, error);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Let other modules register their providers; the hook only fires once
+   */
+  collectRegistrations(): void {
+    if (this.hookFired || typeof Hooks === 'undefined') return;
+    this.hookFired = true;
+    Hooks.callAll(REGISTER_PROVIDERS_HOOK, this);
+  }
+
+  /**
+   * Available registrations in the order they would be selected: the preferred
+   * provider when it is available, then the rest by priority
+   */
+  getCandidates(preferredId: string = AUTO_PROVIDER): ProviderRegistration[] {
+    const available = this.getAvailable();
+    if (preferredId === AUTO_PROVIDER) return available;
+
+    const preferred = available.find(registration => registration.id === preferredId);
+    if (!preferred) return available;
+
+    return [preferred, ...available.filter(registration => registration !== preferred)];
+  }
+
+  /**
+   * Pick the preferred provider when it is available, otherwise the
+   * highest-priority available provider
+   */
+  select(preferredId: string = AUTO_PROVIDER): SelectedProvider | null {
+    const candidates = this.getCandidates(preferredId);
+    if (preferredId !== AUTO_PROVIDER && candidates[0]?.id !== preferredId) {
+      console.warn(
+        `🌉 Calendar provider "${preferredId}" is not available, choosing automatically`
+      );
+    }
+
+    for (const registration of candidates) {
+      try {
+        const provider =
+          typeof registration.provider === 'function'
+            ? registration.provider()
+            : registration.provider;
+        return { id: registration.id, name: registration.name || registration.id, provider };
+      } catch (error) {
+        console.error(`🌉 Failed to create calendar provider "${registration.id}":`, error);
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Register the providers that ship with the bridge
+ *
+ * Priorities leave room for other modules to slot in between them.
+ */
+export function registerBuiltInProviders(registry: ProviderRegistry): void {
+  registry.register({
+    id: 'seasons-and-stars',
+    name: 'Seasons & Stars',
+    priority: 100,
+    isAvailable: () => SeasonsStarsIntegrationProvider.isAvailable(),
+    provider: () => new SeasonsStarsIntegrationProvider(),
+  });
+  registry.register({
+    id: 'seasons-and-stars-legacy',
+    name: 'Seasons & Stars (v1.x)',
+    priority: 90,
+    isAvailable: () => SeasonsStarsProvider.isAvailable(),
+    provider: () => new SeasonsStarsProvider(),
+  });
+  registry.register({
+    id: 'about-time',
+    name: 'About Time',
+    priority: 50,
+    isAvailable: () => AboutTimeProvider.isAvailable(),
+    provider: () => new AboutTimeProvider(),
+  });
+  registry.register({
+    id: 'foundry-core',
+    name: 'Foundry Core Calendar',
+    priority: 10,
+    isAvailable: () => FoundryCoreProvider.isAvailable(),
+    provider: () => new FoundryCoreProvider(),
+  });
+}
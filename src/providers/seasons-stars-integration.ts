@@ -10,10 +10,16 @@ import type {
   CalendarDate,
   DateChangeEvent,
   CalendarChangeEvent,
+  SimpleCalendarMoonData,
+  SimpleCalendarNoteCategory,
+  SimpleCalendarSeasonData,
+  TimeAdvanceMethod,
 } from '../types';
+import { calculateMoons } from '../api/moons';
+import { buildSeasons } from '../api/seasons';
 
 // Integration types (matching S&S interface design)
-interface SeasonsStarsIntegration {
+export interface SeasonsStarsIntegration {
   readonly isAvailable: boolean;
   readonly version: string;
   readonly api: SeasonsStarsAPI;
@@ -22,6 +28,18 @@ interface SeasonsStarsIntegration {
 
   hasFeature(feature: string): boolean;
   getFeatureVersion(feature: string): string | null;
+
+  // Sidebar button management (v0.19.0+)
+  addSidebarButton?(config: {
+    name: string;
+    icon: string;
+    tooltip: string;
+    callback: () => void;
+    only?: ('main' | 'mini' | 'grid')[];
+    except?: ('main' | 'mini' | 'grid')[];
+  }): void;
+  removeSidebarButton?(name: string): void;
+  hasSidebarButton?(name: string): boolean;
 }
 
 interface SeasonsStarsAPI {
@@ -34,6 +52,9 @@ interface SeasonsStarsAPI {
   getAvailableCalendars(): string[];
   getMonthNames(calendarId?: string): string[];
   getWeekdayNames(calendarId?: string): string[];
+  advanceYears?(years: number, calendarId?: string): Promise<void>;
+  advanceMonths?(months: number, calendarId?: string): Promise<void>;
+  advanceWeeks?(weeks: number, calendarId?: string): Promise<void>;
   advanceDays?(days: number, calendarId?: string): Promise<void>;
   advanceHours?(hours: number, calendarId?: string): Promise<void>;
   advanceMinutes?(minutes: number, calendarId?: string): Promise<void>;
@@ -41,7 +62,7 @@ interface SeasonsStarsAPI {
   getSeasonInfo?(date: CalendarDate, calendarId?: string): { name: string; icon: string };
 }
 
-interface SeasonsStarsWidgets {
+export interface SeasonsStarsWidgets {
   readonly main: BridgeCalendarWidget | null;
   readonly mini: BridgeCalendarWidget | null;
   readonly grid: BridgeCalendarWidget | null;
@@ -52,7 +73,7 @@ interface SeasonsStarsWidgets {
   wrapWidget?: any; // Allow dynamic widget wrapping for compatibility
 }
 
-interface BridgeCalendarWidget {
+export interface BridgeCalendarWidget {
   readonly id: string;
   readonly isVisible: boolean;
 
@@ -98,8 +119,11 @@ export class SeasonsStarsIntegrationProvider implements CalendarProvider {
   hasFeature?: any;
   wrapWidget?: any;
 
-  constructor() {
-    this.integration = this.detectIntegration();
+  /**
+   * @param integration - Integration instance to wrap, detected if not provided
+   */
+  constructor(integration?: SeasonsStarsIntegration) {
+    this.integration = integration || this.detectIntegration();
     this.version = this.integration?.version || '0.0.0';
 
     if (this.integration) {
@@ -311,7 +335,7 @@ export class SeasonsStarsIntegrationProvider implements CalendarProvider {
       });
     };
 
-    this.integration.widgets.onWidgetChange(this.widgetChangeCallback);
+    this.integration.widgets?.onWidgetChange?.(this.widgetChangeCallback);
   }
 
   /**
@@ -402,6 +426,56 @@ export class SeasonsStarsIntegrationProvider implements CalendarProvider {
     }
   }
 
+  getAvailableCalendars(): string[] {
+    if (!this.integration?.api) return [];
+
+    try {
+      return this.integration.api.getAvailableCalendars() || [];
+    } catch (error) {
+      console.error('Bridge: Failed to get available calendars:', error);
+      return [];
+    }
+  }
+
+  async setActiveCalendar(calendarId: string): Promise<void> {
+    if (!this.integration?.api) {
+      throw new Error('S&S integration not available');
+    }
+
+    return this.integration.api.setActiveCalendar(calendarId);
+  }
+
+  /**
+   * Whether the S&S API has the advance method; older builds lack some of them
+   */
+  canAdvance(method: TimeAdvanceMethod): boolean {
+    return typeof this.integration?.api?.[method] === 'function';
+  }
+
+  async advanceYears(years: number): Promise<void> {
+    if (!this.integration?.api?.advanceYears) {
+      throw new Error('Time advancement not supported');
+    }
+
+    return this.integration.api.advanceYears(years);
+  }
+
+  async advanceMonths(months: number): Promise<void> {
+    if (!this.integration?.api?.advanceMonths) {
+      throw new Error('Time advancement not supported');
+    }
+
+    return this.integration.api.advanceMonths(months);
+  }
+
+  async advanceWeeks(weeks: number): Promise<void> {
+    if (!this.integration?.api?.advanceWeeks) {
+      throw new Error('Time advancement not supported');
+    }
+
+    return this.integration.api.advanceWeeks(weeks);
+  }
+
   async advanceDays(days: number): Promise<void> {
     if (!this.integration?.api?.advanceDays) {
       throw new Error('Time advancement not supported');
@@ -463,9 +537,14 @@ export class SeasonsStarsIntegrationProvider implements CalendarProvider {
   }
 
   /**
-   * Add sidebar button to preferred widget
+   * Add sidebar button through the integration (v0.19.0+) or the preferred widget
    */
   addSidebarButton(name: string, icon: string, tooltip: string, callback: Function): void {
+    if (this.integration?.addSidebarButton) {
+      this.integration.addSidebarButton({ name, icon, tooltip, callback: callback as () => void });
+      return;
+    }
+
     if (!this.integration?.widgets) {
       throw new Error('Widget integration not available');
     }
@@ -482,17 +561,73 @@ export class SeasonsStarsIntegrationProvider implements CalendarProvider {
    * Remove sidebar button from widgets
    */
   removeSidebarButton(name: string): void {
-    if (!this.integration?.widgets) return;
-
-    for (const widget of [
-      this.integration.widgets.mini,
-      this.integration.widgets.main,
-      this.integration.widgets.grid,
-    ]) {
-      if (widget) {
-        widget.removeSidebarButton(name);
-      }
+    if (this.integration?.removeSidebarButton) {
+      this.integration.removeSidebarButton(name);
+      return;
+    }
+
+    for (const widget of this.getWidgets()) {
+      widget.removeSidebarButton(name);
+    }
+  }
+
+  /**
+   * Check whether any widget shows a sidebar button
+   */
+  hasSidebarButton(name: string): boolean {
+    if (this.integration?.hasSidebarButton) {
+      return this.integration.hasSidebarButton(name);
     }
+
+    return this.getWidgets().some(widget => widget.hasSidebarButton(name));
+  }
+
+  /**
+   * Get note categories from the S&S note category manager
+   *
+   * Note categories are organizational labels for notes (e.g., "Holiday", "Event"),
+   * used by modules like Item Piles to determine which categories represent closed days.
+   */
+  getNoteCategories(): SimpleCalendarNoteCategory[] {
+    // NOTE: Direct access to game.seasonsStars is intentional here
+    // The noteCategories manager is not yet part of the Integration Interface,
+    // but is a stable public API that we can safely access
+    const categoriesManager = (game as any).seasonsStars?.noteCategories;
+    if (!categoriesManager || typeof categoriesManager.getCategories !== 'function') {
+      return [];
+    }
+
+    // S&S NoteCategory: { id, name, icon, color, description?, isDefault? }
+    // SC NoteCategory: { id, name, color, textColor }
+    return categoriesManager.getCategories().map(
+      (cat: any): SimpleCalendarNoteCategory => ({
+        id: cat.id,
+        name: cat.name,
+        color: cat.color || '#4a90e2',
+        textColor: cat.textColor || '#ffffff',
+      })
+    );
+  }
+
+  /**
+   * Force the S&S note storage to rebuild its index so it includes notes
+   * created through the bridge
+   */
+  refreshNotes(): void {
+    const storage = (game.seasonsStars as any)?.notes?.storage;
+    if (storage && typeof storage.rebuildIndex === 'function') {
+      storage.rebuildIndex();
+      console.log('Bridge: Triggered S&S storage reindex');
+    }
+  }
+
+  private getWidgets(): BridgeCalendarWidget[] {
+    const widgets = this.integration?.widgets;
+    if (!widgets) return [];
+
+    return [widgets.mini, widgets.main, widgets.grid].filter(
+      (widget): widget is BridgeCalendarWidget => !!widget
+    );
   }
 
   /**
@@ -564,19 +699,24 @@ export class SeasonsStarsIntegrationProvider implements CalendarProvider {
     }
   }
 
-  private getAllMoons(): any[] {
-    // Default empty moons - can be enhanced with S&S moon data if available
-    return [];
+  private getAllMoons(): SimpleCalendarMoonData[] {
+    try {
+      return calculateMoons(this.getActiveCalendar(), game.time?.worldTime || 0, date =>
+        this.dateToWorldTime(date)
+      );
+    } catch (error) {
+      console.error('Bridge: Failed to calculate moon phases:', error);
+      return [];
+    }
   }
 
-  private getAllSeasons(): any[] {
-    // Default seasons - can be enhanced with S&S season data if available
-    return [
-      { name: 'Spring', icon: 'spring' },
-      { name: 'Summer', icon: 'summer' },
-      { name: 'Fall', icon: 'fall' },
-      { name: 'Winter', icon: 'winter' },
-    ];
+  private getAllSeasons(): SimpleCalendarSeasonData[] {
+    try {
+      return buildSeasons(this.getActiveCalendar());
+    } catch (error) {
+      console.error('Bridge: Failed to build season data:', error);
+      return [];
+    }
   }
 
   /**
@@ -591,7 +731,7 @@ export class SeasonsStarsIntegrationProvider implements CalendarProvider {
         this.integration.hooks.off('calendarChanged', this.calendarChangeCallback);
       }
       if (this.widgetChangeCallback) {
-        this.integration.widgets.offWidgetChange(this.widgetChangeCallback);
+        this.integration.widgets?.offWidgetChange?.(this.widgetChangeCallback);
       }
     }
   }
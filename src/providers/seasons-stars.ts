@@ -3,7 +3,8 @@
  */
 
 import { BaseCalendarProvider } from './base-provider';
-import type { CalendarDate } from '../types';
+import type { CalendarDate, TimeAdvanceMethod } from '../types';
+import { findSeasonForCalendarDate } from '../api/seasons';
 
 export class SeasonsStarsProvider extends BaseCalendarProvider {
   readonly name = 'Seasons & Stars';
@@ -183,6 +184,23 @@ export class SeasonsStarsProvider extends BaseCalendarProvider {
     }
   }
 
+  getAvailableCalendars(): string[] {
+    try {
+      return game.seasonsStars?.api?.getAvailableCalendars?.() || [];
+    } catch (error) {
+      console.warn('Failed to get available calendars:', error);
+      return [];
+    }
+  }
+
+  async setActiveCalendar(calendarId: string): Promise<void> {
+    if (!game.seasonsStars?.api?.setActiveCalendar) {
+      throw new Error('Seasons & Stars does not support calendar switching');
+    }
+
+    await game.seasonsStars.api.setActiveCalendar(calendarId);
+  }
+
   getSunriseSunset(date: CalendarDate): { sunrise: number; sunset: number } {
     try {
       // Try to get from calendar if it has astronomical data
@@ -201,19 +219,14 @@ export class SeasonsStarsProvider extends BaseCalendarProvider {
 
   getSeasonInfo(date: CalendarDate): { icon: string; name: string } {
     try {
-      const calendar = this.getActiveCalendar();
-      if (calendar?.seasons && calendar.seasons.length > 0) {
-        // Use calendar-defined seasons if available
-        const monthsPerSeason = Math.ceil(calendar.months.length / calendar.seasons.length);
-        const seasonIndex = Math.floor((date.month - 1) / monthsPerSeason);
-        const season = calendar.seasons[seasonIndex];
-
-        if (season) {
-          return {
-            icon: season.icon || season.name.toLowerCase(),
-            name: season.name,
-          };
-        }
+      // Use calendar-defined seasons if available
+      const season = findSeasonForCalendarDate(this.getActiveCalendar(), date);
+
+      if (season) {
+        return {
+          icon: season.icon,
+          name: season.name,
+        };
       }
 
       return super.getSeasonInfo(date);
@@ -237,6 +250,49 @@ export class SeasonsStarsProvider extends BaseCalendarProvider {
   }
 
   // GM time advancement methods
+  canAdvance(method: TimeAdvanceMethod): boolean {
+    return typeof game.seasonsStars?.api?.[method] === 'function';
+  }
+
+  async advanceYears(years: number): Promise<void> {
+    try {
+      if (game.seasonsStars?.api?.advanceYears) {
+        await game.seasonsStars.api.advanceYears(years);
+      } else {
+        console.warn('Seasons & Stars does not support year advancement');
+      }
+    } catch (error) {
+      console.error('Failed to advance years:', error);
+      throw error;
+    }
+  }
+
+  async advanceMonths(months: number): Promise<void> {
+    try {
+      if (game.seasonsStars?.api?.advanceMonths) {
+        await game.seasonsStars.api.advanceMonths(months);
+      } else {
+        console.warn('Seasons & Stars does not support month advancement');
+      }
+    } catch (error) {
+      console.error('Failed to advance months:', error);
+      throw error;
+    }
+  }
+
+  async advanceWeeks(weeks: number): Promise<void> {
+    try {
+      if (game.seasonsStars?.api?.advanceWeeks) {
+        await game.seasonsStars.api.advanceWeeks(weeks);
+      } else {
+        console.warn('Seasons & Stars does not support week advancement');
+      }
+    } catch (error) {
+      console.error('Failed to advance weeks:', error);
+      throw error;
+    }
+  }
+
   async advanceDays(days: number): Promise<void> {
     try {
       if (game.seasonsStars?.api?.advanceDays) {
@@ -0,0 +1,78 @@
+/**
+ * Built-in calendar provider
+ *
+ * Backs the bridge with its own calendar engine, on the Gregorian calendar, when
+ * the calendar module it was using stops being available. Dates are read from
+ * Foundry world time, so the Simple Calendar API keeps working until a calendar
+ * module takes over again. It is not registered: a world without a calendar
+ * module does not get the bridge.
+ */
+
+import { BaseCalendarProvider } from './base-provider';
+import type { CalendarDate } from '../types';
+import { CalendarEngine } from '../calendar/engine';
+import { buildSeasons, findSeasonForDate } from '../api/seasons';
+
+export class StandaloneProvider extends BaseCalendarProvider {
+  readonly name = 'Built-in Calendar';
+  readonly version: string;
+
+  private engine = new CalendarEngine();
+
+  constructor() {
+    super();
+    this.version = game.modules?.get('foundryvtt-simple-calendar-compat')?.version || '0.1.0';
+  }
+
+  getCurrentDate(): CalendarDate | null {
+    return this.worldTimeToDate(this.getCurrentTimestamp());
+  }
+
+  worldTimeToDate(timestamp: number): CalendarDate {
+    return this.engine.fromEntryDate(this.engine.worldTimeToDate(timestamp));
+  }
+
+  dateToWorldTime(date: CalendarDate): number {
+    return this.engine.dateToWorldTime(this.engine.toEntryDate(date));
+  }
+
+  /**
+   * Format a date; `options.format` accepts Simple Calendar format tokens
+   */
+  formatDate(date: CalendarDate, options?: any): string {
+    return this.formatWithCalendar(date, options, this.engine.calendar);
+  }
+
+  getActiveCalendar(): any {
+    return this.engine.calendar;
+  }
+
+  getMonthNames(): string[] {
+    return this.engine.calendar.months.map((month: any) => month.name);
+  }
+
+  getWeekdayNames(): string[] {
+    return this.engine.calendar.weekdays.map((weekday: any) => weekday.name);
+  }
+
+  getSeasonInfo(date: CalendarDate): { icon: string; name: string } {
+    const season = findSeasonForDate(
+      buildSeasons(this.engine.calendar),
+      date.month - 1,
+      date.day - 1
+    );
+    return season ? { icon: season.icon, name: season.name } : super.getSeasonInfo(date);
+  }
+
+  async advanceDays(days: number): Promise<void> {
+    await game.time.advance(this.engine.getIntervalSeconds({ day: days }));
+  }
+
+  async advanceHours(hours: number): Promise<void> {
+    await game.time.advance(this.engine.getIntervalSeconds({ hour: hours }));
+  }
+
+  async advanceMinutes(minutes: number): Promise<void> {
+    await game.time.advance(this.engine.getIntervalSeconds({ minute: minutes }));
+  }
+}
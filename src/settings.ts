@@ -0,0 +1,480 @@
+/**
+ * World settings for the Simple Calendar compatibility bridge
+ *
+ * Simple Calendar exposes its general settings (date formats, clock visibility and
+ * so on) through getCurrentCalendar().general, and consumer modules format dates
+ * with them. The bridge stores the same fields as world settings so groups can
+ * choose their own formats.
+ */
+
+import { createInlineFormApplication } from './utils/form-application';
+import type { SimpleCalendarGeneralSettings } from './types';
+
+export const MODULE_ID = 'foundryvtt-simple-calendar-compat';
+
+/**
+ * Simple Calendar's own defaults for the general settings
+ */
+export const DEFAULT_GENERAL_SETTINGS: SimpleCalendarGeneralSettings = {
+  gameWorldTimeIntegration: 'mixed',
+  showClock: true,
+  noteDefaultVisibility: false,
+  postNoteRemindersOnFoundryLoad: false,
+  pf2eSync: false,
+  dateFormat: {
+    date: 'MMMM DD, YYYY',
+    time: 'HH:mm:ss',
+    monthYear: 'MMMM YAYYYYYZ',
+    chatTime: 'MMMM DD, YYYY HH:mm:ss',
+  },
+  compactViewOptions: {
+    controlLayout: 'full',
+  },
+};
+
+/**
+ * Real-time clock options, matching SimpleCalendarTimeData
+ */
+export interface ClockSettings {
+  /** Game seconds that pass for each real second while the clock runs */
+  gameTimeRatio: number;
+  /** How often, in real seconds, the running clock advances world time */
+  updateFrequency: number;
+  /** Stop the clock while the game is paused and resume it when unpaused */
+  unifyGameAndClockPause: boolean;
+  /** Stop the clock while combat is running and resume it when combat ends */
+  pauseClockDuringCombat: boolean;
+}
+
+export const DEFAULT_CLOCK_SETTINGS: ClockSettings = {
+  gameTimeRatio: 1,
+  updateFrequency: 1,
+  unifyGameAndClockPause: false,
+  pauseClockDuringCombat: false,
+};
+
+/**
+ * Setting keys, one world setting per general settings field plus the clock options
+ */
+const SETTINGS = {
+  gameWorldTimeIntegration: 'gameWorldTimeIntegration',
+  showClock: 'showClock',
+  noteDefaultVisibility: 'noteDefaultVisibility',
+  postNoteRemindersOnFoundryLoad: 'postNoteRemindersOnFoundryLoad',
+  pf2eSync: 'pf2eSync',
+  dateFormatDate: 'dateFormatDate',
+  dateFormatTime: 'dateFormatTime',
+  dateFormatMonthYear: 'dateFormatMonthYear',
+  dateFormatChatTime: 'dateFormatChatTime',
+  compactViewControlLayout: 'compactViewControlLayout',
+  gameTimeRatio: 'gameTimeRatio',
+  updateFrequency: 'updateFrequency',
+  unifyGameAndClockPause: 'unifyGameAndClockPause',
+  pauseClockDuringCombat: 'pauseClockDuringCombat',
+  clockRunning: 'clockRunning',
+  settingsImportOffered: 'settingsImportOffered',
+  calendarProvider: 'calendarProvider',
+} as const;
+
+const GAME_WORLD_TIME_CHOICES = ['mixed', 'self', 'third-party'] as const;
+const CONTROL_LAYOUT_CHOICES = ['full', 'minimal'] as const;
+
+/**
+ * Use the highest-priority available provider
+ */
+export const AUTO_PROVIDER = 'auto';
+
+/**
+ * Calendar provider choices; providers are added as they register, after the
+ * setting itself is registered, so Foundry reads this object by reference
+ */
+const PROVIDER_CHOICES: Record<string, string> = {
+  [AUTO_PROVIDER]: `SIMPLE_CALENDAR_COMPAT.SETTINGS.${SETTINGS.calendarProvider}.auto`,
+};
+
+/**
+ * Register the general settings and their configuration menu
+ *
+ * Called from the init hook. The general settings are hidden from the default
+ * settings list and edited through the menu instead; the clock options are
+ * listed directly.
+ */
+export function registerSettings(): void {
+  const register = (
+    key: string,
+    type: any,
+    defaultValue: any,
+    choices?: readonly string[],
+    config = false
+  ) => {
+    game.settings.register(MODULE_ID, key, {
+      name: `SIMPLE_CALENDAR_COMPAT.SETTINGS.${key}.name`,
+      hint: `SIMPLE_CALENDAR_COMPAT.SETTINGS.${key}.hint`,
+      scope: 'world',
+      config,
+      type,
+      default: defaultValue,
+      ...(choices && {
+        choices: Object.fromEntries(
+          choices.map(choice => [choice, `SIMPLE_CALENDAR_COMPAT.SETTINGS.${key}.${choice}`])
+        ),
+      }),
+    });
+  };
+
+  const defaults = DEFAULT_GENERAL_SETTINGS;
+  register(
+    SETTINGS.gameWorldTimeIntegration,
+    String,
+    defaults.gameWorldTimeIntegration,
+    GAME_WORLD_TIME_CHOICES
+  );
+  register(SETTINGS.showClock, Boolean, defaults.showClock);
+  register(SETTINGS.noteDefaultVisibility, Boolean, defaults.noteDefaultVisibility);
+  register(
+    SETTINGS.postNoteRemindersOnFoundryLoad,
+    Boolean,
+    defaults.postNoteRemindersOnFoundryLoad
+  );
+  register(SETTINGS.pf2eSync, Boolean, defaults.pf2eSync);
+  register(SETTINGS.dateFormatDate, String, defaults.dateFormat.date);
+  register(SETTINGS.dateFormatTime, String, defaults.dateFormat.time);
+  register(SETTINGS.dateFormatMonthYear, String, defaults.dateFormat.monthYear);
+  register(SETTINGS.dateFormatChatTime, String, defaults.dateFormat.chatTime);
+  register(
+    SETTINGS.compactViewControlLayout,
+    String,
+    defaults.compactViewOptions.controlLayout,
+    CONTROL_LAYOUT_CHOICES
+  );
+  register(SETTINGS.gameTimeRatio, Number, DEFAULT_CLOCK_SETTINGS.gameTimeRatio, undefined, true);
+  register(
+    SETTINGS.updateFrequency,
+    Number,
+    DEFAULT_CLOCK_SETTINGS.updateFrequency,
+    undefined,
+    true
+  );
+  register(
+    SETTINGS.unifyGameAndClockPause,
+    Boolean,
+    DEFAULT_CLOCK_SETTINGS.unifyGameAndClockPause,
+    undefined,
+    true
+  );
+  register(
+    SETTINGS.pauseClockDuringCombat,
+    Boolean,
+    DEFAULT_CLOCK_SETTINGS.pauseClockDuringCombat,
+    undefined,
+    true
+  );
+
+  // Whether the real-time clock is running, shared so another GM can take over
+  game.settings.register(MODULE_ID, SETTINGS.clockRunning, {
+    scope: 'world',
+    config: false,
+    type: Boolean,
+    default: false,
+  });
+
+  // Whether the GM has been offered Simple Calendar's last date and settings
+  game.settings.register(MODULE_ID, SETTINGS.settingsImportOffered, {
+    scope: 'world',
+    config: false,
+    type: Boolean,
+    default: false,
+  });
+
+  game.settings.register(MODULE_ID, SETTINGS.calendarProvider, {
+    name: `SIMPLE_CALENDAR_COMPAT.SETTINGS.${SETTINGS.calendarProvider}.name`,
+    hint: `SIMPLE_CALENDAR_COMPAT.SETTINGS.${SETTINGS.calendarProvider}.hint`,
+    scope: 'world',
+    config: true,
+    type: String,
+    default: AUTO_PROVIDER,
+    choices: PROVIDER_CHOICES,
+  });
+
+  game.settings.registerMenu(MODULE_ID, 'generalSettingsMenu', {
+    name: 'SIMPLE_CALENDAR_COMPAT.SETTINGS.menu.name',
+    label: 'SIMPLE_CALENDAR_COMPAT.SETTINGS.menu.label',
+    hint: 'SIMPLE_CALENDAR_COMPAT.SETTINGS.menu.hint',
+    icon: 'fas fa-calendar-alt',
+    type: createGeneralSettingsForm(),
+    restricted: true,
+  });
+}
+
+/**
+ * Read the general settings, falling back to Simple Calendar's defaults for
+ * anything that is unset or not registered yet
+ */
+export function getGeneralSettings(): SimpleCalendarGeneralSettings {
+  const defaults = DEFAULT_GENERAL_SETTINGS;
+
+  return {
+    gameWorldTimeIntegration: readChoice(
+      SETTINGS.gameWorldTimeIntegration,
+      GAME_WORLD_TIME_CHOICES,
+      defaults.gameWorldTimeIntegration
+    ),
+    showClock: readSetting(SETTINGS.showClock, defaults.showClock),
+    noteDefaultVisibility: readSetting(
+      SETTINGS.noteDefaultVisibility,
+      defaults.noteDefaultVisibility
+    ),
+    postNoteRemindersOnFoundryLoad: readSetting(
+      SETTINGS.postNoteRemindersOnFoundryLoad,
+      defaults.postNoteRemindersOnFoundryLoad
+    ),
+    pf2eSync: readSetting(SETTINGS.pf2eSync, defaults.pf2eSync),
+    dateFormat: {
+      date: readSetting(SETTINGS.dateFormatDate, defaults.dateFormat.date),
+      time: readSetting(SETTINGS.dateFormatTime, defaults.dateFormat.time),
+      monthYear: readSetting(SETTINGS.dateFormatMonthYear, defaults.dateFormat.monthYear),
+      chatTime: readSetting(SETTINGS.dateFormatChatTime, defaults.dateFormat.chatTime),
+    },
+    compactViewOptions: {
+      controlLayout: readChoice(
+        SETTINGS.compactViewControlLayout,
+        CONTROL_LAYOUT_CHOICES,
+        defaults.compactViewOptions.controlLayout
+      ),
+    },
+  };
+}
+
+/**
+ * Save general settings, e.g. from the settings menu
+ */
+export async function setGeneralSettings(
+  settings: Partial<SimpleCalendarGeneralSettings>
+): Promise<void> {
+  const updates: [string, unknown][] = [
+    [SETTINGS.gameWorldTimeIntegration, settings.gameWorldTimeIntegration],
+    [SETTINGS.showClock, settings.showClock],
+    [SETTINGS.noteDefaultVisibility, settings.noteDefaultVisibility],
+    [SETTINGS.postNoteRemindersOnFoundryLoad, settings.postNoteRemindersOnFoundryLoad],
+    [SETTINGS.pf2eSync, settings.pf2eSync],
+    [SETTINGS.dateFormatDate, settings.dateFormat?.date],
+    [SETTINGS.dateFormatTime, settings.dateFormat?.time],
+    [SETTINGS.dateFormatMonthYear, settings.dateFormat?.monthYear],
+    [SETTINGS.dateFormatChatTime, settings.dateFormat?.chatTime],
+    [SETTINGS.compactViewControlLayout, settings.compactViewOptions?.controlLayout],
+  ];
+
+  for (const [key, value] of updates) {
+    if (value !== undefined) {
+      await game.settings.set(MODULE_ID, key, value);
+    }
+  }
+}
+
+/**
+ * Read the real-time clock options, ignoring non-positive ratios and frequencies
+ */
+export function getClockSettings(): ClockSettings {
+  const readPositive = (key: string, fallback: number): number => {
+    const value = readSetting(key, fallback);
+    return value > 0 ? value : fallback;
+  };
+
+  return {
+    gameTimeRatio: readPositive(SETTINGS.gameTimeRatio, DEFAULT_CLOCK_SETTINGS.gameTimeRatio),
+    updateFrequency: readPositive(SETTINGS.updateFrequency, DEFAULT_CLOCK_SETTINGS.updateFrequency),
+    unifyGameAndClockPause: readSetting(
+      SETTINGS.unifyGameAndClockPause,
+      DEFAULT_CLOCK_SETTINGS.unifyGameAndClockPause
+    ),
+    pauseClockDuringCombat: readSetting(
+      SETTINGS.pauseClockDuringCombat,
+      DEFAULT_CLOCK_SETTINGS.pauseClockDuringCombat
+    ),
+  };
+}
+
+/**
+ * Save real-time clock options, e.g. when importing them from Simple Calendar
+ */
+export async function setClockSettings(settings: Partial<ClockSettings>): Promise<void> {
+  const updates: [string, unknown][] = [
+    [SETTINGS.gameTimeRatio, settings.gameTimeRatio],
+    [SETTINGS.updateFrequency, settings.updateFrequency],
+    [SETTINGS.unifyGameAndClockPause, settings.unifyGameAndClockPause],
+    [SETTINGS.pauseClockDuringCombat, settings.pauseClockDuringCombat],
+  ];
+
+  for (const [key, value] of updates) {
+    if (value !== undefined) {
+      await game.settings.set(MODULE_ID, key, value);
+    }
+  }
+}
+
+/**
+ * Whether the real-time clock was last started by a GM
+ */
+export function getStoredClockRunning(): boolean {
+  return readSetting<boolean>(SETTINGS.clockRunning, false);
+}
+
+/**
+ * Share the real-time clock state with the other clients (GM only)
+ */
+export async function setStoredClockRunning(started: boolean): Promise<void> {
+  await game.settings.set(MODULE_ID, SETTINGS.clockRunning, started);
+}
+
+/**
+ * Whether the GM has already been offered Simple Calendar's date and settings
+ */
+export function getSettingsImportOffered(): boolean {
+  return readSetting<boolean>(SETTINGS.settingsImportOffered, false);
+}
+
+/**
+ * Record that the Simple Calendar settings import was offered (GM only)
+ */
+export async function setSettingsImportOffered(offered: boolean): Promise<void> {
+  await game.settings.set(MODULE_ID, SETTINGS.settingsImportOffered, offered);
+}
+
+/**
+ * Offer a registered calendar provider in the calendar provider setting
+ */
+export function addProviderChoice(id: string, name: string): void {
+  PROVIDER_CHOICES[id] = name;
+}
+
+/**
+ * The calendar provider the GM picked, or AUTO_PROVIDER
+ */
+export function getPreferredProviderId(): string {
+  return readSetting(SETTINGS.calendarProvider, AUTO_PROVIDER);
+}
+
+/**
+ * Whether a Setting document key belongs to this module
+ */
+export function isModuleSettingKey(key: string | undefined): boolean {
+  return !!key?.startsWith(`${MODULE_ID}.`);
+}
+
+/**
+ * Whether a stored setting key is the calendar provider setting
+ */
+export function isProviderSettingKey(key: string | undefined): boolean {
+  return key === `${MODULE_ID}.${SETTINGS.calendarProvider}`;
+}
+
+/**
+ * Read a setting, using the fallback when it is unset, empty or of the wrong type
+ */
+function readSetting<T extends string | boolean | number>(key: string, fallback: T): T {
+  try {
+    const value = game.settings?.get(MODULE_ID, key);
+    if (typeof value !== typeof fallback) return fallback;
+    if (typeof value === 'string' && value.trim() === '') return fallback;
+    if (typeof value === 'number' && !Number.isFinite(value)) return fallback;
+    return value as T;
+  } catch {
+    // Settings are not registered before the init hook
+    return fallback;
+  }
+}
+
+function readChoice<T extends string>(key: string, choices: readonly T[], fallback: T): T {
+  const value = readSetting<string>(key, fallback);
+  return (choices as readonly string[]).includes(value) ? (value as T) : fallback;
+}
+
+/**
+ * Build the settings menu form
+ */
+function createGeneralSettingsForm(): any {
+  return class GeneralSettingsForm extends createInlineFormApplication() {
+    static get defaultOptions() {
+      return {
+        ...super.defaultOptions,
+        id: 'simple-calendar-compat-general-settings',
+        title: game.i18n.localize('SIMPLE_CALENDAR_COMPAT.SETTINGS.menu.name'),
+        classes: ['sheet'],
+        width: 480,
+        height: 'auto',
+        closeOnSubmit: true,
+      };
+    }
+
+    async renderForm(): Promise<string> {
+      return renderGeneralSettingsForm(getGeneralSettings());
+    }
+
+    async _updateObject(_event: Event, formData: Record<string, any>): Promise<void> {
+      await setGeneralSettings({
+        gameWorldTimeIntegration: formData[SETTINGS.gameWorldTimeIntegration],
+        showClock: !!formData[SETTINGS.showClock],
+        noteDefaultVisibility: !!formData[SETTINGS.noteDefaultVisibility],
+        postNoteRemindersOnFoundryLoad: !!formData[SETTINGS.postNoteRemindersOnFoundryLoad],
+        pf2eSync: !!formData[SETTINGS.pf2eSync],
+        dateFormat: {
+          date: formData[SETTINGS.dateFormatDate],
+          time: formData[SETTINGS.dateFormatTime],
+          monthYear: formData[SETTINGS.dateFormatMonthYear],
+          chatTime: formData[SETTINGS.dateFormatChatTime],
+        },
+        compactViewOptions: {
+          controlLayout: formData[SETTINGS.compactViewControlLayout],
+        },
+      });
+    }
+  };
+}
+
+/**
+ * Render the settings menu form HTML
+ */
+function renderGeneralSettingsForm(settings: SimpleCalendarGeneralSettings): string {
+  const localize = (key: string) => game.i18n.localize(`SIMPLE_CALENDAR_COMPAT.SETTINGS.${key}`);
+  const escape = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+  const group = (key: string, input: string) => `
+    <div class="form-group">
+      <label>${localize(`${key}.name`)}</label>
+      <div class="form-fields">${input}</div>
+      <p class="notes">${localize(`${key}.hint`)}</p>
+    </div>`;
+
+  const select = (key: string, choices: readonly string[], value: string) =>
+    group(
+      key,
+      `<select name="${key}">${choices
+        .map(
+          choice =>
+            `<option value="${choice}"${choice === value ? ' selected' : ''}>${localize(`${key}.${choice}`)}</option>`
+        )
+        .join('')}</select>`
+    );
+  const checkbox = (key: string, value: boolean) =>
+    group(key, `<input type="checkbox" name="${key}"${value ? ' checked' : ''}>`);
+  const text = (key: string, value: string) =>
+    group(key, `<input type="text" name="${key}" value="${escape(value)}">`);
+
+  return `
+    <form autocomplete="off">
+      ${select(SETTINGS.gameWorldTimeIntegration, GAME_WORLD_TIME_CHOICES, settings.gameWorldTimeIntegration)}
+      ${checkbox(SETTINGS.showClock, settings.showClock)}
+      ${checkbox(SETTINGS.noteDefaultVisibility, settings.noteDefaultVisibility)}
+      ${checkbox(SETTINGS.postNoteRemindersOnFoundryLoad, settings.postNoteRemindersOnFoundryLoad)}
+      ${checkbox(SETTINGS.pf2eSync, settings.pf2eSync)}
+      ${text(SETTINGS.dateFormatDate, settings.dateFormat.date)}
+      ${text(SETTINGS.dateFormatTime, settings.dateFormat.time)}
+      ${text(SETTINGS.dateFormatMonthYear, settings.dateFormat.monthYear)}
+      ${text(SETTINGS.dateFormatChatTime, settings.dateFormat.chatTime)}
+      ${select(SETTINGS.compactViewControlLayout, CONTROL_LAYOUT_CHOICES, settings.compactViewOptions.controlLayout)}
+      <footer class="sheet-footer flexrow">
+        <button type="submit"><i class="fas fa-save"></i> ${game.i18n.localize('SIMPLE_CALENDAR_COMPAT.SETTINGS.menu.save')}</button>
+      </footer>
+    </form>`;
+}
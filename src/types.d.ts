@@ -186,6 +186,72 @@ export interface SimpleCalendarSeasonData {
   icon: string;
 }
 
+/**
+ * Interface for a single phase of a moon
+ * @source Copied from Simple Calendar types/index.d.ts
+ */
+export interface SimpleCalendarMoonPhase {
+  /** The name of the phase. */
+  name: string;
+  /** How many days of the cycle this phase takes up. */
+  length: number;
+  /** The icon associated with the phase (new, waxing-crescent, first-quarter, ...). */
+  icon: string;
+  /** If this phase should only take place on a single day. */
+  singleDay: boolean;
+}
+
+/**
+ * Interface for the reference date a moon's cycle is calculated from
+ * @source Copied from Simple Calendar types/index.d.ts
+ */
+export interface SimpleCalendarFirstNewMoonDate {
+  /** How the reference year resets ('none', 'leap-year' or 'x-years'). */
+  yearReset: string;
+  /** How many years before the reference year resets (for 'x-years'). */
+  yearX: number;
+  /** The year of the first new moon. */
+  year: number;
+  /** The month of the first new moon. The month is index based. */
+  month: number;
+  /** The day of the first new moon. The day is index based. */
+  day: number;
+}
+
+/**
+ * Interface for all information about a moon
+ * @source Copied from Simple Calendar types/index.d.ts
+ * @note phaseIndex, dayInCycle, nextFullMoon and nextNewMoon are bridge additions
+ */
+export interface SimpleCalendarMoonData {
+  /** The ID of the moon. */
+  id: string;
+  /** The name of the moon. */
+  name: string;
+  /** The description of the moon. */
+  description: string;
+  /** The color associated with the moon. */
+  color: string;
+  /** How many days it takes the moon to complete a cycle. */
+  cycleLength: number;
+  /** A way to nudge the cycle calculations to align with correct dates. */
+  cycleDayAdjust: number;
+  /** The date the first new moon took place on. */
+  firstNewMoon: SimpleCalendarFirstNewMoonDate;
+  /** The different phases of the moon. */
+  phases: SimpleCalendarMoonPhase[];
+  /** The phase the moon is in for the requested date. */
+  currentPhase?: SimpleCalendarMoonPhase;
+  /** Index of currentPhase within phases. */
+  phaseIndex?: number;
+  /** How many whole days into its cycle the moon is (0-based). */
+  dayInCycle?: number;
+  /** World time at the start of the next day the moon is full. */
+  nextFullMoon?: number | null;
+  /** World time at the start of the next day the moon is new. */
+  nextNewMoon?: number | null;
+}
+
 /**
  * Interface for all information about how leap years are set up
  * @source Copied from Simple Calendar types/index.d.ts
@@ -327,6 +393,7 @@ export interface CalendarDate {
   month: number; // 1-based
   day: number; // 1-based
   weekday: number;
+  intercalary?: string; // Intercalary period the day falls in, after `month` (S&S)
   time?: {
     hour: number;
     minute: number;
@@ -334,6 +401,17 @@ export interface CalendarDate {
   };
 }
 
+/**
+ * Provider methods that advance time by a calendar unit
+ */
+export type TimeAdvanceMethod =
+  | 'advanceYears'
+  | 'advanceMonths'
+  | 'advanceWeeks'
+  | 'advanceDays'
+  | 'advanceHours'
+  | 'advanceMinutes';
+
 // Provider interface that calendar modules implement
 
 export interface CalendarProvider {
@@ -351,7 +429,16 @@ export interface CalendarProvider {
   getMonthNames(): string[];
   getWeekdayNames(): string[];
 
+  // Calendar switching (optional - for modules with several calendars)
+  getAvailableCalendars?(): string[];
+  setActiveCalendar?(calendarId: string): Promise<void>;
+
   // Time advancement (optional - for GM features)
+  /** Whether an advance method can be used now; assumed when the method is defined */
+  canAdvance?(method: TimeAdvanceMethod): boolean;
+  advanceYears?(years: number): Promise<void>;
+  advanceMonths?(months: number): Promise<void>;
+  advanceWeeks?(weeks: number): Promise<void>;
   advanceDays?(days: number): Promise<void>;
   advanceHours?(hours: number): Promise<void>;
   advanceMinutes?(minutes: number): Promise<void>;
@@ -360,13 +447,111 @@ export interface CalendarProvider {
   getSunriseSunset?(date: CalendarDate): { sunrise: number; sunset: number };
   getSeasonInfo?(date: CalendarDate): { icon: string; name: string };
   getYearFormatting?(): { prefix: string; suffix: string };
+
+  // Widget sidebar buttons (optional - for modules with calendar widgets)
+  addSidebarButton?(name: string, icon: string, tooltip: string, callback: Function): void;
+  removeSidebarButton?(name: string): void;
+  hasSidebarButton?(name: string): boolean;
+
+  // Notes (optional - for modules that keep their own note storage)
+  getNoteCategories?(): SimpleCalendarNoteCategory[];
+  refreshNotes?(): void;
+
+  // Lifecycle (optional - called when the bridge switches to another provider)
+  cleanup?(): void;
+}
+
+/**
+ * A calendar provider offered to the bridge by a calendar module
+ */
+export interface ProviderRegistration {
+  /** Unique id, stored in the calendar provider world setting */
+  id: string;
+  /** Name shown in the calendar provider setting; defaults to the id */
+  name?: string;
+  /** Providers with higher priorities are preferred when the GM has not picked one */
+  priority: number;
+  /** Whether the provider can be used in this world right now */
+  isAvailable(): boolean;
+  /** The provider, or a factory called once the provider is selected */
+  provider: CalendarProvider | (() => CalendarProvider);
+}
+
+/**
+ * Options for breaking a number of seconds into calendar units
+ */
+export interface SecondsToIntervalOptions {
+  /** Timestamp the span is measured from; defaults to the current world time */
+  from?: number;
+  /** Count years and months on the calendar from `from` (default), or use average lengths */
+  exact?: boolean;
+}
+
+/**
+ * Unit for measuring the difference between two dates
+ */
+export type DateDifferenceUnit = 'year' | 'month' | 'week' | 'day' | 'hour' | 'minute' | 'second';
+
+/**
+ * Options for migrating Simple Calendar notes
+ */
+export interface NoteMigrationOptions {
+  /** List what would be migrated without changing any journal */
+  dryRun?: boolean;
+  /** Called after each note with the number of notes handled and the total */
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * What happened, or would happen in a dry run, to one Simple Calendar note
+ */
+export interface NoteMigrationEntry {
+  journalId: string;
+  name: string;
+  /** `ready` notes would be migrated by a run without `dryRun` */
+  status: 'ready' | 'migrated' | 'skipped' | 'failed';
+  /** Start date in Simple Calendar format (0-based month/day) */
+  startDate: SimpleCalendarDateTimeParts | null;
+  /** End date of notes spanning time, or null */
+  endDate: SimpleCalendarDateTimeParts | null;
+  allDay: boolean;
+  /** NoteRepeat value */
+  repeats: number;
+  /** Category names */
+  categories: string[];
+  /** Whether players can see the note */
+  playerVisible: boolean;
+  /** Ids of the users who asked to be reminded */
+  remindUsers: string[];
+  /** Note details that will not carry over exactly */
+  issues: string[];
+  /** Why the note was skipped or failed */
+  error?: string;
+}
+
+/**
+ * Outcome of a Simple Calendar note migration
+ */
+export interface NoteMigrationResult {
+  dryRun: boolean;
+  /** Simple Calendar notes found in the world */
+  total: number;
+  /** Notes migrated, or ready to migrate in a dry run */
+  migrated: number;
+  /** Notes already migrated or already calendar notes */
+  skipped: number;
+  failed: number;
+  notes: NoteMigrationEntry[];
 }
 
 // Simple Calendar API interface with correct return types
 export interface SimpleCalendarAPI {
   timestamp(): number;
   timestampToDate(timestamp: number): SimpleCalendarDateTime | null;
-  timestampPlusInterval(timestamp: number, interval: SimpleCalendarDateTimeParts): number;
+  timestampPlusInterval(
+    timestamp: number,
+    interval: SimpleCalendarDateTimeParts & { week?: number }
+  ): number;
   getCurrentDate(): SimpleCalendarDateTime | null;
   currentDateTime(): SimpleCalendarDateTime | null;
   formatDateTime(
@@ -411,7 +596,18 @@ export interface SimpleCalendarAPI {
   currentDateTimeDisplay(): SimpleCalendarDateDisplayData | null;
 
   // Utilities
-  secondsToInterval(seconds: number): SimpleCalendarDateTimeParts;
+  secondsToInterval(
+    seconds: number,
+    options?: SecondsToIntervalOptions
+  ): SimpleCalendarDateTimeParts;
+  dateDifference(
+    a: SimpleCalendarDateTimeParts,
+    b: SimpleCalendarDateTimeParts,
+    unit?: DateDifferenceUnit
+  ): number;
+  compareDates(a: SimpleCalendarDateTimeParts, b: SimpleCalendarDateTimeParts): -1 | 0 | 1;
+  isSameDay(a: SimpleCalendarDateTimeParts, b: SimpleCalendarDateTimeParts): boolean;
+  daysInMonth(year: number, month: number): number;
 
   // Legacy support
   addMonths(date: any, months: number): any;
@@ -429,14 +625,15 @@ export interface SimpleCalendarAPI {
 
   // Note management
   getNotesForDay(year: number, month: number, day: number): any[];
-  getNotes(): any[];
+  getNotes(startDate?: any, endDate?: any): any[];
   searchNotes(searchText: string, startDate?: any, endDate?: any): any[];
   addNote(
     title: string,
     content: string,
     startDate: any,
     endDate: any,
-    allDay: boolean
+    allDay: boolean,
+    repeats?: number
   ): Promise<any>;
   removeNote(noteId: string): Promise<void>;
 
@@ -459,11 +656,12 @@ export interface SimpleCalendarAPI {
   ): void;
 
   // Migration
-  runMigration(): void;
+  runMigration(options?: NoteMigrationOptions): Promise<NoteMigrationResult | null>;
+  rollbackMigration(): Promise<number>;
 
   // Moon and season APIs
-  getAllMoons(): any[];
-  getAllSeasons(): any[];
+  getAllMoons(): SimpleCalendarMoonData[];
+  getAllSeasons(): SimpleCalendarSeasonData[];
 }
 
 // Hook system compatibility
@@ -45,6 +45,7 @@ interface Game {
   i18n: Localization;
   journal: Collection<JournalEntry>;
   folders: Collection<any>;
+  paused: boolean;
 
   // Simple Calendar API exposure point
   simpleCalendar?: any;
@@ -61,6 +62,62 @@ interface Game {
 interface GameTime {
   worldTime: number;
   advance(seconds: number): Promise<void>;
+  calendar?: CoreCalendarData;
+}
+
+/**
+ * Core calendar model (v13 `CalendarData`); names are localization keys
+ */
+interface CoreCalendarData {
+  name?: string;
+  description?: string;
+  years?: {
+    yearZero?: number;
+    firstWeekday?: number;
+    leapYear?: { leapStart: number; leapInterval: number } | null;
+  };
+  months?: { values: CoreCalendarMonth[] } | null;
+  days: {
+    values: { name: string; abbreviation?: string; ordinal?: number; isRestDay?: boolean }[];
+    daysPerYear: number;
+    hoursPerDay: number;
+    minutesPerHour: number;
+    secondsPerMinute: number;
+  };
+  seasons?: {
+    values: {
+      name: string;
+      monthStart?: number | null;
+      monthEnd?: number | null;
+      dayStart?: number | null;
+      dayEnd?: number | null;
+    }[];
+  } | null;
+  timeToComponents(time?: number): CoreTimeComponents;
+  componentsToTime(components: Partial<CoreTimeComponents>): number;
+  isLeapYear?(year: number): boolean;
+}
+
+interface CoreCalendarMonth {
+  name: string;
+  abbreviation?: string;
+  ordinal?: number;
+  days: number;
+  leapDays?: number | null;
+  intercalary?: boolean;
+}
+
+interface CoreTimeComponents {
+  year: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  month: number;
+  dayOfMonth: number;
+  dayOfWeek: number;
+  season?: number;
+  leapYear?: boolean;
 }
 
 interface Localization {
@@ -77,6 +134,9 @@ interface ClientSettings {
   get(module: string, setting: string): any;
   set(module: string, setting: string, value: any): Promise<any>;
   register(module: string, setting: string, config: any): void;
+  registerMenu(module: string, menu: string, config: any): void;
+  /** Registered settings keyed by "module.key" */
+  settings?: Map<string, any>;
   storage?: ClientSettingsStorage;
 }
 
@@ -101,15 +161,31 @@ interface UI {
 
 interface Notifications {
   notify(message: string, type?: 'info' | 'warning' | 'error'): void;
-  info(message: string): void;
+  info(message: string, options?: NotificationOptions): FoundryNotification;
   warn(message: string): void;
   error(message: string): void;
 }
 
+interface NotificationOptions {
+  /** Show a progress bar, updated through the returned notification */
+  progress?: boolean;
+  permanent?: boolean;
+}
+
+interface FoundryNotification {
+  /** Update a progress notification; pct runs from 0 to 1 */
+  update(data: { pct?: number; message?: string }): void;
+}
+
 interface Config {
   debug: {
     hooks: boolean;
   };
+  /** Calendar settings (v13+) */
+  time?: {
+    /** Configuration the world's CalendarData is created from */
+    worldCalendarConfig?: unknown;
+  };
 }
 
 // =============================================================================
@@ -138,7 +214,7 @@ interface JournalEntry {
   flags?: Record<string, any>;
   ownership?: Record<string, number>;
 
-  update(data: any): Promise<JournalEntry>;
+  update(data: any, options?: any): Promise<JournalEntry>;
   delete(): Promise<JournalEntry>;
   setFlag(module: string, key: string, value: any): Promise<JournalEntry>;
   getFlag(module: string, key: string): any;
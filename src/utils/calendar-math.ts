@@ -0,0 +1,90 @@
+/**
+ * Calendar arithmetic helpers shared by the bridge
+ *
+ * These helpers work directly on the calendar definitions returned by a provider's
+ * getActiveCalendar() (Seasons & Stars format) so that every API path agrees on
+ * how long a day, month or year is.
+ */
+
+/**
+ * Time units for a calendar day
+ */
+export interface CalendarTimeConfig {
+  hoursInDay: number;
+  minutesInHour: number;
+  secondsInMinute: number;
+}
+
+/**
+ * Get the time configuration for a calendar, falling back to a 24/60/60 day
+ */
+export function getTimeConfig(calendar: any): CalendarTimeConfig {
+  const time = calendar?.time || {};
+  return {
+    hoursInDay: time.hoursInDay || 24,
+    minutesInHour: time.minutesInHour || 60,
+    secondsInMinute: time.secondsInMinute || 60,
+  };
+}
+
+/**
+ * Get the number of seconds in one calendar day
+ */
+export function getSecondsPerDay(calendar: any): number {
+  const { hoursInDay, minutesInHour, secondsInMinute } = getTimeConfig(calendar);
+  return hoursInDay * minutesInHour * secondsInMinute;
+}
+
+/**
+ * Modulo that always returns a non-negative result (for dates before an epoch)
+ */
+export function positiveModulo(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+/**
+ * Whether a year is a leap year under the Gregorian rule
+ */
+export function isGregorianLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/**
+ * Days from 1 January 1970 to a proleptic Gregorian date (1-based month and day)
+ *
+ * Uses the era-based algorithm so it stays exact for any year, including years
+ * before the epoch.
+ */
+export function gregorianDaysFromEpoch(year: number, month: number, day: number): number {
+  const y = month <= 2 ? year - 1 : year;
+  const era = Math.floor(y / 400);
+  const yearOfEra = y - era * 400;
+  const monthFromMarch = (month + 9) % 12;
+  const dayOfYear = Math.floor((153 * monthFromMarch + 2) / 5) + day - 1;
+  const dayOfEra =
+    yearOfEra * 365 + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100) + dayOfYear;
+  return era * 146097 + dayOfEra - 719468;
+}
+
+/**
+ * Proleptic Gregorian date (1-based month and day) for a day count from 1 January 1970
+ */
+export function gregorianDateFromDays(days: number): { year: number; month: number; day: number } {
+  const shifted = days + 719468;
+  const era = Math.floor(shifted / 146097);
+  const dayOfEra = shifted - era * 146097;
+  const yearOfEra = Math.floor(
+    (dayOfEra -
+      Math.floor(dayOfEra / 1460) +
+      Math.floor(dayOfEra / 36524) -
+      Math.floor(dayOfEra / 146096)) /
+      365
+  );
+  const dayOfYear =
+    dayOfEra - (365 * yearOfEra + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100));
+  const monthFromMarch = Math.floor((5 * dayOfYear + 2) / 153);
+  const day = dayOfYear - Math.floor((153 * monthFromMarch + 2) / 5) + 1;
+  const month = monthFromMarch < 10 ? monthFromMarch + 3 : monthFromMarch - 9;
+
+  return { year: yearOfEra + era * 400 + (month <= 2 ? 1 : 0), month, day };
+}
@@ -0,0 +1,37 @@
+/**
+ * FormApplication base for the bridge's menus
+ *
+ * The bridge's forms are small enough to build inline rather than ship
+ * Handlebars templates. FormApplication is only defined once Foundry has
+ * loaded, so the base class is created when a menu is registered rather than
+ * at import time.
+ */
+
+/**
+ * Create a FormApplication subclass that renders the HTML returned by
+ * renderForm()
+ *
+ * Like FormApplication's own _renderInner, the rendered form is stored as
+ * this.form, which Foundry needs to wire up submission and read form data.
+ */
+export function createInlineFormApplication(): any {
+  const FormApplicationClass = (globalThis as any).FormApplication;
+
+  return class InlineFormApplication extends FormApplicationClass {
+    declare form: HTMLFormElement | null;
+
+    /**
+     * Build the form HTML; a single <form> element
+     */
+    async renderForm(): Promise<string> {
+      return '<form></form>';
+    }
+
+    async _renderInner(): Promise<JQuery> {
+      const template = document.createElement('template');
+      template.innerHTML = (await this.renderForm()).trim();
+      this.form = template.content.querySelector('form');
+      return $(this.form as HTMLElement);
+    }
+  };
+}
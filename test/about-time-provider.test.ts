@@ -0,0 +1,251 @@
+/**
+ * Tests for the About Time calendar provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AboutTimeProvider } from '../src/providers/about-time';
+import { HookBridge } from '../src/api/hooks';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import { gregorianDateFromDays, gregorianDaysFromEpoch } from '../src/utils/calendar-math';
+
+const DAY = 86400;
+
+describe('Gregorian day arithmetic', () => {
+  it('should match JavaScript dates across leap years and before the epoch', () => {
+    for (let days = -800000; days <= 800000; days += 997) {
+      const expected = new Date(days * DAY * 1000);
+      const date = gregorianDateFromDays(days);
+
+      expect(date).toEqual({
+        year: expected.getUTCFullYear(),
+        month: expected.getUTCMonth() + 1,
+        day: expected.getUTCDate(),
+      });
+      expect(gregorianDaysFromEpoch(date.year, date.month, date.day)).toBe(days);
+    }
+  });
+
+  it('should handle leap days', () => {
+    expect(gregorianDateFromDays(gregorianDaysFromEpoch(2024, 2, 29))).toEqual({
+      year: 2024,
+      month: 2,
+      day: 29,
+    });
+    expect(gregorianDaysFromEpoch(1900, 3, 1) - gregorianDaysFromEpoch(1900, 2, 28)).toBe(1);
+    expect(gregorianDaysFromEpoch(2000, 3, 1) - gregorianDaysFromEpoch(2000, 2, 28)).toBe(2);
+  });
+});
+
+describe('AboutTimeProvider', () => {
+  let provider: AboutTimeProvider;
+  const originalModules = (global as any).game.modules;
+
+  beforeEach(() => {
+    (global as any).game.modules = new Map([['about-time', { active: true, version: '2.0.0' }]]);
+    (global as any).game.abouttime = { advanceClock: vi.fn() };
+    (global as any).game.time = { worldTime: 0, advance: vi.fn() };
+    provider = new AboutTimeProvider();
+  });
+
+  afterEach(() => {
+    (global as any).game.modules = originalModules;
+    delete (global as any).game.abouttime;
+    delete (global as any).game.Gametime;
+  });
+
+  describe('isAvailable()', () => {
+    it('should require the active module and its API', () => {
+      expect(AboutTimeProvider.isAvailable()).toBe(true);
+
+      delete (global as any).game.abouttime;
+      expect(AboutTimeProvider.isAvailable()).toBe(false);
+
+      (global as any).game.Gametime = {};
+      expect(AboutTimeProvider.isAvailable()).toBe(true);
+
+      (global as any).game.modules.get('about-time').active = false;
+      expect(AboutTimeProvider.isAvailable()).toBe(false);
+    });
+  });
+
+  it('should report its name and module version', () => {
+    expect(provider.name).toBe('About Time');
+    expect(provider.version).toBe('2.0.0');
+  });
+
+  describe('date conversion', () => {
+    it('should start world time at midnight on 1 January 1970, a Thursday', () => {
+      expect(provider.worldTimeToDate(0)).toEqual({
+        year: 1970,
+        month: 1,
+        day: 1,
+        weekday: 4,
+        time: { hour: 0, minute: 0, second: 0 },
+      });
+    });
+
+    it('should convert timestamps to dates and back', () => {
+      const timestamp = Date.UTC(2024, 1, 29, 13, 45, 30) / 1000;
+      const date = provider.worldTimeToDate(timestamp);
+
+      expect(date).toEqual({
+        year: 2024,
+        month: 2,
+        day: 29,
+        weekday: 4, // Thursday
+        time: { hour: 13, minute: 45, second: 30 },
+      });
+      expect(provider.dateToWorldTime(date)).toBe(timestamp);
+    });
+
+    it('should handle timestamps before the epoch', () => {
+      const date = provider.worldTimeToDate(-1);
+
+      expect(date).toEqual({
+        year: 1969,
+        month: 12,
+        day: 31,
+        weekday: 3,
+        time: { hour: 23, minute: 59, second: 59 },
+      });
+      expect(provider.dateToWorldTime(date)).toBe(-1);
+    });
+
+    it('should read the current date from world time', () => {
+      (global as any).game.time.worldTime = 3 * DAY + 3600;
+
+      expect(provider.getCurrentDate()).toMatchObject({
+        year: 1970,
+        month: 1,
+        day: 4,
+        time: { hour: 1, minute: 0, second: 0 },
+      });
+    });
+  });
+
+  describe('calendar metadata', () => {
+    it('should expose Gregorian months and weekdays', () => {
+      expect(provider.getMonthNames()).toHaveLength(12);
+      expect(provider.getMonthNames()[8]).toBe('September');
+      expect(provider.getWeekdayNames()[0]).toBe('Sunday');
+      expect(provider.getActiveCalendar().leapYear.rule).toBe('gregorian');
+    });
+
+    it('should find astronomical seasons', () => {
+      const date = (month: number, day: number) => ({ year: 2024, month, day, weekday: 0 });
+
+      expect(provider.getSeasonInfo(date(1, 10))).toEqual({ icon: 'winter', name: 'Winter' });
+      expect(provider.getSeasonInfo(date(3, 20))).toEqual({ icon: 'spring', name: 'Spring' });
+      expect(provider.getSeasonInfo(date(9, 21))).toEqual({ icon: 'summer', name: 'Summer' });
+      expect(provider.getSeasonInfo(date(12, 25))).toEqual({ icon: 'winter', name: 'Winter' });
+    });
+  });
+
+  describe('formatDate()', () => {
+    const date = {
+      year: 2024,
+      month: 7,
+      day: 4,
+      weekday: 4,
+      time: { hour: 9, minute: 5, second: 0 },
+    };
+
+    it('should format date and time parts', () => {
+      expect(provider.formatDate(date)).toBe('July 4, 2024 09:05');
+      expect(provider.formatDate(date, { includeTime: false })).toBe('July 4, 2024');
+      expect(provider.formatDate(date, { timeOnly: true })).toBe('09:05');
+    });
+
+    it('should accept Simple Calendar format tokens', () => {
+      expect(provider.formatDate(date, { format: 'dddd DO MMMM, h:mm A' })).toBe(
+        'Thursday 4th July, 9:05 AM'
+      );
+    });
+  });
+
+  describe('time advancement', () => {
+    it('should advance through About Time', async () => {
+      await provider.advanceDays(2);
+      await provider.advanceHours(3);
+      await provider.advanceMinutes(4);
+
+      const { advanceClock } = (global as any).game.abouttime;
+      expect(advanceClock.mock.calls).toEqual([[2 * DAY], [3 * 3600], [4 * 60]]);
+      expect((global as any).game.time.advance).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to Foundry world time', async () => {
+      (global as any).game.abouttime = {};
+
+      await provider.advanceHours(1);
+
+      expect((global as any).game.time.advance).toHaveBeenCalledWith(3600);
+    });
+
+    describe('through changeDate()', () => {
+      let api: SimpleCalendarAPIBridge;
+
+      beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        (global as any).game.user.isGM = true;
+        api = new SimpleCalendarAPIBridge(provider);
+      });
+
+      afterEach(() => {
+        api.destroy();
+        (global as any).game.user.isGM = false;
+        vi.restoreAllMocks();
+      });
+
+      it('should advance days and time through About Time', () => {
+        expect(api.changeDate({ day: 2, hour: 3 })).toBe(true);
+
+        const { advanceClock } = (global as any).game.abouttime;
+        expect(advanceClock.mock.calls).toEqual([[2 * DAY], [3 * 3600]]);
+        expect((global as any).game.time.advance).not.toHaveBeenCalled();
+      });
+
+      it('should advance world time by intervals with months or seconds', () => {
+        // 31 January 1970 plus a month is clamped to 28 February
+        (global as any).game.time.worldTime = 30 * DAY;
+
+        expect(api.changeDate({ month: 1, day: 1, seconds: 5 })).toBe(true);
+
+        expect((global as any).game.time.advance).toHaveBeenCalledWith(29 * DAY + 5);
+        expect((global as any).game.abouttime.advanceClock).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('hook bridging', () => {
+    afterEach(() => {
+      delete (global as any).Hooks;
+    });
+
+    it('should translate About Time changes into Simple Calendar date changes', () => {
+      const handlers: Record<string, Function> = {};
+      (global as any).Hooks = {
+        on: vi.fn((hook: string, callback: Function) => {
+          handlers[hook] = callback;
+          return 1;
+        }),
+        off: vi.fn(),
+        callAll: vi.fn(),
+      };
+      (global as any).game.users = [];
+
+      const hookBridge = new HookBridge(provider);
+      hookBridge.initialize(true);
+      hookBridge.destroy();
+
+      expect(handlers['about-time:timeChanged']).toBeDefined();
+      handlers['about-time:timeChanged']();
+      expect((global as any).Hooks.callAll).toHaveBeenCalledWith(
+        'simple-calendar-date-time-change',
+        expect.objectContaining({
+          date: expect.objectContaining({ year: 1970, month: 0, day: 0 }),
+        })
+      );
+    });
+  });
+});
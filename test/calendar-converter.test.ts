@@ -0,0 +1,253 @@
+/**
+ * Tests for converting Simple Calendar calendars to the Seasons & Stars format
+ */
+
+import { describe, it, expect } from 'vitest';
+import { convertSimpleCalendarCalendar } from '../src/migration/calendar-converter';
+import { CalendarEngine } from '../src/calendar/engine';
+import gregorianExport from './fixtures/simple-calendar/gregorian.json';
+import harptosExport from './fixtures/simple-calendar/harptos.json';
+
+const convert = (calendar: any) => convertSimpleCalendarCalendar(calendar.id, calendar)!;
+const fields = (issues: Array<{ field: string }>) => issues.map(issue => issue.field);
+
+describe('convertSimpleCalendarCalendar()', () => {
+  describe('with an exported Gregorian calendar', () => {
+    const source = gregorianExport.calendars[0];
+    const { calendar, report } = convert(source);
+
+    it('should convert the year, months, weekdays and leap year rule', () => {
+      expect(calendar).toMatchObject({
+        id: 'simple-calendar-default',
+        translations: { en: { label: 'Gregorian' } },
+        year: { epoch: 1970, currentYear: 2024, prefix: '', suffix: '', startDay: 4 },
+        leapYear: { rule: 'gregorian', month: 'February', extraDays: 1 },
+        intercalary: [],
+        time: { hoursInDay: 24, minutesInHour: 60, secondsInMinute: 60 },
+      });
+      expect((calendar.months as any[])[1]).toEqual({
+        name: 'February',
+        abbreviation: 'Feb',
+        days: 28,
+      });
+      expect((calendar.weekdays as any[]).map(weekday => weekday.name)).toEqual([
+        'Sunday',
+        'Monday',
+        'Tuesday',
+        'Wednesday',
+        'Thursday',
+        'Friday',
+        'Saturday',
+      ]);
+    });
+
+    it('should keep dates and weekdays in step with real dates', () => {
+      const engine = new CalendarEngine(calendar);
+
+      for (const [year, month, day] of [
+        [1970, 1, 1],
+        [2000, 2, 29],
+        [2024, 7, 4],
+      ]) {
+        expect(engine.worldTimeToDate(Date.UTC(year, month - 1, day) / 1000)).toMatchObject({
+          year,
+          month,
+          day,
+          weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+        });
+      }
+    });
+
+    it('should move seasons and moons to 1-based dates', () => {
+      expect(calendar.seasons).toEqual([
+        expect.objectContaining({ name: 'Spring', startMonth: 3, startDay: 20, endMonth: 6 }),
+        expect.objectContaining({ name: 'Summer', startMonth: 6, startDay: 20, endMonth: 9 }),
+        expect.objectContaining({ name: 'Fall', startMonth: 9, startDay: 22, endMonth: 12 }),
+        expect.objectContaining({ name: 'Winter', startMonth: 12, startDay: 21, endMonth: 3 }),
+      ]);
+      expect((calendar.seasons as any[])[0]).toMatchObject({
+        icon: 'spring',
+        color: '#46b946',
+        sunriseTime: 21600,
+        sunsetTime: 64800,
+      });
+      expect((calendar.moons as any[])[0]).toMatchObject({
+        name: 'Moon',
+        cycleLength: 29.53059,
+        cycleDayAdjust: 0.5,
+        firstNewMoon: { year: 2000, month: 1, day: 6 },
+      });
+      expect((calendar.moons as any[])[0].phases).toHaveLength(8);
+    });
+
+    it('should report what Seasons & Stars does not apply', () => {
+      expect(report).toMatchObject({ calendarId: 'default', name: 'Gregorian', unmapped: [] });
+      expect(fields(report.approximated)).toEqual(['moons[0].cycleDayAdjust', 'noteCategories']);
+      expect(calendar.noteCategories).toEqual([
+        { id: 'nc1', name: 'Holiday', color: '#148e94', textColor: '#FFFFFF' },
+      ]);
+    });
+  });
+
+  describe('with an exported Harptos calendar', () => {
+    const source = harptosExport.calendars[0];
+    const { calendar, report } = convert(source);
+    const engine = new CalendarEngine(calendar);
+
+    it('should list festivals apart, after the month they follow', () => {
+      expect((calendar.months as any[]).map(month => month.name)).toEqual([
+        'Hammer',
+        'Alturiak',
+        'Ches',
+        'Tarsakh',
+        'Mirtul',
+        'Kythorn',
+        'Flamerule',
+        'Eleasis',
+        'Eleint',
+        'Marpenoth',
+        'Uktar',
+        'Nightal',
+      ]);
+      expect(calendar.intercalary).toEqual([
+        { name: 'Midwinter', after: 'Hammer', days: 1, countsForWeekdays: false },
+        { name: 'Greengrass', after: 'Tarsakh', days: 1, countsForWeekdays: false },
+        { name: 'Midsummer', after: 'Flamerule', days: 1, countsForWeekdays: false },
+        {
+          name: 'Shieldmeet',
+          after: 'Flamerule',
+          days: 1,
+          leapYearOnly: true,
+          countsForWeekdays: false,
+        },
+        { name: 'Highharvestide', after: 'Eleint', days: 1, countsForWeekdays: false },
+        { name: 'The Feast of the Moon', after: 'Uktar', days: 1, countsForWeekdays: false },
+      ]);
+      expect(calendar.leapYear).toEqual({ rule: 'custom', interval: 4, offset: 0 });
+    });
+
+    it('should keep the length of common and leap years', () => {
+      expect(engine.getYearLength(1495)).toBe(365);
+      expect(engine.getYearLength(1496)).toBe(366);
+    });
+
+    it('should start every month on the first day of the tenday', () => {
+      for (const year of [1495, 1496]) {
+        for (let month = 1; month <= 12; month++) {
+          const date = engine.toEntryDate({ year, month, day: 1, weekday: 0 });
+          expect(engine.getWeekdayForDate(year, date.month, 1)).toBe(0);
+        }
+      }
+    });
+
+    it('should convert the year names and seasons', () => {
+      expect(calendar.year).toMatchObject({
+        epoch: 0,
+        currentYear: 1495,
+        suffix: ' DR',
+        startDay: 0,
+        yearNamesStart: 1479,
+      });
+      expect((calendar.year as any).yearNames).toHaveLength(6);
+      expect(calendar.seasons).toEqual([
+        expect.objectContaining({ name: 'Spring', startMonth: 3, startDay: 19, endMonth: 6 }),
+        expect.objectContaining({ name: 'Summer', startMonth: 6, startDay: 20, endMonth: 9 }),
+        expect.objectContaining({ name: 'Fall', startMonth: 9, startDay: 21, endMonth: 12 }),
+        expect.objectContaining({ name: 'Winter', startMonth: 12, startDay: 20, endMonth: 3 }),
+      ]);
+    });
+
+    it('should report year naming, weekday headings and moon resets', () => {
+      expect(fields(report.unmapped)).toEqual(['year.showWeekdayHeadings']);
+      expect(fields(report.approximated)).toEqual([
+        'year.yearNamingRule',
+        'moons[0].firstNewMoon.yearReset',
+        'noteCategories',
+      ]);
+      expect((calendar.moons as any[])[0].firstNewMoon).toEqual({
+        year: 1372,
+        month: 1,
+        day: 1,
+        yearReset: 'x-years',
+        yearX: 4,
+      });
+    });
+  });
+
+  describe('with fields Seasons & Stars cannot represent', () => {
+    const source = JSON.parse(JSON.stringify(harptosExport.calendars[0]));
+    source.months[0].numericRepresentationOffset = 2;
+    source.months[2].startingWeekday = 3;
+    source.months[2].numberOfLeapYearDays = 31;
+    source.months[3].numberOfLeapYearDays = 31;
+    source.months[5].numberOfLeapYearDays = 2;
+    source.weekdays[9].restday = true;
+    source.seasons[0].startingMonth = 1;
+    source.year.yearNamingRule = 'random';
+    const { calendar, report } = convert(source);
+
+    it('should keep month display options for Simple Calendar modules', () => {
+      expect((calendar.months as any[])[0].numericRepresentationOffset).toBe(2);
+      expect((calendar.months as any[])[1].startingWeekday).toBe(3);
+      expect((calendar.weekdays as any[])[9].restday).toBe(true);
+      expect(fields(report.approximated)).toEqual(
+        expect.arrayContaining([
+          'months[0].numericRepresentationOffset',
+          'months[2].startingWeekday',
+          'weekdays[9].restday',
+        ])
+      );
+    });
+
+    it('should lengthen only the first leap month', () => {
+      expect(calendar.leapYear).toMatchObject({ month: 'Alturiak', extraDays: 1 });
+      expect(fields(report.unmapped)).toEqual(
+        expect.arrayContaining(['months[3].numberOfLeapYearDays', 'months[5].numberOfLeapYearDays'])
+      );
+    });
+
+    it('should move seasons starting on a festival to the following month', () => {
+      expect((calendar.seasons as any[])[0]).toMatchObject({ startMonth: 2, startDay: 1 });
+      expect(report.approximated).toContainEqual({
+        field: 'seasons[0].startingMonth',
+        message: 'Falls on Midwinter; moved to the first day of the following month',
+      });
+    });
+
+    it('should report random year names', () => {
+      expect(fields(report.unmapped)).toContain('year.yearNamingRule');
+    });
+  });
+
+  it('should pass calendars already in the Seasons & Stars format through', () => {
+    const { calendar, report } = convert({
+      id: 'native',
+      name: 'Native',
+      year: { epoch: 10, startDay: 1 },
+      leapYear: { rule: 'custom', interval: 5, offset: 1, month: 'Two', extraDays: 2 },
+      months: [
+        { name: 'One', days: 20 },
+        { name: 'Two', days: 20 },
+      ],
+      intercalary: [{ name: 'Gap', after: 'One', days: 2 }],
+      seasons: [{ name: 'Only', startMonth: 1, endMonth: 2 }],
+    });
+
+    expect(calendar).toMatchObject({
+      year: { epoch: 10, startDay: 1 },
+      leapYear: { rule: 'custom', interval: 5, offset: 1, month: 'Two', extraDays: 2 },
+      months: [
+        { name: 'One', days: 20 },
+        { name: 'Two', days: 20 },
+      ],
+      intercalary: [{ name: 'Gap', after: 'One', days: 2 }],
+      seasons: [{ name: 'Only', startMonth: 1, endMonth: 2 }],
+    });
+    expect(report.unmapped).toEqual([]);
+    expect(report.approximated).toEqual([]);
+  });
+
+  it('should reject data that is not a calendar', () => {
+    expect(convertSimpleCalendarCalendar('broken', null as any)).toBeNull();
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Tests for the standalone calendar engine and the bridge's provider-less fallback mode
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { CalendarEngine } from '../src/calendar/engine';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+
+const DAY = 86400;
+
+/**
+ * Eight 20-day months, the fifth gaining two days every third year from year 1,
+ * six weekdays and 10-hour days of 100-minute hours
+ */
+const CUSTOM_CALENDAR = {
+  id: 'custom',
+  name: 'Custom',
+  months: ['One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight'].map(name => ({
+    name,
+    abbreviation: name.slice(0, 2),
+    days: 20,
+  })),
+  weekdays: ['Ad', 'Be', 'Ce', 'De', 'Ef', 'Ge'].map(name => ({ name })),
+  year: { epoch: 100, startDay: 2, prefix: '', suffix: ' AR' },
+  leapYear: { rule: 'custom', interval: 3, offset: 1, month: 'Five', extraDays: 2 },
+  time: { hoursInDay: 10, minutesInHour: 100, secondsInMinute: 60 },
+};
+const CUSTOM_DAY = 10 * 100 * 60;
+
+describe('CalendarEngine', () => {
+  describe('Gregorian default', () => {
+    const engine = new CalendarEngine();
+
+    it('should match JavaScript dates, weekdays included', () => {
+      for (let timestamp = -5e9; timestamp <= 5e9; timestamp += 12345677) {
+        const expected = new Date(timestamp * 1000);
+        const date = engine.worldTimeToDate(timestamp);
+
+        expect(date).toEqual({
+          year: expected.getUTCFullYear(),
+          month: expected.getUTCMonth() + 1,
+          day: expected.getUTCDate(),
+          weekday: expected.getUTCDay(),
+          time: {
+            hour: expected.getUTCHours(),
+            minute: expected.getUTCMinutes(),
+            second: expected.getUTCSeconds(),
+          },
+        });
+        expect(engine.dateToWorldTime(date)).toBe(timestamp);
+      }
+    });
+
+    it('should apply the Gregorian leap year rule', () => {
+      expect(engine.getMonthLength(2024, 2)).toBe(29);
+      expect(engine.getMonthLength(1900, 2)).toBe(28);
+      expect(engine.getMonthLength(2000, 2)).toBe(29);
+      expect(engine.getYearLength(2023)).toBe(365);
+      expect(engine.getYearLength(2024)).toBe(366);
+    });
+
+    it('should carry days past the end of a month', () => {
+      expect(engine.dateToDays(1970, 1, 32)).toBe(engine.dateToDays(1970, 2, 1));
+      expect(engine.dateToDays(1970, 13, 1)).toBe(engine.dateToDays(1971, 1, 1));
+    });
+  });
+
+  describe('custom calendar definitions', () => {
+    const engine = new CalendarEngine(CUSTOM_CALENDAR);
+
+    it('should start world time on the first day of the epoch year', () => {
+      expect(engine.worldTimeToDate(0)).toEqual({
+        year: 100,
+        month: 1,
+        day: 1,
+        weekday: 2,
+        time: { hour: 0, minute: 0, second: 0 },
+      });
+    });
+
+    it('should use the calendar time units', () => {
+      const date = engine.worldTimeToDate(CUSTOM_DAY + 3 * 6000 + 42 * 60 + 7);
+
+      expect(date).toMatchObject({ day: 2, weekday: 3, time: { hour: 3, minute: 42, second: 7 } });
+    });
+
+    it('should add leap days to the leap month in leap years only', () => {
+      expect(engine.isLeapYear(100)).toBe(true);
+      expect(engine.isLeapYear(101)).toBe(false);
+      expect(engine.isLeapYear(-2)).toBe(true);
+      expect(engine.getMonthLength(100, 5)).toBe(22);
+      expect(engine.getMonthLength(101, 5)).toBe(20);
+      expect(engine.worldTimeToDate(162 * CUSTOM_DAY)).toMatchObject({
+        year: 101,
+        month: 1,
+        day: 1,
+      });
+    });
+
+    it('should use per-month leap lengths from Foundry core calendars', () => {
+      const core = new CalendarEngine({
+        months: [
+          { name: 'Frost', days: 30 },
+          { name: 'Thaw', days: 10, leapDays: 12 },
+        ],
+        leapYear: { rule: 'custom', interval: 4, offset: 0 },
+      });
+
+      expect(core.getMonthLength(4, 2)).toBe(12);
+      expect(core.getMonthLength(5, 2)).toBe(10);
+      expect(core.getYearLength(4)).toBe(42);
+      expect(core.worldTimeToDate(42 * DAY)).toMatchObject({ year: 1, month: 1, day: 1 });
+    });
+
+    it('should round-trip dates before and after the epoch', () => {
+      for (let days = -2000; days <= 2000; days += 7) {
+        const timestamp = days * CUSTOM_DAY + 1234;
+        expect(engine.dateToWorldTime(engine.worldTimeToDate(timestamp))).toBe(timestamp);
+      }
+    });
+
+    it('should format dates with the calendar names', () => {
+      const date = engine.worldTimeToDate(0);
+      expect(engine.formatDate(date, 'dddd, D MMMM YYYY')).toBe('Ce, 1 One 100');
+    });
+
+    it('should reject definitions without months', () => {
+      expect(() => new CalendarEngine({ months: [] })).toThrow();
+    });
+  });
+
+  describe('addInterval()', () => {
+    const engine = new CalendarEngine();
+    const timestamp = (year: number, month: number, day: number) =>
+      Date.UTC(year, month - 1, day) / 1000;
+
+    it('should move months and years by calendar date', () => {
+      expect(engine.addInterval(timestamp(2023, 12, 15), { month: 1 })).toBe(
+        timestamp(2024, 1, 15)
+      );
+      expect(engine.addInterval(timestamp(2024, 3, 15), { month: -3 })).toBe(
+        timestamp(2023, 12, 15)
+      );
+      expect(engine.addInterval(timestamp(2024, 2, 29), { year: 1 })).toBe(timestamp(2025, 2, 28));
+    });
+
+    it('should clamp the day to the target month', () => {
+      expect(engine.addInterval(timestamp(2023, 1, 31), { month: 1 })).toBe(timestamp(2023, 2, 28));
+    });
+
+    it('should add weeks, days and time as elapsed seconds', () => {
+      expect(engine.addInterval(0, { week: 1, day: 2, hour: 3, minute: 4, seconds: 5 })).toBe(
+        9 * DAY + 3 * 3600 + 4 * 60 + 5
+      );
+    });
+  });
+});
+
+describe('SimpleCalendarAPIBridge without a calendar module', () => {
+  const api = new SimpleCalendarAPIBridge();
+
+  it('should convert dates to timestamps on the built-in calendar', () => {
+    expect(api.dateToTimestamp({ year: 2024, month: 1, day: 28, hour: 12 })).toBe(
+      Date.UTC(2024, 1, 29, 12) / 1000
+    );
+  });
+
+  it('should format dates on the built-in calendar', () => {
+    expect(api.formatDateTime({ year: 2024, month: 6, day: 3 }, 'dddd, MMMM DO YYYY')).toBe(
+      'Thursday, July 4th 2024'
+    );
+    expect(api.formatDateTime({ year: 2024, month: 6, day: 3, hour: 9, minute: 5 })).toEqual({
+      date: 'July 04, 2024',
+      time: '09:05:00',
+    });
+  });
+
+  describe('at the current world time', () => {
+    // Thursday 4 July 2024, 09:05 UTC
+    const now = Date.UTC(2024, 6, 4, 9, 5) / 1000;
+
+    afterEach(() => {
+      (global as any).game.time.worldTime = 0;
+    });
+
+    it('should format timestamps on the built-in calendar', () => {
+      expect(api.formatTimestamp(now, 'dddd, MMMM DO YYYY HH:mm')).toBe(
+        'Thursday, July 4th 2024 09:05'
+      );
+      expect(api.formatTimestamp(now)).toEqual({ date: 'July 04, 2024', time: '09:05:00' });
+    });
+
+    it('should describe the current date on the built-in calendar', () => {
+      (global as any).game.time.worldTime = now;
+
+      expect(api.currentDateTimeDisplay()).toMatchObject({
+        date: 'July 04, 2024',
+        day: '4',
+        daySuffix: 'th',
+        weekday: 'Thursday',
+        monthName: 'July',
+        month: '7',
+        year: '2024',
+        time: '09:05:00',
+      });
+      expect(api.getCurrentCalendar()).toMatchObject({
+        id: 'gregorian',
+        currentDate: { year: 2024, month: 6, day: 3, seconds: 9 * 3600 + 5 * 60 },
+      });
+      expect(api.getCurrentDay()?.numericRepresentation).toBe(4);
+      expect(api.getCurrentMonth()).toMatchObject({ name: 'July', numberOfDays: 31 });
+      expect(api.getCurrentYear()).toMatchObject({ number: 2024, name: '2024' });
+      expect(api.getCurrentWeekday()).toMatchObject({ name: 'Thursday', numericRepresentation: 4 });
+      expect(api.getCurrentSeason()?.name).toBe('Summer');
+    });
+  });
+});
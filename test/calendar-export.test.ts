@@ -0,0 +1,335 @@
+/**
+ * Tests for exporting the active calendar and notes to Simple Calendar JSON
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import { BaseCalendarProvider } from '../src/providers/base-provider';
+import { CalendarEngine } from '../src/calendar/engine';
+import { convertSimpleCalendarCalendar } from '../src/migration/calendar-converter';
+import {
+  downloadSimpleCalendarExport,
+  exportSimpleCalendarData,
+  registerExportMenu,
+} from '../src/migration/calendar-exporter';
+import { installFakeFormApplication } from './fixtures/form-application';
+import type { CalendarDate } from '../src/types';
+import gregorianExport from './fixtures/simple-calendar/gregorian.json';
+import harptosExport from './fixtures/simple-calendar/harptos.json';
+
+const originalGame = (global as any).game;
+
+/** Provider serving a calendar definition through the calendar engine */
+class EngineProvider extends BaseCalendarProvider {
+  readonly name = 'Engine Provider';
+  readonly version = '1.0.0';
+  readonly engine: CalendarEngine;
+
+  constructor(readonly calendar: any) {
+    super();
+    this.engine = new CalendarEngine(calendar);
+  }
+
+  getCurrentDate(): CalendarDate {
+    return this.worldTimeToDate((global as any).game.time.worldTime);
+  }
+  worldTimeToDate(timestamp: number): CalendarDate {
+    return this.engine.fromEntryDate(this.engine.worldTimeToDate(timestamp));
+  }
+  dateToWorldTime(date: CalendarDate): number {
+    return this.engine.dateToWorldTime(this.engine.toEntryDate(date));
+  }
+  formatDate(): string {
+    return '';
+  }
+  getActiveCalendar(): any {
+    return this.calendar;
+  }
+  getMonthNames(): string[] {
+    return this.calendar.months.map((month: any) => month.name);
+  }
+  getWeekdayNames(): string[] {
+    return this.calendar.weekdays.map((weekday: any) => weekday.name);
+  }
+  getNoteCategories(): any[] {
+    return this.calendar.noteCategories ?? [];
+  }
+}
+
+/** Create a journal entry with the flags addNote() writes (1-based dates) */
+function createBridgeNote(id: string, ssFlags: Record<string, unknown>, bridgeFlags = {}): any {
+  return {
+    id,
+    name: id,
+    ownership: { default: 2 },
+    pages: { contents: [{ name: 'Details', type: 'text', text: { content: `<p>${id}</p>` } }] },
+    flags: {
+      'seasons-and-stars': { calendarNote: true, allDay: true, tags: [], ...ssFlags },
+      'foundryvtt-simple-calendar-compat': { bridgeCreated: true, ...bridgeFlags },
+    },
+  };
+}
+
+const bridgeFor = (calendar: any) => new SimpleCalendarAPIBridge(new EngineProvider(calendar));
+
+describe('exportSimpleCalendarData()', () => {
+  beforeEach(() => {
+    (global as any).game = { ...originalGame, time: { worldTime: 0 }, journal: [] };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (global as any).game = originalGame;
+    vi.restoreAllMocks();
+  });
+
+  describe.each([
+    ['Gregorian', gregorianExport.calendars[0]],
+    ['Harptos', harptosExport.calendars[0]],
+  ])('with a %s calendar converted from Simple Calendar', (_label, source: any) => {
+    const converted = convertSimpleCalendarCalendar(source.id, source)!;
+
+    it('should re-import to the same calendar', () => {
+      const { data } = exportSimpleCalendarData(bridgeFor(converted.calendar))!;
+      const exported = data.calendars[0];
+
+      expect(exported.id).toBe(source.id);
+      expect(convertSimpleCalendarCalendar(exported.id, exported)!.calendar).toEqual(
+        converted.calendar
+      );
+    });
+
+    it('should write months, seasons and moons the way Simple Calendar stores them', () => {
+      const exported = exportSimpleCalendarData(bridgeFor(converted.calendar))!.data.calendars[0];
+      const pick = (items: any[], keys: string[]) =>
+        items.map(item => Object.fromEntries(keys.map(key => [key, item[key]])));
+
+      const monthKeys = [
+        'name',
+        'abbreviation',
+        'numericRepresentation',
+        'numberOfDays',
+        'numberOfLeapYearDays',
+        'intercalary',
+        'intercalaryInclude',
+      ];
+      expect(pick(exported.months, monthKeys)).toEqual(pick(source.months, monthKeys));
+      expect(pick(exported.seasons, ['name', 'startingMonth', 'startingDay'])).toEqual(
+        pick(source.seasons, ['name', 'startingMonth', 'startingDay'])
+      );
+      expect(exported.moons.map((moon: any) => moon.firstNewMoon)).toEqual(
+        source.moons.map((moon: any) => moon.firstNewMoon)
+      );
+      expect(exported.leapYear).toMatchObject({
+        rule: source.leapYear.rule,
+        customMod: source.leapYear.customMod,
+      });
+      expect(exported.year).toMatchObject({
+        numericRepresentation: source.year.numericRepresentation,
+        postfix: source.year.postfix,
+        firstWeekday: source.year.firstWeekday,
+        yearZero: source.year.yearZero,
+        yearNames: source.year.yearNames,
+      });
+      expect(exported.noteCategories).toEqual(source.noteCategories);
+    });
+
+    it('should write the current date the way Simple Calendar stores it', () => {
+      const api = bridgeFor(converted.calendar);
+      const { seconds, ...date } = source.currentDate;
+      (global as any).game.time.worldTime = api.dateToTimestamp(date) + seconds;
+
+      const exported = exportSimpleCalendarData(api)!.data.calendars[0];
+      expect(exported.currentDate).toEqual(source.currentDate);
+    });
+  });
+
+  it('should count festivals before the current date as months', () => {
+    const api = bridgeFor(
+      convertSimpleCalendarCalendar('harptos', harptosExport.calendars[0])!.calendar
+    );
+    // Eleasis, after Greengrass, Midsummer and Shieldmeet
+    const currentDate = { year: 1496, month: 11, day: 4, seconds: 0 };
+    (global as any).game.time.worldTime = api.dateToTimestamp(currentDate);
+
+    const exported = exportSimpleCalendarData(api)!.data.calendars[0];
+    expect(exported.currentDate).toEqual(currentDate);
+    expect(exported.months[exported.currentDate.month].name).toBe('Eleasis');
+  });
+
+  it('should keep the dates of a Seasons & Stars calendar when re-imported', () => {
+    const calendar = {
+      id: 'native',
+      translations: { en: { label: 'Native' } },
+      year: { epoch: 0, currentYear: 100, startDay: 2 },
+      leapYear: { rule: 'custom', interval: 3, offset: 0, month: 'Second', extraDays: 2 },
+      months: [
+        { name: 'First', days: 20 },
+        { name: 'Second', days: 25 },
+        { name: 'Third', days: 30 },
+      ],
+      intercalary: [{ name: 'Gap', after: 'First', days: 2, countsForWeekdays: false }],
+      weekdays: ['One', 'Two', 'Three', 'Four', 'Five'].map(name => ({ name })),
+    };
+    const { data, issues } = exportSimpleCalendarData(bridgeFor(calendar))!;
+    const reimported = new CalendarEngine(
+      convertSimpleCalendarCalendar(data.calendars[0].id, data.calendars[0])!.calendar
+    );
+    const original = new CalendarEngine(calendar);
+
+    expect(issues).toEqual([]);
+    for (let year = 98; year <= 103; year++) {
+      expect(reimported.getYearLength(year)).toBe(original.getYearLength(year));
+    }
+    for (const timestamp of [0, 86400 * 21, 86400 * 5000, 86400 * 12345]) {
+      expect(reimported.worldTimeToDate(timestamp)).toEqual(original.worldTimeToDate(timestamp));
+    }
+  });
+
+  it('should report leap year rules Simple Calendar cannot represent', () => {
+    const calendar = {
+      id: 'offset',
+      months: [{ name: 'Only', days: 30 }],
+      weekdays: [{ name: 'Day' }],
+      leapYear: { rule: 'custom', interval: 4, offset: 2 },
+    };
+
+    const { data, issues } = exportSimpleCalendarData(bridgeFor(calendar))!;
+
+    expect(data.calendars[0].leapYear).toEqual({ id: '', rule: 'custom', customMod: 4 });
+    expect(issues.map(issue => issue.field)).toEqual(['leapYear.offset']);
+  });
+
+  it('should export bridge-created notes as Simple Calendar notes', () => {
+    const { calendar } = convertSimpleCalendarCalendar('harptos', harptosExport.calendars[0])!;
+    (global as any).game.journal = [
+      createBridgeNote(
+        'festival',
+        {
+          startDate: { year: 1495, month: 2, day: 1, hour: 8, minute: 30, second: 0 },
+          endDate: { year: 1495, month: 3, day: 2, hour: 20, minute: 0, second: 0 },
+          allDay: false,
+          tags: ['Holiday', 'Unlisted'],
+        },
+        { repeats: 3, remindUsers: ['player-1'], macro: 'macro-1' }
+      ),
+      createBridgeNote('single', { startDate: { year: 1495, month: 1, day: 10 } }),
+      {
+        id: 'foreign',
+        name: 'foreign',
+        flags: {
+          'seasons-and-stars': { calendarNote: true, startDate: { year: 1495, month: 1, day: 1 } },
+        },
+      },
+    ];
+
+    const { data, issues } = exportSimpleCalendarData(bridgeFor(calendar))!;
+    const notes = data.notes.harptos;
+
+    expect(notes.map((note: any) => note.name)).toEqual(['festival', 'single']);
+    expect(notes[0]).toEqual({
+      name: 'festival',
+      ownership: { default: 2 },
+      pages: [{ name: 'Details', type: 'text', text: { content: '<p>festival</p>', format: 1 } }],
+      flags: {
+        'foundryvtt-simple-calendar': {
+          noteData: {
+            calendarId: 'harptos',
+            // Alturiak and Ches come after the Midwinter festival month
+            startDate: { year: 1495, month: 2, day: 0, hour: 8, minute: 30, seconds: 0 },
+            endDate: { year: 1495, month: 3, day: 1, hour: 20, minute: 0, seconds: 0 },
+            allDay: false,
+            repeats: 3,
+            order: 0,
+            categories: ['nc1'],
+            remindUsers: ['player-1'],
+            macro: 'macro-1',
+          },
+        },
+      },
+    });
+    expect(notes[1].flags['foundryvtt-simple-calendar'].noteData).toMatchObject({
+      startDate: { year: 1495, month: 0, day: 9 },
+      endDate: { year: 1495, month: 0, day: 9 },
+      allDay: true,
+      repeats: 0,
+      categories: [],
+      macro: 'none',
+    });
+    expect(issues).toEqual([
+      {
+        field: 'notes.festival.tags',
+        message: '"Unlisted" is not a note category of the calendar and is dropped',
+      },
+    ]);
+  });
+});
+
+describe('downloadSimpleCalendarExport()', () => {
+  const originalUi = (global as any).ui;
+
+  beforeEach(() => {
+    (global as any).game = { ...originalGame, time: { worldTime: 0 }, journal: [] };
+    (global as any).ui = { notifications: { warn: vi.fn(), error: vi.fn() } };
+    (global as any).saveDataToFile = vi.fn();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (global as any).game = originalGame;
+    (global as any).ui = originalUi;
+    delete (global as any).saveDataToFile;
+    vi.restoreAllMocks();
+  });
+
+  it('should save the export as a JSON file', () => {
+    const { calendar } = convertSimpleCalendarCalendar('default', gregorianExport.calendars[0])!;
+
+    expect(downloadSimpleCalendarExport(bridgeFor(calendar))).toBe(true);
+
+    const [json, type, filename] = (global as any).saveDataToFile.mock.calls[0];
+    expect(type).toBe('application/json');
+    expect(filename).toBe('simple-calendar-export-default.json');
+    expect(JSON.parse(json)).toMatchObject({
+      exportVersion: 2,
+      calendars: [{ id: 'default', name: 'Gregorian' }],
+      notes: { default: [] },
+    });
+  });
+
+  it('should download the export when the export menu form is submitted', async () => {
+    const restore = installFakeFormApplication();
+    const { calendar } = convertSimpleCalendarCalendar('default', gregorianExport.calendars[0])!;
+    const registerMenu = vi.fn();
+    (global as any).game.settings = { ...originalGame.settings, registerMenu };
+    (global as any).game.i18n = { localize: (key: string) => key };
+    (global as any).SimpleCalendar = { api: bridgeFor(calendar) };
+    try {
+      registerExportMenu();
+      const ExportForm = registerMenu.mock.calls[0][2].type;
+      const form = await new ExportForm().render();
+      await form.submit();
+
+      expect((global as any).saveDataToFile).toHaveBeenCalledOnce();
+      expect((global as any).saveDataToFile.mock.calls[0][2]).toBe(
+        'simple-calendar-export-default.json'
+      );
+    } finally {
+      restore();
+      delete (global as any).SimpleCalendar;
+    }
+  });
+
+  it('should warn when no calendar is active', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const api = new SimpleCalendarAPIBridge(null as any);
+    vi.spyOn(api, 'getCurrentCalendar').mockReturnValue(null);
+    expect(downloadSimpleCalendarExport(api)).toBe(false);
+    expect(downloadSimpleCalendarExport(undefined)).toBe(false);
+
+    expect((global as any).ui.notifications.warn).toHaveBeenCalledWith(
+      'No active calendar to export'
+    );
+    expect((global as any).saveDataToFile).not.toHaveBeenCalled();
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import harptosExport from './fixtures/simple-calendar/harptos.json';
 
 // Mock global Foundry objects
 global.game = {
@@ -267,4 +268,37 @@ describe('Simple Calendar Registration Flow', () => {
       expect.any(Object)
     );
   });
-});
\ No newline at end of file
+
+  it('should register calendars stored as a list and return conversion reports', async () => {
+    // Import the module to register the hook
+    await import('../src/main');
+
+    (global.game.settings.storage.get as any).mockReturnValue({
+      'foundryvtt-simple-calendar.calendars': JSON.stringify(harptosExport.calendars),
+      'foundryvtt-simple-calendar.current-calendar': 'harptos'
+    });
+
+    // Simulate S&S firing the registration hook
+    const reports = registrationCallback({ registerCalendar: registerCalendarMock });
+
+    expect(registerCalendarMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'simple-calendar-harptos',
+        intercalary: expect.arrayContaining([
+          expect.objectContaining({ name: 'Shieldmeet', after: 'Flamerule', leapYearOnly: true })
+        ])
+      }),
+      expect.objectContaining({ isDefault: true })
+    );
+    expect(reports).toEqual([
+      expect.objectContaining({
+        calendarId: 'harptos',
+        unmapped: [expect.objectContaining({ field: 'year.showWeekdayHeadings' })]
+      })
+    ]);
+    expect(global.console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('could not be converted'),
+      expect.any(Array)
+    );
+  });
+});
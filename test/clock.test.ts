@@ -0,0 +1,461 @@
+/**
+ * Tests for the real-time game clock behind startClock()/stopClock()
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameClock } from '../src/api/clock';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import { HookBridge } from '../src/api/hooks';
+import { MODULE_ID } from '../src/settings';
+
+/** Mock Foundry Hooks registry that lets tests fire hooks */
+function mockHooks() {
+  const handlers = new Map<number, { hook: string; callback: Function }>();
+  let nextId = 1;
+
+  (global as any).Hooks = {
+    on: vi.fn((hook: string, callback: Function) => {
+      handlers.set(nextId, { hook, callback });
+      return nextId++;
+    }),
+    off: vi.fn((_hook: string, id: number) => handlers.delete(id)),
+    callAll: vi.fn(),
+  };
+
+  return {
+    handlers,
+    fire: (hook: string, ...args: any[]) => {
+      for (const handler of handlers.values()) {
+        if (handler.hook === hook) handler.callback(...args);
+      }
+    },
+  };
+}
+
+describe('GameClock', () => {
+  const originalGame = { ...(global as any).game };
+  let stored: Map<string, unknown>;
+  let hooks: ReturnType<typeof mockHooks>;
+  let advance: ReturnType<typeof vi.fn>;
+  let primary: boolean;
+
+  /** Write a world setting as another client would, firing the document hook */
+  const storeFromElsewhere = (key: string, value: unknown) => {
+    stored.set(`${MODULE_ID}.${key}`, value);
+    hooks.fire('updateSetting', { key: `${MODULE_ID}.${key}` });
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    hooks = mockHooks();
+    stored = new Map();
+    primary = true;
+    advance = vi.fn(async (seconds: number) => {
+      (global as any).game.time.worldTime += seconds;
+    });
+
+    Object.assign((global as any).game, {
+      time: { worldTime: 0, advance },
+      user: { id: 'gm-1', isGM: true },
+      settings: {
+        get: vi.fn((module: string, key: string) => stored.get(`${module}.${key}`)),
+        set: vi.fn(async (module: string, key: string, value: unknown) => {
+          stored.set(`${module}.${key}`, value);
+        }),
+        register: vi.fn(),
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    Object.assign((global as any).game, originalGame);
+    delete (global as any).Hooks;
+  });
+
+  function createClock(): GameClock {
+    const clock = new GameClock(() => primary);
+    clock.registerHooks();
+    return clock;
+  }
+
+  it('should advance world time while running', () => {
+    const clock = createClock();
+    clock.start();
+
+    vi.advanceTimersByTime(5000);
+    expect((global as any).game.time.worldTime).toBe(5);
+
+    clock.stop();
+    vi.advanceTimersByTime(5000);
+    expect((global as any).game.time.worldTime).toBe(5);
+  });
+
+  it('should apply the game time ratio and update frequency', () => {
+    stored.set(`${MODULE_ID}.gameTimeRatio`, 10);
+    stored.set(`${MODULE_ID}.updateFrequency`, 2);
+    const clock = createClock();
+    clock.start();
+
+    vi.advanceTimersByTime(1999);
+    expect(advance).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(advance).toHaveBeenCalledWith(20);
+  });
+
+  it('should carry fractions of a game second between ticks', () => {
+    stored.set(`${MODULE_ID}.gameTimeRatio`, 0.5);
+    const clock = createClock();
+    clock.start();
+
+    vi.advanceTimersByTime(4000);
+    expect(advance).toHaveBeenCalledTimes(2);
+    expect((global as any).game.time.worldTime).toBe(2);
+  });
+
+  it('should emit the start/stop hook and share the running state', () => {
+    const clock = createClock();
+
+    clock.start();
+    expect(clock.isRunning()).toBe(true);
+    expect(stored.get(`${MODULE_ID}.clockRunning`)).toBe(true);
+    expect(Hooks.callAll).toHaveBeenCalledWith('simple-calendar-clock-start-stop', {
+      started: true,
+    });
+
+    clock.stop();
+    expect(stored.get(`${MODULE_ID}.clockRunning`)).toBe(false);
+    expect(Hooks.callAll).toHaveBeenLastCalledWith('simple-calendar-clock-start-stop', {
+      started: false,
+    });
+  });
+
+  it('should not let players start the clock', () => {
+    (global as any).game.user = { id: 'player', isGM: false };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const clock = createClock();
+
+    clock.start();
+
+    expect(clock.isRunning()).toBe(false);
+    expect(stored.has(`${MODULE_ID}.clockRunning`)).toBe(false);
+    warn.mockRestore();
+  });
+
+  it('should only advance world time on the primary GM', () => {
+    primary = false;
+    const clock = createClock();
+
+    storeFromElsewhere('clockRunning', true);
+    vi.advanceTimersByTime(5000);
+
+    expect(clock.isRunning()).toBe(true);
+    expect(Hooks.callAll).toHaveBeenCalledWith('simple-calendar-clock-start-stop', {
+      started: true,
+    });
+    expect(advance).not.toHaveBeenCalled();
+  });
+
+  it('should take over when the primary GM disconnects', () => {
+    primary = false;
+    createClock();
+    storeFromElsewhere('clockRunning', true);
+
+    primary = true;
+    hooks.fire('userConnected', { id: 'gm-0' }, false);
+    vi.advanceTimersByTime(3000);
+
+    expect((global as any).game.time.worldTime).toBe(3);
+  });
+
+  it('should hand the clock over when a lower-id GM connects', () => {
+    const clock = createClock();
+    clock.start();
+    vi.advanceTimersByTime(1000);
+
+    primary = false;
+    hooks.fire('userConnected', { id: 'gm-0' }, true);
+    vi.advanceTimersByTime(5000);
+
+    expect(clock.isRunning()).toBe(true);
+    expect((global as any).game.time.worldTime).toBe(1);
+  });
+
+  it('should restart the interval when the update frequency changes', () => {
+    const clock = createClock();
+    clock.start();
+
+    storeFromElsewhere('updateFrequency', 5);
+    vi.advanceTimersByTime(4000);
+    expect(advance).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    expect(advance).toHaveBeenCalledWith(5);
+  });
+
+  it('should stop advancing and unregister hooks on destroy', () => {
+    const clock = createClock();
+    clock.start();
+
+    clock.destroy();
+    vi.advanceTimersByTime(5000);
+
+    expect(advance).not.toHaveBeenCalled();
+    expect(hooks.handlers.size).toBe(0);
+  });
+
+  describe('auto-pause', () => {
+    const clockEvents = () =>
+      (Hooks.callAll as any).mock.calls
+        .filter((call: any[]) => call[0] === 'simple-calendar-clock-start-stop')
+        .map((call: any[]) => call[1].started);
+
+    beforeEach(() => {
+      stored.set(`${MODULE_ID}.unifyGameAndClockPause`, true);
+      stored.set(`${MODULE_ID}.pauseClockDuringCombat`, true);
+      (global as any).game.combats = [];
+    });
+
+    afterEach(() => {
+      delete (global as any).game.combats;
+      delete (global as any).game.paused;
+    });
+
+    it('should stop on game pause and resume on unpause', () => {
+      const clock = createClock();
+      clock.start();
+
+      hooks.fire('pauseGame', true);
+      expect(clock.isRunning()).toBe(false);
+      vi.advanceTimersByTime(3000);
+      expect(advance).not.toHaveBeenCalled();
+
+      hooks.fire('pauseGame', false);
+      expect(clock.isRunning()).toBe(true);
+      expect(clockEvents()).toEqual([true, false, true]);
+    });
+
+    it('should not start a stopped clock on unpause', () => {
+      const clock = createClock();
+
+      hooks.fire('pauseGame', true);
+      hooks.fire('pauseGame', false);
+
+      expect(clock.isRunning()).toBe(false);
+      expect(clockEvents()).toEqual([]);
+    });
+
+    it('should stop for combat and resume when the last combat ends', () => {
+      const clock = createClock();
+      clock.start();
+
+      (global as any).game.combats = [
+        { id: 'combat-1', started: true },
+        { id: 'combat-2', started: true },
+      ];
+      hooks.fire('updateCombat', (global as any).game.combats[0], { round: 1 });
+      expect(clock.isRunning()).toBe(false);
+
+      hooks.fire('deleteCombat', (global as any).game.combats.pop());
+      expect(clock.isRunning()).toBe(false);
+
+      hooks.fire('deleteCombat', (global as any).game.combats.pop());
+      expect(clock.isRunning()).toBe(true);
+      expect(clockEvents()).toEqual([true, false, true]);
+    });
+
+    it('should wait for both pause and combat to clear', () => {
+      const clock = createClock();
+      clock.start();
+
+      hooks.fire('createCombat', { id: 'combat-1', started: true });
+      hooks.fire('pauseGame', true);
+      hooks.fire('deleteCombat', { id: 'combat-1' });
+      expect(clock.isRunning()).toBe(false);
+
+      hooks.fire('pauseGame', false);
+      expect(clock.isRunning()).toBe(true);
+    });
+
+    it('should stop for combat started on another client', () => {
+      const clock = createClock();
+      clock.start();
+
+      const combat = { id: 'combat-1', started: false };
+      hooks.fire('createCombat', combat);
+      expect(clock.isRunning()).toBe(true);
+
+      combat.started = true;
+      hooks.fire('updateCombat', combat, { round: 1 });
+      expect(clock.isRunning()).toBe(false);
+    });
+
+    it('should not stop again on later turns once started by hand during combat', () => {
+      const clock = createClock();
+      clock.start();
+
+      const combat = { id: 'combat-1', started: true };
+      hooks.fire('updateCombat', combat, { round: 1 });
+      clock.start();
+      hooks.fire('updateCombat', combat, { turn: 1 });
+
+      expect(clock.isRunning()).toBe(true);
+    });
+
+    it('should stop a running clock in a world that loads paused', () => {
+      storeFromElsewhere('clockRunning', true);
+      (global as any).game.paused = true;
+      const clock = createClock();
+
+      expect(clock.isRunning()).toBe(false);
+
+      hooks.fire('pauseGame', false);
+      expect(clock.isRunning()).toBe(true);
+    });
+
+    it('should not start while the game is paused', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      (global as any).game.paused = true;
+      const clock = createClock();
+
+      clock.start();
+
+      expect(clock.isRunning()).toBe(false);
+      expect(stored.get(`${MODULE_ID}.clockRunning`)).toBeUndefined();
+      expect(clockEvents()).toEqual([false]);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('should not resume after the clock was stopped by hand', () => {
+      const clock = createClock();
+      clock.start();
+
+      hooks.fire('pauseGame', true);
+      clock.stop();
+      hooks.fire('pauseGame', false);
+
+      expect(clock.isRunning()).toBe(false);
+    });
+
+    it('should ignore pause and combat when the settings are off', () => {
+      stored.set(`${MODULE_ID}.unifyGameAndClockPause`, false);
+      stored.set(`${MODULE_ID}.pauseClockDuringCombat`, false);
+      const clock = createClock();
+      clock.start();
+
+      hooks.fire('pauseGame', true);
+      hooks.fire('createCombat', { id: 'combat-1', started: true });
+
+      expect(clock.isRunning()).toBe(true);
+    });
+
+    it('should leave the clock to GMs', () => {
+      primary = false;
+      const clock = createClock();
+      storeFromElsewhere('clockRunning', true);
+      (global as any).game.user = { id: 'player', isGM: false };
+
+      hooks.fire('pauseGame', true);
+
+      expect(clock.isRunning()).toBe(true);
+      expect(stored.get(`${MODULE_ID}.clockRunning`)).toBe(true);
+    });
+  });
+
+  describe('SimpleCalendarAPIBridge', () => {
+    beforeEach(() => {
+      (global as any).game.users = [
+        { id: 'gm-1', isGM: true, active: true },
+        { id: 'gm-0', isGM: true, active: false },
+      ];
+    });
+
+    it('should run the clock through startClock() and stop it on destroy', () => {
+      const api = new SimpleCalendarAPIBridge();
+
+      api.startClock();
+      expect(api.clockStatus()).toEqual({ started: true });
+      vi.advanceTimersByTime(2000);
+      expect((global as any).game.time.worldTime).toBe(2);
+
+      api.destroy();
+      vi.advanceTimersByTime(2000);
+      expect((global as any).game.time.worldTime).toBe(2);
+    });
+
+    it('should treat the first connected GM as primary', () => {
+      const api = new SimpleCalendarAPIBridge();
+      expect(api.isPrimaryGM()).toBe(true);
+
+      (global as any).game.users[1].active = true;
+      expect(api.isPrimaryGM()).toBe(false);
+    });
+  });
+  describe('shared between the API and hook bridges', () => {
+    const provider = {
+      name: 'Test Provider',
+      version: '1.0.0',
+      isAvailable: () => true,
+      getCurrentDate: () => null,
+      getMonthNames: () => [],
+      getWeekdayNames: () => [],
+    } as any;
+
+    function createBridges() {
+      const clock = new GameClock(() => primary);
+      const api = new SimpleCalendarAPIBridge(undefined, clock);
+      const hookBridge = new HookBridge(provider, clock);
+      return { api, hookBridge };
+    }
+
+    it('should report the same state whichever entry point toggles the clock', () => {
+      const { api, hookBridge } = createBridges();
+
+      hookBridge.startClock();
+      expect(api.clockStatus()).toEqual({ started: true });
+      expect(hookBridge.getClockStatus()).toEqual({ started: true });
+
+      api.stopClock();
+      expect(hookBridge.getClockStatus()).toEqual({ started: false });
+
+      api.startClock();
+      expect(hookBridge.getClockStatus()).toEqual({ started: true });
+
+      hookBridge.stopClock();
+      expect(api.clockStatus()).toEqual({ started: false });
+      api.destroy();
+    });
+
+    it('should advance world time once however the clock was started', () => {
+      const { api, hookBridge } = createBridges();
+
+      hookBridge.startClock();
+      api.startClock();
+      vi.advanceTimersByTime(4000);
+
+      expect(advance).toHaveBeenCalledTimes(4);
+      expect((global as any).game.time.worldTime).toBe(4);
+      api.destroy();
+    });
+
+    it("should reflect the GM's clock on player clients", () => {
+      primary = false;
+      (global as any).game.user = { id: 'player', isGM: false };
+      const { api, hookBridge } = createBridges();
+
+      // The GM's client saves the shared state, which Foundry syncs as a world setting
+      storeFromElsewhere('clockRunning', true);
+      expect(api.clockStatus()).toEqual({ started: true });
+      expect(hookBridge.getClockStatus()).toEqual({ started: true });
+      expect(Hooks.callAll).toHaveBeenCalledWith('simple-calendar-clock-start-stop', {
+        started: true,
+      });
+
+      storeFromElsewhere('clockRunning', false);
+      expect(hookBridge.getClockStatus()).toEqual({ started: false });
+      api.destroy();
+    });
+  });
+});
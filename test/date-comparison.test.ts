@@ -0,0 +1,159 @@
+/**
+ * Tests for date difference and comparison helpers
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import { BaseCalendarProvider } from '../src/providers/base-provider';
+import { CalendarEngine } from '../src/calendar/engine';
+import type { CalendarDate } from '../src/types';
+
+/**
+ * Two 30-day months around a 5-day intercalary festival, with 30-hour days
+ */
+const FESTIVAL_CALENDAR = {
+  id: 'festival',
+  name: 'Festival',
+  months: [
+    { name: 'Frost', days: 30 },
+    { name: 'Festival', days: 5, intercalary: true },
+    { name: 'Thaw', days: 30 },
+  ],
+  weekdays: ['One', 'Two', 'Three', 'Four', 'Five', 'Six'].map(name => ({ name })),
+  year: { epoch: 0, startDay: 0 },
+  time: { hoursInDay: 30, minutesInHour: 60, secondsInMinute: 60 },
+};
+
+class FestivalProvider extends BaseCalendarProvider {
+  readonly name = 'Festival Provider';
+  readonly version = '1.0.0';
+  private engine = new CalendarEngine(FESTIVAL_CALENDAR);
+
+  getCurrentDate(): CalendarDate {
+    return this.engine.worldTimeToDate(0);
+  }
+  worldTimeToDate(timestamp: number): CalendarDate {
+    return this.engine.worldTimeToDate(timestamp);
+  }
+  dateToWorldTime(date: CalendarDate): number {
+    return this.engine.dateToWorldTime(date);
+  }
+  formatDate(): string {
+    return '';
+  }
+  getActiveCalendar(): any {
+    return FESTIVAL_CALENDAR;
+  }
+  getMonthNames(): string[] {
+    return FESTIVAL_CALENDAR.months.map(month => month.name);
+  }
+  getWeekdayNames(): string[] {
+    return FESTIVAL_CALENDAR.weekdays.map(weekday => weekday.name);
+  }
+}
+
+describe('Date comparison helpers', () => {
+  describe('on the built-in calendar', () => {
+    const api = new SimpleCalendarAPIBridge();
+
+    it('should count days, weeks and hours between dates', () => {
+      const newYear = { year: 2024, month: 0, day: 0 };
+      const february = { year: 2024, month: 1, day: 0 };
+
+      expect(api.dateDifference(newYear, february)).toBe(31);
+      expect(api.dateDifference(february, newYear, 'day')).toBe(-31);
+      expect(api.dateDifference(newYear, february, 'week')).toBe(4);
+      expect(api.dateDifference(newYear, { ...newYear, hour: 5, minute: 59 }, 'hour')).toBe(5);
+      expect(api.dateDifference(newYear, { ...newYear, hour: 23 }, 'day')).toBe(0);
+    });
+
+    it('should count whole calendar months and years', () => {
+      expect(
+        api.dateDifference(
+          { year: 2023, month: 0, day: 30 },
+          { year: 2023, month: 2, day: 0 },
+          'month'
+        )
+      ).toBe(1);
+      expect(
+        api.dateDifference(
+          { year: 2023, month: 2, day: 0 },
+          { year: 2023, month: 0, day: 30 },
+          'month'
+        )
+      ).toBe(-1);
+      expect(
+        api.dateDifference(
+          { year: 2020, month: 1, day: 28 },
+          { year: 2024, month: 1, day: 27 },
+          'year'
+        )
+      ).toBe(3);
+      expect(
+        api.dateDifference(
+          { year: 2020, month: 1, day: 28 },
+          { year: 2024, month: 1, day: 28 },
+          'year'
+        )
+      ).toBe(4);
+    });
+
+    it('should reject unknown units', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(api.dateDifference({ year: 2024 }, { year: 2025 }, 'fortnight' as any)).toBe(0);
+      expect(console.warn).toHaveBeenCalled();
+      vi.restoreAllMocks();
+    });
+
+    it('should order dates by date and time', () => {
+      const morning = { year: 2024, month: 5, day: 10, hour: 8 };
+      const evening = { ...morning, hour: 20 };
+
+      expect(api.compareDates(morning, evening)).toBe(-1);
+      expect(api.compareDates(evening, morning)).toBe(1);
+      expect(api.compareDates(morning, { ...morning })).toBe(0);
+    });
+
+    it('should tell whether dates share a day', () => {
+      expect(
+        api.isSameDay(
+          { year: 2024, month: 5, day: 10, hour: 1 },
+          { year: 2024, month: 5, day: 10, hour: 23 }
+        )
+      ).toBe(true);
+      expect(
+        api.isSameDay({ year: 2023, month: 0, day: 31 }, { year: 2023, month: 1, day: 0 })
+      ).toBe(true);
+      expect(
+        api.isSameDay({ year: 2024, month: 5, day: 10 }, { year: 2024, month: 5, day: 11 })
+      ).toBe(false);
+    });
+
+    it('should report month lengths for 0-based months', () => {
+      expect(api.daysInMonth(2024, 1)).toBe(29);
+      expect(api.daysInMonth(2023, 1)).toBe(28);
+      expect(api.daysInMonth(2023, 11)).toBe(31);
+      expect(api.daysInMonth(2023, 12)).toBe(0);
+    });
+  });
+
+  describe('through a calendar provider', () => {
+    const api = new SimpleCalendarAPIBridge(new FestivalProvider());
+    const frostDay29 = { year: 1, month: 0, day: 28 };
+    const firstOfThaw = { year: 1, month: 2, day: 0 };
+
+    it('should count intercalary days but step over intercalary months', () => {
+      expect(api.dateDifference(frostDay29, firstOfThaw)).toBe(7);
+      expect(api.dateDifference(frostDay29, firstOfThaw, 'month')).toBe(0);
+      expect(api.dateDifference({ year: 1, month: 0, day: 0 }, firstOfThaw, 'month')).toBe(1);
+      expect(api.daysInMonth(1, 1)).toBe(5);
+    });
+
+    it('should use the calendar day length', () => {
+      expect(api.dateDifference(frostDay29, firstOfThaw, 'hour')).toBe(7 * 30);
+      expect(api.dateDifference(frostDay29, firstOfThaw, 'week')).toBe(1);
+      expect(api.isSameDay({ ...frostDay29, hour: 29 }, frostDay29)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Tests for Simple Calendar date format tokens in formatDateTime() and formatTimestamp()
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { formatSimpleCalendarDate, getOrdinalSuffix, getYearName } from '../src/api/date-format';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+
+const calendar = {
+  id: 'gregorian',
+  months: [
+    { name: 'January', abbreviation: 'Jan', days: 31 },
+    { name: 'February', abbreviation: 'Feb', days: 28 },
+    { name: 'March', days: 31 },
+  ],
+  weekdays: [
+    { name: 'Sunday', abbreviation: 'Sun' },
+    { name: 'Monday', abbreviation: 'Mon' },
+    { name: 'Tuesday', abbreviation: 'Tue' },
+  ],
+  year: { prefix: 'Year ', suffix: ' DR', yearNames: ['Year of the Dragon', 'Year of the Snake'] },
+};
+
+// February 3rd 2024, 14:05:09 on a Tuesday (0-based month/day)
+const date = { year: 2024, month: 1, day: 2, hour: 14, minute: 5, seconds: 9, dayOfTheWeek: 2 };
+
+const format = (pattern: string, overrides: Partial<typeof date> = {}, cal: any = calendar) =>
+  formatSimpleCalendarDate({ ...date, ...overrides }, pattern, cal);
+
+describe('formatSimpleCalendarDate', () => {
+  it('should format year tokens', () => {
+    expect(format('YYYY')).toBe('2024');
+    expect(format('YY')).toBe('24');
+    expect(format('YY', { year: 2005 })).toBe('05');
+    expect(format('YA YZ')).toBe('Year   DR');
+  });
+
+  it('should format month tokens', () => {
+    expect(format('M')).toBe('2');
+    expect(format('MM')).toBe('02');
+    expect(format('MMM')).toBe('Feb');
+    expect(format('MMMM')).toBe('February');
+    expect(format('MMM', { month: 2 })).toBe('Mar');
+  });
+
+  it('should format day tokens', () => {
+    expect(format('D')).toBe('3');
+    expect(format('DD')).toBe('03');
+    expect(format('DO')).toBe('3rd');
+    expect(format('DO', { day: 10 })).toBe('11th');
+    expect(format('DO', { day: 21 })).toBe('22nd');
+  });
+
+  it('should format weekday tokens', () => {
+    expect(format('d')).toBe('3');
+    expect(format('dd')).toBe('Tu');
+    expect(format('ddd')).toBe('Tue');
+    expect(format('dddd')).toBe('Tuesday');
+  });
+
+  it('should format 24-hour and 12-hour time tokens', () => {
+    expect(format('H:mm:ss')).toBe('14:05:09');
+    expect(format('HH', { hour: 7 })).toBe('07');
+    expect(format('h:mm A')).toBe('2:05 PM');
+    expect(format('hh:mm a', { hour: 0 })).toBe('12:05 am');
+    expect(format('h A', { hour: 12 })).toBe('12 PM');
+  });
+
+  it('should use the calendar day length for 12-hour time', () => {
+    const longDays = { ...calendar, time: { hoursInDay: 20 } };
+    expect(format('h A', { hour: 14 }, longDays)).toBe('4 PM');
+    expect(format('h A', { hour: 9 }, longDays)).toBe('9 AM');
+  });
+
+  it('should output bracketed text literally', () => {
+    expect(format('[Day] D [of] MMMM')).toBe('Day 3 of February');
+    expect(format('[YYYY MM]')).toBe('YYYY MM');
+  });
+
+  it('should format common Simple Calendar patterns', () => {
+    expect(format('MMMM DD, YYYY')).toBe('February 03, 2024');
+    expect(format('dddd, DO MMMM YYYY')).toBe('Tuesday, 3rd February 2024');
+    expect(format('DD/MM/YYYY HH:mm')).toBe('03/02/2024 14:05');
+  });
+
+  it('should fall back when calendar metadata is missing', () => {
+    expect(format('MMMM d', { dayOfTheWeek: undefined }, null)).toBe('Month 2 ');
+  });
+});
+
+describe('getYearName', () => {
+  it('should cycle through the calendar year names', () => {
+    expect(getYearName(calendar, 0)).toBe('Year of the Dragon');
+    expect(getYearName(calendar, 2025)).toBe('Year of the Snake');
+    expect(format('YN')).toBe('Year of the Dragon');
+  });
+
+  it('should return an empty name without year names', () => {
+    expect(getYearName({}, 2024)).toBe('');
+  });
+});
+
+describe('getOrdinalSuffix', () => {
+  it('should handle teens and larger numbers', () => {
+    expect([1, 2, 3, 4, 11, 12, 13, 101, 111, 112].map(getOrdinalSuffix)).toEqual([
+      'st',
+      'nd',
+      'rd',
+      'th',
+      'th',
+      'th',
+      'th',
+      'st',
+      'th',
+      'th',
+    ]);
+  });
+});
+
+describe('SimpleCalendarAPIBridge formatting', () => {
+  // One day per timestamp unit of 86400 seconds, starting at 1 January 2024
+  const worldTimeToDate = (timestamp: number) => {
+    const days = Math.floor(timestamp / 86400);
+    const seconds = timestamp % 86400;
+    return {
+      year: 2024,
+      month: days < 31 ? 1 : 2,
+      day: days < 31 ? days + 1 : days - 30,
+      weekday: (days + 2) % 3, // 1 January 2024 is a Tuesday in this three-day week
+      time: {
+        hour: Math.floor(seconds / 3600),
+        minute: Math.floor((seconds % 3600) / 60),
+        second: seconds % 60,
+      },
+    };
+  };
+  const dateToWorldTime = (ssDate: any) =>
+    ((ssDate.month === 1 ? 0 : 31) + ssDate.day - 1) * 86400 +
+    (ssDate.time?.hour || 0) * 3600 +
+    (ssDate.time?.minute || 0) * 60 +
+    (ssDate.time?.second || 0);
+
+  const formatDate = vi.fn(() => 'S&S formatted');
+
+  const api = new SimpleCalendarAPIBridge({
+    isAvailable: true,
+    version: '1.0.0',
+    api: {
+      getActiveCalendar: () => calendar,
+      getCurrentDate: () => worldTimeToDate(33 * 86400),
+      worldTimeToDate,
+      dateToWorldTime,
+      formatDate,
+      setActiveCalendar: vi.fn(),
+      getAvailableCalendars: vi.fn(),
+      getMonthNames: () => calendar.months.map(month => month.name),
+      getWeekdayNames: () => calendar.weekdays.map(weekday => weekday.name),
+    },
+    widgets: { main: null, mini: null, grid: null },
+    hooks: { onDateChanged: vi.fn(), onCalendarChanged: vi.fn(), onReady: vi.fn(), off: vi.fn() },
+    hasFeature: vi.fn(),
+    getFeatureVersion: vi.fn(),
+  } as any);
+
+  it('should apply the format argument in formatTimestamp()', () => {
+    const timestamp = 33 * 86400 + 14 * 3600 + 5 * 60;
+    expect(api.formatTimestamp(timestamp, 'dddd DO MMMM YYYY, hh:mm A')).toBe(
+      'Tuesday 3rd February 2024, 02:05 PM'
+    );
+  });
+
+  it('should render Simple Calendar tokens in formatDateTime()', () => {
+    formatDate.mockClear();
+
+    const result = api.formatDateTime(
+      { year: 2024, month: 1, day: 2, hour: 9, minute: 30, seconds: 0 },
+      'DD/MM/YYYY [at] HH:mm'
+    );
+
+    expect(result).toBe('03/02/2024 at 09:30');
+    expect(formatDate).not.toHaveBeenCalledWith(expect.anything(), { format: expect.anything() });
+  });
+
+  it('should look up the weekday when the date does not include one', () => {
+    expect(api.formatDateTime({ year: 2024, month: 1, day: 2 }, 'dddd')).toBe('Tuesday');
+  });
+
+  it('should keep returning date and time parts without a format', () => {
+    expect(api.formatDateTime({ year: 2024, month: 0, day: 0 })).toEqual({
+      date: 'S&S formatted',
+      time: 'S&S formatted',
+    });
+  });
+
+  it('should name the current year in currentDateTimeDisplay() like the YN token', () => {
+    const display = api.currentDateTimeDisplay();
+
+    expect(display?.yearName).toBe('Year of the Dragon');
+    expect(display?.yearName).toBe(api.formatDateTime({ year: 2024, month: 1, day: 2 }, 'YN'));
+  });
+});
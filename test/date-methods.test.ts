@@ -6,6 +6,21 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
 
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
 describe('Simple Calendar API Bridge - Date Methods', () => {
   let api: SimpleCalendarAPIBridge;
 
@@ -19,15 +34,14 @@ describe('Simple Calendar API Bridge - Date Methods', () => {
       api = new SimpleCalendarAPIBridge();
       const result = api.getCurrentDate();
 
-      expect(result).toEqual({
-        year: 2023,
+      expect(result).toMatchObject({
+        year: 1970,
         month: 0,
         day: 1,
         hour: 0,
         minute: 0,
         seconds: 0,
-        weekdays: [],
-        dayOfTheWeek: 0,
+        dayOfTheWeek: 5,
       });
     });
 
@@ -43,15 +57,12 @@ describe('Simple Calendar API Bridge - Date Methods', () => {
             weekday: 3,
             time: { hour: 12, minute: 30, second: 45 },
           }),
-          formatDate: (date: any, options: any) => {
-            if (options.format === '{{month.name}}') return 'June';
-            return '';
-          },
+          formatDate: vi.fn(),
           worldTimeToDate: vi.fn(),
           dateToWorldTime: vi.fn(),
           setActiveCalendar: vi.fn(),
           getAvailableCalendars: vi.fn(),
-          getMonthNames: vi.fn(),
+          getMonthNames: () => MONTH_NAMES,
           getWeekdayNames: () => ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
           getActiveCalendar: vi.fn(),
         },
@@ -88,7 +99,7 @@ describe('Simple Calendar API Bridge - Date Methods', () => {
         dayOfTheWeek: 3,
         display: {
           date: 'June 15, 2024', // Simple Weather expects formatted date string
-          time: '12:30',         // Simple Weather expects formatted time string
+          time: '12:30:45',      // Simple Weather expects formatted time string (default HH:mm:ss format)
           monthName: 'June',
           day: '15',
           year: '2024',
@@ -137,15 +148,14 @@ describe('Simple Calendar API Bridge - Date Methods', () => {
       api = new SimpleCalendarAPIBridge(mockSeasonsStars as any);
       const result = api.getCurrentDate();
 
-      expect(result).toEqual({
-        year: 2023,
+      expect(result).toMatchObject({
+        year: 1970,
         month: 0,
         day: 1,
         hour: 0,
         minute: 0,
         seconds: 0,
-        weekdays: [],
-        dayOfTheWeek: 0,
+        dayOfTheWeek: 5,
       });
       expect(consoleSpy).toHaveBeenCalledWith('Failed to get current date:', expect.any(Error));
 
@@ -220,7 +230,7 @@ describe('Simple Calendar API Bridge - Date Methods', () => {
       const result = api.changeDate({ day: 1 });
 
       expect(result).toBe(false);
-      expect(consoleSpy).toHaveBeenCalledWith('Cannot change date: Seasons & Stars not available');
+      expect(consoleSpy).toHaveBeenCalledWith('Cannot change date: no calendar provider available');
 
       consoleSpy.mockRestore();
     });
@@ -360,7 +370,7 @@ describe('Simple Calendar API Bridge - Date Methods', () => {
       expect(advanceMinutesSpy).toHaveBeenCalledWith(30);
     });
 
-    it('should handle errors gracefully', () => {
+    it('should handle errors gracefully', async () => {
       const mockSeasonsStars = {
         isAvailable: true,
         version: '1.0.0',
@@ -403,8 +413,11 @@ describe('Simple Calendar API Bridge - Date Methods', () => {
 
       const result = api.changeDate({ day: 1 });
 
-      expect(result).toBe(false);
-      expect(consoleSpy).toHaveBeenCalledWith('Failed to change date:', expect.any(Error));
+      // The provider advances asynchronously, so its errors are logged once it settles
+      expect(result).toBe(true);
+      await vi.waitFor(() =>
+        expect(consoleSpy).toHaveBeenCalledWith('Failed to change date:', expect.any(Error))
+      );
 
       consoleSpy.mockRestore();
     });
@@ -473,7 +486,7 @@ describe('Simple Calendar API Bridge - Date Methods', () => {
       const result = api.setDate({ year: 2024, month: 5, day: 14 });
 
       expect(result).toBe(false);
-      expect(consoleSpy).toHaveBeenCalledWith('Cannot set date: Seasons & Stars not available');
+      expect(consoleSpy).toHaveBeenCalledWith('Cannot set date: no calendar provider available');
 
       consoleSpy.mockRestore();
     });
@@ -0,0 +1,87 @@
+/**
+ * Minimal stand-in for Foundry's FormApplication
+ *
+ * Follows the parts of Foundry's render and submit flow the bridge's menus
+ * rely on: submission is only wired when _renderInner stores the rendered
+ * form as this.form, and form data is read from that element.
+ */
+
+export class FakeFormApplication {
+  static get defaultOptions(): Record<string, unknown> {
+    return { closeOnSubmit: true };
+  }
+
+  options: Record<string, any>;
+  form: HTMLFormElement | null = null;
+  rendered = false;
+  closed = false;
+
+  constructor() {
+    this.options = (this.constructor as typeof FakeFormApplication).defaultOptions;
+  }
+
+  async getData(): Promise<Record<string, unknown>> {
+    return {};
+  }
+
+  async render(): Promise<this> {
+    const html = await (this as any)._renderInner(await this.getData());
+    this._activateCoreListeners(html);
+    this.activateListeners(html);
+    this.rendered = true;
+    return this;
+  }
+
+  activateListeners(_html: unknown): void {}
+
+  _activateCoreListeners(_html: unknown): void {
+    if (!this.form) return;
+    this.form.onsubmit = event => this._onSubmit(event);
+  }
+
+  async _onSubmit(event: Event): Promise<void> {
+    event.preventDefault();
+    const formData = this._getSubmitData();
+    await (this as any)._updateObject(event, formData);
+    if (this.options.closeOnSubmit) this.closed = true;
+  }
+
+  _getSubmitData(): Record<string, unknown> {
+    if (!this.form) {
+      throw new Error('The FormApplication subclass has no registered form element');
+    }
+    const data: Record<string, unknown> = {};
+    for (const element of Array.from(this.form.elements) as HTMLInputElement[]) {
+      if (!element.name) continue;
+      data[element.name] = element.type === 'checkbox' ? element.checked : element.value;
+    }
+    return data;
+  }
+
+  /** Submit the rendered form the way a click on its submit button does */
+  async submit(): Promise<void> {
+    if (!this.form?.onsubmit) {
+      throw new Error('Form submission is not wired');
+    }
+    await (this.form.onsubmit as (event: Event) => Promise<void>)(
+      new Event('submit', { cancelable: true })
+    );
+  }
+}
+
+/**
+ * Install the stand-in FormApplication and jQuery's element wrapping
+ *
+ * @returns A function restoring the previous globals
+ */
+export function installFakeFormApplication(): () => void {
+  const globals = globalThis as any;
+  const previous = { FormApplication: globals.FormApplication, $: globals.$ };
+  globals.FormApplication = FakeFormApplication;
+  globals.$ = (element: unknown) => ({ 0: element, length: element ? 1 : 0 });
+
+  return () => {
+    globals.FormApplication = previous.FormApplication;
+    globals.$ = previous.$;
+  };
+}
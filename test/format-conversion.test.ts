@@ -18,15 +18,14 @@ describe('Format Conversion Helpers', () => {
     it('should create fallback datetime from timestamp 0', () => {
       const result = (api as any).createFallbackDateTime(0);
 
-      expect(result).toEqual({
-        year: 2023,
+      expect(result).toMatchObject({
+        year: 1970,
         month: 0, // 0-based January
         day: 0, // 0-based day
         hour: 0,
         minute: 0,
         seconds: 0,
-        weekdays: [],
-        dayOfTheWeek: 0,
+        dayOfTheWeek: 4,
       });
     });
 
@@ -34,7 +33,7 @@ describe('Format Conversion Helpers', () => {
       const oneDayInSeconds = 86400;
       const result = (api as any).createFallbackDateTime(oneDayInSeconds);
 
-      expect(result.year).toBe(2023);
+      expect(result.year).toBe(1970);
       expect(result.month).toBe(0);
       expect(result.day).toBe(1); // 1 day elapsed (0-based)
       expect(result.hour).toBe(0);
@@ -76,7 +75,7 @@ describe('Format Conversion Helpers', () => {
       const timestamp = 2 * 86400 + 5 * 3600 + 30 * 60 + 45;
       const result = (api as any).createFallbackDateTime(timestamp);
 
-      expect(result.year).toBe(2023);
+      expect(result.year).toBe(1970);
       expect(result.month).toBe(0);
       expect(result.day).toBe(2); // 2 days
       expect(result.hour).toBe(5);
@@ -84,11 +83,21 @@ describe('Format Conversion Helpers', () => {
       expect(result.seconds).toBe(45);
     });
 
-    it('should use "seconds" not "second" property name', () => {
-      const result = (api as any).createFallbackDateTime(0);
+    it('should provide both "seconds" and "second" property names', () => {
+      const result = (api as any).createFallbackDateTime(37);
+
+      expect(result.seconds).toBe(37);
+      expect(result.second).toBe(37);
+    });
+
+    it('should use the built-in Gregorian calendar across months and leap years', () => {
+      const result = (api as any).createFallbackDateTime(Date.UTC(2024, 1, 29, 18) / 1000);
 
-      expect(result).toHaveProperty('seconds');
-      expect(result).not.toHaveProperty('second');
+      expect(result).toMatchObject({ year: 2024, month: 1, day: 28, hour: 18 });
+      expect(result.dayOfTheWeek).toBe(4); // Thursday
+      expect(result.weekdays).toHaveLength(7);
+      expect(result.display.monthName).toBe('February');
+      expect(result.display.weekday).toBe('Thursday');
     });
   });
 
@@ -111,7 +120,7 @@ describe('Format Conversion Helpers', () => {
         hour: 12,
         minute: 30,
         seconds: 45, // Simple Calendar format
-        second: 45,  // Simple Weather format - both must be present
+        second: 45, // Simple Weather format - both must be present
       });
     });
 
@@ -0,0 +1,203 @@
+/**
+ * Tests for the Foundry core calendar provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FoundryCoreProvider } from '../src/providers/foundry-core';
+
+const DAY = 20 * 60 * 60;
+
+/**
+ * Minimal stand-in for the v13 CalendarData model: four ten-day months, the
+ * second of which gains a day every fourth year, and 20-hour days
+ */
+function createCoreCalendar(): any {
+  const months = [
+    { name: 'CAL.Frost', abbreviation: 'CAL.FrostAbbr', ordinal: 1, days: 10 },
+    { name: 'CAL.Thaw', abbreviation: 'CAL.ThawAbbr', ordinal: 2, days: 10, leapDays: 11 },
+    { name: 'CAL.Bloom', abbreviation: 'CAL.BloomAbbr', ordinal: 3, days: 10 },
+    { name: 'CAL.Ember', abbreviation: 'CAL.EmberAbbr', ordinal: 4, days: 10 },
+  ];
+  const calendar = {
+    name: 'CAL.Name',
+    description: 'CAL.Description',
+    years: { yearZero: 0, firstWeekday: 0, leapYear: { leapStart: 0, leapInterval: 4 } },
+    months: { values: months },
+    days: {
+      values: ['One', 'Two', 'Three', 'Four', 'Five'].map((name, ordinal) => ({
+        name: `CAL.${name}`,
+        abbreviation: `CAL.${name}Abbr`,
+        ordinal: ordinal + 1,
+      })),
+      daysPerYear: 40,
+      hoursPerDay: 20,
+      minutesPerHour: 60,
+      secondsPerMinute: 60,
+    },
+    seasons: {
+      values: [
+        { name: 'CAL.Cold', monthStart: 4, monthEnd: 1 },
+        { name: 'CAL.Warm', monthStart: 2, monthEnd: 3 },
+      ],
+    },
+    isLeapYear: (year: number) => year % 4 === 0,
+    yearLength(year: number) {
+      return calendar.isLeapYear(year) ? 41 : 40;
+    },
+    timeToComponents(time = 0) {
+      let days = Math.floor(time / DAY);
+      const seconds = time - days * DAY;
+      const dayOfWeek = ((days % 5) + 5) % 5;
+      let year = 0;
+      while (days < 0) days += calendar.yearLength(--year);
+      while (days >= calendar.yearLength(year)) days -= calendar.yearLength(year++);
+
+      const day = days;
+      let month = 0;
+      const leapYear = calendar.isLeapYear(year);
+      const length = (m: any) => (leapYear && m.leapDays ? m.leapDays : m.days);
+      while (days >= length(months[month])) days -= length(months[month++]);
+
+      return {
+        year,
+        day,
+        hour: Math.floor(seconds / 3600),
+        minute: Math.floor((seconds % 3600) / 60),
+        second: seconds % 60,
+        month,
+        dayOfMonth: days,
+        dayOfWeek,
+        leapYear,
+      };
+    },
+    componentsToTime({ year = 0, day = 0, hour = 0, minute = 0, second = 0 }: any) {
+      let days = day;
+      for (let y = 0; y < year; y++) days += calendar.yearLength(y);
+      for (let y = year; y < 0; y++) days -= calendar.yearLength(y);
+      return days * DAY + hour * 3600 + minute * 60 + second;
+    },
+  };
+  return calendar;
+}
+
+describe('FoundryCoreProvider', () => {
+  let provider: FoundryCoreProvider;
+  const originalTime = (global as any).game.time;
+
+  beforeEach(() => {
+    (global as any).game.time = { worldTime: 0, advance: vi.fn(), calendar: createCoreCalendar() };
+    (global as any).game.i18n = { localize: (key: string) => key.replace('CAL.', '') };
+    (global as any).CONFIG = { time: { worldCalendarConfig: { name: 'CAL.Name' } } };
+    provider = new FoundryCoreProvider();
+  });
+
+  afterEach(() => {
+    (global as any).game.time = originalTime;
+    delete (global as any).game.i18n;
+    delete (global as any).CONFIG;
+    FoundryCoreProvider.recordDefaultCalendar();
+  });
+
+  describe('isAvailable()', () => {
+    it('should require a core calendar model', () => {
+      expect(FoundryCoreProvider.isAvailable()).toBe(true);
+
+      delete (global as any).game.time.calendar;
+      expect(FoundryCoreProvider.isAvailable()).toBe(false);
+    });
+
+    it("should leave Foundry's default calendar configuration out", () => {
+      // Recorded while scripts load, before game systems configure a calendar
+      FoundryCoreProvider.recordDefaultCalendar();
+      expect(FoundryCoreProvider.isAvailable()).toBe(false);
+
+      (global as any).CONFIG.time.worldCalendarConfig = { name: 'CAL.System' };
+      expect(FoundryCoreProvider.isAvailable()).toBe(true);
+    });
+  });
+
+  describe('date conversion', () => {
+    it('should convert core components to 1-based dates', () => {
+      const timestamp = 13 * DAY + 5 * 3600 + 6 * 60 + 7;
+
+      expect(provider.worldTimeToDate(timestamp)).toEqual({
+        year: 0,
+        month: 2,
+        day: 4,
+        weekday: 3,
+        time: { hour: 5, minute: 6, second: 7 },
+      });
+    });
+
+    it('should round-trip dates, including leap days', () => {
+      for (let timestamp = -3 * 41 * DAY; timestamp < 9 * 41 * DAY; timestamp += DAY / 2 + 37) {
+        const date = provider.worldTimeToDate(timestamp);
+        expect(provider.dateToWorldTime(date)).toBe(timestamp);
+      }
+
+      expect(provider.dateToWorldTime({ year: 4, month: 2, day: 11, weekday: 0 })).toBe(
+        (161 + 20) * DAY
+      );
+      expect(provider.worldTimeToDate(181 * DAY)).toMatchObject({ year: 4, month: 2, day: 11 });
+    });
+
+    it('should read the current date from world time', () => {
+      (global as any).game.time.worldTime = 41 * DAY;
+
+      expect(provider.getCurrentDate()).toMatchObject({ year: 1, month: 1, day: 1 });
+    });
+  });
+
+  describe('calendar metadata', () => {
+    it('should convert the core calendar to Seasons & Stars format', () => {
+      const calendar = provider.getActiveCalendar();
+
+      expect(calendar.name).toBe('Name');
+      expect(calendar.months[1]).toEqual({
+        name: 'Thaw',
+        abbreviation: 'ThawAbbr',
+        days: 10,
+        leapDays: 11,
+      });
+      expect(calendar.leapYear).toEqual({ rule: 'custom', interval: 4, offset: 0 });
+      expect(calendar.time).toEqual({ hoursInDay: 20, minutesInHour: 60, secondsInMinute: 60 });
+    });
+
+    it('should expose localized month and weekday names', () => {
+      expect(provider.getMonthNames()).toEqual(['Frost', 'Thaw', 'Bloom', 'Ember']);
+      expect(provider.getWeekdayNames()).toEqual(['One', 'Two', 'Three', 'Four', 'Five']);
+    });
+
+    it('should find seasons from their starting months', () => {
+      expect(provider.getSeasonInfo({ year: 1, month: 1, day: 5, weekday: 0 }).name).toBe('Cold');
+      expect(provider.getSeasonInfo({ year: 1, month: 3, day: 5, weekday: 0 }).name).toBe('Warm');
+      expect(provider.getSeasonInfo({ year: 1, month: 4, day: 1, weekday: 0 }).name).toBe('Cold');
+    });
+  });
+
+  describe('formatDate()', () => {
+    const date = {
+      year: 3,
+      month: 3,
+      day: 2,
+      weekday: 1,
+      time: { hour: 14, minute: 5, second: 0 },
+    };
+
+    it('should format with the core month and weekday names', () => {
+      expect(provider.formatDate(date)).toBe('Bloom 2, 3 14:05');
+      expect(provider.formatDate(date, { includeTime: false })).toBe('Bloom 2, 3');
+      expect(provider.formatDate(date, { format: 'dddd, MMM D' })).toBe('Two, BloomAbbr 2');
+    });
+  });
+
+  describe('time advancement', () => {
+    it('should advance world time using the calendar day length', async () => {
+      await provider.advanceDays(2);
+      await provider.advanceHours(3);
+      await provider.advanceMinutes(4);
+
+      expect((global as any).game.time.advance.mock.calls).toEqual([[2 * DAY], [3 * 3600], [240]]);
+    });
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Tests for intercalary months and days on a Harptos-style calendar
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import { BaseCalendarProvider } from '../src/providers/base-provider';
+import { CalendarEngine } from '../src/calendar/engine';
+import type { CalendarDate } from '../src/types';
+
+const DAY = 86400;
+
+const MONTHS = [
+  'Hammer',
+  'Alturiak',
+  'Ches',
+  'Tarsakh',
+  'Mirtul',
+  'Kythorn',
+  'Flamerule',
+  'Eleasis',
+  'Eleint',
+  'Marpenoth',
+  'Uktar',
+  'Nightal',
+];
+const FESTIVALS = [
+  { name: 'Midwinter', after: 'Hammer' },
+  { name: 'Greengrass', after: 'Tarsakh' },
+  { name: 'Midsummer', after: 'Flamerule' },
+  { name: 'Shieldmeet', after: 'Flamerule', leapYearOnly: true },
+  { name: 'Highharvestide', after: 'Eleint' },
+  { name: 'Feast of the Moon', after: 'Uktar' },
+];
+const TENDAY = ['First', 'Second', 'Third', 'Fourth', 'Fifth'].flatMap(name => [
+  { name: `${name}-day` },
+  { name: `${name}-day Eve` },
+]);
+const SEASONS = [
+  { name: 'Spring', month: 'Ches', day: 19 },
+  { name: 'Summer', month: 'Kythorn', day: 20 },
+  { name: 'Autumn', month: 'Eleint', day: 21 },
+  { name: 'Winter', month: 'Nightal', day: 20 },
+];
+const YEAR = { epoch: 1488, startDay: 0 };
+const LEAP_YEAR = { rule: 'custom', interval: 4, offset: 0 };
+
+/**
+ * Twelve 30-day months with festival days outside the tenday, in the Seasons &
+ * Stars format: festivals are listed apart and dated by the month they follow
+ */
+const HARPTOS_SS = {
+  id: 'harptos-ss',
+  name: 'Harptos',
+  months: MONTHS.map(name => ({ name, days: 30 })),
+  intercalary: FESTIVALS.map(festival => ({ ...festival, days: 1, countsForWeekdays: false })),
+  weekdays: TENDAY,
+  seasons: SEASONS.map(season => ({
+    name: season.name,
+    startMonth: MONTHS.indexOf(season.month) + 1,
+    startDay: season.day,
+  })),
+  moons: [
+    {
+      name: 'Selune',
+      cycleLength: 30,
+      firstNewMoon: { year: 1488, month: MONTHS.indexOf('Alturiak') + 1, day: 1 },
+    },
+  ],
+  year: YEAR,
+  leapYear: LEAP_YEAR,
+};
+
+/**
+ * The same calendar in the Simple Calendar format, festivals being months of their own
+ */
+const HARPTOS_SC_MONTHS = MONTHS.flatMap(name => [
+  { name, days: 30 },
+  ...FESTIVALS.filter(festival => festival.after === name).map(festival => ({
+    name: festival.name,
+    days: festival.leapYearOnly ? 0 : 1,
+    leapDays: 1,
+    intercalary: true,
+  })),
+]);
+const scMonth = (name: string) => HARPTOS_SC_MONTHS.findIndex(month => month.name === name) + 1;
+const HARPTOS_SC = {
+  id: 'harptos-sc',
+  name: 'Harptos',
+  months: HARPTOS_SC_MONTHS,
+  weekdays: TENDAY,
+  seasons: SEASONS.map(season => ({
+    name: season.name,
+    startMonth: scMonth(season.month),
+    startDay: season.day,
+  })),
+  moons: [
+    {
+      name: 'Selune',
+      cycleLength: 30,
+      firstNewMoon: { year: 1488, month: scMonth('Alturiak'), day: 1 },
+    },
+  ],
+  year: YEAR,
+  leapYear: LEAP_YEAR,
+};
+
+/**
+ * Provider that, like some calendar modules, advances the weekday on every day
+ */
+class HarptosProvider extends BaseCalendarProvider {
+  readonly name = 'Harptos Provider';
+  readonly version = '1.0.0';
+  readonly engine: CalendarEngine;
+
+  constructor(readonly calendar: any) {
+    super();
+    this.engine = new CalendarEngine(calendar);
+  }
+
+  getCurrentDate(): CalendarDate {
+    return this.worldTimeToDate((global as any).game.time.worldTime);
+  }
+  worldTimeToDate(timestamp: number): CalendarDate {
+    const date = this.engine.fromEntryDate(this.engine.worldTimeToDate(timestamp));
+    return { ...date, weekday: Math.floor(timestamp / DAY) % TENDAY.length };
+  }
+  dateToWorldTime(date: CalendarDate): number {
+    return this.engine.dateToWorldTime(this.engine.toEntryDate(date));
+  }
+  formatDate(): string {
+    return '';
+  }
+  getActiveCalendar(): any {
+    return this.calendar;
+  }
+  getMonthNames(): string[] {
+    return this.calendar.months.map((month: any) => month.name);
+  }
+  getWeekdayNames(): string[] {
+    return TENDAY.map(weekday => weekday.name);
+  }
+}
+
+/** Simple Calendar month indexes (0-based), festivals included */
+const HAMMER = 0;
+const MIDWINTER = 1;
+const ALTURIAK = 2;
+const FLAMERULE = 8;
+const SHIELDMEET = 10;
+const ELEASIS = 11;
+const ELEINT = 12;
+const NIGHTAL = 17;
+
+describe.each([
+  ['the Seasons & Stars format', HARPTOS_SS],
+  ['the Simple Calendar format', HARPTOS_SC],
+])('Harptos calendar in %s', (_label, calendar) => {
+  const provider = new HarptosProvider(calendar);
+  const api = new SimpleCalendarAPIBridge(provider);
+  const timestamp = (year: number, month: number, day: number) =>
+    api.dateToTimestamp({ year, month, day });
+
+  afterEach(() => {
+    (global as any).game.time.worldTime = 0;
+    vi.restoreAllMocks();
+  });
+
+  it('should list festivals as intercalary months left out of the tenday', () => {
+    const months = api.getAllMonths();
+
+    expect(months.map(month => month.name)).toEqual([
+      'Hammer',
+      'Midwinter',
+      'Alturiak',
+      'Ches',
+      'Tarsakh',
+      'Greengrass',
+      'Mirtul',
+      'Kythorn',
+      'Flamerule',
+      'Midsummer',
+      'Shieldmeet',
+      'Eleasis',
+      'Eleint',
+      'Highharvestide',
+      'Marpenoth',
+      'Uktar',
+      'Feast of the Moon',
+      'Nightal',
+    ]);
+    expect(months[MIDWINTER]).toMatchObject({
+      intercalary: true,
+      intercalaryInclude: false,
+      numberOfDays: 1,
+      numberOfLeapYearDays: 1,
+    });
+    expect(months[SHIELDMEET]).toMatchObject({ numberOfDays: 0, numberOfLeapYearDays: 1 });
+    expect(months[ALTURIAK]).toMatchObject({ intercalary: false, numberOfDays: 30 });
+  });
+
+  it('should convert festival days to their own month', () => {
+    const midwinter = timestamp(1489, MIDWINTER, 0);
+
+    // 1488 is a leap year of 366 days
+    expect(midwinter).toBe((366 + 30) * DAY);
+    expect(api.timestampToDate(midwinter)).toMatchObject({
+      year: 1489,
+      month: MIDWINTER,
+      day: 0,
+      display: { monthName: 'Midwinter' },
+    });
+    expect(api.timestampToDate(midwinter + DAY)).toMatchObject({ month: ALTURIAK, day: 0 });
+  });
+
+  it('should have Shieldmeet in leap years only', () => {
+    expect(api.timestampToDate(timestamp(1488, SHIELDMEET, 0))).toMatchObject({
+      year: 1488,
+      month: SHIELDMEET,
+      display: { monthName: 'Shieldmeet' },
+    });
+    expect(timestamp(1489, SHIELDMEET, 0)).toBe(timestamp(1489, ELEASIS, 0));
+  });
+
+  it('should start every month on the first day of a tenday', () => {
+    for (let year = 1487; year <= 1492; year++) {
+      for (const month of [HAMMER, ALTURIAK, FLAMERULE, ELEASIS, NIGHTAL]) {
+        expect(api.timestampToDate(timestamp(year, month, 0))?.dayOfTheWeek).toBe(0);
+        expect(api.timestampToDate(timestamp(year, month, 29))?.dayOfTheWeek).toBe(9);
+      }
+    }
+  });
+
+  it('should give festival days the weekday of the day after them', () => {
+    expect(api.timestampToDate(timestamp(1488, MIDWINTER, 0))).toMatchObject({
+      dayOfTheWeek: 0,
+      display: { weekday: 'First-day' },
+    });
+    expect(api.timestampToDate(timestamp(1488, SHIELDMEET, 0))?.dayOfTheWeek).toBe(0);
+  });
+
+  it('should step over festivals when adding months', () => {
+    expect(api.timestampPlusInterval(timestamp(1489, HAMMER, 14), { month: 1 })).toBe(
+      timestamp(1489, ALTURIAK, 14)
+    );
+    expect(api.timestampPlusInterval(timestamp(1488, FLAMERULE, 9), { month: 1 })).toBe(
+      timestamp(1488, ELEASIS, 9)
+    );
+    expect(api.timestampPlusInterval(timestamp(1489, ALTURIAK, 0), { month: -1 })).toBe(
+      timestamp(1489, HAMMER, 0)
+    );
+    expect(api.timestampPlusInterval(timestamp(1489, NIGHTAL, 5), { month: 1 })).toBe(
+      timestamp(1490, HAMMER, 5)
+    );
+  });
+
+  it('should move festival days to the months around them', () => {
+    const midwinter = timestamp(1489, MIDWINTER, 0);
+
+    expect(api.timestampPlusInterval(midwinter, { month: 1 })).toBe(timestamp(1489, ALTURIAK, 0));
+    expect(api.timestampPlusInterval(midwinter, { month: -1 })).toBe(timestamp(1489, HAMMER, 0));
+    expect(api.timestampPlusInterval(midwinter, { year: 1 })).toBe(timestamp(1490, MIDWINTER, 0));
+  });
+
+  it('should choose random dates across the whole current year', () => {
+    (global as any).game.time.worldTime = timestamp(1488, ELEASIS, 3);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(api.chooseRandomDate()).toMatchObject({ year: 1488, month: HAMMER, day: 0 });
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.9999999);
+    expect(api.chooseRandomDate()).toMatchObject({ year: 1488, month: NIGHTAL, day: 29 });
+  });
+
+  it('should count festivals as months in season and moon dates', () => {
+    const monthName = (month: number) => api.getAllMonths()[month].name;
+    (global as any).game.time.worldTime = timestamp(1489, ELEASIS, 4);
+
+    expect(
+      api.getAllSeasons().map(season => [monthName(season.startingMonth), season.startingDay])
+    ).toEqual([
+      ['Ches', 18],
+      ['Kythorn', 19],
+      ['Eleint', 20],
+      ['Nightal', 19],
+    ]);
+    expect(monthName(api.getAllMoons()[0].firstNewMoon.month)).toBe('Alturiak');
+    expect(api.getCurrentSeason()?.name).toBe('Summer');
+
+    (global as any).game.time.worldTime = timestamp(1489, ELEINT, 20);
+    expect(api.getCurrentSeason()?.name).toBe('Autumn');
+  });
+
+  it('should count festivals as months in the current calendar date', () => {
+    (global as any).game.time.worldTime = timestamp(1489, ALTURIAK, 4);
+
+    expect(api.getCurrentDate()).toMatchObject({ month: ALTURIAK, day: 4 });
+    expect(api.getCurrentCalendar().currentDate).toMatchObject({
+      year: 1489,
+      month: ALTURIAK,
+      day: 4,
+    });
+  });
+
+  it('should date notes on festivals and later months by their own month', async () => {
+    const journal: any[] = [];
+    (global as any).game.user.isGM = true;
+    (global as any).game.folders = [
+      { id: 'folder', type: 'JournalEntry', getFlag: () => true, setFlag: vi.fn() },
+    ];
+    (global as any).game.journal = journal;
+    (global as any).JournalEntry = {
+      create: vi.fn(async (data: any) => {
+        const created = { ...data, id: data.name, createEmbeddedDocuments: vi.fn() };
+        journal.push(created);
+        return created;
+      }),
+    };
+
+    try {
+      await api.addNote('Feast', '', { year: 1489, month: MIDWINTER, day: 0 }, null, true);
+      await api.addNote('Market', '', { year: 1489, month: ALTURIAK, day: 4 }, null, true);
+
+      // The calendar module reads the Seasons & Stars dates in its own numbering
+      const [feast, market] = journal.map(note => note.flags['seasons-and-stars'].startDate);
+      expect(provider.dateToWorldTime(feast)).toBe(timestamp(1489, MIDWINTER, 0));
+      expect(provider.dateToWorldTime(market)).toBe(timestamp(1489, ALTURIAK, 4));
+
+      expect(api.getNotesForDay(1489, MIDWINTER, 0).map(note => note.id)).toEqual(['Feast']);
+      expect(api.getNotesForDay(1489, ALTURIAK, 4).map(note => note.id)).toEqual(['Market']);
+      expect(api.getNotesForDay(1489, HAMMER, 0)).toEqual([]);
+    } finally {
+      (global as any).game.user.isGM = false;
+      delete (global as any).game.folders;
+      delete (global as any).game.journal;
+      delete (global as any).JournalEntry;
+    }
+  });
+});
+
+describe('Harptos calendar with festivals in the tenday', () => {
+  const calendar = {
+    ...HARPTOS_SC,
+    months: HARPTOS_SC.months.map(month =>
+      month.intercalary ? { ...month, intercalaryInclude: true } : month
+    ),
+  };
+  const api = new SimpleCalendarAPIBridge(new HarptosProvider(calendar));
+
+  it('should advance the weekday on festival days', () => {
+    expect(api.getAllMonths()[MIDWINTER].intercalaryInclude).toBe(true);
+    expect(
+      api.timestampToDate(api.dateToTimestamp({ year: 1488, month: ALTURIAK, day: 0 }))
+        ?.dayOfTheWeek
+    ).toBe(1);
+  });
+});
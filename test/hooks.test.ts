@@ -22,6 +22,7 @@ interface MockFoundryUser {
 interface MockHooksSystem {
   callAll: ReturnType<typeof vi.fn>;
   on: ReturnType<typeof vi.fn>;
+  off: ReturnType<typeof vi.fn>;
 }
 
 /**
@@ -38,6 +39,7 @@ interface MockGame {
 const mockHooks: MockHooksSystem = {
   callAll: vi.fn(),
   on: vi.fn(),
+  off: vi.fn(),
 };
 
 // Mock user data for testing
@@ -0,0 +1,217 @@
+/**
+ * Property tests for calendar-aware interval addition through a calendar provider
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import { BaseCalendarProvider } from '../src/providers/base-provider';
+import { CalendarEngine } from '../src/calendar/engine';
+import type { CalendarDate } from '../src/types';
+
+/**
+ * Nine months of 28 to 35 days, the third gaining a day every fourth year,
+ * five weekdays and 20-hour days of 50-minute hours
+ */
+const ODD_CALENDAR = {
+  id: 'odd',
+  name: 'Odd',
+  months: [28, 35, 30, 31, 29, 33, 30, 32, 34].map((days, index) => ({
+    name: `Month ${index + 1}`,
+    days,
+  })),
+  weekdays: ['A', 'B', 'C', 'D', 'E'].map(name => ({ name })),
+  year: { epoch: 0, startDay: 0 },
+  leapYear: { rule: 'custom', interval: 4, offset: 0, month: 'Month 3', extraDays: 1 },
+  time: { hoursInDay: 20, minutesInHour: 50, secondsInMinute: 60 },
+};
+
+/**
+ * Foundry core style calendar with per-month leap lengths and an intercalary month
+ */
+const CORE_CALENDAR = {
+  id: 'core',
+  name: 'Core',
+  months: [
+    { name: 'Frost', days: 30 },
+    { name: 'Thaw', days: 10, leapDays: 12 },
+    { name: 'Festival', days: 5, intercalary: true },
+    { name: 'Bloom', days: 30 },
+  ],
+  weekdays: ['One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven'].map(name => ({ name })),
+  year: { epoch: 0, startDay: 3 },
+  leapYear: { rule: 'custom', interval: 3, offset: 1 },
+  time: { hoursInDay: 30, minutesInHour: 60, secondsInMinute: 60 },
+};
+
+/**
+ * Provider whose conversions come from a calendar engine, like a calendar module would
+ */
+class EngineProvider extends BaseCalendarProvider {
+  readonly name = 'Engine Provider';
+  readonly version = '1.0.0';
+
+  constructor(readonly engine: CalendarEngine) {
+    super();
+  }
+
+  getCurrentDate(): CalendarDate {
+    return this.engine.worldTimeToDate(0);
+  }
+  worldTimeToDate(timestamp: number): CalendarDate {
+    return this.engine.worldTimeToDate(timestamp);
+  }
+  dateToWorldTime(date: CalendarDate): number {
+    return this.engine.dateToWorldTime(date);
+  }
+  formatDate(): string {
+    return '';
+  }
+  getActiveCalendar(): any {
+    return this.engine.calendar;
+  }
+  getMonthNames(): string[] {
+    return this.engine.calendar.months.map((month: any) => month.name);
+  }
+  getWeekdayNames(): string[] {
+    return this.engine.calendar.weekdays.map((weekday: any) => weekday.name);
+  }
+}
+
+/**
+ * Small seeded generator so failures reproduce
+ */
+function createRandom(seed: number) {
+  let state = seed;
+  return (min: number, max: number) => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return min + (state % (max - min + 1));
+  };
+}
+
+describe.each([
+  ['a calendar with odd months and day lengths', ODD_CALENDAR],
+  ['a Foundry core calendar with leap months', CORE_CALENDAR],
+])('timestampPlusInterval() on %s', (_label, calendar) => {
+  const engine = new CalendarEngine(calendar);
+  const provider = new EngineProvider(engine);
+  const api = new SimpleCalendarAPIBridge(provider);
+  const { hoursInDay, minutesInHour, secondsInMinute } = calendar.time;
+  const secondsPerDay = hoursInDay * minutesInHour * secondsInMinute;
+  const monthCount = calendar.months.length;
+  const regularMonths = calendar.months.flatMap((month: any, index) =>
+    month.intercalary ? [] : [index + 1]
+  );
+  const random = createRandom(20240229);
+  const randomDate = (regularOnly = false): CalendarDate => {
+    const year = random(-50, 50);
+    const month = regularOnly
+      ? regularMonths[random(0, regularMonths.length - 1)]
+      : random(1, monthCount);
+    return {
+      year,
+      month,
+      day: random(1, engine.getMonthLength(year, month)),
+      weekday: 0,
+      time: {
+        hour: random(0, hoursInDay - 1),
+        minute: random(0, minutesInHour - 1),
+        second: random(0, secondsInMinute - 1),
+      },
+    };
+  };
+
+  it('should match dateToWorldTime when adding days and time', () => {
+    for (let i = 0; i < 200; i++) {
+      const date = randomDate();
+      const day = random(-400, 400);
+      const hour = random(0, hoursInDay - 1 - date.time!.hour);
+      const minute = random(0, minutesInHour - 1 - date.time!.minute);
+
+      const result = api.timestampPlusInterval(provider.dateToWorldTime(date), {
+        day,
+        hour,
+        minute,
+      });
+
+      expect(result).toBe(
+        provider.dateToWorldTime({
+          ...date,
+          day: date.day + day,
+          time: { ...date.time!, hour: date.time!.hour + hour, minute: date.time!.minute + minute },
+        })
+      );
+    }
+  });
+
+  it('should add weeks of the calendar week length', () => {
+    for (let i = 0; i < 50; i++) {
+      const timestamp = provider.dateToWorldTime(randomDate());
+      const week = random(-20, 20);
+
+      expect(api.timestampPlusInterval(timestamp, { week })).toBe(
+        timestamp + week * calendar.weekdays.length * secondsPerDay
+      );
+    }
+  });
+
+  it('should move years and months by calendar date, keeping the time of day', () => {
+    for (let i = 0; i < 200; i++) {
+      const date = randomDate(true);
+      const year = random(-5, 5);
+      const month = random(-30, 30);
+
+      const result = provider.worldTimeToDate(
+        api.timestampPlusInterval(provider.dateToWorldTime(date), { year, month })
+      );
+
+      // Month arithmetic steps over intercalary months
+      const count = regularMonths.length;
+      const monthIndex = regularMonths.indexOf(date.month) + month;
+      const expectedYear = date.year + year + Math.floor(monthIndex / count);
+      const expectedMonth = regularMonths[((monthIndex % count) + count) % count];
+      expect(result).toMatchObject({
+        year: expectedYear,
+        month: expectedMonth,
+        day: Math.min(date.day, engine.getMonthLength(expectedYear, expectedMonth)),
+        time: date.time,
+      });
+    }
+  });
+
+  it('should undo a month change when no clamping happened', () => {
+    for (let i = 0; i < 100; i++) {
+      const date = { ...randomDate(true), day: 1 };
+      const timestamp = provider.dateToWorldTime(date);
+      const month = random(-30, 30);
+
+      const moved = api.timestampPlusInterval(timestamp, { month });
+      expect(api.timestampPlusInterval(moved, { month: -month })).toBe(timestamp);
+    }
+  });
+});
+
+describe('timestampPlusInterval() month clamping', () => {
+  const provider = new EngineProvider(new CalendarEngine(CORE_CALENDAR));
+  const api = new SimpleCalendarAPIBridge(provider);
+  const timestamp = (year: number, month: number, day: number) =>
+    provider.dateToWorldTime({ year, month, day, weekday: 0 });
+
+  it('should clamp to leap and common month lengths', () => {
+    expect(api.timestampPlusInterval(timestamp(1, 1, 30), { month: 1 })).toBe(timestamp(1, 2, 12));
+    expect(api.timestampPlusInterval(timestamp(2, 1, 30), { month: 1 })).toBe(timestamp(2, 2, 10));
+    expect(api.timestampPlusInterval(timestamp(1, 2, 12), { year: 1 })).toBe(timestamp(2, 2, 10));
+  });
+
+  it('should step over intercalary months', () => {
+    expect(api.timestampPlusInterval(timestamp(2, 2, 8), { month: 1 })).toBe(timestamp(2, 4, 8));
+    expect(api.timestampPlusInterval(timestamp(2, 4, 3), { month: -5 })).toBe(timestamp(1, 1, 3));
+  });
+
+  it('should move intercalary days to the neighbouring regular months', () => {
+    const festival = timestamp(2, 3, 2);
+
+    expect(api.timestampPlusInterval(festival, { month: 1 })).toBe(timestamp(2, 4, 2));
+    expect(api.timestampPlusInterval(festival, { month: -1 })).toBe(timestamp(2, 2, 2));
+    expect(api.timestampPlusInterval(festival, { year: 1 })).toBe(timestamp(3, 3, 2));
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * Tests for the Migration Assistant scan, steps and report
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import { BaseCalendarProvider } from '../src/providers/base-provider';
+import { CalendarEngine } from '../src/calendar/engine';
+import { convertSimpleCalendarCalendar } from '../src/migration/calendar-converter';
+import {
+  buildMigrationReport,
+  downloadMigrationReport,
+  registerMigrationAssistantMenu,
+  runMigrationSteps,
+  scanWorldForMigration,
+} from '../src/migration/migration-assistant';
+import { MODULE_ID } from '../src/settings';
+import { installFakeFormApplication } from './fixtures/form-application';
+import type { CalendarDate } from '../src/types';
+import gregorianExport from './fixtures/simple-calendar/gregorian.json';
+import harptosExport from './fixtures/simple-calendar/harptos.json';
+
+const originalGame = (global as any).game;
+const originalUi = (global as any).ui;
+
+/** Provider serving a calendar definition through the calendar engine */
+class EngineProvider extends BaseCalendarProvider {
+  readonly name = 'Engine Provider';
+  readonly version = '1.0.0';
+  readonly engine: CalendarEngine;
+
+  constructor(readonly calendar: any) {
+    super();
+    this.engine = new CalendarEngine(calendar);
+  }
+
+  getCurrentDate(): CalendarDate {
+    return this.worldTimeToDate((global as any).game.time.worldTime);
+  }
+  worldTimeToDate(timestamp: number): CalendarDate {
+    return this.engine.fromEntryDate(this.engine.worldTimeToDate(timestamp));
+  }
+  dateToWorldTime(date: CalendarDate): number {
+    return this.engine.dateToWorldTime(this.engine.toEntryDate(date));
+  }
+  formatDate(): string {
+    return '';
+  }
+  getActiveCalendar(): any {
+    return this.calendar;
+  }
+  getMonthNames(): string[] {
+    return this.calendar.months.map((month: any) => month.name);
+  }
+  getWeekdayNames(): string[] {
+    return this.calendar.weekdays.map((weekday: any) => weekday.name);
+  }
+}
+
+/** Create a journal entry the way Simple Calendar stores notes (0-based dates) */
+function createSimpleCalendarNote(id: string, noteData: Record<string, unknown> = {}): any {
+  const journal: any = {
+    id,
+    name: id,
+    ownership: { default: 0 },
+    flags: {
+      'foundryvtt-simple-calendar': {
+        noteData: {
+          calendarId: 'default',
+          startDate: { year: 2024, month: 6, day: 3, hour: 0, minute: 0, seconds: 0 },
+          allDay: true,
+          repeats: 0,
+          categories: [],
+          remindUsers: [],
+          macro: 'none',
+          ...noteData,
+        },
+      },
+    },
+  };
+  journal.update = vi.fn(async (data: any) => Object.assign(journal, data));
+  return journal;
+}
+
+const bridgeFor = (source: any) =>
+  new SimpleCalendarAPIBridge(
+    new EngineProvider(convertSimpleCalendarCalendar(source.id, source)!.calendar)
+  );
+
+describe('Migration Assistant', () => {
+  let stored: Map<string, unknown>;
+  let journals: any[];
+
+  beforeEach(() => {
+    stored = new Map();
+    journals = [
+      createSimpleCalendarNote('clean'),
+      createSimpleCalendarNote('reminder', { remindUsers: ['player-1'] }),
+    ];
+    const time = {
+      worldTime: 0,
+      advance: vi.fn(async (seconds: number) => {
+        time.worldTime += seconds;
+      }),
+    };
+    const modules = new Map<string, any>([
+      [
+        'foundryvtt-simple-calendar',
+        {
+          id: 'foundryvtt-simple-calendar',
+          title: 'Simple Calendar',
+          active: false,
+          version: '2.4.18',
+        },
+      ],
+      [MODULE_ID, { id: MODULE_ID, title: 'Bridge', active: true, version: '0.4.2' }],
+      [
+        'weather-module',
+        {
+          id: 'weather-module',
+          title: 'Weather Module',
+          active: true,
+          version: '1.2.0',
+          relationships: { requires: new Set([{ id: 'foundryvtt-simple-calendar' }]) },
+        },
+      ],
+      ['smalltime', { id: 'smalltime', title: 'SmallTime', active: false }],
+      ['unrelated', { id: 'unrelated', title: 'Unrelated', active: true, relationships: {} }],
+    ]);
+
+    (global as any).game = {
+      ...originalGame,
+      time,
+      modules,
+      journal: journals,
+      folders: [
+        { id: 'calendar-notes', type: 'JournalEntry', getFlag: () => true, setFlag: vi.fn() },
+      ],
+      user: { isGM: true, id: 'gm' },
+      settings: {
+        get: vi.fn((module: string, key: string) => stored.get(`${module}.${key}`)),
+        set: vi.fn(async (module: string, key: string, value: unknown) => {
+          stored.set(`${module}.${key}`, value);
+          return value;
+        }),
+        storage: {
+          get: () => ({
+            'foundryvtt-simple-calendar.calendars': JSON.stringify([
+              gregorianExport.calendars[0],
+              harptosExport.calendars[0],
+            ]),
+            'foundryvtt-simple-calendar.current-calendar': 'default',
+          }),
+        },
+      },
+    };
+    (global as any).ui = {
+      notifications: { info: vi.fn(() => ({ update: vi.fn() })), warn: vi.fn(), error: vi.fn() },
+    };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (global as any).game = originalGame;
+    (global as any).ui = originalUi;
+    delete (global as any).saveDataToFile;
+    vi.restoreAllMocks();
+  });
+
+  describe('scanWorldForMigration()', () => {
+    it('should report calendars, notes, settings and dependent modules', async () => {
+      const scan = await scanWorldForMigration(bridgeFor(gregorianExport.calendars[0]));
+
+      expect(scan.simpleCalendar).toEqual({ installed: true, active: false, version: '2.4.18' });
+      expect(scan.calendars.map(report => report.convertedId)).toEqual([
+        'simple-calendar-default',
+        'simple-calendar-harptos',
+      ]);
+      expect(scan.activeCalendarId).toBe('simple-calendar-default');
+      expect(scan.notes).toMatchObject({ dryRun: true, total: 2, migrated: 2 });
+      expect(scan.settings).toMatchObject({ calendarId: 'default' });
+      expect(scan.modules).toEqual([
+        {
+          id: 'weather-module',
+          title: 'Weather Module',
+          active: true,
+          version: '1.2.0',
+          relationship: 'requires',
+        },
+        {
+          id: 'smalltime',
+          title: 'SmallTime',
+          active: false,
+          version: undefined,
+          relationship: 'known',
+        },
+      ]);
+      expect(journals[0].update).not.toHaveBeenCalled();
+    });
+
+    it("should not mistake the bridge's stand-in module for Simple Calendar", async () => {
+      (global as any).game.modules.set('foundryvtt-simple-calendar', {
+        id: 'foundryvtt-simple-calendar',
+        title: 'Simple Calendar (Compatibility Bridge)',
+        active: true,
+      });
+
+      const scan = await scanWorldForMigration(bridgeFor(gregorianExport.calendars[0]));
+
+      expect(scan.simpleCalendar).toEqual({ installed: false, active: false });
+    });
+
+    it('should report Simple Calendar settings that cannot be read as a scan error', async () => {
+      (global as any).game.settings.storage.get = () => ({});
+      (global as any).game.settings.settings = new Map([
+        ['foundryvtt-simple-calendar.calendars', {}],
+      ]);
+      (global as any).game.settings.get = () => {
+        throw new Error('This is not a registered game setting');
+      };
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const scan = await scanWorldForMigration(bridgeFor(gregorianExport.calendars[0]));
+
+      expect(scan).toMatchObject({ parseError: true, calendars: [], settings: null });
+      expect(buildMigrationReport(scan)).toContain(
+        'Simple Calendar calendar data could not be parsed.'
+      );
+    });
+  });
+
+  describe('runMigrationSteps()', () => {
+    it('should run the chosen steps in order', async () => {
+      (global as any).saveDataToFile = vi.fn();
+      const api = bridgeFor(gregorianExport.calendars[0]);
+      const scan = await scanWorldForMigration(api);
+
+      const steps = await runMigrationSteps(api, scan, {
+        notes: true,
+        setDate: true,
+        copySettings: true,
+        export: true,
+      });
+
+      expect(steps).toEqual([
+        { step: 'calendars', status: 'done', message: '2 converted, 1 with dropped data' },
+        { step: 'notes', status: 'done', message: '2 migrated, 0 skipped, 0 failed' },
+        { step: 'settings', status: 'done', message: 'World time set, Settings copied' },
+        { step: 'export', status: 'done', message: 'Simple Calendar export downloaded' },
+      ]);
+      expect(journals[0].flags['seasons-and-stars']).toMatchObject({ calendarNote: true });
+      expect(api.getCurrentDate()).toMatchObject({ year: 2024, month: 6, day: 3, hour: 12 });
+      expect(stored.get(`${MODULE_ID}.settingsImportOffered`)).toBe(true);
+      expect((global as any).saveDataToFile).toHaveBeenCalledOnce();
+    });
+
+    it('should skip steps that were not chosen and warn about the active calendar', async () => {
+      const api = new SimpleCalendarAPIBridge(
+        new EngineProvider({
+          id: 'native',
+          months: [{ name: 'Only', days: 30 }],
+          weekdays: [{ name: 'Day' }],
+        })
+      );
+      const scan = await scanWorldForMigration(api);
+
+      const steps = await runMigrationSteps(api, scan, {
+        notes: false,
+        setDate: false,
+        copySettings: false,
+        export: false,
+      });
+
+      expect(steps.map(step => [step.step, step.status])).toEqual([
+        ['calendars', 'done'],
+        ['notes', 'skipped'],
+        ['settings', 'skipped'],
+        ['export', 'skipped'],
+      ]);
+      expect(steps[0].message).toContain('the active calendar was not converted');
+      expect(journals[0].update).not.toHaveBeenCalled();
+      expect((global as any).game.time.advance).not.toHaveBeenCalled();
+    });
+
+    it('should only let GMs run the migration', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const api = bridgeFor(gregorianExport.calendars[0]);
+      const scan = await scanWorldForMigration(api);
+      (global as any).game.user.isGM = false;
+
+      const steps = await runMigrationSteps(api, scan, {
+        notes: true,
+        setDate: true,
+        copySettings: true,
+        export: false,
+      });
+
+      expect(steps).toEqual([]);
+      expect(journals[0].update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buildMigrationReport()', () => {
+    it('should list lossy data, modules and the steps that ran', async () => {
+      const scan = await scanWorldForMigration(bridgeFor(gregorianExport.calendars[0]));
+      const report = buildMigrationReport(scan, [
+        { step: 'notes', status: 'done', message: '2 migrated, 0 skipped, 0 failed' },
+      ]);
+
+      expect(report).toContain('# Simple Calendar Migration Report');
+      expect(report).toContain('- Simple Calendar: 2.4.18, inactive');
+      expect(report).toContain('### Gregorian (default): approximated');
+      expect(report).toContain('### Forgotten Realms: Harptos (harptos): lossy');
+      expect(report).toContain('- Dropped `year.showWeekdayHeadings`');
+      expect(report).toContain('2 notes: 1 clean, 1 lossy, 0 skipped, 0 failed');
+      expect(report).toContain(
+        '- reminder (reminder, ready): Reminders for 1 user are kept but not posted to chat'
+      );
+      expect(report).toContain('- Weather Module (weather-module 1.2.0): active, requires');
+      expect(report).toContain('- notes: done (2 migrated, 0 skipped, 0 failed)');
+    });
+
+    it('should be saved as a Markdown file', async () => {
+      (global as any).saveDataToFile = vi.fn();
+      const scan = await scanWorldForMigration(bridgeFor(gregorianExport.calendars[0]));
+
+      expect(downloadMigrationReport(scan)).toBe(true);
+
+      const [text, type, filename] = (global as any).saveDataToFile.mock.calls[0];
+      expect(text).toBe(buildMigrationReport(scan));
+      expect(type).toBe('text/markdown');
+      expect(filename).toBe('simple-calendar-migration-report.md');
+    });
+  });
+
+  describe('Migration Assistant application', () => {
+    let restore: () => void;
+
+    beforeEach(() => {
+      restore = installFakeFormApplication();
+      (global as any).game.settings.registerMenu = vi.fn();
+      (global as any).game.i18n = { localize: (key: string) => key };
+      (global as any).saveDataToFile = vi.fn();
+    });
+
+    afterEach(() => {
+      restore();
+      delete (global as any).SimpleCalendar;
+    });
+
+    const openAssistant = async () => {
+      registerMigrationAssistantMenu();
+      const MigrationAssistant = (global as any).game.settings.registerMenu.mock.calls[0][2].type;
+      return new MigrationAssistant().render();
+    };
+
+    it('should run the ticked steps when submitted', async () => {
+      const api = bridgeFor(gregorianExport.calendars[0]);
+      (global as any).SimpleCalendar = { api };
+      const assistant = await openAssistant();
+
+      expect(assistant.form.elements.namedItem('notes').checked).toBe(true);
+      expect(assistant.form.elements.namedItem('export').checked).toBe(false);
+      await assistant.submit();
+
+      expect(assistant.steps.map((step: any) => [step.step, step.status])).toEqual([
+        ['calendars', 'done'],
+        ['notes', 'done'],
+        ['settings', 'done'],
+        ['export', 'skipped'],
+      ]);
+      expect(journals[0].flags['seasons-and-stars']).toMatchObject({ calendarNote: true });
+      expect(assistant.closed).toBe(false);
+    });
+
+    it('should download the report from its button', async () => {
+      (global as any).SimpleCalendar = { api: bridgeFor(gregorianExport.calendars[0]) };
+      const assistant = await openAssistant();
+
+      assistant.form.querySelector('[data-action="report"]').click();
+
+      expect((global as any).saveDataToFile).toHaveBeenCalledWith(
+        expect.stringContaining('# Simple Calendar Migration Report'),
+        'text/markdown',
+        'simple-calendar-migration-report.md'
+      );
+    });
+
+    it("should render when Simple Calendar's settings cannot be read", async () => {
+      (global as any).game.settings.storage.get = () => ({});
+      (global as any).game.settings.settings = new Map([
+        ['foundryvtt-simple-calendar.calendars', {}],
+      ]);
+      (global as any).game.settings.get = () => {
+        throw new Error('This is not a registered game setting');
+      };
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const assistant = await openAssistant();
+
+      expect(assistant.form.textContent).toContain(
+        'SIMPLE_CALENDAR_COMPAT.SETTINGS.migrationAssistant.parseError'
+      );
+    });
+
+    it('should warn instead of running without the API', async () => {
+      const assistant = await openAssistant();
+      await assistant.submit();
+
+      expect((global as any).ui.notifications.warn).toHaveBeenCalledWith(
+        'SIMPLE_CALENDAR_COMPAT.SETTINGS.migrationAssistant.apiNotReady'
+      );
+      expect(journals[0].update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for the moon phase engine behind getAllMoons()
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { calculateMoons } from '../src/api/moons';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import type { CalendarDate } from '../src/types';
+
+const DAY = 86400;
+
+// Simple 12 x 30 day calendar starting at year 0
+const dateToWorldTime = (date: CalendarDate): number =>
+  (date.year * 360 + (date.month - 1) * 30 + (date.day - 1)) * DAY +
+  (date.time?.hour || 0) * 3600 +
+  (date.time?.minute || 0) * 60 +
+  (date.time?.second || 0);
+
+const eightPhases = [
+  { name: 'New Moon', length: 1, singleDay: true, icon: 'new' },
+  { name: 'Waxing Crescent', length: 6, singleDay: false, icon: 'waxing-crescent' },
+  { name: 'First Quarter', length: 1, singleDay: true, icon: 'first-quarter' },
+  { name: 'Waxing Gibbous', length: 6, singleDay: false, icon: 'waxing-gibbous' },
+  { name: 'Full Moon', length: 1, singleDay: true, icon: 'full' },
+  { name: 'Waning Gibbous', length: 6, singleDay: false, icon: 'waning-gibbous' },
+  { name: 'Last Quarter', length: 1, singleDay: true, icon: 'last-quarter' },
+  { name: 'Waning Crescent', length: 6, singleDay: false, icon: 'waning-crescent' },
+];
+
+const calendar = {
+  id: 'test',
+  months: Array.from({ length: 12 }, (_, i) => ({ name: `Month ${i + 1}`, days: 30 })),
+  moons: [
+    {
+      name: 'Selûne',
+      cycleLength: 28,
+      firstNewMoon: { year: 1000, month: 1, day: 1 },
+      phases: eightPhases,
+      color: '#e6e6fa',
+    },
+  ],
+};
+
+const at = (year: number, month: number, day: number, hour = 0) =>
+  dateToWorldTime({ year, month, day, weekday: 0, time: { hour, minute: 0, second: 0 } });
+
+describe('calculateMoons', () => {
+  it('should return an empty list when the calendar has no moons', () => {
+    expect(calculateMoons({ months: [] }, 0, dateToWorldTime)).toEqual([]);
+    expect(calculateMoons(null, 0, dateToWorldTime)).toEqual([]);
+  });
+
+  it('should report the new moon on the reference date', () => {
+    const [moon] = calculateMoons(calendar, at(1000, 1, 1, 12), dateToWorldTime);
+
+    expect(moon.name).toBe('Selûne');
+    expect(moon.color).toBe('#e6e6fa');
+    expect(moon.currentPhase?.icon).toBe('new');
+    expect(moon.phaseIndex).toBe(0);
+    expect(moon.dayInCycle).toBe(0);
+  });
+
+  it('should convert the reference date to 0-based Simple Calendar format', () => {
+    const [moon] = calculateMoons(calendar, at(1000, 1, 1), dateToWorldTime);
+
+    expect(moon.firstNewMoon).toEqual({ yearReset: 'none', yearX: 0, year: 1000, month: 0, day: 0 });
+    expect(moon.cycleLength).toBe(28);
+    expect(moon.phases).toHaveLength(8);
+  });
+
+  it('should walk through the phases as days pass', () => {
+    const phaseOn = (day: number) =>
+      calculateMoons(calendar, at(1000, 1, day), dateToWorldTime)[0].currentPhase?.icon;
+
+    expect(phaseOn(2)).toBe('waxing-crescent');
+    expect(phaseOn(8)).toBe('first-quarter');
+    expect(phaseOn(15)).toBe('full');
+    expect(phaseOn(22)).toBe('last-quarter');
+    expect(phaseOn(28)).toBe('waning-crescent');
+    expect(phaseOn(29)).toBe('new');
+  });
+
+  it('should handle dates before the reference date', () => {
+    const [moon] = calculateMoons(calendar, at(999, 12, 30), dateToWorldTime);
+
+    expect(moon.dayInCycle).toBe(27);
+    expect(moon.currentPhase?.icon).toBe('waning-crescent');
+  });
+
+  it('should calculate the next full and new moon timestamps', () => {
+    const [moon] = calculateMoons(calendar, at(1000, 1, 3, 6), dateToWorldTime);
+
+    expect(moon.nextFullMoon).toBe(at(1000, 1, 15));
+    expect(moon.nextNewMoon).toBe(at(1000, 1, 29));
+  });
+
+  it('should look ahead a full cycle when the moon is currently full', () => {
+    const [moon] = calculateMoons(calendar, at(1000, 1, 15), dateToWorldTime);
+
+    expect(moon.currentPhase?.icon).toBe('full');
+    expect(moon.nextFullMoon).toBe(at(1000, 2, 13));
+  });
+
+  it('should apply cycleDayAdjust', () => {
+    const adjusted = {
+      ...calendar,
+      moons: [{ ...calendar.moons[0], cycleDayAdjust: 14 }],
+    };
+    const [moon] = calculateMoons(adjusted, at(1000, 1, 1), dateToWorldTime);
+
+    expect(moon.currentPhase?.icon).toBe('full');
+  });
+
+  it('should generate default phases when a moon defines none', () => {
+    const [moon] = calculateMoons(
+      { moons: [{ name: 'Plain', cycleLength: 28 }] },
+      at(0, 1, 1),
+      dateToWorldTime
+    );
+
+    expect(moon.phases.map(phase => phase.icon)).toEqual(eightPhases.map(phase => phase.icon));
+    expect(moon.phases.reduce((sum, phase) => sum + phase.length, 0)).toBeCloseTo(28);
+  });
+
+  it('should use calendar time units for day boundaries', () => {
+    const shortDays = { ...calendar, time: { hoursInDay: 10, minutesInHour: 10, secondsInMinute: 10 } };
+    const shortDateToWorldTime = (date: CalendarDate) =>
+      (date.year * 360 + (date.month - 1) * 30 + (date.day - 1)) * 1000;
+
+    const [moon] = calculateMoons(shortDays, 1000 * (1000 * 360 + 14), shortDateToWorldTime);
+
+    expect(moon.currentPhase?.icon).toBe('full');
+    expect(moon.nextNewMoon).toBe(1000 * (1000 * 360 + 28));
+  });
+});
+
+describe('SimpleCalendarAPIBridge.getAllMoons()', () => {
+  beforeEach(() => {
+    (global as any).game.time.worldTime = at(1000, 1, 15);
+  });
+
+  it('should return no moons when S&S is not available', () => {
+    const api = new SimpleCalendarAPIBridge();
+    expect(api.getAllMoons()).toEqual([]);
+  });
+
+  it('should calculate moons from the active calendar', () => {
+    const mockSeasonsStars = {
+      isAvailable: true,
+      version: '1.0.0',
+      api: {
+        getActiveCalendar: () => calendar,
+        dateToWorldTime,
+        getCurrentDate: vi.fn(),
+        worldTimeToDate: vi.fn(),
+        formatDate: vi.fn(),
+        setActiveCalendar: vi.fn(),
+        getAvailableCalendars: vi.fn(),
+        getMonthNames: vi.fn(),
+        getWeekdayNames: vi.fn(),
+      },
+      widgets: { main: null, mini: null, grid: null },
+      hooks: {
+        onDateChanged: vi.fn(),
+        onCalendarChanged: vi.fn(),
+        onReady: vi.fn(),
+        off: vi.fn(),
+      },
+      hasFeature: vi.fn(),
+      getFeatureVersion: vi.fn(),
+    };
+
+    const api = new SimpleCalendarAPIBridge(mockSeasonsStars as any);
+    const moons = api.getAllMoons();
+
+    expect(moons).toHaveLength(1);
+    expect(moons[0].currentPhase).toEqual(eightPhases[4]);
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Tests for the in-memory calendar note index
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NoteIndex } from '../src/api/note-index';
+import { NoteRepeat, getNoteCalendarLayout } from '../src/api/note-recurrence';
+
+const layout = getNoteCalendarLayout({
+  months: Array.from({ length: 12 }, (_, i) => ({ name: `Month ${i + 1}`, days: 30 })),
+  weekdays: Array.from({ length: 7 }, (_, i) => ({ name: `Day ${i + 1}` })),
+});
+
+type FlagDate = { year: number; month: number; day: number };
+
+/** Create a journal entry with S&S note flags (1-based dates) */
+function createNote(
+  id: string,
+  start: FlagDate,
+  options: { end?: FlagDate; repeats?: number } = {}
+): any {
+  return {
+    id,
+    name: id,
+    flags: {
+      'seasons-and-stars': {
+        calendarNote: true,
+        dateKey: `${start.year}-${start.month}-${start.day}`,
+        startDate: start,
+        endDate: options.end,
+      },
+      'foundryvtt-simple-calendar-compat': {
+        bridgeCreated: true,
+        repeats: options.repeats,
+      },
+    },
+  };
+}
+
+/** Mock Foundry Hooks registry that lets tests fire document hooks */
+function mockHooks() {
+  const handlers = new Map<number, { hook: string; callback: Function }>();
+  let nextId = 1;
+
+  (global as any).Hooks = {
+    on: vi.fn((hook: string, callback: Function) => {
+      handlers.set(nextId, { hook, callback });
+      return nextId++;
+    }),
+    off: vi.fn((_hook: string, id: number) => handlers.delete(id)),
+  };
+
+  return {
+    handlers,
+    fire: (hook: string, ...args: any[]) => {
+      for (const handler of handlers.values()) {
+        if (handler.hook === hook) handler.callback(...args);
+      }
+    },
+  };
+}
+
+const ids = (notes: any[]) => notes.map(note => note.id);
+
+describe('NoteIndex', () => {
+  let journal: any[];
+
+  beforeEach(() => {
+    journal = [
+      createNote('a', { year: 1000, month: 1, day: 1 }),
+      createNote('b', { year: 1000, month: 1, day: 2 }),
+      createNote('c', { year: 1000, month: 1, day: 1 }),
+      createNote(
+        'span',
+        { year: 1000, month: 2, day: 29 },
+        { end: { year: 1000, month: 3, day: 2 } }
+      ),
+      createNote('yearly', { year: 999, month: 6, day: 1 }, { repeats: NoteRepeat.Yearly }),
+      { id: 'plain', name: 'Not a note', flags: {} },
+    ];
+    (global as any).game.journal = journal;
+  });
+
+  afterEach(() => {
+    delete (global as any).game.journal;
+    delete (global as any).Hooks;
+  });
+
+  it('should index only calendar notes', () => {
+    const index = new NoteIndex();
+    expect(ids(index.getNotes(layout))).toEqual(['a', 'b', 'c', 'span', 'yearly']);
+  });
+
+  it('should look up notes by day in journal order', () => {
+    const index = new NoteIndex();
+
+    expect(ids(index.getNotesForDay({ year: 1000, month: 0, day: 0 }, layout))).toEqual(['a', 'c']);
+    expect(ids(index.getNotesForDay({ year: 1000, month: 0, day: 1 }, layout))).toEqual(['b']);
+    expect(index.getNotesForDay({ year: 1000, month: 0, day: 5 }, layout)).toEqual([]);
+  });
+
+  it('should include multi-day and recurring notes in day lookups', () => {
+    const index = new NoteIndex();
+
+    expect(ids(index.getNotesForDay({ year: 1000, month: 2, day: 0 }, layout))).toEqual(['span']);
+    expect(ids(index.getNotesForDay({ year: 1010, month: 5, day: 0 }, layout))).toEqual(['yearly']);
+  });
+
+  it('should answer range queries', () => {
+    const index = new NoteIndex();
+
+    expect(
+      ids(
+        index.getNotesBetween(
+          { year: 1000, month: 0, day: 1 },
+          { year: 1000, month: 2, day: 0 },
+          layout
+        )
+      )
+    ).toEqual(['b', 'span']);
+    expect(
+      ids(
+        index.getNotesBetween(
+          { year: 1005, month: 0, day: 0 },
+          { year: 1005, month: 11, day: 29 },
+          layout
+        )
+      )
+    ).toEqual(['yearly']);
+    expect(ids(index.getNotesBetween(null, { year: 1000, month: 0, day: 0 }, layout))).toEqual([
+      'a',
+      'c',
+      'yearly',
+    ]);
+  });
+
+  it('should range-query notes with only bridge flags by their original date', () => {
+    journal.push({
+      id: 'bridge-only',
+      name: 'bridge-only',
+      flags: {
+        'foundryvtt-simple-calendar-compat': {
+          bridgeCreated: true,
+          originalFormat: { startDate: { year: 1003, month: 4, day: 9 } },
+        },
+      },
+    });
+    const index = new NoteIndex();
+
+    expect(
+      ids(
+        index.getNotesBetween(
+          { year: 1003, month: 4, day: 0 },
+          { year: 1003, month: 4, day: 29 },
+          layout
+        )
+      )
+    ).toEqual(['bridge-only']);
+    expect(
+      ids(
+        index.getNotesBetween(
+          { year: 1000, month: 0, day: 0 },
+          { year: 1000, month: 0, day: 0 },
+          layout
+        )
+      )
+    ).toEqual(['a', 'c']);
+  });
+
+  it('should rebuild when game.journal is replaced', () => {
+    const index = new NoteIndex();
+    expect(index.getNotes(layout)).toHaveLength(5);
+
+    (global as any).game.journal = [createNote('new', { year: 1, month: 1, day: 1 })];
+    expect(ids(index.getNotes(layout))).toEqual(['new']);
+  });
+
+  describe('journal hooks', () => {
+    it('should register and unregister document hooks', () => {
+      const { handlers } = mockHooks();
+      const index = new NoteIndex();
+
+      index.registerHooks();
+      index.registerHooks();
+      expect(Array.from(handlers.values(), handler => handler.hook)).toEqual([
+        'createJournalEntry',
+        'updateJournalEntry',
+        'deleteJournalEntry',
+      ]);
+
+      index.unregisterHooks();
+      expect(handlers.size).toBe(0);
+    });
+
+    it('should add created notes', () => {
+      const { fire } = mockHooks();
+      const index = new NoteIndex();
+      index.registerHooks();
+      index.getNotes(layout);
+
+      const created = createNote('created', { year: 1000, month: 1, day: 1 });
+      journal.push(created);
+      fire('createJournalEntry', created);
+
+      expect(ids(index.getNotesForDay({ year: 1000, month: 0, day: 0 }, layout))).toEqual([
+        'a',
+        'c',
+        'created',
+      ]);
+    });
+
+    it('should move updated notes to their new date', () => {
+      const { fire } = mockHooks();
+      const index = new NoteIndex();
+      index.registerHooks();
+      index.getNotes(layout);
+
+      journal[0].flags['seasons-and-stars'].startDate = { year: 1000, month: 1, day: 2 };
+      journal[0].flags['seasons-and-stars'].dateKey = '1000-1-2';
+      fire('updateJournalEntry', journal[0], {});
+
+      expect(ids(index.getNotesForDay({ year: 1000, month: 0, day: 0 }, layout))).toEqual(['c']);
+      expect(ids(index.getNotesForDay({ year: 1000, month: 0, day: 1 }, layout))).toEqual([
+        'a',
+        'b',
+      ]);
+    });
+
+    it('should drop notes whose calendar flags are removed', () => {
+      const { fire } = mockHooks();
+      const index = new NoteIndex();
+      index.registerHooks();
+      index.getNotes(layout);
+
+      journal[1].flags = {};
+      fire('updateJournalEntry', journal[1], {});
+
+      expect(ids(index.getNotes(layout))).toEqual(['a', 'c', 'span', 'yearly']);
+    });
+
+    it('should remove deleted notes', () => {
+      const { fire } = mockHooks();
+      const index = new NoteIndex();
+      index.registerHooks();
+      index.getNotes(layout);
+
+      const [deleted] = journal.splice(2, 1);
+      fire('deleteJournalEntry', deleted);
+
+      expect(ids(index.getNotesForDay({ year: 1000, month: 0, day: 0 }, layout))).toEqual(['a']);
+      expect(
+        ids(
+          index.getNotesBetween(
+            { year: 1000, month: 0, day: 0 },
+            { year: 1000, month: 0, day: 0 },
+            layout
+          )
+        )
+      ).toEqual(['a']);
+    });
+  });
+
+  describe('large journals', () => {
+    const JOURNAL_SIZE = 20000;
+    const LOOKUPS = 500;
+
+    /** Synthetic world: one weather note per day plus unrelated journal entries */
+    function createSyntheticJournal(): any[] {
+      const entries: any[] = [];
+      for (let i = 0; i < JOURNAL_SIZE; i++) {
+        if (i % 4 === 0) {
+          entries.push({ id: `journal-${i}`, name: `Handout ${i}`, flags: {} });
+          continue;
+        }
+        const dayOfYear = i % 360;
+        entries.push(
+          createNote(`note-${i}`, {
+            year: 1000 + Math.floor(i / 360),
+            month: Math.floor(dayOfYear / 30) + 1,
+            day: (dayOfYear % 30) + 1,
+          })
+        );
+      }
+      return entries;
+    }
+
+    /**
+     * Count reads of each entry's flags, which every lookup needs to inspect a
+     * journal entry, so tests can check lookups do not visit the whole journal
+     */
+    function trackVisits(entries: any[]): { count: number } {
+      const visits = { count: 0 };
+      for (const entry of entries) {
+        const flags = entry.flags;
+        Object.defineProperty(entry, 'flags', {
+          get: () => {
+            visits.count++;
+            return flags;
+          },
+        });
+      }
+      return visits;
+    }
+
+    /** The previous implementation: scan every journal entry for each lookup */
+    function scanForDay(entries: any[], date: { year: number; month: number; day: number }) {
+      return entries.filter(entry => {
+        const flags = entry.flags?.['seasons-and-stars'];
+        return flags?.dateKey === `${date.year}-${date.month + 1}-${date.day + 1}`;
+      });
+    }
+
+    it('should answer day lookups like a scan of the journal without visiting it', () => {
+      const entries = createSyntheticJournal();
+      const visits = trackVisits(entries);
+      (global as any).game.journal = entries;
+      const dates = Array.from({ length: LOOKUPS }, (_, i) => ({
+        year: 1000 + (i % 50),
+        month: i % 12,
+        day: i % 30,
+      }));
+
+      const index = new NoteIndex();
+      index.getNotes(layout); // build once, as the first lookup in a session would
+      visits.count = 0;
+
+      const indexed = dates.map(date => index.getNotesForDay(date, layout));
+      const indexedVisits = visits.count;
+      const scanned = dates.map(date => scanForDay(entries, date));
+
+      expect(indexed.map(ids)).toEqual(scanned.map(ids));
+      // At most the matching notes are read, where a scan reads every entry per lookup
+      expect(indexedVisits).toBeLessThanOrEqual(indexed.flat().length);
+      expect(visits.count - indexedVisits).toBe(LOOKUPS * JOURNAL_SIZE);
+    });
+
+    it('should answer range queries like a scan of the journal without visiting it', () => {
+      const entries = createSyntheticJournal();
+      const visits = trackVisits(entries);
+      (global as any).game.journal = entries;
+      const ranges = Array.from({ length: LOOKUPS / 5 }, (_, i) => ({
+        from: { year: 1010 + (i % 20), month: i % 12, day: 0 },
+        to: { year: 1010 + (i % 20), month: i % 12, day: 6 },
+      }));
+
+      const index = new NoteIndex();
+      index.getNotes(layout);
+      visits.count = 0;
+
+      const indexed = ranges.map(({ from, to }) => index.getNotesBetween(from, to, layout));
+      const indexedVisits = visits.count;
+      const scanned = ranges.map(({ from, to }) =>
+        Array.from({ length: to.day - from.day + 1 }, (_, offset) =>
+          scanForDay(entries, { ...from, day: from.day + offset })
+        ).flat()
+      );
+
+      expect(indexed.map(notes => ids(notes).sort())).toEqual(
+        scanned.map(notes => ids(notes).sort())
+      );
+      expect(indexedVisits).toBeLessThanOrEqual(indexed.flat().length);
+    });
+  });
+});
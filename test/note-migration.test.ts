@@ -0,0 +1,320 @@
+/**
+ * Tests for migrating Simple Calendar notes to bridge calendar notes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SimpleCalendarAPIBridge, NoteRepeat } from '../src/api/simple-calendar-api';
+import gregorianExport from './fixtures/simple-calendar/gregorian.json';
+import harptosExport from './fixtures/simple-calendar/harptos.json';
+
+const originalGame = (global as any).game;
+const originalUi = (global as any).ui;
+
+const calendar = {
+  id: 'test',
+  months: Array.from({ length: 12 }, (_, i) => ({ name: `Month ${i + 1}`, days: 30 })),
+  weekdays: Array.from({ length: 7 }, (_, i) => ({ name: `Day ${i + 1}` })),
+};
+
+/** Create a journal entry the way Simple Calendar stores notes (0-based dates) */
+function createSimpleCalendarNote(id: string, noteData: Record<string, unknown>, flags = {}): any {
+  const journal: any = {
+    id,
+    name: id,
+    folder: 'sc-notes',
+    ownership: { default: 0, gm: 3 },
+    pages: { contents: [{ text: { content: `${id} details` } }] },
+    flags: {
+      core: { sheetClass: '' },
+      'foundryvtt-simple-calendar': {
+        noteData: {
+          calendarId: 'default',
+          startDate: { year: 2024, month: 6, day: 3, hour: 0, minute: 0, seconds: 0 },
+          endDate: { year: 2024, month: 6, day: 3, hour: 0, minute: 0, seconds: 0 },
+          allDay: true,
+          repeats: 0,
+          order: 0,
+          categories: [],
+          remindUsers: [],
+          macro: 'none',
+          ...noteData,
+        },
+      },
+      ...flags,
+    },
+  };
+  // Mirrors update(data, { recursive: false }): top-level keys are replaced
+  journal.update = vi.fn(async (data: any) => Object.assign(journal, data));
+  return journal;
+}
+
+function createBridge(): SimpleCalendarAPIBridge {
+  return new SimpleCalendarAPIBridge({
+    isAvailable: true,
+    version: '1.0.0',
+    api: {
+      getActiveCalendar: () => calendar,
+      getCurrentDate: vi.fn(),
+      worldTimeToDate: vi.fn(),
+      dateToWorldTime: vi.fn(() => 0),
+      formatDate: vi.fn(),
+      setActiveCalendar: vi.fn(),
+      getAvailableCalendars: vi.fn(),
+      getMonthNames: vi.fn(),
+      getWeekdayNames: vi.fn(),
+    },
+    widgets: { main: null, mini: null, grid: null },
+    hooks: { onDateChanged: vi.fn(), onCalendarChanged: vi.fn(), onReady: vi.fn(), off: vi.fn() },
+    hasFeature: vi.fn(),
+    getFeatureVersion: vi.fn(),
+  });
+}
+
+describe('Simple Calendar note migration', () => {
+  let journals: any[];
+  let progress: { update: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    journals = [
+      createSimpleCalendarNote('festival', {
+        startDate: { year: 2024, month: 6, day: 3, hour: 9, minute: 30, seconds: 15 },
+        endDate: { year: 2024, month: 6, day: 5, hour: 18, minute: 0, seconds: 0 },
+        allDay: false,
+        repeats: NoteRepeat.Yearly,
+        categories: ['nc1', 'missing'],
+        remindUsers: ['player-1'],
+        macro: 'macro-1',
+      }),
+      createSimpleCalendarNote('visible', {}),
+      { id: 'plain', name: 'Not a note', flags: {}, update: vi.fn() },
+    ];
+    journals[1].ownership.default = 2;
+    progress = { update: vi.fn() };
+
+    (global as any).game = {
+      ...originalGame,
+      user: { isGM: true, id: 'gm' },
+      journal: journals,
+      folders: [
+        { id: 'calendar-notes', type: 'JournalEntry', getFlag: () => true, setFlag: vi.fn() },
+      ],
+      settings: {
+        ...originalGame.settings,
+        storage: {
+          get: () => ({
+            'foundryvtt-simple-calendar.calendars': JSON.stringify(gregorianExport.calendars),
+            'foundryvtt-simple-calendar.current-calendar': 'default',
+          }),
+        },
+      },
+    };
+    (global as any).ui = { notifications: { info: vi.fn(() => progress) } };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (global as any).game = originalGame;
+    (global as any).ui = originalUi;
+    vi.restoreAllMocks();
+  });
+
+  it('should preview notes without changing them in a dry run', async () => {
+    const result = await createBridge().runMigration({ dryRun: true });
+
+    expect(result).toMatchObject({ dryRun: true, total: 2, migrated: 2, skipped: 0, failed: 0 });
+    expect(result!.notes[0]).toEqual({
+      journalId: 'festival',
+      name: 'festival',
+      status: 'ready',
+      startDate: { year: 2024, month: 6, day: 3, hour: 9, minute: 30, seconds: 15 },
+      endDate: { year: 2024, month: 6, day: 5, hour: 18, minute: 0, seconds: 0 },
+      allDay: false,
+      repeats: NoteRepeat.Yearly,
+      categories: ['Holiday'],
+      playerVisible: false,
+      remindUsers: ['player-1'],
+      issues: [
+        'Unknown category "missing" is dropped',
+        'Reminders for 1 user are kept but not posted to chat',
+        "Macro macro-1 is kept but will not run on the note's date",
+      ],
+    });
+    expect(result!.notes[1]).toMatchObject({ endDate: null, playerVisible: true, issues: [] });
+    expect(journals[0].update).not.toHaveBeenCalled();
+    expect((global as any).ui.notifications.info).not.toHaveBeenCalled();
+  });
+
+  it('should write the flag layout of bridge notes and keep Simple Calendar data', async () => {
+    const result = await createBridge().runMigration();
+
+    expect(result).toMatchObject({ dryRun: false, total: 2, migrated: 2, failed: 0 });
+    expect(journals[0].update).toHaveBeenCalledWith(expect.any(Object), { recursive: false });
+
+    const festival = journals[0];
+    expect(festival.folder).toBe('calendar-notes');
+    expect(festival.flags['seasons-and-stars']).toMatchObject({
+      calendarNote: true,
+      dateKey: '2024-7-4',
+      startDate: { year: 2024, month: 7, day: 4, hour: 9, minute: 30, second: 15 },
+      endDate: { year: 2024, month: 7, day: 6, hour: 18, minute: 0, second: 0 },
+      allDay: false,
+      category: 'holiday',
+      tags: ['Holiday'],
+    });
+    expect(festival.flags['foundryvtt-simple-calendar-compat']).toMatchObject({
+      bridgeCreated: true,
+      repeats: NoteRepeat.Yearly,
+      remindUsers: ['player-1'],
+      macro: 'macro-1',
+      migration: {
+        source: 'simple-calendar',
+        previousFolder: 'sc-notes',
+        previousFlags: {
+          'seasons-and-stars': null,
+          'foundryvtt-simple-calendar-compat': null,
+        },
+      },
+    });
+    expect(festival.flags['foundryvtt-simple-calendar'].noteData.macro).toBe('macro-1');
+    expect(festival.flags.core).toEqual({ sheetClass: '' });
+    expect(festival.ownership).toEqual({ default: 0, gm: 3 });
+    expect(journals[1].flags['seasons-and-stars'].category).toBe('general');
+  });
+
+  it('should date Harptos notes by the Seasons & Stars month and festival', async () => {
+    (global as any).game.settings.storage = {
+      get: () => ({
+        'foundryvtt-simple-calendar.calendars': JSON.stringify(harptosExport.calendars),
+        'foundryvtt-simple-calendar.current-calendar': 'harptos',
+      }),
+    };
+    // Simple Calendar counts the festivals as months: 1 is Midwinter and 11 is Eleasis
+    journals.splice(
+      0,
+      2,
+      createSimpleCalendarNote('feast', {
+        calendarId: 'harptos',
+        startDate: { year: 1495, month: 1, day: 0, hour: 0, minute: 0, seconds: 0 },
+        endDate: { year: 1495, month: 1, day: 0, hour: 0, minute: 0, seconds: 0 },
+      }),
+      createSimpleCalendarNote('harvest', {
+        calendarId: 'harptos',
+        startDate: { year: 1495, month: 11, day: 4, hour: 0, minute: 0, seconds: 0 },
+        endDate: { year: 1495, month: 12, day: 2, hour: 0, minute: 0, seconds: 0 },
+      })
+    );
+
+    const result = await createBridge().runMigration();
+
+    expect(result).toMatchObject({ migrated: 2, failed: 0 });
+    expect(journals[0].flags['seasons-and-stars']).toMatchObject({
+      dateKey: '1495-1-1',
+      startDate: { year: 1495, month: 1, day: 1, intercalary: 'Midwinter' },
+    });
+    expect(journals[1].flags['seasons-and-stars']).toMatchObject({
+      dateKey: '1495-8-5',
+      startDate: { year: 1495, month: 8, day: 5 },
+      endDate: { year: 1495, month: 9, day: 3 },
+    });
+    expect(journals[1].flags['seasons-and-stars'].startDate).not.toHaveProperty('intercalary');
+  });
+
+  it('should list migrated notes through the notes API', async () => {
+    const api = createBridge();
+    await api.runMigration();
+
+    expect(api.getNotes().map(note => note.id)).toEqual(['festival', 'visible']);
+    expect(api.getNotesForDay(2024, 6, 4).map(note => note.id)).toEqual(['festival']);
+    expect(api.getNotesForDay(2025, 6, 3).map(note => note.id)).toEqual(['festival']);
+  });
+
+  it('should report progress while migrating', async () => {
+    const onProgress = vi.fn();
+    await createBridge().runMigration({ onProgress });
+
+    expect((global as any).ui.notifications.info).toHaveBeenCalledWith(
+      'Migrating 2 Simple Calendar notes',
+      { progress: true }
+    );
+    expect(progress.update).toHaveBeenLastCalledWith({
+      pct: 1,
+      message: 'Migrating Simple Calendar notes (2/2)',
+    });
+    expect(onProgress.mock.calls).toEqual([
+      [1, 2],
+      [2, 2],
+    ]);
+  });
+
+  it('should skip notes already migrated when run again', async () => {
+    const api = createBridge();
+    await api.runMigration();
+    journals[0].update.mockClear();
+
+    const result = await api.runMigration();
+
+    expect(result).toMatchObject({ total: 2, migrated: 0, skipped: 2 });
+    expect(result!.notes[0]).toMatchObject({ status: 'skipped', error: 'Already migrated' });
+    expect(journals[0].update).not.toHaveBeenCalled();
+  });
+
+  it('should skip journals that already are calendar notes', async () => {
+    journals.push(
+      createSimpleCalendarNote('converted', {}, { 'seasons-and-stars': { calendarNote: true } })
+    );
+
+    const result = await createBridge().runMigration();
+
+    expect(result!.notes[2]).toMatchObject({ status: 'skipped', error: 'Already a calendar note' });
+    expect(journals[3].update).not.toHaveBeenCalled();
+  });
+
+  it('should carry on past notes that cannot be migrated', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    journals[0].update.mockRejectedValueOnce(new Error('Permission denied'));
+    journals.push(createSimpleCalendarNote('undated', { startDate: null }));
+
+    const result = await createBridge().runMigration();
+
+    expect(result).toMatchObject({ total: 3, migrated: 1, failed: 2 });
+    expect(result!.notes.map(note => note.error)).toEqual([
+      'Permission denied',
+      undefined,
+      'Note has no start date',
+    ]);
+    expect(error).toHaveBeenCalledOnce();
+  });
+
+  it('should report notes of another Simple Calendar calendar', async () => {
+    journals.push(createSimpleCalendarNote('elsewhere', { calendarId: 'harptos' }));
+
+    const result = await createBridge().runMigration({ dryRun: true });
+
+    expect(result!.notes[2].issues).toEqual([
+      'Belongs to the Simple Calendar calendar "harptos", not the active one',
+    ]);
+  });
+
+  it('should restore flags and folders on rollback', async () => {
+    const api = createBridge();
+    const before = journals.map(journal => JSON.parse(JSON.stringify(journal.flags)));
+    await api.runMigration();
+
+    expect(await api.rollbackMigration()).toBe(2);
+
+    expect(journals[0].folder).toBe('sc-notes');
+    expect(journals[0].flags).toEqual(before[0]);
+    expect(journals[1].flags).toEqual(before[1]);
+    expect(await api.rollbackMigration()).toBe(0);
+  });
+
+  it('should only let GMs migrate notes', async () => {
+    (global as any).game.user.isGM = false;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const api = createBridge();
+
+    expect(await api.runMigration()).toBeNull();
+    expect(await api.rollbackMigration()).toBe(0);
+    expect(journals[0].update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Tests for recurring notes (NoteRepeat) in the notes API
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SimpleCalendarAPIBridge, NoteRepeat } from '../src/api/simple-calendar-api';
+import { getNoteCalendarLayout, noteRecursBetween, noteRecursOn } from '../src/api/note-recurrence';
+import { CalendarEngine } from '../src/calendar/engine';
+
+// 12 months alternating 30/31 days with a 5 day week
+const calendar = {
+  id: 'test',
+  months: Array.from({ length: 12 }, (_, i) => ({ name: `Month ${i + 1}`, days: 30 + (i % 2) })),
+  weekdays: Array.from({ length: 5 }, (_, i) => ({ name: `Day ${i + 1}` })),
+};
+const layout = getNoteCalendarLayout(calendar);
+
+/** Create a journal entry with S&S note flags (1-based start date) */
+function createNote(
+  id: string,
+  start: { year: number; month: number; day: number },
+  repeats?: number,
+  name = id
+): any {
+  return {
+    id,
+    name,
+    pages: { contents: [{ text: { content: '' } }] },
+    flags: {
+      'seasons-and-stars': {
+        calendarNote: true,
+        dateKey: `${start.year}-${start.month}-${start.day}`,
+        startDate: start,
+      },
+      'foundryvtt-simple-calendar-compat': {
+        bridgeCreated: true,
+        ...(repeats !== undefined ? { repeats } : {}),
+      },
+    },
+  };
+}
+
+function createBridge(): SimpleCalendarAPIBridge {
+  return new SimpleCalendarAPIBridge({
+    isAvailable: true,
+    version: '1.0.0',
+    api: {
+      getActiveCalendar: () => calendar,
+      getCurrentDate: vi.fn(),
+      worldTimeToDate: vi.fn(),
+      dateToWorldTime: vi.fn(() => 0),
+      formatDate: vi.fn(),
+      setActiveCalendar: vi.fn(),
+      getAvailableCalendars: vi.fn(),
+      getMonthNames: vi.fn(),
+      getWeekdayNames: vi.fn(),
+    },
+    widgets: { main: null, mini: null, grid: null },
+    hooks: { onDateChanged: vi.fn(), onCalendarChanged: vi.fn(), onReady: vi.fn(), off: vi.fn() },
+    hasFeature: vi.fn(),
+    getFeatureVersion: vi.fn(),
+  } as any);
+}
+
+/**
+ * Three 30-day months with a festival after the first and a leap day after the
+ * second; Simple Calendar month indexes count both festivals as months
+ */
+const festivalCalendar = {
+  id: 'festivals',
+  months: ['First', 'Second', 'Third'].map(name => ({ name, days: 30 })),
+  intercalary: [
+    { name: 'Midwinter', after: 'First', days: 1, countsForWeekdays: false },
+    { name: 'Leapday', after: 'Second', days: 1, leapYearOnly: true, countsForWeekdays: false },
+  ],
+  weekdays: Array.from({ length: 10 }, (_, i) => ({ name: `Day ${i + 1}` })),
+  leapYear: { rule: 'custom', interval: 4, offset: 0 },
+};
+const festivalLayout = getNoteCalendarLayout(festivalCalendar);
+
+/** Create a journal entry dated only by the bridge's 0-based Simple Calendar date */
+function createSimpleCalendarNote(
+  id: string,
+  start: { year: number; month: number; day: number },
+  repeats: number
+): any {
+  return {
+    id,
+    flags: {
+      'foundryvtt-simple-calendar-compat': { repeats, originalFormat: { startDate: start } },
+    },
+  };
+}
+
+describe('getNoteCalendarLayout', () => {
+  it('should read week and month lengths from the calendar', () => {
+    expect(layout.daysInWeek).toBe(5);
+    expect([1, 2, 3].map(month => layout.engine.getMonthLength(1000, month))).toEqual([30, 31, 30]);
+  });
+
+  it('should default to a 7 day week and the Gregorian calendar', () => {
+    const fallback = getNoteCalendarLayout(null);
+    expect(fallback.daysInWeek).toBe(7);
+    expect(fallback.engine.getMonthEntries()).toHaveLength(12);
+    expect(fallback.engine.getMonthLength(2024, 2)).toBe(29);
+  });
+
+  it('should reuse a calendar engine it is given', () => {
+    const engine = new CalendarEngine(festivalCalendar);
+    const fromEngine = getNoteCalendarLayout(engine);
+
+    expect(fromEngine.engine).toBe(engine);
+    expect(fromEngine.daysInWeek).toBe(10);
+  });
+});
+
+describe('noteRecursOn', () => {
+  it('should never match notes without a repeat rule', () => {
+    const note = createNote('once', { year: 1000, month: 1, day: 1 });
+    expect(noteRecursOn(note, { year: 1000, month: 0, day: 0 }, layout)).toBe(false);
+  });
+
+  it('should repeat weekly using the calendar week length', () => {
+    const note = createNote('weekly', { year: 1000, month: 1, day: 1 }, NoteRepeat.Weekly);
+
+    expect(noteRecursOn(note, { year: 1000, month: 0, day: 5 }, layout)).toBe(true);
+    expect(noteRecursOn(note, { year: 1000, month: 0, day: 7 }, layout)).toBe(false);
+    // Day 30 of the year is the first day of month 2
+    expect(noteRecursOn(note, { year: 1000, month: 1, day: 0 }, layout)).toBe(true);
+    expect(noteRecursOn(note, { year: 999, month: 11, day: 26 }, layout)).toBe(false);
+  });
+
+  it('should repeat monthly on the same day', () => {
+    const note = createNote('monthly', { year: 1000, month: 1, day: 10 }, NoteRepeat.Monthly);
+
+    expect(noteRecursOn(note, { year: 1000, month: 5, day: 9 }, layout)).toBe(true);
+    expect(noteRecursOn(note, { year: 1001, month: 0, day: 9 }, layout)).toBe(true);
+    expect(noteRecursOn(note, { year: 1000, month: 5, day: 10 }, layout)).toBe(false);
+  });
+
+  it('should move monthly notes to the last day of shorter months', () => {
+    const note = createNote('end', { year: 1000, month: 2, day: 31 }, NoteRepeat.Monthly);
+
+    expect(noteRecursOn(note, { year: 1000, month: 2, day: 29 }, layout)).toBe(true);
+    expect(noteRecursOn(note, { year: 1000, month: 3, day: 30 }, layout)).toBe(true);
+  });
+
+  it('should repeat yearly on the same month and day', () => {
+    const note = createNote('yearly', { year: 1000, month: 6, day: 4 }, NoteRepeat.Yearly);
+
+    expect(noteRecursOn(note, { year: 1000, month: 5, day: 3 }, layout)).toBe(true);
+    expect(noteRecursOn(note, { year: 1250, month: 5, day: 3 }, layout)).toBe(true);
+    expect(noteRecursOn(note, { year: 1250, month: 6, day: 3 }, layout)).toBe(false);
+    expect(noteRecursOn(note, { year: 999, month: 5, day: 3 }, layout)).toBe(false);
+  });
+});
+
+describe('noteRecursBetween', () => {
+  it('should find occurrences inside a date range', () => {
+    const note = createNote('yearly', { year: 1000, month: 6, day: 4 }, NoteRepeat.Yearly);
+
+    expect(
+      noteRecursBetween(
+        note,
+        { year: 1010, month: 0, day: 0 },
+        { year: 1010, month: 11, day: 0 },
+        layout
+      )
+    ).toBe(true);
+    expect(
+      noteRecursBetween(
+        note,
+        { year: 1010, month: 6, day: 0 },
+        { year: 1011, month: 4, day: 0 },
+        layout
+      )
+    ).toBe(false);
+  });
+
+  it('should find weekly occurrences in short ranges', () => {
+    const note = createNote('weekly', { year: 1000, month: 1, day: 1 }, NoteRepeat.Weekly);
+
+    expect(
+      noteRecursBetween(
+        note,
+        { year: 1000, month: 0, day: 6 },
+        { year: 1000, month: 0, day: 9 },
+        layout
+      )
+    ).toBe(false);
+    expect(
+      noteRecursBetween(
+        note,
+        { year: 1000, month: 0, day: 6 },
+        { year: 1000, month: 0, day: 10 },
+        layout
+      )
+    ).toBe(true);
+  });
+});
+
+describe('recurring notes with leap years and intercalary months', () => {
+  it('should count festivals as months', () => {
+    // Third month, day 5: index 4 after Midwinter and Leapday
+    const note = createSimpleCalendarNote(
+      'third',
+      { year: 1001, month: 4, day: 4 },
+      NoteRepeat.Yearly
+    );
+
+    expect(noteRecursOn(note, { year: 1002, month: 4, day: 4 }, festivalLayout)).toBe(true);
+    expect(noteRecursOn(note, { year: 1004, month: 4, day: 4 }, festivalLayout)).toBe(true);
+    expect(noteRecursOn(note, { year: 1002, month: 2, day: 4 }, festivalLayout)).toBe(false);
+  });
+
+  it('should repeat monthly notes on regular months only', () => {
+    const note = createSimpleCalendarNote(
+      'monthly',
+      { year: 1001, month: 0, day: 9 },
+      NoteRepeat.Monthly
+    );
+
+    expect(noteRecursOn(note, { year: 1001, month: 2, day: 9 }, festivalLayout)).toBe(true);
+    expect(noteRecursOn(note, { year: 1001, month: 4, day: 9 }, festivalLayout)).toBe(true);
+    expect(noteRecursOn(note, { year: 1001, month: 1, day: 0 }, festivalLayout)).toBe(false);
+    expect(noteRecursOn(note, { year: 1004, month: 3, day: 0 }, festivalLayout)).toBe(false);
+  });
+
+  it('should repeat leap day notes in leap years only', () => {
+    const note = createSimpleCalendarNote(
+      'leap',
+      { year: 1000, month: 3, day: 0 },
+      NoteRepeat.Yearly
+    );
+
+    expect(noteRecursOn(note, { year: 1004, month: 3, day: 0 }, festivalLayout)).toBe(true);
+    expect(
+      noteRecursBetween(
+        note,
+        { year: 1001, month: 0, day: 0 },
+        { year: 1003, month: 4, day: 29 },
+        festivalLayout
+      )
+    ).toBe(false);
+    expect(
+      noteRecursBetween(
+        note,
+        { year: 1001, month: 0, day: 0 },
+        { year: 1004, month: 4, day: 29 },
+        festivalLayout
+      )
+    ).toBe(true);
+  });
+
+  it('should move yearly leap day notes to the last day of the month in common years', () => {
+    const gregorian = getNoteCalendarLayout(null);
+    const note = createSimpleCalendarNote(
+      'feb29',
+      { year: 2024, month: 1, day: 28 },
+      NoteRepeat.Yearly
+    );
+
+    expect(noteRecursOn(note, { year: 2025, month: 1, day: 27 }, gregorian)).toBe(true);
+    expect(noteRecursOn(note, { year: 2028, month: 1, day: 28 }, gregorian)).toBe(true);
+    expect(noteRecursOn(note, { year: 2028, month: 1, day: 27 }, gregorian)).toBe(false);
+  });
+
+  it('should count leap days when repeating weekly', () => {
+    const note = createSimpleCalendarNote(
+      'weekly',
+      { year: 1004, month: 2, day: 24 },
+      NoteRepeat.Weekly
+    );
+
+    // 5 days to the end of the second month, the leap day, then 4 days of the third
+    expect(noteRecursOn(note, { year: 1004, month: 4, day: 3 }, festivalLayout)).toBe(true);
+    expect(noteRecursOn(note, { year: 1004, month: 4, day: 4 }, festivalLayout)).toBe(false);
+  });
+});
+
+describe('SimpleCalendarAPIBridge recurring notes', () => {
+  let notes: any[];
+
+  beforeEach(() => {
+    notes = [
+      createNote('once', { year: 1000, month: 1, day: 1 }, undefined, 'Market Day'),
+      createNote(
+        'festival',
+        { year: 1000, month: 6, day: 4 },
+        NoteRepeat.Yearly,
+        'Midsummer Festival'
+      ),
+    ];
+    (global as any).game.journal = Object.assign(notes, {
+      get: (id: string) => notes.find(note => note.id === id),
+    });
+  });
+
+  afterEach(() => {
+    delete (global as any).game.journal;
+    delete (global as any).JournalEntry;
+    delete (global as any).game.folders;
+    (global as any).game.user.isGM = false;
+  });
+
+  it('should return yearly notes on every matching day', () => {
+    const api = createBridge();
+
+    expect(api.getNotesForDay(1000, 5, 3).map(note => note.id)).toEqual(['festival']);
+    expect(api.getNotesForDay(1042, 5, 3).map(note => note.id)).toEqual(['festival']);
+    expect(api.getNotesForDay(1042, 0, 0)).toEqual([]);
+  });
+
+  it('should still match non-recurring notes by date only', () => {
+    const api = createBridge();
+
+    expect(api.getNotesForDay(1000, 0, 0).map(note => note.id)).toEqual(['once']);
+    expect(api.getNotesForDay(1001, 0, 0)).toEqual([]);
+  });
+
+  it('should list each recurring note once in getNotes()', () => {
+    const api = createBridge();
+    expect(api.getNotes().map(note => note.id)).toEqual(['once', 'festival']);
+  });
+
+  it('should include recurring notes occurring in a getNotes() date range', () => {
+    const api = createBridge();
+
+    expect(
+      api
+        .getNotes({ year: 1050, month: 0, day: 0 }, { year: 1050, month: 11, day: 0 })
+        .map(note => note.id)
+    ).toEqual(['festival']);
+    expect(
+      api
+        .getNotes({ year: 1050, month: 6, day: 0 }, { year: 1051, month: 4, day: 0 })
+        .map(note => note.id)
+    ).toEqual([]);
+  });
+
+  it('should include recurring notes in date range searches', () => {
+    const api = createBridge();
+
+    const results = api.searchNotes(
+      'festival',
+      { year: 1050, month: 0, day: 0 },
+      { year: 1050, month: 11, day: 0 }
+    );
+
+    expect(results.map(note => note.id)).toEqual(['festival']);
+  });
+
+  it('should store the repeat rule when creating a note', async () => {
+    (global as any).game.user.isGM = true;
+    (global as any).game.folders = [
+      {
+        id: 'folder',
+        type: 'JournalEntry',
+        getFlag: () => true,
+        setFlag: vi.fn(),
+      },
+    ];
+    const create = vi.fn(async (data: any) => ({
+      ...data,
+      createEmbeddedDocuments: vi.fn(),
+    }));
+    (global as any).JournalEntry = { create };
+
+    const api = createBridge();
+    await api.addNote(
+      'Harvest',
+      '',
+      { year: 1000, month: 8, day: 0 },
+      null,
+      true,
+      NoteRepeat.Yearly
+    );
+
+    const flags = create.mock.calls[0][0].flags;
+    expect(flags['foundryvtt-simple-calendar-compat'].repeats).toBe(NoteRepeat.Yearly);
+    expect(flags['seasons-and-stars'].dateKey).toBe('1000-9-1');
+  });
+
+  it('should default to never repeating', async () => {
+    (global as any).game.user.isGM = true;
+    (global as any).game.folders = [
+      { id: 'folder', type: 'JournalEntry', getFlag: () => true, setFlag: vi.fn() },
+    ];
+    const create = vi.fn(async (data: any) => ({ ...data, createEmbeddedDocuments: vi.fn() }));
+    (global as any).JournalEntry = { create };
+
+    const api = createBridge();
+    await api.addNote('Once', '', { year: 1000, month: 0, day: 0 }, null, true);
+
+    expect(create.mock.calls[0][0].flags['foundryvtt-simple-calendar-compat'].repeats).toBe(
+      NoteRepeat.Never
+    );
+  });
+});
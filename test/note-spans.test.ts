@@ -0,0 +1,218 @@
+/**
+ * Tests for multi-day note span matching in getNotesForDay()
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SimpleCalendarAPIBridge, NoteRepeat } from '../src/api/simple-calendar-api';
+import { getNoteCalendarLayout, noteSpansDate } from '../src/api/note-recurrence';
+
+// Harptos-style calendar with a one-day intercalary month between months
+const calendar = {
+  id: 'intercalary',
+  months: [
+    { name: 'Hammer', days: 30 },
+    { name: 'Midwinter', days: 1, intercalary: true },
+    { name: 'Alturiak', days: 30 },
+    { name: 'Ches', days: 30 },
+  ],
+  weekdays: Array.from({ length: 10 }, (_, i) => ({ name: `Day ${i + 1}` })),
+};
+const layout = getNoteCalendarLayout(calendar);
+
+type FlagDate = { year: number; month: number; day: number };
+
+/** Note stored with the current dateKey layout (no startDate flag) */
+function createDateKeyNote(id: string, start: FlagDate, end?: FlagDate, repeats?: number): any {
+  return {
+    id,
+    name: id,
+    flags: {
+      'seasons-and-stars': {
+        calendarNote: true,
+        dateKey: `${start.year}-${start.month}-${start.day}`,
+        endDate: end,
+      },
+      'foundryvtt-simple-calendar-compat': repeats !== undefined ? { repeats } : {},
+    },
+  };
+}
+
+/** Note stored with the legacy startDate layout (no dateKey flag) */
+function createStartDateNote(id: string, start: FlagDate, end?: FlagDate): any {
+  return {
+    id,
+    name: id,
+    flags: {
+      'seasons-and-stars': {
+        calendarNote: true,
+        startDate: start,
+        endDate: end,
+      },
+    },
+  };
+}
+
+function createBridge(): SimpleCalendarAPIBridge {
+  return new SimpleCalendarAPIBridge({
+    isAvailable: true,
+    version: '1.0.0',
+    api: {
+      getActiveCalendar: () => calendar,
+      getCurrentDate: vi.fn(),
+      worldTimeToDate: vi.fn(),
+      dateToWorldTime: vi.fn(),
+      formatDate: vi.fn(),
+      setActiveCalendar: vi.fn(),
+      getAvailableCalendars: vi.fn(),
+      getMonthNames: vi.fn(),
+      getWeekdayNames: vi.fn(),
+    },
+    widgets: { main: null, mini: null, grid: null },
+    hooks: { onDateChanged: vi.fn(), onCalendarChanged: vi.fn(), onReady: vi.fn(), off: vi.fn() },
+    hasFeature: vi.fn(),
+    getFeatureVersion: vi.fn(),
+  } as any);
+}
+
+describe('noteSpansDate', () => {
+  it('should not match single-day notes', () => {
+    const note = createDateKeyNote('single', { year: 1490, month: 1, day: 5 });
+    expect(noteSpansDate(note, { year: 1490, month: 0, day: 4 }, layout)).toBe(false);
+  });
+
+  it('should include the start and end days', () => {
+    const note = createDateKeyNote(
+      'festival',
+      { year: 1490, month: 1, day: 5 },
+      { year: 1490, month: 1, day: 7 }
+    );
+
+    expect(noteSpansDate(note, { year: 1490, month: 0, day: 4 }, layout)).toBe(true);
+    expect(noteSpansDate(note, { year: 1490, month: 0, day: 6 }, layout)).toBe(true);
+    expect(noteSpansDate(note, { year: 1490, month: 0, day: 7 }, layout)).toBe(false);
+  });
+});
+
+describe('SimpleCalendarAPIBridge multi-day notes', () => {
+  let notes: any[];
+
+  const idsForDay = (year: number, month: number, day: number) =>
+    createBridge()
+      .getNotesForDay(year, month, day)
+      .map(note => note.id)
+      .sort();
+
+  beforeEach(() => {
+    notes = [];
+    (global as any).game.journal = notes;
+  });
+
+  afterEach(() => {
+    delete (global as any).game.journal;
+  });
+
+  describe('dateKey layout', () => {
+    it('should return a three-day festival on every day', () => {
+      notes.push(
+        createDateKeyNote(
+          'festival',
+          { year: 1490, month: 3, day: 10 },
+          { year: 1490, month: 3, day: 12 }
+        )
+      );
+
+      expect(idsForDay(1490, 2, 8)).toEqual([]);
+      expect(idsForDay(1490, 2, 9)).toEqual(['festival']);
+      expect(idsForDay(1490, 2, 10)).toEqual(['festival']);
+      expect(idsForDay(1490, 2, 11)).toEqual(['festival']);
+      expect(idsForDay(1490, 2, 12)).toEqual([]);
+    });
+
+    it('should cross an intercalary month', () => {
+      notes.push(
+        createDateKeyNote(
+          'midwinter',
+          { year: 1490, month: 1, day: 29 },
+          { year: 1490, month: 3, day: 2 }
+        )
+      );
+
+      expect(idsForDay(1490, 0, 29)).toEqual(['midwinter']);
+      expect(idsForDay(1490, 1, 0)).toEqual(['midwinter']);
+      expect(idsForDay(1490, 2, 0)).toEqual(['midwinter']);
+      expect(idsForDay(1490, 2, 1)).toEqual(['midwinter']);
+      expect(idsForDay(1490, 2, 2)).toEqual([]);
+    });
+
+    it('should cross a year boundary', () => {
+      notes.push(
+        createDateKeyNote(
+          'new-year',
+          { year: 1490, month: 4, day: 29 },
+          { year: 1491, month: 1, day: 2 }
+        )
+      );
+
+      expect(idsForDay(1490, 3, 29)).toEqual(['new-year']);
+      expect(idsForDay(1491, 0, 0)).toEqual(['new-year']);
+      expect(idsForDay(1491, 0, 1)).toEqual(['new-year']);
+      expect(idsForDay(1491, 0, 2)).toEqual([]);
+    });
+
+    it('should span every occurrence of a recurring note', () => {
+      notes.push(
+        createDateKeyNote(
+          'yearly',
+          { year: 1490, month: 1, day: 29 },
+          { year: 1490, month: 2, day: 1 },
+          NoteRepeat.Yearly
+        )
+      );
+
+      expect(idsForDay(1495, 0, 27)).toEqual([]);
+      expect(idsForDay(1495, 0, 28)).toEqual(['yearly']);
+      expect(idsForDay(1495, 1, 0)).toEqual(['yearly']);
+      expect(idsForDay(1495, 2, 0)).toEqual([]);
+    });
+  });
+
+  describe('legacy startDate layout', () => {
+    it('should return a three-day festival on every day', () => {
+      notes.push(
+        createStartDateNote(
+          'festival',
+          { year: 1490, month: 3, day: 10 },
+          { year: 1490, month: 3, day: 12 }
+        )
+      );
+
+      expect(idsForDay(1490, 2, 9)).toEqual(['festival']);
+      expect(idsForDay(1490, 2, 10)).toEqual(['festival']);
+      expect(idsForDay(1490, 2, 11)).toEqual(['festival']);
+      expect(idsForDay(1490, 2, 12)).toEqual([]);
+    });
+
+    it('should cross month and year boundaries', () => {
+      notes.push(
+        createStartDateNote(
+          'long',
+          { year: 1490, month: 4, day: 30 },
+          { year: 1491, month: 2, day: 1 }
+        )
+      );
+
+      expect(idsForDay(1490, 3, 28)).toEqual([]);
+      expect(idsForDay(1490, 3, 29)).toEqual(['long']);
+      expect(idsForDay(1491, 0, 15)).toEqual(['long']);
+      expect(idsForDay(1491, 1, 0)).toEqual(['long']);
+      expect(idsForDay(1491, 2, 0)).toEqual([]);
+    });
+
+    it('should keep matching single-day notes on their start date', () => {
+      notes.push(createStartDateNote('single', { year: 1490, month: 2, day: 1 }));
+
+      expect(idsForDay(1490, 1, 0)).toEqual(['single']);
+      expect(idsForDay(1490, 1, 1)).toEqual([]);
+    });
+  });
+});
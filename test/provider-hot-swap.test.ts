@@ -0,0 +1,200 @@
+/**
+ * Tests for switching calendar providers at runtime without a reload
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { BaseCalendarProvider } from '../src/providers/base-provider';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import { StandaloneProvider } from '../src/providers/standalone';
+import type { CalendarDate, ProviderRegistration } from '../src/types';
+
+/**
+ * Provider whose dates all fall in its own year, so tests can tell providers apart
+ */
+class FakeProvider extends BaseCalendarProvider {
+  readonly version = '1.0.0';
+  buttons = new Set<string>();
+  cleanup = vi.fn();
+
+  constructor(
+    readonly name: string,
+    private year: number
+  ) {
+    super();
+  }
+
+  getCurrentDate(): CalendarDate {
+    return this.worldTimeToDate();
+  }
+  worldTimeToDate(): CalendarDate {
+    return { year: this.year, month: 1, day: 1, weekday: 0 };
+  }
+  dateToWorldTime(): number {
+    return 0;
+  }
+  formatDate(): string {
+    return '';
+  }
+  getActiveCalendar(): any {
+    return { id: this.name, months: [{ name: 'First', days: 30 }] };
+  }
+  getMonthNames(): string[] {
+    return ['First'];
+  }
+  getWeekdayNames(): string[] {
+    return ['Day'];
+  }
+  addSidebarButton(name: string): void {
+    this.buttons.add(name);
+  }
+  removeSidebarButton(name: string): void {
+    this.buttons.delete(name);
+  }
+  hasSidebarButton(name: string): boolean {
+    return this.buttons.has(name);
+  }
+}
+
+function registration(id: string, priority: number, provider: FakeProvider): ProviderRegistration {
+  return { id, priority, isAvailable: () => true, provider: () => provider };
+}
+
+describe('Runtime provider switching', () => {
+  let SimpleCalendarCompatibilityBridge: typeof import('../src/main').SimpleCalendarCompatibilityBridge;
+  let bridge: InstanceType<typeof SimpleCalendarCompatibilityBridge>;
+  const originalSettings = (global as any).game.settings;
+
+  const hookCalls = (hook: string) =>
+    (global as any).Hooks.callAll.mock.calls.filter((call: any[]) => call[0] === hook);
+  const compat = () => (global as any).game.simpleCalendarCompat;
+
+  beforeAll(async () => {
+    (global as any).Hooks = { on: vi.fn(() => 1), once: vi.fn(), off: vi.fn(), callAll: vi.fn() };
+    ({ SimpleCalendarCompatibilityBridge } = await import('../src/main'));
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    (global as any).Hooks.callAll.mockClear();
+    (global as any).ui = { notifications: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } };
+    (global as any).game.i18n = { localize: (key: string) => key };
+
+    bridge = new SimpleCalendarCompatibilityBridge();
+    bridge.exposeRegistrationAPI();
+  });
+
+  afterEach(() => {
+    bridge.cleanup();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    (global as any).game.settings = originalSettings;
+    delete (global as any).ui;
+    delete (global as any).game.i18n;
+  });
+
+  it('should initialize when a provider appears after init', () => {
+    bridge.initializeSync(true);
+    bridge.emitInitHook();
+    expect(compat().api).toBeUndefined();
+    expect((global as any).ui.notifications.warn).toHaveBeenCalledWith(
+      'SIMPLE_CALENDAR_COMPAT.PROVIDER_NOT_FOUND'
+    );
+
+    const late = new FakeProvider('Late Calendar', 77);
+    expect(compat().registerProvider(registration('late', 20, late))).toBe(true);
+
+    const api = (globalThis as any).SimpleCalendar.api;
+    expect(api).toBeInstanceOf(SimpleCalendarAPIBridge);
+    expect(compat().provider).toBe(late);
+    expect(api.getCurrentDate().year).toBe(77);
+
+    // Init already went out with no API behind it, so it is emitted again
+    expect(hookCalls('simple-calendar-init')).toHaveLength(2);
+  });
+
+  it('should fall back to the built-in calendar when its provider goes away', () => {
+    let available = true;
+    const first = new FakeProvider('First Calendar', 1);
+    bridge.registerProvider({ ...registration('first', 20, first), isAvailable: () => available });
+    bridge.initializeSync(true);
+    const api = (globalThis as any).SimpleCalendar.api;
+
+    available = false;
+    expect(compat().refreshProvider()).toBe(true);
+
+    expect((globalThis as any).SimpleCalendar.api).toBe(api);
+    expect(compat().provider).toBeInstanceOf(StandaloneProvider);
+    expect(first.cleanup).toHaveBeenCalled();
+    expect(compat().refreshProvider()).toBe(false);
+
+    available = true;
+    expect(compat().refreshProvider()).toBe(true);
+    expect(compat().provider).toBe(first);
+  });
+
+  it('should switch to a better provider without replacing the API', () => {
+    const first = new FakeProvider('First Calendar', 1);
+    bridge.registerProvider(registration('first', 20, first));
+    bridge.initializeSync(true);
+    bridge.emitInitHook();
+    vi.advanceTimersByTime(5000);
+
+    const api = (globalThis as any).SimpleCalendar.api;
+    api.addSidebarButton('weather', 'fa-cloud', 'Weather', false, vi.fn());
+    expect(first.hasSidebarButton('weather')).toBe(true);
+    (global as any).Hooks.callAll.mockClear();
+
+    const second = new FakeProvider('Second Calendar', 2);
+    bridge.registerProvider(registration('second', 50, second));
+
+    expect((globalThis as any).SimpleCalendar.api).toBe(api);
+    expect(api.getCurrentDate().year).toBe(2);
+    expect(compat().provider).toBe(second);
+
+    // Sidebar buttons move over and the old provider is released
+    expect(second.hasSidebarButton('weather')).toBe(true);
+    expect(first.hasSidebarButton('weather')).toBe(false);
+    expect(first.cleanup).toHaveBeenCalled();
+
+    // Modules are told to re-read calendar data
+    expect(hookCalls('simple-calendar-init')).toHaveLength(1);
+    expect(hookCalls('simple-calendar-ready')).toHaveLength(1);
+    expect(hookCalls('simple-calendar-date-time-change')).toHaveLength(1);
+  });
+
+  it('should keep the current provider when nothing better appears', () => {
+    const first = new FakeProvider('First Calendar', 1);
+    bridge.registerProvider(registration('first', 20, first));
+    bridge.initializeSync(true);
+    bridge.emitInitHook();
+    (global as any).Hooks.callAll.mockClear();
+
+    bridge.registerProvider(registration('worse', 5, new FakeProvider('Worse Calendar', 3)));
+
+    expect(compat().provider).toBe(first);
+    expect(first.cleanup).not.toHaveBeenCalled();
+    expect(hookCalls('simple-calendar-init')).toHaveLength(0);
+  });
+
+  it('should follow the calendar provider setting', () => {
+    const first = new FakeProvider('First Calendar', 1);
+    const second = new FakeProvider('Second Calendar', 2);
+    bridge.registerProvider(registration('first', 50, first));
+    bridge.registerProvider(registration('second', 20, second));
+    bridge.initializeSync(true);
+    expect(compat().provider).toBe(first);
+
+    (global as any).game.settings = {
+      ...originalSettings,
+      get: vi.fn((_module: string, key: string) =>
+        key === 'calendarProvider' ? 'second' : undefined
+      ),
+    };
+
+    expect(bridge.refreshProvider()).toBe(true);
+    expect((globalThis as any).SimpleCalendar.api.getCurrentDate().year).toBe(2);
+    expect(bridge.refreshProvider()).toBe(false);
+  });
+});
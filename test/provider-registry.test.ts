@@ -0,0 +1,285 @@
+/**
+ * Tests for calendar provider registration and selection
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  ProviderRegistry,
+  REGISTER_PROVIDERS_HOOK,
+  registerBuiltInProviders,
+} from '../src/providers/registry';
+import { BaseCalendarProvider } from '../src/providers/base-provider';
+import { FoundryCoreProvider } from '../src/providers/foundry-core';
+import { MODULE_ID, getPreferredProviderId, registerSettings } from '../src/settings';
+import type { CalendarDate, ProviderRegistration } from '../src/types';
+
+class FakeProvider extends BaseCalendarProvider {
+  readonly version = '1.0.0';
+
+  constructor(readonly name: string) {
+    super();
+  }
+
+  getCurrentDate(): CalendarDate | null {
+    return null;
+  }
+  worldTimeToDate(): CalendarDate {
+    return { year: 1, month: 1, day: 1, weekday: 0 };
+  }
+  dateToWorldTime(): number {
+    return 0;
+  }
+  formatDate(): string {
+    return '';
+  }
+  getActiveCalendar(): any {
+    return null;
+  }
+  getMonthNames(): string[] {
+    return [];
+  }
+  getWeekdayNames(): string[] {
+    return [];
+  }
+}
+
+function registration(
+  id: string,
+  priority: number,
+  available = true
+): ProviderRegistration & { provider: () => FakeProvider } {
+  return {
+    id,
+    name: `Fake ${id}`,
+    priority,
+    isAvailable: () => available,
+    provider: vi.fn(() => new FakeProvider(id)),
+  };
+}
+
+describe('ProviderRegistry', () => {
+  let registry: ProviderRegistry;
+
+  beforeEach(() => {
+    registry = new ProviderRegistry();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete (global as any).Hooks;
+  });
+
+  describe('register()', () => {
+    it('should accept providers and list them by priority', () => {
+      expect(registry.register(registration('low', 1))).toBe(true);
+      expect(registry.register(registration('high', 50))).toBe(true);
+
+      expect(registry.getRegistrations().map(r => r.id)).toEqual(['high', 'low']);
+    });
+
+    it('should replace registrations with the same id', () => {
+      registry.register(registration('module', 1));
+      registry.register(registration('module', 20));
+
+      expect(registry.getRegistrations()).toHaveLength(1);
+      expect(registry.getRegistrations()[0].priority).toBe(20);
+    });
+
+    it('should reject incomplete registrations', () => {
+      const valid = registration('module', 1);
+
+      expect(registry.register({ ...valid, id: '' })).toBe(false);
+      expect(registry.register({ ...valid, id: 'auto' })).toBe(false);
+      expect(registry.register({ ...valid, priority: NaN })).toBe(false);
+      expect(registry.register({ ...valid, isAvailable: undefined } as any)).toBe(false);
+      expect(registry.register({ ...valid, provider: null } as any)).toBe(false);
+      expect(registry.getRegistrations()).toHaveLength(0);
+    });
+
+    it('should allow removing a registration', () => {
+      registry.register(registration('module', 1));
+
+      expect(registry.unregister('module')).toBe(true);
+      expect(registry.getRegistrations()).toHaveLength(0);
+    });
+  });
+
+  describe('select()', () => {
+    it('should pick the highest-priority available provider', () => {
+      registry.register(registration('unavailable', 100, false));
+      registry.register(registration('second', 50));
+      registry.register(registration('third', 10));
+
+      const selected = registry.select();
+
+      expect(selected?.id).toBe('second');
+      expect(selected?.name).toBe('Fake second');
+      expect(selected?.provider.name).toBe('second');
+    });
+
+    it('should only create the selected provider', () => {
+      const first = registration('first', 50);
+      const second = registration('second', 10);
+      registry.register(first);
+      registry.register(second);
+
+      registry.select();
+
+      expect(first.provider).toHaveBeenCalledTimes(1);
+      expect(second.provider).not.toHaveBeenCalled();
+    });
+
+    it('should accept provider instances', () => {
+      const provider = new FakeProvider('instance');
+      registry.register({ id: 'instance', priority: 1, isAvailable: () => true, provider });
+
+      expect(registry.select()?.provider).toBe(provider);
+    });
+
+    it("should prefer the GM's choice when it is available", () => {
+      registry.register(registration('first', 50));
+      registry.register(registration('chosen', 10));
+      registry.register(registration('offline', 5, false));
+
+      expect(registry.select('chosen')?.id).toBe('chosen');
+      expect(registry.select('offline')?.id).toBe('first');
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"offline"'));
+    });
+
+    it('should skip providers whose checks or factories throw', () => {
+      registry.register({
+        ...registration('broken-check', 100),
+        isAvailable: () => {
+          throw new Error('check failed');
+        },
+      });
+      registry.register({
+        ...registration('broken-factory', 50),
+        provider: () => {
+          throw new Error('factory failed');
+        },
+      });
+      registry.register(registration('working', 1));
+
+      expect(registry.select()?.id).toBe('working');
+    });
+
+    it('should return null when nothing is available', () => {
+      registry.register(registration('offline', 5, false));
+
+      expect(registry.select()).toBeNull();
+    });
+  });
+
+  describe('collectRegistrations()', () => {
+    it('should let hook listeners register providers, once', () => {
+      (global as any).Hooks = {
+        callAll: vi.fn((hook: string, target: ProviderRegistry) => {
+          if (hook === REGISTER_PROVIDERS_HOOK) {
+            target.register(registration('from-hook', 75));
+          }
+        }),
+      };
+
+      registry.collectRegistrations();
+      registry.collectRegistrations();
+
+      expect((global as any).Hooks.callAll).toHaveBeenCalledTimes(1);
+      expect(registry.select()?.id).toBe('from-hook');
+    });
+  });
+
+  describe('built-in providers', () => {
+    const originalTime = (global as any).game.time;
+
+    beforeEach(() => {
+      (global as any).CONFIG = { time: { worldCalendarConfig: { name: 'System Calendar' } } };
+    });
+
+    afterEach(() => {
+      (global as any).game.time = originalTime;
+      delete (global as any).CONFIG;
+      FoundryCoreProvider.recordDefaultCalendar();
+    });
+
+    it('should register the bundled providers by priority', () => {
+      registerBuiltInProviders(registry);
+
+      expect(registry.getRegistrations().map(r => r.id)).toEqual([
+        'seasons-and-stars',
+        'seasons-and-stars-legacy',
+        'about-time',
+        'foundry-core',
+      ]);
+    });
+
+    it('should fall back to the Foundry core calendar', () => {
+      registerBuiltInProviders(registry);
+      (global as any).game.time = {
+        worldTime: 0,
+        calendar: { timeToComponents: vi.fn(), componentsToTime: vi.fn(), days: {} },
+      };
+
+      expect(registry.select()?.provider).toBeInstanceOf(FoundryCoreProvider);
+    });
+
+    it('should let third-party providers outrank the core calendar', () => {
+      registerBuiltInProviders(registry);
+      registry.register(registration('third-party', 20));
+      (global as any).game.time = {
+        worldTime: 0,
+        calendar: { timeToComponents: vi.fn(), componentsToTime: vi.fn(), days: {} },
+      };
+
+      expect(registry.select()?.id).toBe('third-party');
+    });
+
+    it("should not offer Foundry's default core calendar", () => {
+      registerBuiltInProviders(registry);
+      FoundryCoreProvider.recordDefaultCalendar();
+      (global as any).game.time = {
+        worldTime: 0,
+        calendar: { timeToComponents: vi.fn(), componentsToTime: vi.fn(), days: {} },
+      };
+
+      expect(registry.select()).toBeNull();
+    });
+  });
+});
+
+describe('Calendar provider setting', () => {
+  const originalSettings = (global as any).game.settings;
+
+  afterEach(() => {
+    (global as any).game.settings = originalSettings;
+    delete (global as any).FormApplication;
+  });
+
+  it('should offer every registered provider as a choice', () => {
+    (global as any).FormApplication = class {};
+    (global as any).game.settings = { register: vi.fn(), registerMenu: vi.fn(), get: vi.fn() };
+    registerSettings();
+
+    const [, , config] = (global as any).game.settings.register.mock.calls.find(
+      (call: any[]) => call[1] === 'calendarProvider'
+    );
+    expect(config).toMatchObject({ scope: 'world', config: true, default: 'auto' });
+
+    new ProviderRegistry().register(registration('late-module', 1));
+    expect(config.choices['late-module']).toBe('Fake late-module');
+  });
+
+  it('should read the chosen provider, defaulting to automatic', () => {
+    (global as any).game.settings = {
+      get: vi.fn((module: string, key: string) =>
+        module === MODULE_ID && key === 'calendarProvider' ? 'about-time' : undefined
+      ),
+    };
+    expect(getPreferredProviderId()).toBe('about-time');
+
+    (global as any).game.settings = { get: vi.fn() };
+    expect(getPreferredProviderId()).toBe('auto');
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Tests for routing the Simple Calendar API through the selected calendar provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import { BaseCalendarProvider } from '../src/providers/base-provider';
+import { SeasonsStarsProvider } from '../src/providers/seasons-stars';
+import type { CalendarDate, SimpleCalendarNoteCategory } from '../src/types';
+
+const CALENDAR = {
+  id: 'two-moons',
+  name: 'Two Moons',
+  months: ['Ash', 'Brine', 'Cinder'].map(name => ({
+    name,
+    abbreviation: name.slice(0, 2),
+    days: 30,
+  })),
+  weekdays: ['Dawn', 'Dusk', 'Night'].map(name => ({ name })),
+  time: { hoursInDay: 24, minutesInHour: 60, secondsInMinute: 60 },
+};
+
+const DATE: CalendarDate = {
+  year: 12,
+  month: 2,
+  day: 5,
+  weekday: 1,
+  time: { hour: 6, minute: 30, second: 0 },
+};
+
+/**
+ * Provider for a module that is not Seasons & Stars, with widget and note support
+ * but without calendar switching
+ */
+class WidgetProvider extends BaseCalendarProvider {
+  readonly name = 'Widget Calendar';
+  readonly version = '2.0.0';
+
+  buttons = new Map<string, Function>();
+  advanceDays = vi.fn(async () => {});
+
+  getCurrentDate(): CalendarDate {
+    return DATE;
+  }
+  worldTimeToDate(): CalendarDate {
+    return DATE;
+  }
+  dateToWorldTime(): number {
+    return 1000;
+  }
+  formatDate(): string {
+    return 'formatted';
+  }
+  getActiveCalendar(): any {
+    return CALENDAR;
+  }
+  getMonthNames(): string[] {
+    return CALENDAR.months.map(month => month.name);
+  }
+  getWeekdayNames(): string[] {
+    return CALENDAR.weekdays.map(weekday => weekday.name);
+  }
+  addSidebarButton(name: string, _icon: string, _tooltip: string, callback: Function): void {
+    this.buttons.set(name, callback);
+  }
+  removeSidebarButton(name: string): void {
+    this.buttons.delete(name);
+  }
+  hasSidebarButton(name: string): boolean {
+    return this.buttons.has(name);
+  }
+  getNoteCategories(): SimpleCalendarNoteCategory[] {
+    return [{ id: 'holiday', name: 'Holiday', color: '#ff0000', textColor: '#ffffff' }];
+  }
+}
+
+describe('SimpleCalendarAPIBridge with a calendar provider', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    (global as any).game.user.isGM = true;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    (global as any).game.user.isGM = false;
+    delete (global as any).game.seasonsStars;
+  });
+
+  describe('legacy Seasons & Stars provider', () => {
+    let ssApi: any;
+    let api: SimpleCalendarAPIBridge;
+
+    beforeEach(() => {
+      ssApi = {
+        getCurrentDate: vi.fn(() => DATE),
+        worldTimeToDate: vi.fn(() => DATE),
+        dateToWorldTime: vi.fn(() => 1000),
+        getActiveCalendar: vi.fn(() => CALENDAR),
+        getAvailableCalendars: vi.fn(() => ['gregorian', 'two-moons']),
+        advanceDays: vi.fn(async () => {}),
+        advanceMonths: vi.fn(async () => {}),
+      };
+      (global as any).game.seasonsStars = { api: ssApi };
+      api = new SimpleCalendarAPIBridge(new SeasonsStarsProvider());
+    });
+
+    it('should convert dates through the provider', () => {
+      expect(api.timestampToDate(1000)).toMatchObject({
+        year: 12,
+        month: 1,
+        day: 4,
+        dayOfTheWeek: 1,
+        display: { monthName: 'Brine', weekday: 'Dusk' },
+      });
+      expect(api.dateToTimestamp({ year: 12, month: 1, day: 4 })).toBe(1000);
+      expect(ssApi.dateToWorldTime).toHaveBeenCalledWith(
+        expect.objectContaining({ year: 12, month: 2, day: 5 })
+      );
+    });
+
+    it('should expose calendar metadata from the provider', () => {
+      expect(api.getAllMonths().map(month => month.name)).toEqual(['Ash', 'Brine', 'Cinder']);
+      expect(api.getCurrentCalendar()).toMatchObject({ id: 'two-moons', name: 'Two Moons' });
+      expect(api.getAllCalendars().map(calendar => [calendar.id, calendar.active])).toEqual([
+        ['gregorian', false],
+        ['two-moons', true],
+      ]);
+    });
+
+    it('should advance time through the provider', () => {
+      expect(api.changeDate({ month: 1, day: 2 })).toBe(true);
+
+      expect(ssApi.advanceMonths).toHaveBeenCalledWith(1);
+      expect(ssApi.advanceDays).toHaveBeenCalledWith(2);
+    });
+  });
+
+  describe('Seasons & Stars integration', () => {
+    const originalTime = (global as any).game.time;
+    let ssApi: any;
+    let api: SimpleCalendarAPIBridge;
+
+    beforeEach(() => {
+      (global as any).game.time = { worldTime: 0, advance: vi.fn() };
+      // An S&S build that can advance months and days but not years
+      ssApi = {
+        getCurrentDate: vi.fn(() => DATE),
+        worldTimeToDate: vi.fn(() => DATE),
+        dateToWorldTime: vi.fn(() => 1000),
+        getActiveCalendar: vi.fn(() => CALENDAR),
+        advanceMonths: vi.fn(async () => {}),
+        advanceDays: vi.fn(async () => {}),
+      };
+      api = new SimpleCalendarAPIBridge({
+        isAvailable: true,
+        version: '2.0.0',
+        api: ssApi,
+        hooks: { onDateChanged: vi.fn(), onCalendarChanged: vi.fn(), off: vi.fn() },
+        hasFeature: () => false,
+      } as any);
+    });
+
+    afterEach(() => {
+      api.destroy();
+      (global as any).game.time = originalTime;
+    });
+
+    it('should advance world time when the API cannot advance part of the interval', () => {
+      expect(api.changeDate({ year: 1, month: 1 })).toBe(true);
+
+      expect(ssApi.advanceMonths).not.toHaveBeenCalled();
+      expect((global as any).game.time.advance).toHaveBeenCalledOnce();
+    });
+
+    it('should report failed advances without throwing', async () => {
+      const error = new Error('Calendar is locked');
+      ssApi.advanceDays.mockRejectedValue(error);
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(api.changeDate({ month: 1, day: 2 })).toBe(true);
+
+      expect(ssApi.advanceMonths).toHaveBeenCalledWith(1);
+      await vi.waitFor(() =>
+        expect(consoleError).toHaveBeenCalledWith('Failed to change date:', error)
+      );
+      expect((global as any).game.time.advance).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('third-party provider', () => {
+    let provider: WidgetProvider;
+    let api: SimpleCalendarAPIBridge;
+
+    beforeEach(() => {
+      provider = new WidgetProvider();
+      api = new SimpleCalendarAPIBridge(provider);
+    });
+
+    it('should offer the active calendar when the provider cannot switch calendars', () => {
+      expect(api.getAllCalendars()).toEqual([
+        { id: 'two-moons', name: 'Two Moons', description: '', active: true },
+      ]);
+    });
+
+    it('should add and remove sidebar buttons on the provider widgets', () => {
+      const callback = vi.fn();
+
+      api.addSidebarButton('weather', 'fa-cloud', 'Weather', false, callback);
+      expect(provider.buttons.get('weather')).toBe(callback);
+      expect(api.hasSidebarButton('weather')).toBe(true);
+
+      api.removeSidebarButton('weather');
+      expect(api.hasSidebarButton('weather')).toBe(false);
+    });
+
+    it('should read note categories from the provider', () => {
+      expect(api.getCurrentCalendar().noteCategories).toEqual([
+        { id: 'holiday', name: 'Holiday', color: '#ff0000', textColor: '#ffffff' },
+      ]);
+    });
+
+    it('should use the provider time advancement', async () => {
+      expect(api.changeDate({ day: 3 })).toBe(true);
+      await api.advanceDays(1);
+
+      expect(provider.advanceDays.mock.calls).toEqual([[3], [1]]);
+    });
+  });
+
+  it('should keep sidebar buttons in its own registry without a provider', () => {
+    const api = new SimpleCalendarAPIBridge();
+
+    api.addSidebarButton('weather', 'fa-cloud', 'Weather', false, vi.fn());
+
+    expect(api.hasSidebarButton('weather')).toBe(true);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for data-driven seasons in getAllSeasons() and getCurrentSeason()
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { buildSeasons, findSeasonForDate, mapSeasonIcon } from '../src/api/seasons';
+import { SimpleCalendarAPIBridge, Icons } from '../src/api/simple-calendar-api';
+
+const temperate = {
+  id: 'temperate',
+  months: Array.from({ length: 12 }, (_, i) => ({ name: `Month ${i + 1}`, days: 30 })),
+  seasons: [
+    { name: 'Winter', startMonth: 12, startDay: 21, icon: 'winter' },
+    { name: 'Spring', startMonth: 3, startDay: 20, icon: 'spring', sunrise: 6, sunset: 19 },
+    { name: 'Summer', startMonth: 6, startDay: 21, icon: 'summer', color: '#123456' },
+    { name: 'Autumn', startMonth: 9, startDay: 22 },
+  ],
+};
+
+const wetDry = {
+  id: 'wet-dry',
+  months: Array.from({ length: 12 }, (_, i) => ({ name: `Month ${i + 1}`, days: 30 })),
+  seasons: [
+    { name: 'Wet', startMonth: 5, startDay: 1 },
+    { name: 'Dry', startMonth: 11, startDay: 1 },
+  ],
+};
+
+const sixSeasons = {
+  id: 'six',
+  months: Array.from({ length: 12 }, (_, i) => ({ name: `Month ${i + 1}`, days: 30 })),
+  seasons: Array.from({ length: 6 }, (_, i) => ({
+    name: `Season ${i + 1}`,
+    startMonth: i * 2 + 1,
+    startDay: 1,
+  })),
+};
+
+function createBridge(calendar: any, currentDate: { month: number; day: number }) {
+  const mockSeasonsStars = {
+    isAvailable: true,
+    version: '1.0.0',
+    api: {
+      getActiveCalendar: () => calendar,
+      getCurrentDate: () => ({ year: 2024, weekday: 0, ...currentDate }),
+      getSeasonInfo: vi.fn(() => ({ name: 'Provider Season', icon: 'summer' })),
+      dateToWorldTime: vi.fn(),
+      worldTimeToDate: vi.fn(),
+      formatDate: vi.fn(),
+      setActiveCalendar: vi.fn(),
+      getAvailableCalendars: vi.fn(),
+      getMonthNames: vi.fn(),
+      getWeekdayNames: vi.fn(),
+    },
+    widgets: { main: null, mini: null, grid: null },
+    hooks: {
+      onDateChanged: vi.fn(),
+      onCalendarChanged: vi.fn(),
+      onReady: vi.fn(),
+      off: vi.fn(),
+    },
+    hasFeature: vi.fn(),
+    getFeatureVersion: vi.fn(),
+  };
+
+  return { api: new SimpleCalendarAPIBridge(mockSeasonsStars as any), mockSeasonsStars };
+}
+
+describe('mapSeasonIcon', () => {
+  it('should map icons and names to Simple Calendar icons', () => {
+    expect(mapSeasonIcon('spring')).toBe(Icons.Spring);
+    expect(mapSeasonIcon(undefined, 'Early Summer')).toBe(Icons.Summer);
+    expect(mapSeasonIcon(undefined, 'Autumn')).toBe(Icons.Fall);
+    expect(mapSeasonIcon('snowflake', 'Deep Winter')).toBe(Icons.Winter);
+  });
+
+  it('should fall back to none for unrecognised seasons', () => {
+    expect(mapSeasonIcon('rain', 'Wet')).toBe('none');
+    expect(mapSeasonIcon()).toBe('none');
+  });
+});
+
+describe('buildSeasons', () => {
+  it('should return an empty list when the calendar defines no seasons', () => {
+    expect(buildSeasons({ months: [] })).toEqual([]);
+    expect(buildSeasons(null)).toEqual([]);
+  });
+
+  it('should convert starting dates to 0-based Simple Calendar format', () => {
+    const seasons = buildSeasons(temperate);
+
+    expect(seasons.map(season => [season.startingMonth, season.startingDay])).toEqual([
+      [11, 20],
+      [2, 19],
+      [5, 20],
+      [8, 21],
+    ]);
+  });
+
+  it('should use default colors per icon unless the season defines one', () => {
+    const seasons = buildSeasons(temperate);
+
+    expect(seasons[0].color).toBe('#479dff');
+    expect(seasons[2].color).toBe('#123456');
+    expect(seasons[3]).toMatchObject({ icon: Icons.Fall, color: '#ff8e47' });
+    expect(buildSeasons(wetDry)[0].color).toBe('#ffffff');
+  });
+
+  it('should read per-season sunrise and sunset times', () => {
+    const [winter, spring] = buildSeasons(temperate);
+
+    expect(winter.sunriseTime).toBe(21600);
+    expect(winter.sunsetTime).toBe(64800);
+    expect(spring.sunriseTime).toBe(6 * 3600);
+    expect(spring.sunsetTime).toBe(19 * 3600);
+  });
+
+  it('should accept seconds and HH:MM sunrise values', () => {
+    const [season] = buildSeasons({
+      seasons: [{ name: 'Test', sunriseTime: 25200, sunsetTime: '20:30' }],
+    });
+
+    expect(season.sunriseTime).toBe(25200);
+    expect(season.sunsetTime).toBe(20 * 3600 + 30 * 60);
+  });
+
+  it('should read Simple Calendar times as seconds and S&S times as hours', () => {
+    const [simpleCalendar, seasonsStars] = buildSeasons({
+      seasons: [
+        { name: 'Polar Night', sunriseTime: 0, sunsetTime: 12 },
+        { name: 'Midsummer', sunrise: 0.5, sunset: 23 },
+      ],
+    });
+
+    expect(simpleCalendar.sunriseTime).toBe(0);
+    expect(simpleCalendar.sunsetTime).toBe(12);
+    expect(seasonsStars.sunriseTime).toBe(30 * 60);
+    expect(seasonsStars.sunsetTime).toBe(23 * 3600);
+  });
+
+  it('should keep Simple Calendar style fields as-is', () => {
+    const [season] = buildSeasons({
+      seasons: [{ id: 'sc-1', name: 'Spring', startingMonth: 2, startingDay: 19 }],
+    });
+
+    expect(season).toMatchObject({ id: 'sc-1', startingMonth: 2, startingDay: 19 });
+  });
+});
+
+describe('findSeasonForDate', () => {
+  it('should return null without seasons', () => {
+    expect(findSeasonForDate([], 0, 0)).toBeNull();
+  });
+
+  it('should wrap the last season around the start of the year', () => {
+    const seasons = buildSeasons(temperate);
+
+    expect(findSeasonForDate(seasons, 0, 0)?.name).toBe('Winter');
+    expect(findSeasonForDate(seasons, 2, 18)?.name).toBe('Winter');
+    expect(findSeasonForDate(seasons, 2, 19)?.name).toBe('Spring');
+    expect(findSeasonForDate(seasons, 11, 25)?.name).toBe('Winter');
+  });
+
+  it('should support calendars with two seasons', () => {
+    const seasons = buildSeasons(wetDry);
+
+    expect(findSeasonForDate(seasons, 0, 0)?.name).toBe('Dry');
+    expect(findSeasonForDate(seasons, 4, 0)?.name).toBe('Wet');
+    expect(findSeasonForDate(seasons, 9, 29)?.name).toBe('Wet');
+    expect(findSeasonForDate(seasons, 10, 0)?.name).toBe('Dry');
+  });
+
+  it('should support calendars with six seasons', () => {
+    const seasons = buildSeasons(sixSeasons);
+
+    expect(findSeasonForDate(seasons, 0, 0)?.name).toBe('Season 1');
+    expect(findSeasonForDate(seasons, 3, 15)?.name).toBe('Season 2');
+    expect(findSeasonForDate(seasons, 11, 29)?.name).toBe('Season 6');
+  });
+});
+
+describe('SimpleCalendarAPIBridge seasons', () => {
+  it('should return the built-in seasons when S&S is not available', () => {
+    const api = new SimpleCalendarAPIBridge();
+    expect(api.getAllSeasons().map(season => season.name)).toEqual([
+      'Spring',
+      'Summer',
+      'Autumn',
+      'Winter',
+    ]);
+  });
+
+  it('should return all seasons of the active calendar', () => {
+    const { api } = createBridge(sixSeasons, { month: 1, day: 1 });
+    const seasons = api.getAllSeasons();
+
+    expect(seasons).toHaveLength(6);
+    expect(seasons[5]).toMatchObject({ name: 'Season 6', startingMonth: 10, startingDay: 0 });
+  });
+
+  it('should find the current season from the calendar definitions', () => {
+    const { api, mockSeasonsStars } = createBridge(temperate, { month: 7, day: 4 });
+    const season = api.getCurrentSeason();
+
+    expect(season).toMatchObject({ name: 'Summer', icon: Icons.Summer, startingMonth: 5 });
+    expect(mockSeasonsStars.api.getSeasonInfo).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to provider season info when the calendar has no seasons', () => {
+    const { api } = createBridge({ months: [] }, { month: 7, day: 4 });
+
+    expect(api.getCurrentSeason()).toMatchObject({ name: 'Provider Season', icon: Icons.Summer });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for breaking seconds into calendar intervals
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import { BaseCalendarProvider } from '../src/providers/base-provider';
+import { CalendarEngine } from '../src/calendar/engine';
+import type { CalendarDate } from '../src/types';
+
+const DAY = 86400;
+const utc = (...parts: [number, number, number, number?, number?, number?]) =>
+  Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3] ?? 0, parts[4] ?? 0, parts[5] ?? 0) / 1000;
+
+/**
+ * Four 25-day months and 10-hour days of 100-minute hours
+ */
+const SHORT_CALENDAR = {
+  id: 'short',
+  name: 'Short',
+  months: ['Rise', 'Burn', 'Fade', 'Sleep'].map(name => ({ name, days: 25 })),
+  weekdays: ['One', 'Two', 'Three', 'Four', 'Five'].map(name => ({ name })),
+  year: { epoch: 0, startDay: 0 },
+  time: { hoursInDay: 10, minutesInHour: 100, secondsInMinute: 60 },
+};
+const SHORT_DAY = 10 * 100 * 60;
+
+class EngineProvider extends BaseCalendarProvider {
+  readonly name = 'Engine Provider';
+  readonly version = '1.0.0';
+  private engine = new CalendarEngine(SHORT_CALENDAR);
+
+  getCurrentDate(): CalendarDate {
+    return this.engine.worldTimeToDate(0);
+  }
+  worldTimeToDate(timestamp: number): CalendarDate {
+    return this.engine.worldTimeToDate(timestamp);
+  }
+  dateToWorldTime(date: CalendarDate): number {
+    return this.engine.dateToWorldTime(date);
+  }
+  formatDate(): string {
+    return '';
+  }
+  getActiveCalendar(): any {
+    return SHORT_CALENDAR;
+  }
+  getMonthNames(): string[] {
+    return SHORT_CALENDAR.months.map(month => month.name);
+  }
+  getWeekdayNames(): string[] {
+    return SHORT_CALENDAR.weekdays.map(weekday => weekday.name);
+  }
+}
+
+describe('secondsToInterval()', () => {
+  afterEach(() => {
+    (global as any).game.time.worldTime = 0;
+    vi.restoreAllMocks();
+  });
+
+  describe('on the built-in calendar', () => {
+    const api = new SimpleCalendarAPIBridge();
+
+    it('should split a span into every unit', () => {
+      const from = utc(2024, 1, 15, 12);
+      const to = utc(2025, 3, 20, 6, 30, 15);
+
+      expect(api.secondsToInterval(to - from, { from })).toEqual({
+        year: 1,
+        month: 2,
+        day: 4,
+        hour: 18,
+        minute: 30,
+        seconds: 15,
+        second: 15,
+      });
+    });
+
+    it('should count months by the month lengths the span crosses', () => {
+      expect(api.secondsToInterval(31 * DAY, { from: utc(2023, 1, 1) })).toMatchObject({
+        month: 1,
+        day: 0,
+      });
+      expect(api.secondsToInterval(31 * DAY, { from: utc(2023, 2, 1) })).toMatchObject({
+        month: 1,
+        day: 3,
+      });
+      expect(api.secondsToInterval(29 * DAY, { from: utc(2024, 2, 1) })).toMatchObject({
+        month: 1,
+        day: 0,
+      });
+    });
+
+    it('should count a month from the end of a longer month', () => {
+      expect(
+        api.secondsToInterval(utc(2023, 3, 3) - utc(2023, 1, 31), { from: utc(2023, 1, 31) })
+      ).toMatchObject({ month: 1, day: 3 });
+    });
+
+    it('should measure from the current world time by default', () => {
+      (global as any).game.time.worldTime = utc(2023, 2, 1);
+
+      expect(api.secondsToInterval(31 * DAY)).toMatchObject({ month: 1, day: 3 });
+    });
+
+    it('should measure negative spans back from the reference date', () => {
+      const from = utc(2023, 3, 4);
+
+      expect(api.secondsToInterval(utc(2023, 2, 1) - from, { from })).toEqual({
+        year: 0,
+        month: -1,
+        day: -3,
+        hour: 0,
+        minute: 0,
+        seconds: 0,
+        second: 0,
+      });
+    });
+
+    it('should use average year and month lengths when not exact', () => {
+      expect(api.secondsToInterval(31 * DAY, { exact: false })).toEqual({
+        year: 0,
+        month: 1,
+        day: 0,
+        hour: 13,
+        minute: 30,
+        seconds: 54,
+        second: 54,
+      });
+      expect(api.secondsToInterval(365.2425 * DAY * 2, { exact: false })).toMatchObject({
+        year: 2,
+        month: 0,
+        day: 0,
+      });
+    });
+  });
+
+  describe('through a calendar provider', () => {
+    const api = new SimpleCalendarAPIBridge(new EngineProvider());
+
+    it('should use the calendar month lengths and time units', () => {
+      const seconds = 2 * 100 * SHORT_DAY + 27 * SHORT_DAY + 3 * 6000 + 7 * 60 + 8;
+
+      expect(api.secondsToInterval(seconds, { from: 0 })).toEqual({
+        year: 2,
+        month: 1,
+        day: 2,
+        hour: 3,
+        minute: 7,
+        seconds: 8,
+        second: 8,
+      });
+    });
+
+    it('should fall back to seconds when the provider fails', () => {
+      const provider = new EngineProvider();
+      vi.spyOn(provider, 'worldTimeToDate').mockImplementation(() => {
+        throw new Error('provider error');
+      });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(new SimpleCalendarAPIBridge(provider).secondsToInterval(90)).toMatchObject({
+        day: 0,
+        seconds: 90,
+      });
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+});
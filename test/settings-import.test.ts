@@ -0,0 +1,302 @@
+/**
+ * Tests for importing Simple Calendar's current date, clock and format settings
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import { BaseCalendarProvider } from '../src/providers/base-provider';
+import { CalendarEngine } from '../src/calendar/engine';
+import { convertSimpleCalendarCalendar } from '../src/migration/calendar-converter';
+import {
+  importSimpleCalendarSettings,
+  offerSimpleCalendarSettingsImport,
+  readSimpleCalendarLegacySettings,
+} from '../src/migration/settings-import';
+import { MODULE_ID, getClockSettings, getGeneralSettings } from '../src/settings';
+import type { CalendarDate } from '../src/types';
+import gregorianExport from './fixtures/simple-calendar/gregorian.json';
+import harptosExport from './fixtures/simple-calendar/harptos.json';
+
+const originalGame = (global as any).game;
+const originalUi = (global as any).ui;
+const originalFoundry = (global as any).foundry;
+
+/** Provider serving a calendar definition through the calendar engine */
+class EngineProvider extends BaseCalendarProvider {
+  readonly name = 'Engine Provider';
+  readonly version = '1.0.0';
+  readonly engine: CalendarEngine;
+
+  constructor(readonly calendar: any) {
+    super();
+    this.engine = new CalendarEngine(calendar);
+  }
+
+  getCurrentDate(): CalendarDate {
+    return this.worldTimeToDate((global as any).game.time.worldTime);
+  }
+  worldTimeToDate(timestamp: number): CalendarDate {
+    return this.engine.fromEntryDate(this.engine.worldTimeToDate(timestamp));
+  }
+  dateToWorldTime(date: CalendarDate): number {
+    return this.engine.dateToWorldTime(this.engine.toEntryDate(date));
+  }
+  formatDate(): string {
+    return '';
+  }
+  getActiveCalendar(): any {
+    return this.calendar;
+  }
+  getMonthNames(): string[] {
+    return this.calendar.months.map((month: any) => month.name);
+  }
+  getWeekdayNames(): string[] {
+    return this.calendar.weekdays.map((weekday: any) => weekday.name);
+  }
+}
+
+const bridgeFor = (source: any) =>
+  new SimpleCalendarAPIBridge(
+    new EngineProvider(convertSimpleCalendarCalendar(source.id, source)!.calendar)
+  );
+
+/** Fake DialogV2.confirm() that presses Import with the given checkboxes ticked */
+function confirmWith(checked: Record<string, boolean>) {
+  return vi.fn(async (options: any) => {
+    const form = { elements: { namedItem: (name: string) => ({ checked: checked[name] }) } };
+    return options.yes.callback(new Event('click'), { form });
+  });
+}
+
+describe('Simple Calendar settings import', () => {
+  let stored: Map<string, unknown>;
+  let worldSettings: Record<string, unknown>;
+
+  beforeEach(() => {
+    stored = new Map();
+    worldSettings = {
+      'foundryvtt-simple-calendar.calendars': JSON.stringify([
+        gregorianExport.calendars[0],
+        harptosExport.calendars[0],
+      ]),
+      'foundryvtt-simple-calendar.current-calendar': 'harptos',
+    };
+    const time = {
+      worldTime: 0,
+      advance: vi.fn(async (seconds: number) => {
+        time.worldTime += seconds;
+      }),
+    };
+
+    (global as any).game = {
+      ...originalGame,
+      time,
+      journal: [],
+      user: { isGM: true, id: 'gm' },
+      i18n: {
+        localize: (key: string) => key,
+        format: (key: string, data: Record<string, unknown>) => `${key} ${data.calendar}`,
+      },
+      settings: {
+        get: vi.fn((module: string, key: string) => stored.get(`${module}.${key}`)),
+        set: vi.fn(async (module: string, key: string, value: unknown) => {
+          stored.set(`${module}.${key}`, value);
+          return value;
+        }),
+        storage: { get: () => worldSettings },
+      },
+    };
+    (global as any).ui = { notifications: { info: vi.fn(), error: vi.fn() } };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (global as any).game = originalGame;
+    (global as any).ui = originalUi;
+    (global as any).foundry = originalFoundry;
+    vi.restoreAllMocks();
+  });
+
+  describe('readSimpleCalendarLegacySettings()', () => {
+    it("should read the current calendar's date, clock and formats", () => {
+      expect(readSimpleCalendarLegacySettings()).toEqual({
+        calendarId: 'harptos',
+        calendarName: harptosExport.calendars[0].name,
+        // 30600 seconds into the day is 8:30
+        currentDate: { year: 1495, month: 9, day: 0, hour: 8, minute: 30, seconds: 0 },
+        clock: { gameTimeRatio: 1, updateFrequency: 1, unifyGameAndClockPause: true },
+        general: {
+          showClock: true,
+          dateFormat: {
+            date: 'DD MMMM, YYYY YZ',
+            time: 'HH:mm',
+            monthYear: 'MMMM YAYYYYYZ',
+            chatTime: 'DD MMM, HH:mm',
+          },
+        },
+      });
+    });
+
+    it('should fall back to the first calendar without a current calendar', () => {
+      delete worldSettings['foundryvtt-simple-calendar.current-calendar'];
+
+      expect(readSimpleCalendarLegacySettings()).toMatchObject({
+        calendarId: 'default',
+        currentDate: { year: 2024, month: 6, day: 3, hour: 12, minute: 0, seconds: 0 },
+      });
+    });
+
+    it('should return null when the world has no Simple Calendar data', () => {
+      worldSettings = {};
+
+      expect(readSimpleCalendarLegacySettings()).toBeNull();
+    });
+
+    it("should read Foundry's world settings collection", () => {
+      // Setting documents hold the stored JSON, as in the world database
+      const documents = Object.entries(worldSettings).map(([key, value]) => ({
+        key,
+        value: JSON.stringify(value),
+      }));
+      (global as any).game.settings.storage.get = () => ({
+        getSetting: (key: string) => documents.find(document => document.key === key),
+      });
+
+      expect(readSimpleCalendarLegacySettings()).toMatchObject({
+        calendarId: 'harptos',
+        currentDate: { year: 1495, month: 9, day: 0, hour: 8, minute: 30 },
+      });
+    });
+
+    it('should not read unregistered Simple Calendar settings', () => {
+      worldSettings = {};
+      const get = vi.fn(() => {
+        throw new Error('This is not a registered game setting');
+      });
+      (global as any).game.settings.get = get;
+      (global as any).game.settings.settings = new Map();
+
+      expect(readSimpleCalendarLegacySettings()).toBeNull();
+      expect(get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importSimpleCalendarSettings()', () => {
+    it('should set world time to the last known date and copy the settings', async () => {
+      const api = bridgeFor(harptosExport.calendars[0]);
+      const legacy = readSimpleCalendarLegacySettings()!;
+
+      expect(
+        await importSimpleCalendarSettings(api, legacy, { setDate: true, copySettings: true })
+      ).toBe(true);
+
+      expect(api.getCurrentDate()).toMatchObject({
+        year: 1495,
+        month: 9,
+        day: 0,
+        hour: 8,
+        minute: 30,
+        second: 0,
+      });
+      expect(getClockSettings()).toMatchObject({ unifyGameAndClockPause: true });
+      expect(getGeneralSettings().dateFormat).toEqual(legacy.general.dateFormat);
+    });
+
+    it('should only import the parts that were chosen', async () => {
+      const api = bridgeFor(harptosExport.calendars[0]);
+      const legacy = readSimpleCalendarLegacySettings()!;
+
+      await importSimpleCalendarSettings(api, legacy, { setDate: false, copySettings: true });
+
+      expect((global as any).game.time.advance).not.toHaveBeenCalled();
+      expect(stored.get(`${MODULE_ID}.dateFormatTime`)).toBe('HH:mm');
+    });
+
+    it('should only let GMs import settings', async () => {
+      (global as any).game.user.isGM = false;
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await importSimpleCalendarSettings(
+        bridgeFor(harptosExport.calendars[0]),
+        readSimpleCalendarLegacySettings()!,
+        { setDate: true, copySettings: true }
+      );
+
+      expect(result).toBe(false);
+      expect((global as any).game.time.advance).not.toHaveBeenCalled();
+      expect((global as any).game.settings.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offerSimpleCalendarSettingsImport()', () => {
+    it('should show the values to import and import the ticked parts', async () => {
+      const confirm = confirmWith({ setDate: true, copySettings: false });
+      (global as any).foundry = { applications: { api: { DialogV2: { confirm } } } };
+      const api = bridgeFor(harptosExport.calendars[0]);
+
+      expect(await offerSimpleCalendarSettingsImport(api)).toBe(true);
+
+      const { content } = confirm.mock.calls[0][0];
+      expect(content).toContain(
+        api.formatDateTime(
+          readSimpleCalendarLegacySettings()!.currentDate!,
+          'DD MMMM, YYYY YZ HH:mm'
+        )
+      );
+      expect(content).toContain('DD MMMM, YYYY YZ');
+      expect(content).toContain('SETTINGS.gameTimeRatio.name');
+      expect(api.getCurrentDate()).toMatchObject({ year: 1495, month: 9, day: 0, hour: 8 });
+      expect(stored.has(`${MODULE_ID}.dateFormatDate`)).toBe(false);
+      expect(stored.get(`${MODULE_ID}.settingsImportOffered`)).toBe(true);
+    });
+
+    it('should only make the offer once, even when declined', async () => {
+      const confirm = vi.fn(async () => false);
+      (global as any).foundry = { applications: { api: { DialogV2: { confirm } } } };
+      const api = bridgeFor(harptosExport.calendars[0]);
+
+      expect(await offerSimpleCalendarSettingsImport(api)).toBe(false);
+      expect(await offerSimpleCalendarSettingsImport(api)).toBe(false);
+
+      expect(confirm).toHaveBeenCalledOnce();
+      expect((global as any).game.time.advance).not.toHaveBeenCalled();
+      expect(stored.get(`${MODULE_ID}.settingsImportOffered`)).toBe(true);
+    });
+
+    it('should not offer anything without Simple Calendar data or to players', async () => {
+      const confirm = vi.fn();
+      (global as any).foundry = { applications: { api: { DialogV2: { confirm } } } };
+      const api = bridgeFor(harptosExport.calendars[0]);
+
+      (global as any).game.user.isGM = false;
+      expect(await offerSimpleCalendarSettingsImport(api)).toBe(false);
+      (global as any).game.user.isGM = true;
+      worldSettings = {};
+      expect(await offerSimpleCalendarSettingsImport(api)).toBe(false);
+
+      expect(confirm).not.toHaveBeenCalled();
+      expect(stored.has(`${MODULE_ID}.settingsImportOffered`)).toBe(false);
+    });
+
+    it('should not reject when Simple Calendar settings cannot be read', async () => {
+      const confirm = vi.fn();
+      (global as any).foundry = { applications: { api: { DialogV2: { confirm } } } };
+      (global as any).game.settings.storage.get = () => {
+        throw new Error('World settings unavailable');
+      };
+      (global as any).game.settings.get = () => {
+        throw new Error('This is not a registered game setting');
+      };
+      (global as any).game.settings.settings = new Map([
+        ['foundryvtt-simple-calendar.calendars', {}],
+      ]);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(
+        offerSimpleCalendarSettingsImport(bridgeFor(harptosExport.calendars[0]))
+      ).resolves.toBe(false);
+      expect(confirm).not.toHaveBeenCalled();
+    });
+  });
+});
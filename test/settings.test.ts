@@ -0,0 +1,255 @@
+/**
+ * Tests for the general settings surfaced through getCurrentCalendar()
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  DEFAULT_GENERAL_SETTINGS,
+  MODULE_ID,
+  getGeneralSettings,
+  registerSettings,
+  setGeneralSettings,
+} from '../src/settings';
+import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
+import { installFakeFormApplication } from './fixtures/form-application';
+
+const calendar = {
+  id: 'gregorian',
+  name: 'Gregorian',
+  months: [
+    { name: 'January', abbreviation: 'Jan', days: 31 },
+    { name: 'February', abbreviation: 'Feb', days: 28 },
+    { name: 'March', abbreviation: 'Mar', days: 31 },
+  ],
+  weekdays: [
+    { name: 'Sunday', abbreviation: 'Sun' },
+    { name: 'Monday', abbreviation: 'Mon' },
+  ],
+  year: { prefix: '', suffix: '', epoch: 0 },
+};
+
+// 1-based S&S date: 3 March 2024, 14:05:09, a Monday
+const ssDate = {
+  year: 2024,
+  month: 3,
+  day: 3,
+  weekday: 1,
+  time: { hour: 14, minute: 5, second: 9 },
+};
+
+function createBridge(): SimpleCalendarAPIBridge {
+  return new SimpleCalendarAPIBridge({
+    isAvailable: true,
+    version: '1.0.0',
+    api: {
+      getActiveCalendar: () => calendar,
+      getCurrentDate: () => ssDate,
+      worldTimeToDate: () => ssDate,
+      dateToWorldTime: vi.fn(),
+      formatDate: vi.fn((_date: any, options: any) =>
+        options?.format === '{{month.name}}' ? 'March' : 'S&S formatted'
+      ),
+      setActiveCalendar: vi.fn(),
+      getAvailableCalendars: vi.fn(),
+      getMonthNames: () => calendar.months.map(month => month.name),
+      getWeekdayNames: () => calendar.weekdays.map(weekday => weekday.name),
+    },
+    widgets: { main: null, mini: null, grid: null },
+    hooks: { onDateChanged: vi.fn(), onCalendarChanged: vi.fn(), onReady: vi.fn(), off: vi.fn() },
+    hasFeature: vi.fn(),
+    getFeatureVersion: vi.fn(),
+  } as any);
+}
+
+describe('General settings', () => {
+  let stored: Map<string, unknown>;
+  const originalSettings = (global as any).game.settings;
+
+  beforeEach(() => {
+    stored = new Map();
+    (global as any).game.settings = {
+      get: vi.fn((module: string, key: string) => stored.get(`${module}.${key}`)),
+      set: vi.fn(async (module: string, key: string, value: unknown) => {
+        stored.set(`${module}.${key}`, value);
+        return value;
+      }),
+      register: vi.fn(),
+      registerMenu: vi.fn(),
+    };
+  });
+
+  afterEach(() => {
+    (global as any).game.settings = originalSettings;
+    delete (global as any).FormApplication;
+  });
+
+  describe('getGeneralSettings()', () => {
+    it("should return Simple Calendar's defaults when nothing is stored", () => {
+      expect(getGeneralSettings()).toEqual(DEFAULT_GENERAL_SETTINGS);
+    });
+
+    it('should fall back to defaults when settings cannot be read', () => {
+      (global as any).game.settings.get = () => {
+        throw new Error('not registered');
+      };
+
+      expect(getGeneralSettings()).toEqual(DEFAULT_GENERAL_SETTINGS);
+    });
+
+    it('should ignore empty formats and unknown choices', () => {
+      stored.set(`${MODULE_ID}.dateFormatDate`, '  ');
+      stored.set(`${MODULE_ID}.gameWorldTimeIntegration`, 'sometimes');
+      stored.set(`${MODULE_ID}.showClock`, 'yes');
+
+      const settings = getGeneralSettings();
+      expect(settings.dateFormat.date).toBe('MMMM DD, YYYY');
+      expect(settings.gameWorldTimeIntegration).toBe('mixed');
+      expect(settings.showClock).toBe(true);
+    });
+  });
+
+  describe('setGeneralSettings()', () => {
+    it('should store nested fields as individual world settings', async () => {
+      await setGeneralSettings({
+        showClock: false,
+        dateFormat: {
+          date: 'DD/MM/YYYY',
+          time: 'h:mm A',
+          monthYear: 'MMMM YYYY',
+          chatTime: 'DD/MM',
+        },
+      });
+
+      expect(stored.get(`${MODULE_ID}.showClock`)).toBe(false);
+      expect(stored.get(`${MODULE_ID}.dateFormatDate`)).toBe('DD/MM/YYYY');
+      expect(stored.has(`${MODULE_ID}.pf2eSync`)).toBe(false);
+      expect(getGeneralSettings().dateFormat).toEqual({
+        date: 'DD/MM/YYYY',
+        time: 'h:mm A',
+        monthYear: 'MMMM YYYY',
+        chatTime: 'DD/MM',
+      });
+    });
+  });
+
+  describe('registerSettings()', () => {
+    it('should register a world setting per field and a settings menu', () => {
+      (global as any).FormApplication = class {};
+      registerSettings();
+
+      const { register, registerMenu } = (global as any).game.settings;
+      const keys = register.mock.calls.map((call: any[]) => call[1]);
+      expect(keys).toEqual([
+        'gameWorldTimeIntegration',
+        'showClock',
+        'noteDefaultVisibility',
+        'postNoteRemindersOnFoundryLoad',
+        'pf2eSync',
+        'dateFormatDate',
+        'dateFormatTime',
+        'dateFormatMonthYear',
+        'dateFormatChatTime',
+        'compactViewControlLayout',
+        'gameTimeRatio',
+        'updateFrequency',
+        'unifyGameAndClockPause',
+        'pauseClockDuringCombat',
+        'clockRunning',
+        'settingsImportOffered',
+        'calendarProvider',
+      ]);
+      const listed = [
+        'gameTimeRatio',
+        'updateFrequency',
+        'unifyGameAndClockPause',
+        'pauseClockDuringCombat',
+        'calendarProvider',
+      ];
+      for (const [module, key, config] of register.mock.calls) {
+        expect(module).toBe(MODULE_ID);
+        expect(config).toMatchObject({
+          scope: 'world',
+          config: listed.includes(key),
+        });
+      }
+      expect(register.mock.calls[5][2].default).toBe('MMMM DD, YYYY');
+
+      expect(registerMenu).toHaveBeenCalledWith(
+        MODULE_ID,
+        'generalSettingsMenu',
+        expect.objectContaining({ restricted: true, type: expect.any(Function) })
+      );
+    });
+
+    it('should render the settings menu form and save it on submit', async () => {
+      const restore = installFakeFormApplication();
+      (global as any).game.i18n = { localize: (key: string) => key };
+      stored.set(`${MODULE_ID}.dateFormatDate`, 'DD/MM/YYYY');
+      try {
+        registerSettings();
+        const { type: GeneralSettingsForm } = (global as any).game.settings.registerMenu.mock
+          .calls[0][2];
+        const form = await new GeneralSettingsForm().render();
+
+        const elements = form.form.elements;
+        expect(elements.namedItem('dateFormatDate').value).toBe('DD/MM/YYYY');
+        elements.namedItem('dateFormatTime').value = 'h:mm A';
+        elements.namedItem('showClock').checked = false;
+        await form.submit();
+
+        expect(getGeneralSettings()).toMatchObject({
+          showClock: false,
+          dateFormat: { date: 'DD/MM/YYYY', time: 'h:mm A' },
+        });
+        expect(form.closed).toBe(true);
+      } finally {
+        restore();
+        delete (global as any).game.i18n;
+      }
+    });
+  });
+
+  describe('SimpleCalendarAPIBridge', () => {
+    beforeEach(() => {
+      stored.set(`${MODULE_ID}.dateFormatDate`, 'dddd DO MMMM YYYY');
+      stored.set(`${MODULE_ID}.dateFormatTime`, 'h:mm A');
+      stored.set(`${MODULE_ID}.gameWorldTimeIntegration`, 'self');
+      stored.set(`${MODULE_ID}.showClock`, false);
+    });
+
+    it('should report the configured settings from getCurrentCalendar()', () => {
+      const general = createBridge().getCurrentCalendar().general;
+
+      expect(general.gameWorldTimeIntegration).toBe('self');
+      expect(general.showClock).toBe(false);
+      expect(general.dateFormat).toEqual({
+        ...DEFAULT_GENERAL_SETTINGS.dateFormat,
+        date: 'dddd DO MMMM YYYY',
+        time: 'h:mm A',
+      });
+    });
+
+    it('should use day-first dates and 12-hour time in currentDateTimeDisplay()', () => {
+      const display = createBridge().currentDateTimeDisplay();
+
+      expect(display?.date).toBe('Monday 3rd March 2024');
+      expect(display?.time).toBe('2:05 PM');
+    });
+
+    it('should use the configured formats in timestampToDate().display', () => {
+      const display = createBridge().timestampToDate(0)?.display;
+
+      expect(display?.date).toBe('Monday 3rd March 2024');
+      expect(display?.time).toBe('2:05 PM');
+      expect(display?.monthName).toBe('March');
+    });
+
+    it('should use the default formats when nothing is configured', () => {
+      stored.clear();
+      const display = createBridge().timestampToDate(0)?.display;
+
+      expect(display?.date).toBe('March 03, 2024');
+      expect(display?.time).toBe('14:05:09');
+    });
+  });
+});
@@ -148,11 +148,12 @@ describe('Simple Calendar API Bridge - Simple Getters', () => {
   });
 
   describe('getCurrentCalendar()', () => {
-    it('should return null when S&S not available', () => {
+    it('should return the built-in calendar when S&S not available', () => {
       api = new SimpleCalendarAPIBridge();
       const result = api.getCurrentCalendar();
 
-      expect(result).toBeNull();
+      expect(result).toMatchObject({ id: 'gregorian', name: 'Gregorian Calendar' });
+      expect(result.currentDate).toEqual({ year: 1970, month: 0, day: 0, seconds: 12345 });
     });
 
     it('should return null when S&S returns null calendar', () => {
@@ -256,6 +257,7 @@ describe('Simple Calendar API Bridge - Simple Getters', () => {
           },
         },
         months: [],
+        intercalary: [],
         weekdays: [],
         year: { prefix: '', suffix: '', epoch: 0 },
         time: { hoursInDay: 24, minutesInHour: 60, secondsInMinute: 60 },
@@ -346,6 +348,7 @@ describe('Simple Calendar API Bridge - Simple Getters', () => {
           },
         },
         months: [{ name: 'Hammer', length: 30 }],
+        intercalary: [],
         weekdays: [{ name: 'Moonsday' }],
         year: { prefix: '', suffix: ' DR', epoch: 1372 },
         time: { hoursInDay: 24, minutesInHour: 60, secondsInMinute: 60 },
@@ -592,11 +595,16 @@ describe('Simple Calendar API Bridge - Simple Getters', () => {
   });
 
   describe('getAllMonths()', () => {
-    it('should return empty array when S&S not available', () => {
+    it('should return the built-in months when S&S not available', () => {
       api = new SimpleCalendarAPIBridge();
       const result = api.getAllMonths();
 
-      expect(result).toEqual([]);
+      expect(result).toHaveLength(12);
+      expect(result[1]).toMatchObject({
+        name: 'February',
+        numberOfDays: 28,
+        numberOfLeapYearDays: 29,
+      });
     });
 
     it('should convert calendar months to Simple Calendar format', () => {
@@ -729,11 +737,19 @@ describe('Simple Calendar API Bridge - Simple Getters', () => {
   });
 
   describe('getAllWeekdays()', () => {
-    it('should return empty array when S&S not available', () => {
+    it('should return the built-in weekdays when S&S not available', () => {
       api = new SimpleCalendarAPIBridge();
       const result = api.getAllWeekdays();
 
-      expect(result).toEqual([]);
+      expect(result.map(weekday => weekday.abbreviation)).toEqual([
+        'Sun',
+        'Mon',
+        'Tue',
+        'Wed',
+        'Thu',
+        'Fri',
+        'Sat',
+      ]);
     });
 
     it('should convert calendar weekdays to Simple Calendar format', () => {
@@ -0,0 +1,72 @@
+/**
+ * Tests for the built-in calendar provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StandaloneProvider } from '../src/providers/standalone';
+
+const DAY = 86400;
+
+describe('StandaloneProvider', () => {
+  let provider: StandaloneProvider;
+  const originalTime = (global as any).game.time;
+
+  beforeEach(() => {
+    (global as any).game.time = { worldTime: 0, advance: vi.fn() };
+    provider = new StandaloneProvider();
+  });
+
+  afterEach(() => {
+    (global as any).game.time = originalTime;
+  });
+
+  describe('date conversion', () => {
+    it('should read world time on the Gregorian calendar', () => {
+      const timestamp = Date.UTC(2024, 1, 29, 13, 45, 30) / 1000;
+
+      expect(provider.worldTimeToDate(timestamp)).toEqual({
+        year: 2024,
+        month: 2,
+        day: 29,
+        weekday: 4,
+        time: { hour: 13, minute: 45, second: 30 },
+      });
+      expect(provider.dateToWorldTime(provider.worldTimeToDate(timestamp))).toBe(timestamp);
+    });
+
+    it('should read the current date from world time', () => {
+      (global as any).game.time.worldTime = 3 * DAY;
+
+      expect(provider.getCurrentDate()).toMatchObject({ year: 1970, month: 1, day: 4 });
+    });
+  });
+
+  describe('calendar metadata', () => {
+    it('should expose Gregorian months, weekdays and seasons', () => {
+      expect(provider.getMonthNames()).toHaveLength(12);
+      expect(provider.getWeekdayNames()[0]).toBe('Sunday');
+      expect(provider.getActiveCalendar().id).toBe('gregorian');
+      expect(provider.getSeasonInfo({ year: 2024, month: 7, day: 4, weekday: 0 })).toEqual({
+        icon: 'summer',
+        name: 'Summer',
+      });
+    });
+
+    it('should format dates with Simple Calendar format tokens', () => {
+      const date = provider.worldTimeToDate(Date.UTC(2024, 6, 4, 9, 5) / 1000);
+
+      expect(provider.formatDate(date, { format: 'dddd DO MMMM YYYY' })).toBe(
+        'Thursday 4th July 2024'
+      );
+      expect(provider.formatDate(date, { timeOnly: true })).toBe('09:05');
+    });
+  });
+
+  it('should advance Foundry world time', async () => {
+    await provider.advanceDays(2);
+    await provider.advanceHours(3);
+    await provider.advanceMinutes(4);
+
+    expect((global as any).game.time.advance.mock.calls).toEqual([[2 * DAY], [3 * 3600], [4 * 60]]);
+  });
+});
@@ -6,6 +6,21 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { SimpleCalendarAPIBridge } from '../src/api/simple-calendar-api';
 
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
 describe('Simple Calendar API Bridge - Timestamp Methods', () => {
   let api: SimpleCalendarAPIBridge;
 
@@ -18,15 +33,14 @@ describe('Simple Calendar API Bridge - Timestamp Methods', () => {
       api = new SimpleCalendarAPIBridge();
       const result = api.timestampToDate(86400); // 1 day
 
-      expect(result).toEqual({
-        year: 2023,
+      expect(result).toMatchObject({
+        year: 1970,
         month: 0,
         day: 1, // 1 day elapsed (0-based)
         hour: 0,
         minute: 0,
         seconds: 0,
-        weekdays: [],
-        dayOfTheWeek: 0,
+        dayOfTheWeek: 5,
       });
     });
 
@@ -42,15 +56,12 @@ describe('Simple Calendar API Bridge - Timestamp Methods', () => {
             weekday: 3,
             time: { hour: 12, minute: 30, second: 45 },
           }),
-          formatDate: (date: any, options: any) => {
-            if (options.format === '{{month.name}}') return 'June';
-            return '';
-          },
+          formatDate: vi.fn(),
           getCurrentDate: vi.fn(),
           dateToWorldTime: vi.fn(),
           setActiveCalendar: vi.fn(),
           getAvailableCalendars: vi.fn(),
-          getMonthNames: vi.fn(),
+          getMonthNames: () => MONTH_NAMES,
           getWeekdayNames: () => ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
           getActiveCalendar: vi.fn(),
         },
@@ -87,7 +98,7 @@ describe('Simple Calendar API Bridge - Timestamp Methods', () => {
         dayOfTheWeek: 3,
         display: {
           date: 'June 15, 2024', // Simple Weather expects formatted date string
-          time: '12:30',         // Simple Weather expects formatted time string
+          time: '12:30:45',      // Simple Weather expects formatted time string (default HH:mm:ss format)
           monthName: 'June',
           day: '15',
           year: '2024',
@@ -137,15 +148,14 @@ describe('Simple Calendar API Bridge - Timestamp Methods', () => {
       const result = api.timestampToDate(86400);
 
       // Should fall back to basic calculation
-      expect(result).toEqual({
-        year: 2023,
+      expect(result).toMatchObject({
+        year: 1970,
         month: 0,
         day: 1,
         hour: 0,
         minute: 0,
         seconds: 0,
-        weekdays: [],
-        dayOfTheWeek: 0,
+        dayOfTheWeek: 5,
       });
       expect(consoleSpy).toHaveBeenCalledWith(
         '🌉 Failed to convert timestamp to Simple Calendar date:',
@@ -167,15 +177,12 @@ describe('Simple Calendar API Bridge - Timestamp Methods', () => {
             weekday: 1, // Monday
             time: { hour: 8, minute: 15, second: 0 },
           }),
-          formatDate: (date: any, options: any) => {
-            if (options.format === '{{month.name}}') return 'March';
-            return '';
-          },
+          formatDate: vi.fn(),
           getCurrentDate: vi.fn(),
           dateToWorldTime: vi.fn(),
           setActiveCalendar: vi.fn(),
           getAvailableCalendars: vi.fn(),
-          getMonthNames: vi.fn(),
+          getMonthNames: () => MONTH_NAMES,
           getWeekdayNames: () => ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
           getActiveCalendar: vi.fn(),
         },
@@ -217,7 +224,7 @@ describe('Simple Calendar API Bridge - Timestamp Methods', () => {
         dayOfTheWeek: 1,
         display: {
           date: 'March 25, 2024',
-          time: '8:15',
+          time: '08:15:00',
           monthName: 'March',
           day: '25',
           year: '2024',
@@ -232,15 +239,14 @@ describe('Simple Calendar API Bridge - Timestamp Methods', () => {
       const timestamp = 2 * 86400 + 5 * 3600 + 30 * 60 + 45;
       const result = api.timestampToDate(timestamp);
 
-      expect(result).toEqual({
-        year: 2023,
+      expect(result).toMatchObject({
+        year: 1970,
         month: 0,
         day: 2,
         hour: 5,
         minute: 30,
         seconds: 45,
-        weekdays: [],
-        dayOfTheWeek: 0,
+        dayOfTheWeek: 6,
       });
     });
   });
@@ -301,18 +307,25 @@ describe('Simple Calendar API Bridge - Timestamp Methods', () => {
       expect(result).toBe(expected);
     });
 
-    it('should add years using fallback arithmetic (365 days)', () => {
+    it('should add years using the built-in calendar', () => {
       api = new SimpleCalendarAPIBridge();
       const result = api.timestampPlusInterval(0, { year: 1 });
 
       expect(result).toBe(365 * 86400); // 1 year ≈ 365 days
     });
 
-    it('should add months using fallback arithmetic (30 days)', () => {
+    it('should add months using the built-in calendar month lengths', () => {
       api = new SimpleCalendarAPIBridge();
       const result = api.timestampPlusInterval(0, { month: 2 });
 
-      expect(result).toBe(2 * 30 * 86400); // 2 months ≈ 60 days
+      expect(result).toBe((31 + 28) * 86400); // January and February 1970
+    });
+
+    it('should clamp the day when adding months without S&S', () => {
+      api = new SimpleCalendarAPIBridge();
+      const jan31 = Date.UTC(2024, 0, 31) / 1000;
+
+      expect(api.timestampPlusInterval(jan31, { month: 1 })).toBe(Date.UTC(2024, 1, 29) / 1000);
     });
 
     it('should use S&S API for calendar-aware interval calculation', () => {